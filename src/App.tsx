@@ -12,6 +12,8 @@ import SignUp from './pages/SignUp'
 import Dashboard from './pages/Dashboard'
 import Disparos from './pages/Disparos'
 import DisparoDetalhes from './pages/DisparoDetalhes'
+import Sequencias from './pages/Sequencias'
+import SequenciaDetalhes from './pages/SequenciaDetalhes'
 import Settings from './pages/Settings'
 import NotFound from './pages/NotFound'
 import Layout from './components/Layout'
@@ -40,6 +42,8 @@ const App = () => {
               <Route path="/dashboard" element={<Dashboard />} />
               <Route path="/disparos" element={<Disparos />} />
               <Route path="/disparos/:id" element={<DisparoDetalhes />} />
+              <Route path="/sequencias" element={<Sequencias />} />
+              <Route path="/sequencias/:id" element={<SequenciaDetalhes />} />
               <Route path="/settings" element={<Settings />} />
             </Route>
             <Route path="*" element={<NotFound />} />
@@ -4,6 +4,7 @@ import {
   Home,
   PlusCircle,
   History,
+  ListOrdered,
   LogOut,
   User as UserIcon,
   Settings,
@@ -109,6 +110,11 @@ export function AppSidebar() {
       url: '/disparos',
       icon: History,
     },
+    {
+      title: 'Sequências',
+      url: '/sequencias',
+      icon: ListOrdered,
+    },
     {
       title: 'Configurações',
       url: '/settings',
@@ -0,0 +1,282 @@
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  AB_WINNER_METRIC_LABELS,
+  AbTestSetup,
+  AbWinnerMetric,
+  DEFAULT_AB_TEST_SLICE,
+  evenSplits,
+  MAX_VARIANTS,
+  MIN_VARIANTS,
+  testSliceSize,
+  VARIANT_LABELS,
+  VariantDraft,
+} from '@/lib/ab-testing'
+
+interface AbTestFieldsProps {
+  value: AbTestSetup
+  onChange: (setup: AbTestSetup) => void
+  // Recipients of the campaign, for the sample size
+  recipients: number
+  disabled?: boolean
+}
+
+const METRIC_OPTIONS = Object.entries(AB_WINNER_METRIC_LABELS) as [
+  AbWinnerMetric,
+  string,
+][]
+
+function clampInt(value: string, min: number, max: number) {
+  return Math.min(max, Math.max(min, Math.floor(Number(value)) || min))
+}
+
+export function AbTestFields({
+  value,
+  onChange,
+  recipients,
+  disabled,
+}: AbTestFieldsProps) {
+  const { variants, testSlice } = value
+  const splitTotal = variants.reduce((sum, variant) => sum + variant.split, 0)
+
+  // Labels follow the order, so removing B turns C into the new B
+  const setVariants = (next: VariantDraft[]) =>
+    onChange({
+      ...value,
+      variants: next.map((variant, index) => ({
+        ...variant,
+        label: VARIANT_LABELS[index],
+      })),
+    })
+
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) =>
+    setVariants(
+      variants.map((variant, i) =>
+        i === index ? { ...variant, ...changes } : variant,
+      ),
+    )
+
+  const withEvenSplits = (next: VariantDraft[]) => {
+    const splits = evenSplits(next.length)
+    return next.map((variant, index) => ({ ...variant, split: splits[index] }))
+  }
+
+  const sampleSize = testSlice
+    ? testSliceSize(recipients, testSlice.testPercent, variants.length)
+    : recipients
+
+  return (
+    <div className="space-y-4">
+      {variants.map((variant, index) => (
+        <div key={variant.label} className="rounded-md border p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">Variação {variant.label}</span>
+            <div className="flex items-center gap-2">
+              <Input
+                aria-label={`Porcentagem da variação ${variant.label}`}
+                type="number"
+                min={1}
+                max={100}
+                className="w-20"
+                value={variant.split}
+                disabled={disabled}
+                onChange={(e) =>
+                  updateVariant(index, {
+                    split: clampInt(e.target.value, 1, 100),
+                  })
+                }
+              />
+              <span className="text-sm text-muted-foreground">%</span>
+              {variants.length > MIN_VARIANTS && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  onClick={() =>
+                    setVariants(
+                      withEvenSplits(variants.filter((_, i) => i !== index)),
+                    )
+                  }
+                  disabled={disabled}
+                  title="Remover variação"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+          <Textarea
+            aria-label={`Mensagem da variação ${variant.label}`}
+            rows={3}
+            placeholder="Olá {{primeiro_nome}}, ..."
+            value={variant.message}
+            disabled={disabled}
+            onChange={(e) => updateVariant(index, { message: e.target.value })}
+          />
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-2">
+          {variants.length < MAX_VARIANTS && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setVariants(
+                  withEvenSplits([
+                    ...variants,
+                    { label: '', message: '', split: 0 },
+                  ]),
+                )
+              }
+              disabled={disabled}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Adicionar variação
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setVariants(withEvenSplits(variants))}
+            disabled={disabled}
+          >
+            Dividir igualmente
+          </Button>
+        </div>
+        <span
+          className={
+            splitTotal === 100
+              ? 'text-sm text-muted-foreground'
+              : 'text-sm text-destructive'
+          }
+        >
+          Total: {splitTotal}%
+        </span>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        As variações substituem a mensagem da planilha e aceitam as mesmas
+        variáveis e spintax. Cada contato recebe uma variação sorteada.
+      </p>
+
+      <div className="flex items-center justify-between gap-4 border-t pt-4">
+        <Label htmlFor="ab-test-slice" className="text-sm">
+          Testar primeiro em uma amostra e enviar a vencedora para o restante
+        </Label>
+        <Switch
+          id="ab-test-slice"
+          checked={!!testSlice}
+          onCheckedChange={(checked) =>
+            onChange({
+              ...value,
+              testSlice: checked ? DEFAULT_AB_TEST_SLICE : null,
+            })
+          }
+          disabled={disabled}
+        />
+      </div>
+
+      {testSlice && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label
+              htmlFor="ab-test-percent"
+              className="text-xs uppercase text-muted-foreground"
+            >
+              Amostra (%)
+            </Label>
+            <Input
+              id="ab-test-percent"
+              type="number"
+              min={1}
+              max={99}
+              value={testSlice.testPercent}
+              disabled={disabled}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  testSlice: {
+                    ...testSlice,
+                    testPercent: clampInt(e.target.value, 1, 99),
+                  },
+                })
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label
+              htmlFor="ab-test-window"
+              className="text-xs uppercase text-muted-foreground"
+            >
+              Avaliar por (horas)
+            </Label>
+            <Input
+              id="ab-test-window"
+              type="number"
+              min={1}
+              max={168}
+              value={Math.round(testSlice.evaluationMinutes / 60)}
+              disabled={disabled}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  testSlice: {
+                    ...testSlice,
+                    evaluationMinutes: clampInt(e.target.value, 1, 168) * 60,
+                  },
+                })
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs uppercase text-muted-foreground">
+              Vencedora
+            </Label>
+            <Select
+              value={testSlice.metric}
+              onValueChange={(metric) =>
+                onChange({
+                  ...value,
+                  testSlice: { ...testSlice, metric: metric as AbWinnerMetric },
+                })
+              }
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {METRIC_OPTIONS.map(([metric, label]) => (
+                  <SelectItem key={metric} value={metric}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="md:col-span-3 text-xs text-muted-foreground">
+            {sampleSize} de {recipients} contatos recebem as variações. Depois
+            que a amostra for enviada, a campanha espera o tempo de avaliação e
+            envia a variação vencedora aos outros {recipients - sampleSize}.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import * as z from 'zod'
@@ -14,6 +14,10 @@ import {
   PauseCircle,
   AlertCircle,
   CalendarClock,
+  RotateCcw,
+  ShieldAlert,
+  Gauge,
+  Smartphone,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
@@ -49,6 +53,7 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip'
 import { Switch } from '@/components/ui/switch'
+import { Label } from '@/components/ui/label'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { campaignsService, Campaign } from '@/services/campaigns'
 import { toast } from 'sonner'
@@ -56,12 +61,68 @@ import { useAuth } from '@/hooks/use-auth'
 import { CampaignConfirmationStep } from './CampaignConfirmationStep'
 import {
   calculateCampaignSchedule,
+  estimateCampaignEndTime,
   ScheduleConfig,
   ScheduledMessage,
   checkScheduleConflict,
   ConflictResult,
 } from '@/lib/campaign-utils'
 import { contactsService, Contact } from '@/services/contacts'
+import { MediaAttachment } from '@/lib/media'
+import { MediaAttachmentField } from './MediaAttachmentField'
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from '@/lib/retry'
+import { RetryPolicyFields } from './RetryPolicyFields'
+import {
+  CircuitBreakerConfig,
+  DEFAULT_CIRCUIT_BREAKER,
+} from '@/lib/circuit-breaker'
+import { buildCampaignConfig } from '@/lib/campaign-config'
+import { CircuitBreakerFields } from './CircuitBreakerFields'
+import { profileService } from '@/services/profile'
+import {
+  DEFAULT_TIMEZONE,
+  getZonedParts,
+  parseCalendarDate,
+  resolveTimeZone,
+  zonedDateKey,
+  zonedTimeToUtc,
+} from '@/lib/timezone'
+import { TimezoneSelect } from './TimezoneSelect'
+import {
+  DEFAULT_WEEKLY_WINDOWS,
+  hasAnyWindow,
+  isWithinSendingWindow,
+  summarizeWeeklyWindows,
+  WeeklyWindows,
+} from '@/lib/sending-windows'
+import { SendingWindowsEditor } from './SendingWindowsEditor'
+import {
+  BlackoutCalendar,
+  EMPTY_BLACKOUT_CALENDAR,
+  getBlackoutReason,
+} from '@/lib/blackout'
+import { blackoutService } from '@/services/blackout'
+import { AccountSendingLimits, parseAccountLimits } from '@/lib/daily-caps'
+import { DailyLimitFields } from './DailyLimitFields'
+import {
+  DEFAULT_SENDER_THROUGHPUT,
+  parseSenderThroughput,
+  SenderThroughput,
+} from '@/lib/throughput'
+import {
+  campaignSenders,
+  DEFAULT_SENDER_ROTATION,
+  SenderRotation,
+} from '@/lib/sender-pool'
+import { whatsappService, WhatsAppConnection } from '@/services/whatsapp'
+import { SenderRotationFields } from './SenderRotationFields'
+import {
+  DEFAULT_RECURRENCE,
+  nextRun,
+  RecurrenceRule,
+  validateRecurrence,
+} from '@/lib/recurrence'
+import { RecurrenceFields } from './RecurrenceFields'
 
 const formSchema = z
   .object({
@@ -70,7 +131,7 @@ const formSchema = z
       .number()
       .min(5, 'O intervalo mínimo deve ser de pelo menos 5 segundos'),
     maxInterval: z.coerce.number(),
-    scheduleType: z.enum(['immediate', 'scheduled']),
+    scheduleType: z.enum(['immediate', 'scheduled', 'recurring']),
     scheduledDate: z.date().optional(),
     scheduledTime: z.string().optional(),
 
@@ -80,8 +141,6 @@ const formSchema = z
     batchPauseMax: z.coerce.number().optional(),
 
     businessHoursStrategy: z.enum(['ignore', 'pause']).default('ignore'),
-    businessHoursPauseTime: z.string().default('18:00'),
-    businessHoursResumeTime: z.string().default('08:00'),
 
     // New Automatic Pause fields
     automaticPause: z.boolean().default(false),
@@ -121,18 +180,6 @@ const formSchema = z
       path: ['batchSize'],
     },
   )
-  .refine(
-    (data) => {
-      if (data.businessHoursStrategy === 'pause') {
-        return !!data.businessHoursPauseTime && !!data.businessHoursResumeTime
-      }
-      return true
-    },
-    {
-      message: 'Defina os horários de pausa e retomada',
-      path: ['businessHoursPauseTime'],
-    },
-  )
   .refine(
     (data) => {
       if (data.automaticPause) {
@@ -167,6 +214,30 @@ export function BulkSendModal({
   >([])
   const [schedule, setSchedule] = useState<ScheduledMessage[]>([])
   const [config, setConfig] = useState<ScheduleConfig | null>(null)
+  const [media, setMedia] = useState<MediaAttachment | null>(null)
+  const [retryPolicy, setRetryPolicy] =
+    useState<RetryPolicy>(DEFAULT_RETRY_POLICY)
+  const [circuitBreaker, setCircuitBreaker] = useState<CircuitBreakerConfig>(
+    DEFAULT_CIRCUIT_BREAKER,
+  )
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE)
+  const [sendingWindows, setSendingWindows] = useState<WeeklyWindows>(
+    DEFAULT_WEEKLY_WINDOWS,
+  )
+  const [blackout, setBlackout] = useState<BlackoutCalendar>(
+    EMPTY_BLACKOUT_CALENDAR,
+  )
+  const [dailyLimit, setDailyLimit] = useState<number | null>(null)
+  const [accountLimits, setAccountLimits] = useState<AccountSendingLimits>()
+  const [senderRotation, setSenderRotation] = useState<SenderRotation>(
+    DEFAULT_SENDER_ROTATION,
+  )
+  const [senders, setSenders] = useState<WhatsAppConnection[]>([])
+  const [recurrence, setRecurrence] =
+    useState<RecurrenceRule>(DEFAULT_RECURRENCE)
+  const [throughput, setThroughput] = useState<SenderThroughput>(
+    DEFAULT_SENDER_THROUGHPUT,
+  )
 
   // Validation State
   const [existingCampaigns, setExistingCampaigns] = useState<
@@ -190,8 +261,6 @@ export function BulkSendModal({
       batchPauseMin: 300,
       batchPauseMax: 600,
       businessHoursStrategy: 'ignore',
-      businessHoursPauseTime: '18:00',
-      businessHoursResumeTime: '08:00',
       automaticPause: false,
     },
   })
@@ -208,8 +277,6 @@ export function BulkSendModal({
     batchPauseMin,
     batchPauseMax,
     businessHoursStrategy,
-    businessHoursPauseTime,
-    businessHoursResumeTime,
     automaticPause,
     pauseTime,
     resumeDate,
@@ -223,8 +290,47 @@ export function BulkSendModal({
       setOrderedContacts([])
       setSchedule([])
       setConfig(null)
+      setMedia(null)
+      setRetryPolicy(DEFAULT_RETRY_POLICY)
+      setCircuitBreaker(DEFAULT_CIRCUIT_BREAKER)
+      setTimezone(DEFAULT_TIMEZONE)
+      setSendingWindows(DEFAULT_WEEKLY_WINDOWS)
+      setBlackout(EMPTY_BLACKOUT_CALENDAR)
+      setDailyLimit(null)
+      setAccountLimits(undefined)
+      setSenderRotation(DEFAULT_SENDER_ROTATION)
+      setSenders([])
+      setRecurrence(DEFAULT_RECURRENCE)
+      setThroughput(DEFAULT_SENDER_THROUGHPUT)
       setConflict({ hasConflict: false })
 
+      if (user) {
+        profileService
+          .get(user.id)
+          .then((profile) => {
+            setTimezone(resolveTimeZone(profile?.timezone))
+            setAccountLimits(parseAccountLimits(profile))
+            setThroughput(parseSenderThroughput(profile))
+          })
+          .catch((err) => {
+            console.error('Failed to load profile timezone', err)
+          })
+
+        blackoutService
+          .getCalendar(user.id)
+          .then(setBlackout)
+          .catch((err) => {
+            console.error('Failed to load blackout dates', err)
+          })
+
+        whatsappService
+          .getConnections(user.id)
+          .then(setSenders)
+          .catch((err) => {
+            console.error('Failed to load sender numbers', err)
+          })
+      }
+
       campaignsService
         .getActiveAndScheduled()
         .then((data) => {
@@ -234,41 +340,56 @@ export function BulkSendModal({
           console.error('Failed to load campaigns for validation', err)
         })
     }
-  }, [open, form])
+  }, [open, form, user])
 
+  // The picked day and hour are wall-clock time in the campaign's zone
   const getStartTime = () => {
-    if (scheduleType === 'scheduled' && scheduledDate && scheduledTime) {
+    const day = parseCalendarDate(scheduledDate)
+    if (scheduleType === 'scheduled' && day && scheduledTime) {
       const [hours, minutes] = scheduledTime.split(':').map(Number)
-      const date = new Date(scheduledDate)
-      date.setHours(hours, minutes)
-      return date
+      return zonedTimeToUtc({ ...day, hour: hours, minute: minutes }, timezone)
+    }
+    // A recurring campaign is previewed from its first run
+    if (scheduleType === 'recurring') {
+      return nextRun(recurrence, new Date(), timezone, 0) ?? new Date()
     }
     return new Date()
   }
 
+  // Active numbers the campaign will rotate through
+  const campaignNumbers = useMemo(
+    () => campaignSenders(senderRotation, senders),
+    [senderRotation, senders],
+  )
+
+  // The form as it stands, for the live ETA and conflict check
+  const getCurrentConfig = (): ScheduleConfig => ({
+    minInterval: Number(minInterval),
+    maxInterval: Number(maxInterval),
+    useBatching: !!useBatching,
+    batchSize: Number(batchSize),
+    batchPauseMin: Number(batchPauseMin),
+    batchPauseMax: Number(batchPauseMax),
+    businessHoursStrategy: businessHoursStrategy as 'ignore' | 'pause',
+    sendingWindows,
+    automaticPause,
+    pauseTime,
+    resumeDate,
+    resumeTime,
+    startTime: getStartTime(),
+    timezone,
+    blackout,
+    dailyLimit,
+    accountLimits,
+    throughput,
+    senders: campaignNumbers,
+  })
+
   useEffect(() => {
     if (!open || existingCampaigns.length === 0) return
 
-    const startTime = getStartTime()
-    const currentConfig: ScheduleConfig = {
-      minInterval: Number(minInterval),
-      maxInterval: Number(maxInterval),
-      useBatching: !!useBatching,
-      batchSize: Number(batchSize),
-      batchPauseMin: Number(batchPauseMin),
-      batchPauseMax: Number(batchPauseMax),
-      businessHoursStrategy: businessHoursStrategy as 'ignore' | 'pause',
-      businessHoursPauseTime,
-      businessHoursResumeTime,
-      automaticPause,
-      pauseTime,
-      resumeDate,
-      resumeTime,
-      startTime,
-    }
-
     const result = checkScheduleConflict(
-      currentConfig,
+      getCurrentConfig(),
       selectedContactIds.length,
       existingCampaigns as any[],
     )
@@ -288,17 +409,32 @@ export function BulkSendModal({
     batchPauseMin,
     batchPauseMax,
     businessHoursStrategy,
-    businessHoursPauseTime,
-    businessHoursResumeTime,
+    sendingWindows,
     automaticPause,
     pauseTime,
     resumeDate,
     resumeTime,
+    timezone,
+    blackout,
+    dailyLimit,
+    accountLimits,
+    throughput,
+    campaignNumbers,
+    recurrence,
   ])
 
   const count = selectedContactIds.length
-  const avgInterval = (Number(minInterval) + Number(maxInterval)) / 2
-  const estimatedTime = Math.max(0, count - 1) * avgInterval
+  // Same schedule the confirmation step shows, so batch pauses, sending
+  // windows and the automatic pause all count
+  const currentConfig = getCurrentConfig()
+  const estimatedEnd =
+    count > 1
+      ? estimateCampaignEndTime(currentConfig, count)
+      : currentConfig.startTime
+  const estimatedTime = Math.max(
+    0,
+    (estimatedEnd.getTime() - currentConfig.startTime.getTime()) / 1000,
+  )
 
   const formattedEstimatedTime = () => {
     if (count <= 1) return '0s (Imediato)'
@@ -314,18 +450,42 @@ export function BulkSendModal({
     return `${minutes} min ${seconds}s`
   }
 
-  const isOutsideBusinessHours = () => {
-    const start = getStartTime()
-    const hours = start.getHours()
-    return hours < 8 || hours >= 18
+  const formattedEstimatedEnd = () => {
+    const p = getZonedParts(estimatedEnd, timezone)
+    return format(
+      new Date(p.year, p.month - 1, p.day, p.hour, p.minute),
+      "dd/MM 'às' HH:mm",
+      { locale: ptBR },
+    )
   }
 
+  const startBlackoutReason = getBlackoutReason(
+    zonedDateKey(currentConfig.startTime, timezone),
+    blackout,
+  )
+
+  const isOutsideBusinessHours = () =>
+    !isWithinSendingWindow(getStartTime(), sendingWindows, timezone)
+
   const onSubmit = async (values: z.infer<typeof formSchema>) => {
-    if (conflict.hasConflict) {
-      toast.error('Corrija o conflito de agendamento antes de prosseguir.')
+    if (
+      values.businessHoursStrategy === 'pause' &&
+      !hasAnyWindow(sendingWindows)
+    ) {
+      toast.error('Defina ao menos uma janela de envio')
       return
     }
 
+    if (values.scheduleType === 'recurring') {
+      const recurrenceError = validateRecurrence(recurrence)
+      if (recurrenceError || !nextRun(recurrence, new Date(), timezone, 0)) {
+        toast.error(
+          recurrenceError ?? 'A recorrência não tem nenhuma execução futura',
+        )
+        return
+      }
+    }
+
     setIsLoading(true)
     try {
       const fetchedContacts = await contactsService.getByIds(selectedContactIds)
@@ -342,18 +502,26 @@ export function BulkSendModal({
         batchPauseMin: values.batchPauseMin,
         batchPauseMax: values.batchPauseMax,
         businessHoursStrategy: values.businessHoursStrategy,
-        businessHoursPauseTime: values.businessHoursPauseTime,
-        businessHoursResumeTime: values.businessHoursResumeTime,
+        sendingWindows,
         automaticPause: values.automaticPause,
         pauseTime: values.pauseTime,
         resumeDate: values.resumeDate,
         resumeTime: values.resumeTime,
         startTime: startTime,
+        timezone,
+        blackout,
+        dailyLimit,
+        accountLimits,
+        throughput,
+        senders: campaignNumbers,
       }
 
+      // Drawn once here: the confirmation shows this plan and the campaign
+      // is launched with it
       const calculatedSchedule = calculateCampaignSchedule(
         scheduleConfig,
         selectedContactIds.length,
+        Math.random,
       )
 
       setOrderedContacts(alignedContacts)
@@ -379,45 +547,52 @@ export function BulkSendModal({
       const values = form.getValues()
       let scheduledAt = config.startTime.toISOString()
 
-      const campaignConfig = {
-        min_interval: values.minInterval,
-        max_interval: values.maxInterval,
-        batch_config: values.useBatching
-          ? {
-              enabled: true,
-              size: values.batchSize,
-              pause_min: values.batchPauseMin,
-              pause_max: values.batchPauseMax,
-            }
-          : { enabled: false },
-        business_hours: {
-          strategy: values.businessHoursStrategy,
-          pause_at: values.businessHoursPauseTime,
-          resume_at: values.businessHoursResumeTime,
-        },
-        automatic_pause: values.automaticPause
-          ? {
-              enabled: true,
-              pause_at: values.pauseTime,
-              resume_date: values.resumeDate?.toISOString(),
-              resume_time: values.resumeTime,
-            }
-          : { enabled: false },
-      }
+      const campaignConfig = buildCampaignConfig({
+        ...values,
+        sendingWindows,
+        dailyLimit,
+        senderRotation,
+        retryPolicy,
+        circuitBreaker,
+      })
 
-      await campaignsService.create(
+      const isRecurring = values.scheduleType === 'recurring'
+      const campaign = await campaignsService.create(
         {
           name: values.name,
           user_id: user.id,
-          status: values.scheduleType === 'scheduled' ? 'scheduled' : 'active',
+          // Without a next run yet, the worker leaves a recurring campaign
+          // alone until makeRecurring below has set its recipients aside
+          status: isRecurring
+            ? 'recurring'
+            : values.scheduleType === 'scheduled'
+              ? 'scheduled'
+              : 'active',
           total_messages: selectedContactIds.length,
           scheduled_at: scheduledAt,
+          timezone: config.timezone,
           config: campaignConfig,
+          media_url: media?.url ?? null,
+          media_type: media?.type ?? null,
+          media_filename: media?.filename ?? null,
         },
         selectedContactIds,
+        isRecurring ? undefined : schedule.map((item) => item.sendTime),
       )
 
-      toast.success('Campanha iniciada com sucesso!')
+      if (isRecurring) {
+        await campaignsService.makeRecurring(
+          campaign.id,
+          recurrence,
+          config.startTime,
+        )
+      }
+
+      toast.success(
+        isRecurring
+          ? 'Campanha recorrente criada com sucesso!'
+          : 'Campanha iniciada com sucesso!',
+      )
       onSuccess()
       onOpenChange(false)
     } catch (error) {
@@ -472,6 +647,15 @@ export function BulkSendModal({
                     )}
                   />
 
+                  <div className="space-y-2">
+                    <Label>Anexo (opcional)</Label>
+                    <MediaAttachmentField
+                      value={media}
+                      onChange={setMedia}
+                      disabled={isLoading}
+                    />
+                  </div>
+
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                     <FormField
                       control={form.control}
@@ -522,9 +706,16 @@ export function BulkSendModal({
                       Tempo Total Estimado (Médio):
                     </span>
                   </div>
-                  <span className="text-lg font-bold text-primary">
-                    {formattedEstimatedTime()}
-                  </span>
+                  <div className="text-right">
+                    <span className="text-lg font-bold text-primary">
+                      {formattedEstimatedTime()}
+                    </span>
+                    {count > 1 && (
+                      <p className="text-xs text-muted-foreground">
+                        Término previsto: {formattedEstimatedEnd()}
+                      </p>
+                    )}
+                  </div>
                 </div>
 
                 <div className="space-y-4 border rounded-lg p-4 bg-slate-50/50">
@@ -705,18 +896,76 @@ export function BulkSendModal({
                   )}
                 </div>
 
+                <div className="space-y-4 border rounded-lg p-4 bg-slate-50/50">
+                  <div className="flex items-center gap-2 mb-2">
+                    <RotateCcw className="h-5 w-5 text-primary" />
+                    <h3 className="font-semibold text-sm">
+                      Reenvio Automático
+                    </h3>
+                  </div>
+                  <RetryPolicyFields
+                    value={retryPolicy}
+                    onChange={setRetryPolicy}
+                    disabled={isLoading}
+                  />
+                </div>
+
+                <div className="space-y-4 border rounded-lg p-4 bg-slate-50/50">
+                  <div className="flex items-center gap-2 mb-2">
+                    <ShieldAlert className="h-5 w-5 text-primary" />
+                    <h3 className="font-semibold text-sm">
+                      Proteção contra Falhas
+                    </h3>
+                  </div>
+                  <CircuitBreakerFields
+                    value={circuitBreaker}
+                    onChange={setCircuitBreaker}
+                    disabled={isLoading}
+                  />
+                </div>
+
+                <div className="space-y-4 border rounded-lg p-4 bg-slate-50/50">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Gauge className="h-5 w-5 text-primary" />
+                    <h3 className="font-semibold text-sm">Limite Diário</h3>
+                  </div>
+                  <DailyLimitFields
+                    value={dailyLimit}
+                    onChange={setDailyLimit}
+                    accountLimits={accountLimits}
+                    disabled={isLoading}
+                  />
+                </div>
+
+                {senders.length > 1 && (
+                  <div className="space-y-4 border rounded-lg p-4 bg-slate-50/50">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Smartphone className="h-5 w-5 text-primary" />
+                      <h3 className="font-semibold text-sm">
+                        Números de Envio
+                      </h3>
+                    </div>
+                    <SenderRotationFields
+                      value={senderRotation}
+                      onChange={setSenderRotation}
+                      senders={senders}
+                      disabled={isLoading}
+                    />
+                  </div>
+                )}
+
                 <div className="space-y-4 border rounded-lg p-4 bg-slate-50/50">
                   <div className="flex items-center gap-2 mb-2">
                     <Sun className="h-5 w-5 text-orange-500" />
-                    <h3 className="font-semibold text-sm">Horário Comercial</h3>
+                    <h3 className="font-semibold text-sm">Janelas de Envio</h3>
                   </div>
 
                   {isOutsideBusinessHours() && (
                     <div className="bg-amber-50 border-l-4 border-amber-500 p-3 rounded-r-md flex items-start gap-3 mb-4">
                       <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 shrink-0" />
                       <p className="text-xs text-amber-800 font-medium">
-                        O início do disparo está fora do horário comercial (08h
-                        às 18h).
+                        O início do disparo está fora das janelas de envio (
+                        {summarizeWeeklyWindows(sendingWindows)}).
                       </p>
                     </div>
                   )}
@@ -752,7 +1001,7 @@ export function BulkSendModal({
                                 <RadioGroupItem value="pause" />
                               </FormControl>
                               <FormLabel className="font-normal text-sm">
-                                Agendar pausa diária
+                                Enviar apenas nas janelas
                               </FormLabel>
                             </FormItem>
                           </RadioGroup>
@@ -763,32 +1012,11 @@ export function BulkSendModal({
                   />
 
                   {businessHoursStrategy === 'pause' && (
-                    <div className="flex gap-4 ml-7 animate-fade-in-down">
-                      <FormField
-                        control={form.control}
-                        name="businessHoursPauseTime"
-                        render={({ field }) => (
-                          <FormItem className="flex-1">
-                            <FormLabel className="text-xs">Pausar às</FormLabel>
-                            <FormControl>
-                              <Input type="time" {...field} />
-                            </FormControl>
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name="businessHoursResumeTime"
-                        render={({ field }) => (
-                          <FormItem className="flex-1">
-                            <FormLabel className="text-xs">
-                              Retomar às
-                            </FormLabel>
-                            <FormControl>
-                              <Input type="time" {...field} />
-                            </FormControl>
-                          </FormItem>
-                        )}
+                    <div className="ml-7 animate-fade-in-down">
+                      <SendingWindowsEditor
+                        value={sendingWindows}
+                        onChange={setSendingWindows}
+                        disabled={isLoading}
                       />
                     </div>
                   )}
@@ -823,6 +1051,14 @@ export function BulkSendModal({
                                 Agendar
                               </FormLabel>
                             </FormItem>
+                            <FormItem className="flex items-center space-x-2 space-y-0">
+                              <FormControl>
+                                <RadioGroupItem value="recurring" />
+                              </FormControl>
+                              <FormLabel className="font-normal cursor-pointer">
+                                Recorrente
+                              </FormLabel>
+                            </FormItem>
                           </RadioGroup>
                         </FormControl>
                         <FormMessage />
@@ -894,18 +1130,53 @@ export function BulkSendModal({
                       />
                     </div>
                   )}
+
+                  {scheduleType === 'recurring' && (
+                    <div className="animate-fade-in-down p-4 border rounded-md bg-muted/20">
+                      <RecurrenceFields
+                        value={recurrence}
+                        onChange={setRecurrence}
+                        timeZone={timezone}
+                        disabled={isLoading}
+                      />
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="bulk-timezone">Fuso horário</Label>
+                    <TimezoneSelect
+                      id="bulk-timezone"
+                      value={timezone}
+                      onChange={setTimezone}
+                      disabled={isLoading}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Agendamento, horário comercial e pausas seguem este fuso.
+                    </p>
+                  </div>
+
+                  {startBlackoutReason && (
+                    <div className="bg-amber-50 border-l-4 border-amber-500 p-3 rounded-r-md flex items-start gap-3">
+                      <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 shrink-0" />
+                      <p className="text-xs text-amber-800 font-medium">
+                        O início cai em um dia bloqueado ({startBlackoutReason}
+                        ). Os envios começam no próximo dia liberado.
+                      </p>
+                    </div>
+                  )}
                 </div>
 
                 {conflict.hasConflict && (
-                  <Alert variant="destructive" className="animate-fade-in">
-                    <AlertCircle className="h-4 w-4" />
-                    <AlertTitle>Conflito de Agendamento Detectado</AlertTitle>
+                  <Alert className="animate-fade-in border-amber-200 bg-amber-50">
+                    <AlertCircle className="h-4 w-4 text-amber-600" />
+                    <AlertTitle>Campanhas ao mesmo tempo</AlertTitle>
                     <AlertDescription className="mt-2 flex flex-col gap-2">
                       <p>
-                        Esta campanha conflita com a campanha existente:{' '}
-                        <strong>{conflict.conflictingCampaignName}</strong>. É
-                        necessário um intervalo de pelo menos 1 hora entre
-                        disparos.
+                        Esta campanha roda junto com{' '}
+                        <strong>{conflict.conflictingCampaignName}</strong>. Os
+                        números mantêm o ritmo configurado somando as duas,
+                        então os envios serão divididos e ambas devem terminar
+                        mais tarde.
                       </p>
                       {conflict.suggestedTime && (
                         <div className="flex flex-col sm:flex-row sm:items-center gap-2 mt-1">
@@ -936,10 +1207,7 @@ export function BulkSendModal({
                   >
                     Cancelar
                   </Button>
-                  <Button
-                    type="submit"
-                    disabled={isLoading || conflict.hasConflict}
-                  >
+                  <Button type="submit" disabled={isLoading}>
                     {isLoading && (
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                     )}
@@ -954,6 +1222,7 @@ export function BulkSendModal({
             schedule={schedule}
             contacts={orderedContacts}
             config={config!}
+            media={media}
             onBack={() => setStep('config')}
             onConfirm={handleFinalConfirm}
             isLoading={isLoading}
@@ -1,17 +1,64 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { ScheduleConfig } from '@/lib/campaign-utils'
-import { Settings2, Clock, Zap, Briefcase } from 'lucide-react'
+import {
+  Settings2,
+  Clock,
+  Zap,
+  Briefcase,
+  RotateCcw,
+  ShieldAlert,
+  Globe,
+  Gauge,
+  Smartphone,
+} from 'lucide-react'
 import { format } from 'date-fns'
 import { ptBR } from 'date-fns/locale'
+import { parseRetryPolicy } from '@/lib/retry'
+import { parseCampaignConfig } from '@/lib/campaign-config'
+import { parseCircuitBreaker } from '@/lib/circuit-breaker'
+import {
+  BRAZIL_TIMEZONES,
+  getZonedParts,
+  resolveTimeZone,
+} from '@/lib/timezone'
+import { summarizeWeeklyWindows } from '@/lib/sending-windows'
+import { ROTATION_STRATEGY_LABELS } from '@/lib/sender-pool'
 
 interface CampaignConfigProps {
-  config: ScheduleConfig | null
+  // Stored campaign config, in any of its historical shapes
+  config: unknown
   scheduledAt: string | null
+  timezone?: string | null
 }
 
-export function CampaignConfig({ config, scheduledAt }: CampaignConfigProps) {
+export function CampaignConfig({
+  config,
+  scheduledAt,
+  timezone,
+}: CampaignConfigProps) {
   if (!config) return null
 
+  const settings = parseCampaignConfig(config)
+  const batch = settings.batch_config
+  const businessHours = settings.business_hours
+
+  const timeZone = resolveTimeZone(timezone)
+  const timeZoneLabel =
+    BRAZIL_TIMEZONES.find((option) => option.value === timeZone)?.label ??
+    timeZone
+
+  // Wall-clock start in the campaign's zone, whatever the browser's zone is
+  const formatScheduledAt = (value: string) => {
+    const p = getZonedParts(new Date(value), timeZone)
+    return format(
+      new Date(p.year, p.month - 1, p.day, p.hour, p.minute),
+      "dd/MM/yyyy 'às' HH:mm",
+      { locale: ptBR },
+    )
+  }
+
+  const retryPolicy = parseRetryPolicy(settings)
+  const circuitBreaker = parseCircuitBreaker(settings)
+
   return (
     <Card>
       <CardHeader>
@@ -27,7 +74,8 @@ export function CampaignConfig({ config, scheduledAt }: CampaignConfigProps) {
             <span>Intervalo</span>
           </div>
           <p className="font-medium">
-            Imediato (1ª), depois {config.minInterval} a {config.maxInterval}s
+            Imediato (1ª), depois {settings.min_interval} a{' '}
+            {settings.max_interval}s
           </p>
         </div>
 
@@ -37,8 +85,8 @@ export function CampaignConfig({ config, scheduledAt }: CampaignConfigProps) {
             <span>Pausas (Lotes)</span>
           </div>
           <p className="font-medium">
-            {config.useBatching
-              ? `${config.batchSize} msgs / pausa de ${config.batchPauseMin}-${config.batchPauseMax}s`
+            {batch.enabled
+              ? `${batch.size} msgs / pausa de ${batch.pause_min}-${batch.pause_max}s`
               : 'Desativado'}
           </p>
         </div>
@@ -46,11 +94,11 @@ export function CampaignConfig({ config, scheduledAt }: CampaignConfigProps) {
         <div className="space-y-1">
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <Briefcase className="h-4 w-4" />
-            <span>Horário Comercial</span>
+            <span>Janelas de Envio</span>
           </div>
           <p className="font-medium">
-            {config.businessHoursStrategy === 'pause'
-              ? `Respeitar (${config.businessHoursPauseTime || '18:00'} - ${config.businessHoursResumeTime || '08:00'})`
+            {businessHours.strategy === 'pause'
+              ? summarizeWeeklyWindows(businessHours.windows)
               : 'Ignorar (Envio contínuo)'}
           </p>
         </div>
@@ -61,11 +109,64 @@ export function CampaignConfig({ config, scheduledAt }: CampaignConfigProps) {
             <span>Início Agendado</span>
           </div>
           <p className="font-medium">
-            {scheduledAt
-              ? format(new Date(scheduledAt), "dd/MM/yyyy 'às' HH:mm", {
-                  locale: ptBR,
-                })
-              : 'Imediato'}
+            {scheduledAt ? formatScheduledAt(scheduledAt) : 'Imediato'}
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Globe className="h-4 w-4" />
+            <span>Fuso Horário</span>
+          </div>
+          <p className="font-medium">{timeZoneLabel}</p>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <RotateCcw className="h-4 w-4" />
+            <span>Reenvio Automático</span>
+          </div>
+          <p className="font-medium">
+            {retryPolicy.maxAttempts > 1
+              ? `Até ${retryPolicy.maxAttempts} tentativas, espera inicial de ${retryPolicy.backoffSeconds}s`
+              : 'Desativado'}
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <ShieldAlert className="h-4 w-4" />
+            <span>Proteção contra Falhas</span>
+          </div>
+          <p className="font-medium">
+            {circuitBreaker.enabled
+              ? `${circuitBreaker.maxConsecutiveFailures} seguidas ou >${Math.round(circuitBreaker.failureRateThreshold * 100)}% em ${circuitBreaker.windowSize}`
+              : 'Desativada'}
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Gauge className="h-4 w-4" />
+            <span>Limite Diário</span>
+          </div>
+          <p className="font-medium">
+            {settings.daily_limit !== null
+              ? `${settings.daily_limit} mensagens por dia`
+              : 'Sem limite'}
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Smartphone className="h-4 w-4" />
+            <span>Rodízio de Números</span>
+          </div>
+          <p className="font-medium">
+            {ROTATION_STRATEGY_LABELS[settings.sender_rotation.strategy]}
+            {settings.sender_rotation.sender_ids.length > 0
+              ? ` (${settings.sender_rotation.sender_ids.length} números)`
+              : ' (todos os números ativos)'}
           </p>
         </div>
       </CardContent>
@@ -1,6 +1,16 @@
+import { useEffect, useState } from 'react'
 import { format } from 'date-fns'
 import { ptBR } from 'date-fns/locale'
-import { Clock, CheckCircle2, List, Loader2, ArrowLeft } from 'lucide-react'
+import {
+  Clock,
+  CheckCircle2,
+  List,
+  Loader2,
+  ArrowLeft,
+  AlertTriangle,
+  Paperclip,
+  ShieldBan,
+} from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import {
   DialogFooter,
@@ -16,12 +26,20 @@ import {
 } from '@/components/ui/accordion'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { ScheduleConfig, ScheduledMessage } from '@/lib/campaign-utils'
+import { summarizeWeeklyWindows } from '@/lib/sending-windows'
 import { Contact } from '@/services/contacts'
+import { renderContactMessage } from '@/lib/template'
+import { MessagePreview } from './MessagePreview'
+import { MediaPreview } from './MediaAttachmentField'
+import { MEDIA_LIMITS, MediaAttachment } from '@/lib/media'
+import { normalizePhone } from '@/lib/phone'
+import { suppressionService } from '@/services/suppression'
 
 interface CampaignConfirmationStepProps {
   schedule: ScheduledMessage[]
   contacts: (Contact | undefined)[]
   config: ScheduleConfig
+  media?: MediaAttachment | null
   onBack: () => void
   onConfirm: () => void
   isLoading: boolean
@@ -31,13 +49,40 @@ export function CampaignConfirmationStep({
   schedule,
   contacts,
   config,
+  media,
   onBack,
   onConfirm,
   isLoading,
 }: CampaignConfirmationStepProps) {
+  const [suppressedPhones, setSuppressedPhones] = useState<Set<string>>(
+    new Set(),
+  )
+
+  useEffect(() => {
+    suppressionService
+      .getSuppressedPhones()
+      .then(setSuppressedPhones)
+      .catch((err) => {
+        console.error('Failed to load suppression list', err)
+      })
+  }, [])
+
   const endTime =
     schedule.length > 0 ? schedule[schedule.length - 1].sendTime : new Date()
 
+  const missingVariablesCount = contacts.filter(
+    (contact) => contact && renderContactMessage(contact).missing.length > 0,
+  ).length
+
+  const suppressedCount = contacts.filter(
+    (contact) => contact && suppressedPhones.has(normalizePhone(contact.phone)),
+  ).length
+
+  // Contacts with their own attachment ignore the campaign one
+  const contactMediaCount = contacts.filter(
+    (contact) => contact?.media_url,
+  ).length
+
   return (
     <div className="space-y-6">
       <DialogHeader>
@@ -85,6 +130,14 @@ export function CampaignConfirmationStep({
                   : 'Desativado'}
               </span>
             </div>
+            {config.dailyLimit && (
+              <div>
+                <span className="text-muted-foreground">Limite Diário: </span>
+                <span className="font-medium">
+                  {config.dailyLimit} msgs / dia
+                </span>
+              </div>
+            )}
             {config.automaticPause && (
               <div className="col-span-1 sm:col-span-2 text-blue-600 dark:text-blue-400">
                 <span className="text-muted-foreground">Pausa Agendada: </span>
@@ -96,19 +149,67 @@ export function CampaignConfirmationStep({
               </div>
             )}
             <div className="col-span-1 sm:col-span-2">
-              <span className="text-muted-foreground">Horário Comercial: </span>
+              <span className="text-muted-foreground">Janelas de Envio: </span>
               <span
                 className={`font-medium ${config.businessHoursStrategy === 'ignore' ? 'text-amber-600' : 'text-green-600'}`}
               >
                 {config.businessHoursStrategy === 'ignore'
                   ? 'Ignorar'
-                  : 'Pausar diariamente'}
+                  : summarizeWeeklyWindows(config.sendingWindows ?? [])}
               </span>
             </div>
           </div>
         </div>
       </div>
 
+      {(media || contactMediaCount > 0) && (
+        <div className="bg-muted/30 p-4 rounded-lg border space-y-3">
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Paperclip className="h-4 w-4" />
+            <span className="text-sm font-medium">Anexo</span>
+          </div>
+          {media && (
+            <div className="space-y-2">
+              <p className="text-sm">
+                <span className="font-medium">
+                  {media.filename || 'Arquivo'}
+                </span>{' '}
+                <span className="text-muted-foreground">
+                  ({MEDIA_LIMITS[media.type].label})
+                </span>
+              </p>
+              <MediaPreview media={media} />
+            </div>
+          )}
+          {contactMediaCount > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {contactMediaCount} contato(s) com anexo próprio definido na
+              planilha.
+            </p>
+          )}
+        </div>
+      )}
+
+      {missingVariablesCount > 0 && (
+        <div className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-900 dark:bg-amber-950/30 dark:text-amber-300">
+          <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+          <span>
+            {missingVariablesCount} mensagem(ns) com variáveis sem valor. Elas
+            serão enviadas em branco; confira a prévia na fila abaixo.
+          </span>
+        </div>
+      )}
+
+      {suppressedCount > 0 && (
+        <div className="flex items-start gap-2 rounded-lg border bg-muted/30 p-3 text-sm text-muted-foreground">
+          <ShieldBan className="h-4 w-4 shrink-0 mt-0.5" />
+          <span>
+            {suppressedCount} destinatário(s) estão na lista de supressão e não
+            receberão a mensagem.
+          </span>
+        </div>
+      )}
+
       <Accordion type="single" collapsible className="w-full border rounded-lg">
         <AccordionItem value="queue" className="border-none">
           <AccordionTrigger className="px-4 py-3 hover:bg-muted/50 rounded-lg">
@@ -127,6 +228,8 @@ export function CampaignConfirmationStep({
                     id: '?',
                     created_at: '',
                     message: '',
+                    variables: {},
+                    media_url: null,
                     user_id: '',
                     status: '',
                   }
@@ -135,12 +238,18 @@ export function CampaignConfirmationStep({
                       key={idx}
                       className="flex justify-between items-center text-sm py-2 border-b last:border-0"
                     >
-                      <span
-                        className="font-medium truncate max-w-[150px] sm:max-w-[200px]"
-                        title={contact.name}
-                      >
-                        {contact.name}
-                      </span>
+                      <div className="flex flex-col gap-1 min-w-0">
+                        <span
+                          className="font-medium truncate max-w-[150px] sm:max-w-[200px]"
+                          title={contact.name}
+                        >
+                          {contact.name}
+                        </span>
+                        <MessagePreview
+                          contact={contact}
+                          className="text-xs max-w-[200px] sm:max-w-[300px]"
+                        />
+                      </div>
                       <span className="text-muted-foreground text-xs whitespace-nowrap">
                         {format(item.sendTime, 'dd/MM/yyyy HH:mm:ss')}
                       </span>
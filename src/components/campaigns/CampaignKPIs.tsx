@@ -1,10 +1,21 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
-import { Send, Clock, AlertTriangle, Timer } from 'lucide-react'
+import {
+  Send,
+  Clock,
+  AlertTriangle,
+  Timer,
+  CheckCheck,
+  Eye,
+  MessageCircleReply,
+} from 'lucide-react'
 
 interface CampaignKPIsProps {
   stats: {
     sent: number
+    delivered: number
+    read: number
+    replied: number
     waiting: number
     failed: number
     elapsed: number
@@ -25,10 +36,14 @@ export function CampaignKPIs({ stats, isLoading = false }: CampaignKPIsProps) {
     return `${minutes}m ${remSeconds}s`
   }
 
+  // Rates are relative to what the provider accepted
+  const formatRate = (value: number) =>
+    stats.sent > 0 ? `${Math.round((value / stats.sent) * 100)}%` : '0%'
+
   if (isLoading) {
     return (
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-        {[...Array(4)].map((_, i) => (
+      <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-4">
+        {[...Array(7)].map((_, i) => (
           <Card key={i}>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <Skeleton className="h-4 w-20" />
@@ -45,7 +60,7 @@ export function CampaignKPIs({ stats, isLoading = false }: CampaignKPIsProps) {
   }
 
   return (
-    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+    <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-4">
       <Card>
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
           <CardTitle className="text-sm font-medium">Enviados</CardTitle>
@@ -53,7 +68,46 @@ export function CampaignKPIs({ stats, isLoading = false }: CampaignKPIsProps) {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold">{stats.sent}</div>
-          <p className="text-xs text-muted-foreground">Mensagens entregues</p>
+          <p className="text-xs text-muted-foreground">Aceitas pelo provedor</p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">Entregues</CardTitle>
+          <CheckCheck className="h-4 w-4 text-emerald-500" />
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold">{stats.delivered}</div>
+          <p className="text-xs text-muted-foreground">
+            Taxa de entrega: {formatRate(stats.delivered)}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">Lidas</CardTitle>
+          <Eye className="h-4 w-4 text-sky-500" />
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold">{stats.read}</div>
+          <p className="text-xs text-muted-foreground">
+            Taxa de leitura: {formatRate(stats.read)}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">Respostas</CardTitle>
+          <MessageCircleReply className="h-4 w-4 text-violet-500" />
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold">{stats.replied}</div>
+          <p className="text-xs text-muted-foreground">
+            Taxa de resposta: {formatRate(stats.replied)}
+          </p>
         </CardContent>
       </Card>
 
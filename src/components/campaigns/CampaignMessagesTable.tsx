@@ -1,4 +1,4 @@
-import { CampaignMessage } from '@/services/campaigns'
+import { CampaignMessage, SENT_MESSAGE_STATUSES } from '@/services/campaigns'
 import {
   Table,
   TableBody,
@@ -23,13 +23,21 @@ import {
   Clock,
   AlertCircle,
   MessageSquareOff,
+  CheckCheck,
+  MessageCircleReply,
+  ShieldBan,
+  Ban,
+  Repeat,
+  FlaskConical,
 } from 'lucide-react'
+import { MessageAttemptsPopover } from './MessageAttemptsPopover'
 import { format } from 'date-fns'
 import { ptBR } from 'date-fns/locale'
 
 interface CampaignMessagesTableProps {
   messages: CampaignMessage[]
-  onRetry: (id: string) => void
+  // Left out when failed messages can't go back to the queue
+  onRetry?: (id: string) => void
   loadingId: string | null
   isLoading?: boolean
 }
@@ -40,6 +48,9 @@ export function CampaignMessagesTable({
   loadingId,
   isLoading = false,
 }: CampaignMessagesTableProps) {
+  const formatTimestamp = (value: string) =>
+    format(new Date(value), 'dd/MM/yyyy HH:mm:ss', { locale: ptBR })
+
   const getStatusInfo = (msg: CampaignMessage) => {
     switch (msg.status) {
       case 'sent':
@@ -49,6 +60,19 @@ export function CampaignMessagesTable({
             'bg-green-100 text-green-700 hover:bg-green-200 border-green-200',
           icon: <CheckCircle2 className="h-3 w-3 mr-1" />,
         }
+      case 'delivered':
+        return {
+          label: 'Entregue',
+          color:
+            'bg-emerald-100 text-emerald-700 hover:bg-emerald-200 border-emerald-200',
+          icon: <CheckCheck className="h-3 w-3 mr-1" />,
+        }
+      case 'read':
+        return {
+          label: 'Lida',
+          color: 'bg-sky-100 text-sky-700 hover:bg-sky-200 border-sky-200',
+          icon: <CheckCheck className="h-3 w-3 mr-1" />,
+        }
       case 'failed':
       case 'error':
         return {
@@ -56,8 +80,46 @@ export function CampaignMessagesTable({
           color: 'bg-red-100 text-red-700 hover:bg-red-200 border-red-200',
           icon: <XCircle className="h-3 w-3 mr-1" />,
         }
+      case 'suppressed':
+        return {
+          label: 'Suprimido',
+          color:
+            'bg-slate-100 text-slate-600 hover:bg-slate-200 border-slate-200',
+          icon: <ShieldBan className="h-3 w-3 mr-1" />,
+        }
+      case 'canceled':
+        return {
+          label: 'Cancelado',
+          color:
+            'bg-slate-100 text-slate-600 hover:bg-slate-200 border-slate-200',
+          icon: <Ban className="h-3 w-3 mr-1" />,
+        }
+      // Recipient of a recurring campaign; each run sends its own copy
+      case 'template':
+        return {
+          label: 'Recorrente',
+          color:
+            'bg-violet-100 text-violet-700 hover:bg-violet-200 border-violet-200',
+          icon: <Repeat className="h-3 w-3 mr-1" />,
+        }
+      // Outside the A/B sample; sent the winning variant later
+      case 'ab_holdout':
+        return {
+          label: 'Aguardando vencedora',
+          color:
+            'bg-violet-100 text-violet-700 hover:bg-violet-200 border-violet-200',
+          icon: <FlaskConical className="h-3 w-3 mr-1" />,
+        }
       case 'aguardando':
       case 'pending':
+        if (msg.next_attempt_at) {
+          return {
+            label: 'Reenvio agendado',
+            color:
+              'bg-orange-100 text-orange-700 hover:bg-orange-200 border-orange-200',
+            icon: <RefreshCw className="h-3 w-3 mr-1" />,
+          }
+        }
         return {
           label: 'Aguardando',
           color:
@@ -80,7 +142,9 @@ export function CampaignMessagesTable({
           <TableRow>
             <TableHead>Nome</TableHead>
             <TableHead>Telefone</TableHead>
+            <TableHead>Mensagem enviada</TableHead>
             <TableHead>Status</TableHead>
+            <TableHead>Tentativas</TableHead>
             <TableHead className="text-right">Ações</TableHead>
           </TableRow>
         </TableHeader>
@@ -94,9 +158,15 @@ export function CampaignMessagesTable({
                 <TableCell>
                   <Skeleton className="h-4 w-24" />
                 </TableCell>
+                <TableCell>
+                  <Skeleton className="h-4 w-40" />
+                </TableCell>
                 <TableCell>
                   <Skeleton className="h-5 w-20 rounded-full" />
                 </TableCell>
+                <TableCell>
+                  <Skeleton className="h-4 w-8" />
+                </TableCell>
                 <TableCell className="text-right">
                   <Skeleton className="h-8 w-8 ml-auto" />
                 </TableCell>
@@ -104,7 +174,7 @@ export function CampaignMessagesTable({
             ))
           ) : messages.length === 0 ? (
             <TableRow>
-              <TableCell colSpan={4} className="h-48 text-center">
+              <TableCell colSpan={6} className="h-48 text-center">
                 <div className="flex flex-col items-center justify-center text-muted-foreground gap-2">
                   <MessageSquareOff className="h-8 w-8 opacity-50" />
                   <p>Nenhuma mensagem encontrada para esta campanha.</p>
@@ -115,13 +185,53 @@ export function CampaignMessagesTable({
             messages.map((msg) => {
               const statusInfo = getStatusInfo(msg)
               const isFailed = msg.status === 'failed' || msg.status === 'error'
+              const isSent = SENT_MESSAGE_STATUSES.includes(msg.status)
+              // Planned send time of messages still in the queue
+              const eta =
+                ['aguardando', 'pending'].includes(msg.status) &&
+                !msg.next_attempt_at
+                  ? msg.scheduled_for
+                  : null
 
               return (
                 <TableRow key={msg.id}>
                   <TableCell className="font-medium">
-                    {msg.contacts?.name || 'Desconhecido'}
+                    <div className="flex items-center gap-2">
+                      {msg.contacts?.name || 'Desconhecido'}
+                      {msg.replied_at && (
+                        <TooltipProvider>
+                          <Tooltip delayDuration={0}>
+                            <TooltipTrigger asChild>
+                              <MessageCircleReply className="h-4 w-4 shrink-0 cursor-help text-violet-500" />
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              Respondeu em {formatTimestamp(msg.replied_at)}
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {msg.contacts?.phone || '-'}
+                    {msg.sender && (
+                      <span className="block text-xs text-muted-foreground">
+                        via {msg.sender.label || msg.sender.phone || 'número'}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-[280px]">
+                    {msg.rendered_message ? (
+                      <span
+                        className="block truncate text-sm text-muted-foreground"
+                        title={msg.rendered_message}
+                      >
+                        {msg.rendered_message}
+                      </span>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">-</span>
+                    )}
                   </TableCell>
-                  <TableCell>{msg.contacts?.phone || '-'}</TableCell>
                   <TableCell>
                     <TooltipProvider>
                       <Tooltip delayDuration={0}>
@@ -135,15 +245,19 @@ export function CampaignMessagesTable({
                           </Badge>
                         </TooltipTrigger>
                         <TooltipContent className="max-w-xs">
-                          {msg.status === 'sent' && msg.sent_at ? (
-                            <p>
-                              Enviado em:{' '}
-                              {format(
-                                new Date(msg.sent_at),
-                                'dd/MM/yyyy HH:mm:ss',
-                                { locale: ptBR },
+                          {isSent && msg.sent_at ? (
+                            <div className="space-y-0.5">
+                              <p>Enviado em: {formatTimestamp(msg.sent_at)}</p>
+                              {msg.delivered_at && (
+                                <p>
+                                  Entregue em:{' '}
+                                  {formatTimestamp(msg.delivered_at)}
+                                </p>
                               )}
-                            </p>
+                              {msg.read_at && (
+                                <p>Lida em: {formatTimestamp(msg.read_at)}</p>
+                              )}
+                            </div>
                           ) : isFailed && msg.error_message ? (
                             <div className="text-sm">
                               <p className="font-semibold mb-1">Erro:</p>
@@ -151,15 +265,50 @@ export function CampaignMessagesTable({
                                 {msg.error_message}
                               </p>
                             </div>
+                          ) : msg.next_attempt_at ? (
+                            <div className="text-sm">
+                              <p>
+                                Nova tentativa em{' '}
+                                {formatTimestamp(msg.next_attempt_at)}
+                              </p>
+                              {msg.error_message && (
+                                <p className="text-red-300 break-words">
+                                  Último erro: {msg.error_message}
+                                </p>
+                              )}
+                            </div>
+                          ) : eta ? (
+                            <p>Envio previsto para {formatTimestamp(eta)}</p>
+                          ) : msg.status === 'suppressed' ? (
+                            <p>
+                              Número na lista de supressão; a mensagem não foi
+                              enviada.
+                            </p>
+                          ) : msg.status === 'canceled' ? (
+                            <p>
+                              A campanha foi cancelada antes do envio desta
+                              mensagem.
+                            </p>
                           ) : (
                             <p>Status atual: {msg.status}</p>
                           )}
                         </TooltipContent>
                       </Tooltip>
                     </TooltipProvider>
+                    {eta && (
+                      <span className="block mt-1 text-xs text-muted-foreground">
+                        Previsto {format(new Date(eta), "dd/MM 'às' HH:mm")}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <MessageAttemptsPopover
+                      messageId={msg.id}
+                      attemptCount={msg.attempt_count || 0}
+                    />
                   </TableCell>
                   <TableCell className="text-right">
-                    {isFailed && (
+                    {isFailed && onRetry && (
                       <Button
                         size="sm"
                         variant="secondary"
@@ -0,0 +1,90 @@
+import { MessageReply } from '@/services/campaigns'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Skeleton } from '@/components/ui/skeleton'
+import { MessageCircleOff } from 'lucide-react'
+import { format } from 'date-fns'
+import { ptBR } from 'date-fns/locale'
+
+interface CampaignRepliesTableProps {
+  replies: MessageReply[]
+  isLoading?: boolean
+}
+
+export function CampaignRepliesTable({
+  replies,
+  isLoading = false,
+}: CampaignRepliesTableProps) {
+  return (
+    <div className="rounded-md border bg-card">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Nome</TableHead>
+            <TableHead>Telefone</TableHead>
+            <TableHead>Resposta</TableHead>
+            <TableHead className="text-right">Recebida em</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            [...Array(3)].map((_, i) => (
+              <TableRow key={i}>
+                <TableCell>
+                  <Skeleton className="h-4 w-32" />
+                </TableCell>
+                <TableCell>
+                  <Skeleton className="h-4 w-24" />
+                </TableCell>
+                <TableCell>
+                  <Skeleton className="h-4 w-56" />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Skeleton className="h-4 w-28 ml-auto" />
+                </TableCell>
+              </TableRow>
+            ))
+          ) : replies.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={4} className="h-48 text-center">
+                <div className="flex flex-col items-center justify-center text-muted-foreground gap-2">
+                  <MessageCircleOff className="h-8 w-8 opacity-50" />
+                  <p>Nenhuma resposta recebida para esta campanha.</p>
+                </div>
+              </TableCell>
+            </TableRow>
+          ) : (
+            replies.map((reply) => (
+              <TableRow key={reply.id}>
+                <TableCell className="font-medium">
+                  {reply.contacts?.name || reply.sender_name || 'Desconhecido'}
+                </TableCell>
+                <TableCell>{reply.contacts?.phone || reply.phone}</TableCell>
+                <TableCell className="max-w-[420px]">
+                  <p className="whitespace-pre-wrap break-words text-sm">
+                    {reply.body || (
+                      <span className="text-muted-foreground">
+                        (mensagem sem texto)
+                      </span>
+                    )}
+                  </p>
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap text-sm text-muted-foreground">
+                  {format(new Date(reply.received_at), 'dd/MM/yyyy HH:mm', {
+                    locale: ptBR,
+                  })}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
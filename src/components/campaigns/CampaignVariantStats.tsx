@@ -0,0 +1,149 @@
+import { FlaskConical, Trophy } from 'lucide-react'
+import { format } from 'date-fns'
+import { ptBR } from 'date-fns/locale'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  AB_WINNER_METRIC_LABELS,
+  parseAbTestSlice,
+  statsByVariant,
+  VariantStats,
+  variantStats,
+} from '@/lib/ab-testing'
+import {
+  Campaign,
+  CampaignMessage,
+  CampaignVariant,
+} from '@/services/campaigns'
+
+interface CampaignVariantStatsProps {
+  campaign: Campaign
+  variants: CampaignVariant[]
+  messages: CampaignMessage[]
+}
+
+function percent(rate: number) {
+  return `${(rate * 100).toFixed(1)}%`
+}
+
+function StatsCells({ stats }: { stats: VariantStats }) {
+  return (
+    <>
+      <TableCell className="text-right">
+        {stats.sent} / {stats.total}
+      </TableCell>
+      <TableCell className="text-right">
+        {percent(stats.deliveryRate)}
+      </TableCell>
+      <TableCell className="text-right">{percent(stats.failureRate)}</TableCell>
+      <TableCell className="text-right">{percent(stats.replyRate)}</TableCell>
+    </>
+  )
+}
+
+export function CampaignVariantStats({
+  campaign,
+  variants,
+  messages,
+}: CampaignVariantStatsProps) {
+  const slice = parseAbTestSlice(campaign.ab_test)
+  const stats = statsByVariant(
+    variants.map((variant) => variant.id),
+    messages,
+  )
+  const winner = variants.find((variant) => variant.is_winner)
+  // The rest of the recipients, sent the winner after the sample
+  const rollout = winner
+    ? variantStats(messages.filter((message) => message.ab_rollout))
+    : null
+
+  const describeTest = () => {
+    if (!slice) return 'Cada contato recebeu uma das variações.'
+    const metric = AB_WINNER_METRIC_LABELS[slice.metric].toLowerCase()
+    if (winner) {
+      return `A variação com ${metric} na amostra foi enviada aos demais contatos.`
+    }
+    if (campaign.ab_decide_at) {
+      return `Amostra enviada. A vencedora (${metric}) será escolhida em ${format(new Date(campaign.ab_decide_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}.`
+    }
+    return `Enviando a amostra de ${slice.testPercent}% dos contatos. A vencedora (${metric}) vai para o restante.`
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <FlaskConical className="h-4 w-4 text-muted-foreground" />
+          Teste A/B
+        </CardTitle>
+        <CardDescription>{describeTest()}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Variação</TableHead>
+              <TableHead>Mensagem</TableHead>
+              <TableHead className="text-right">Divisão</TableHead>
+              <TableHead className="text-right">Enviadas</TableHead>
+              <TableHead className="text-right">Entregues</TableHead>
+              <TableHead className="text-right">Falhas</TableHead>
+              <TableHead className="text-right">Respostas</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {variants.map((variant) => (
+              <TableRow key={variant.id}>
+                <TableCell className="font-medium whitespace-nowrap">
+                  {variant.label}
+                  {variant.is_winner && (
+                    <Badge className="ml-2 bg-amber-100 text-amber-700 hover:bg-amber-200 border-amber-200">
+                      <Trophy className="h-3 w-3 mr-1" />
+                      Vencedora
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell
+                  className="max-w-[280px] truncate text-muted-foreground"
+                  title={variant.message}
+                >
+                  {variant.message}
+                </TableCell>
+                <TableCell className="text-right">
+                  {variant.split_percent}%
+                </TableCell>
+                <StatsCells stats={stats.get(variant.id)!} />
+              </TableRow>
+            ))}
+            {winner && rollout && rollout.total > 0 && (
+              <TableRow>
+                <TableCell className="font-medium whitespace-nowrap">
+                  Restante
+                </TableCell>
+                <TableCell className="text-muted-foreground">
+                  Variação {winner.label}, enviada após a amostra
+                </TableCell>
+                <TableCell />
+                <StatsCells stats={rollout} />
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,114 @@
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { CircuitBreakerConfig } from '@/lib/circuit-breaker'
+
+interface CircuitBreakerFieldsProps {
+  value: CircuitBreakerConfig
+  onChange: (config: CircuitBreakerConfig) => void
+  disabled?: boolean
+}
+
+export function CircuitBreakerFields({
+  value,
+  onChange,
+  disabled,
+}: CircuitBreakerFieldsProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="circuit-breaker-enabled" className="text-sm">
+          Pausar a campanha automaticamente quando os envios começarem a falhar
+        </Label>
+        <Switch
+          id="circuit-breaker-enabled"
+          checked={value.enabled}
+          onCheckedChange={(enabled) => onChange({ ...value, enabled })}
+          disabled={disabled}
+        />
+      </div>
+
+      {value.enabled && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label
+                htmlFor="circuit-breaker-consecutive"
+                className="text-xs uppercase text-muted-foreground"
+              >
+                Falhas seguidas
+              </Label>
+              <Input
+                id="circuit-breaker-consecutive"
+                type="number"
+                min={1}
+                value={value.maxConsecutiveFailures}
+                disabled={disabled}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    maxConsecutiveFailures: Math.max(
+                      1,
+                      Number(e.target.value) || 1,
+                    ),
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label
+                htmlFor="circuit-breaker-rate"
+                className="text-xs uppercase text-muted-foreground"
+              >
+                Taxa de falhas (%)
+              </Label>
+              <Input
+                id="circuit-breaker-rate"
+                type="number"
+                min={1}
+                max={100}
+                value={Math.round(value.failureRateThreshold * 100)}
+                disabled={disabled}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    failureRateThreshold:
+                      Math.min(100, Math.max(1, Number(e.target.value) || 1)) /
+                      100,
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label
+                htmlFor="circuit-breaker-window"
+                className="text-xs uppercase text-muted-foreground"
+              >
+                Nas últimas (tentativas)
+              </Label>
+              <Input
+                id="circuit-breaker-window"
+                type="number"
+                min={2}
+                value={value.windowSize}
+                disabled={disabled}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    windowSize: Math.max(2, Number(e.target.value) || 2),
+                  })
+                }
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Pausa após {value.maxConsecutiveFailures} falhas seguidas ou mais de{' '}
+            {Math.round(value.failureRateThreshold * 100)}% de falhas nas
+            últimas {value.windowSize} tentativas. Números inválidos não contam.
+            As mensagens que falharam voltam para a fila.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
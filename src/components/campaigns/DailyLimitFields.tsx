@@ -0,0 +1,76 @@
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { AccountSendingLimits } from '@/lib/daily-caps'
+
+interface DailyLimitFieldsProps {
+  value: number | null
+  onChange: (limit: number | null) => void
+  // The account's own caps, shown so the user knows what else applies
+  accountLimits?: AccountSendingLimits
+  disabled?: boolean
+}
+
+const DEFAULT_CAMPAIGN_DAILY_LIMIT = 200
+
+export function DailyLimitFields({
+  value,
+  onChange,
+  accountLimits,
+  disabled,
+}: DailyLimitFieldsProps) {
+  const accountLimit = accountLimits?.dailyLimit ?? null
+  const warmup = accountLimits?.warmup.enabled ?? false
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="daily-limit-enabled" className="text-sm">
+          Limitar quantas mensagens esta campanha envia por dia
+        </Label>
+        <Switch
+          id="daily-limit-enabled"
+          checked={value !== null}
+          onCheckedChange={(enabled) =>
+            onChange(enabled ? DEFAULT_CAMPAIGN_DAILY_LIMIT : null)
+          }
+          disabled={disabled}
+        />
+      </div>
+
+      {value !== null && (
+        <div className="space-y-2">
+          <Label
+            htmlFor="daily-limit"
+            className="text-xs uppercase text-muted-foreground"
+          >
+            Mensagens por dia
+          </Label>
+          <Input
+            id="daily-limit"
+            type="number"
+            min={1}
+            className="w-40"
+            value={value}
+            disabled={disabled}
+            onChange={(e) =>
+              onChange(Math.max(1, Math.floor(Number(e.target.value)) || 1))
+            }
+          />
+        </div>
+      )}
+
+      {(accountLimit !== null || warmup) && (
+        <p className="text-xs text-muted-foreground">
+          {accountLimit !== null
+            ? `A conta pode enviar até ${accountLimit} mensagens por dia, somando todas as campanhas. `
+            : ''}
+          {warmup
+            ? 'Números novos seguem o aquecimento a partir do primeiro envio. '
+            : ''}
+          Ao atingir um limite, os envios param e retomam no dia seguinte.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { Copy, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import {
+  Campaign,
+  CampaignMessage,
+  campaignsService,
+  matchesRecipientFilter,
+  RECIPIENT_FILTER_LABELS,
+  RecipientFilter,
+} from '@/services/campaigns'
+
+interface DuplicateCampaignDialogProps {
+  // The campaign to copy; the dialog is open while it is set
+  campaign: Pick<Campaign, 'id' | 'name'> | null
+  onClose: () => void
+}
+
+const FILTER_HINTS: Record<RecipientFilter, string> = {
+  all: 'Todos os contatos da campanha original.',
+  failed: 'Contatos cujo envio terminou em falha.',
+  not_replied: 'Contatos que receberam a mensagem e não responderam.',
+  not_delivered:
+    'Contatos sem confirmação de entrega: falhas, cancelados e envios sem recibo.',
+}
+
+const FILTER_OPTIONS = Object.entries(RECIPIENT_FILTER_LABELS) as [
+  RecipientFilter,
+  string,
+][]
+
+export function DuplicateCampaignDialog({
+  campaign,
+  onClose,
+}: DuplicateCampaignDialogProps) {
+  const navigate = useNavigate()
+  const [messages, setMessages] = useState<CampaignMessage[] | null>(null)
+  const [filter, setFilter] = useState<RecipientFilter>('all')
+  const [isDuplicating, setIsDuplicating] = useState(false)
+
+  useEffect(() => {
+    if (!campaign) return
+    setMessages(null)
+    setFilter('all')
+    campaignsService
+      .getMessages(campaign.id)
+      .then(setMessages)
+      .catch((err) => {
+        console.error('Failed to load campaign recipients', err)
+        toast.error('Erro ao carregar destinatários da campanha')
+      })
+  }, [campaign])
+
+  // Distinct contacts per filter, like the copy will get
+  const countFor = (option: RecipientFilter) =>
+    new Set(
+      (messages || [])
+        .filter((message) => matchesRecipientFilter(message, option))
+        .map((message) => message.contact_id),
+    ).size
+
+  const handleDuplicate = async () => {
+    if (!campaign) return
+    setIsDuplicating(true)
+    try {
+      const draft = await campaignsService.duplicate(campaign.id, filter)
+      toast.success('Campanha duplicada', {
+        description: `${draft.total_messages} destinatários no novo rascunho.`,
+      })
+      onClose()
+      // Straight to the review step of the upload wizard
+      navigate('/upload', { state: { campaignId: draft.id } })
+    } catch (error: any) {
+      console.error(error)
+      toast.error('Erro ao duplicar campanha', { description: error.message })
+    } finally {
+      setIsDuplicating(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!campaign} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Duplicar campanha</DialogTitle>
+          <DialogDescription>
+            Cria um rascunho com a mesma configuração de{' '}
+            <span className="font-medium text-foreground">
+              "{campaign?.name}"
+            </span>
+            . Você revisa os contatos e ajusta o envio antes de iniciar.
+          </DialogDescription>
+        </DialogHeader>
+
+        {messages === null ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <RadioGroup
+            value={filter}
+            onValueChange={(value) => setFilter(value as RecipientFilter)}
+            className="gap-3"
+          >
+            {FILTER_OPTIONS.map(([option, label]) => {
+              const count = countFor(option)
+              return (
+                <Label
+                  key={option}
+                  htmlFor={`duplicate-${option}`}
+                  className="flex items-start gap-3 rounded-md border p-3 cursor-pointer has-[:disabled]:cursor-not-allowed has-[:disabled]:opacity-50"
+                >
+                  <RadioGroupItem
+                    value={option}
+                    id={`duplicate-${option}`}
+                    disabled={count === 0}
+                    className="mt-0.5"
+                  />
+                  <div className="flex-1 space-y-1">
+                    <div className="flex justify-between gap-2 font-medium">
+                      {label}
+                      <span className="text-muted-foreground">{count}</span>
+                    </div>
+                    <p className="text-xs font-normal text-muted-foreground">
+                      {FILTER_HINTS[option]}
+                    </p>
+                  </div>
+                </Label>
+              )
+            })}
+          </RadioGroup>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={onClose} disabled={isDuplicating}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleDuplicate}
+            disabled={isDuplicating || !messages || countFor(filter) === 0}
+          >
+            {isDuplicating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Copy className="mr-2 h-4 w-4" />
+            )}
+            Duplicar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
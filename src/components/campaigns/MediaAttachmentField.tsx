@@ -0,0 +1,174 @@
+import { useRef, useState } from 'react'
+import {
+  Paperclip,
+  Loader2,
+  X,
+  FileText,
+  Music,
+  Video,
+  Image as ImageIcon,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import {
+  ACCEPTED_MEDIA_TYPES,
+  MEDIA_LIMITS,
+  MediaAttachment,
+  MediaType,
+  validateMediaFile,
+} from '@/lib/media'
+import { mediaService } from '@/services/media'
+
+const MEDIA_ICONS: Record<MediaType, typeof FileText> = {
+  image: ImageIcon,
+  video: Video,
+  audio: Music,
+  document: FileText,
+}
+
+interface MediaAttachmentFieldProps {
+  value: MediaAttachment | null
+  onChange: (media: MediaAttachment | null) => void
+  disabled?: boolean
+}
+
+export function MediaAttachmentField({
+  value,
+  onChange,
+  disabled,
+}: MediaAttachmentFieldProps) {
+  const [isUploading, setIsUploading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFileInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const validationError = validateMediaFile(file)
+    if (validationError) {
+      toast.error('Arquivo inválido', { description: validationError })
+      return
+    }
+
+    setIsUploading(true)
+    try {
+      const media = await mediaService.upload(file)
+      onChange(media)
+      toast.success('Anexo enviado!')
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao enviar anexo')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  if (value) {
+    const Icon = MEDIA_ICONS[value.type]
+    return (
+      <div className="space-y-3 rounded-lg border p-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <span className="truncate text-sm font-medium">
+              {value.filename || value.url}
+            </span>
+            <span className="shrink-0 text-xs text-muted-foreground">
+              {MEDIA_LIMITS[value.type].label}
+            </span>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 hover:text-destructive"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            title="Remover anexo"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <MediaPreview media={value} />
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <input
+        type="file"
+        className="hidden"
+        ref={fileInputRef}
+        accept={ACCEPTED_MEDIA_TYPES}
+        onChange={handleFileInput}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full border-dashed"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled || isUploading}
+      >
+        {isUploading ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Paperclip className="mr-2 h-4 w-4" />
+        )}
+        {isUploading ? 'Enviando...' : 'Anexar arquivo'}
+      </Button>
+      <p className="mt-2 text-xs text-muted-foreground">
+        Imagem (JPG/PNG até 5 MB), vídeo (MP4 até 16 MB), áudio (até 16 MB) ou
+        PDF (até 100 MB). A mensagem de cada contato vira a legenda.
+      </p>
+    </div>
+  )
+}
+
+export function MediaPreview({
+  media,
+  className,
+}: {
+  media: MediaAttachment
+  className?: string
+}) {
+  switch (media.type) {
+    case 'image':
+      return (
+        <img
+          src={media.url}
+          alt={media.filename || 'Anexo'}
+          className={cn('max-h-48 rounded-md border object-contain', className)}
+        />
+      )
+    case 'video':
+      return (
+        <video
+          src={media.url}
+          controls
+          className={cn('max-h-48 w-full rounded-md border', className)}
+        />
+      )
+    case 'audio':
+      return (
+        <audio src={media.url} controls className={cn('w-full', className)} />
+      )
+    default:
+      return (
+        <a
+          href={media.url}
+          target="_blank"
+          rel="noreferrer"
+          className={cn(
+            'flex items-center gap-2 text-sm text-primary hover:underline',
+            className,
+          )}
+        >
+          <FileText className="h-4 w-4" />
+          Abrir documento
+        </a>
+      )
+  }
+}
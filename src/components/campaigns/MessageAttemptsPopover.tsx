@@ -0,0 +1,112 @@
+import { useState } from 'react'
+import { History, Loader2, CheckCircle2, XCircle } from 'lucide-react'
+import { format } from 'date-fns'
+import { ptBR } from 'date-fns/locale'
+import { Button } from '@/components/ui/button'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { campaignsService, MessageAttempt } from '@/services/campaigns'
+import { SEND_ERROR_LABELS, SendErrorCode } from '@/lib/retry'
+
+interface MessageAttemptsPopoverProps {
+  messageId: string
+  attemptCount: number
+}
+
+export function MessageAttemptsPopover({
+  messageId,
+  attemptCount,
+}: MessageAttemptsPopoverProps) {
+  const [attempts, setAttempts] = useState<MessageAttempt[] | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  // Loaded on open so the table doesn't fetch the history of every row
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return
+    setLoading(true)
+    try {
+      setAttempts(await campaignsService.getAttempts(messageId))
+    } catch (error) {
+      console.error(error)
+      setAttempts([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatTimestamp = (value: string) =>
+    format(new Date(value), 'dd/MM/yyyy HH:mm:ss', { locale: ptBR })
+
+  return (
+    <Popover onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs text-muted-foreground"
+          disabled={attemptCount === 0}
+          title="Histórico de tentativas"
+        >
+          <History className="h-3 w-3 mr-1" />
+          {attemptCount}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="start">
+        <p className="text-sm font-semibold mb-2">Histórico de tentativas</p>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !attempts || attempts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nenhuma tentativa registrada.
+          </p>
+        ) : (
+          <ol className="space-y-3">
+            {attempts.map((attempt) => (
+              <li key={attempt.id} className="flex gap-2 text-sm">
+                {attempt.status === 'sent' ? (
+                  <CheckCircle2 className="h-4 w-4 shrink-0 mt-0.5 text-green-600" />
+                ) : (
+                  <XCircle className="h-4 w-4 shrink-0 mt-0.5 text-red-600" />
+                )}
+                <div className="min-w-0 space-y-0.5">
+                  <p className="font-medium">
+                    Tentativa {attempt.attempt_number}
+                    <span className="font-normal text-muted-foreground">
+                      {' '}
+                      · {formatTimestamp(attempt.attempted_at)}
+                    </span>
+                  </p>
+                  {attempt.status === 'failed' && (
+                    <>
+                      <p className="text-xs text-red-600 break-words">
+                        {(attempt.error_code &&
+                          SEND_ERROR_LABELS[
+                            attempt.error_code as SendErrorCode
+                          ]) ||
+                          'Erro'}
+                        {attempt.error_message
+                          ? `: ${attempt.error_message}`
+                          : ''}
+                      </p>
+                      {attempt.next_attempt_at && (
+                        <p className="text-xs text-muted-foreground">
+                          Reenvio agendado para{' '}
+                          {formatTimestamp(attempt.next_attempt_at)}
+                        </p>
+                      )}
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
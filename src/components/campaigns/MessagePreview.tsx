@@ -0,0 +1,82 @@
+import { useMemo } from 'react'
+import { AlertTriangle, Eye } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { cn } from '@/lib/utils'
+import {
+  composeContactMessage,
+  renderContactMessage,
+  TemplateContact,
+} from '@/lib/template'
+import { countSpintaxVariants } from '@/lib/spintax'
+
+interface MessagePreviewProps {
+  contact: TemplateContact & { message?: string | null }
+  className?: string
+}
+
+export function MessagePreview({ contact, className }: MessagePreviewProps) {
+  const { text, missing, variantCount } = useMemo(
+    () => ({
+      // One possible variant; missing variables are checked across all of them
+      text: composeContactMessage(contact).text,
+      missing: renderContactMessage(contact).missing,
+      variantCount: countSpintaxVariants(contact.message || ''),
+    }),
+    [contact],
+  )
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            'flex items-center gap-2 max-w-[260px] text-left text-sm text-muted-foreground hover:text-foreground transition-colors',
+            className,
+          )}
+          title="Ver mensagem personalizada"
+        >
+          {missing.length > 0 ? (
+            <AlertTriangle className="h-4 w-4 shrink-0 text-amber-500" />
+          ) : (
+            <Eye className="h-4 w-4 shrink-0" />
+          )}
+          <span className="truncate">{text || 'Mensagem vazia'}</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3" align="start">
+        <p className="text-xs font-medium uppercase text-muted-foreground">
+          {variantCount > 1
+            ? `Prévia (1 de ${variantCount.toLocaleString('pt-BR')} variações)`
+            : 'Prévia da mensagem'}
+        </p>
+        <p className="text-sm whitespace-pre-wrap break-words rounded-md bg-muted/50 p-3">
+          {text || 'Mensagem vazia'}
+        </p>
+        {missing.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              Variáveis sem valor (serão enviadas em branco):
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {missing.map((key) => (
+                <Badge
+                  key={key}
+                  variant="outline"
+                  className="border-amber-300 text-amber-700 dark:text-amber-400 font-mono"
+                >
+                  {`{{${key}}}`}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
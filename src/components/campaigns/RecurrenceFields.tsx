@@ -0,0 +1,306 @@
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import {
+  nextRun,
+  RECURRENCE_FREQUENCY_LABELS,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  validateRecurrence,
+} from '@/lib/recurrence'
+import { WEEKDAY_ORDER, WEEKDAY_SHORT_LABELS } from '@/lib/sending-windows'
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceRule
+  onChange: (rule: RecurrenceRule) => void
+  // Runs are wall-clock times in the campaign's zone
+  timeZone: string
+  disabled?: boolean
+}
+
+type EndMode = 'never' | 'date' | 'count'
+
+const END_OPTIONS: [EndMode, string][] = [
+  ['never', 'Sem data para terminar'],
+  ['date', 'Termina em uma data'],
+  ['count', 'Termina após um número de execuções'],
+]
+
+const FREQUENCY_OPTIONS = Object.entries(RECURRENCE_FREQUENCY_LABELS) as [
+  RecurrenceFrequency,
+  string,
+][]
+
+const PREVIEW_RUNS = 3
+
+// The next few runs, so the user can check the rule does what they meant
+function previewRuns(rule: RecurrenceRule, timeZone: string) {
+  const runs: Date[] = []
+  let after = new Date()
+  while (runs.length < PREVIEW_RUNS) {
+    const run = nextRun(rule, after, timeZone, runs.length)
+    if (!run) break
+    runs.push(run)
+    after = run
+  }
+  return runs
+}
+
+export function RecurrenceFields({
+  value,
+  onChange,
+  timeZone,
+  disabled,
+}: RecurrenceFieldsProps) {
+  const endMode: EndMode = value.endsOn
+    ? 'date'
+    : value.maxOccurrences
+      ? 'count'
+      : 'never'
+  const error = validateRecurrence(value)
+  const runs = error ? [] : previewRuns(value, timeZone)
+  const formatRun = new Intl.DateTimeFormat('pt-BR', {
+    timeZone,
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+  const setEndMode = (mode: EndMode) =>
+    onChange({
+      ...value,
+      endsOn: mode === 'date' ? (value.endsOn ?? '') : null,
+      maxOccurrences: mode === 'count' ? (value.maxOccurrences ?? 4) : null,
+    })
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="text-xs uppercase text-muted-foreground">
+            Repetir
+          </Label>
+          <Select
+            value={value.frequency}
+            onValueChange={(frequency) =>
+              onChange({
+                ...value,
+                frequency: frequency as RecurrenceFrequency,
+              })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FREQUENCY_OPTIONS.map(([frequency, label]) => (
+                <SelectItem key={frequency} value={frequency}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {value.frequency === 'cron' ? (
+          <div className="space-y-2">
+            <Label
+              htmlFor="recurrence-cron"
+              className="text-xs uppercase text-muted-foreground"
+            >
+              Expressão
+            </Label>
+            <Input
+              id="recurrence-cron"
+              className="font-mono"
+              placeholder="0 9 * * 1-5"
+              value={value.cron}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...value, cron: e.target.value })}
+            />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label
+              htmlFor="recurrence-time"
+              className="text-xs uppercase text-muted-foreground"
+            >
+              Horário
+            </Label>
+            <Input
+              id="recurrence-time"
+              type="time"
+              value={value.time}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...value, time: e.target.value })}
+            />
+          </div>
+        )}
+      </div>
+
+      {value.frequency === 'weekly' && (
+        <div className="space-y-2">
+          <Label className="text-xs uppercase text-muted-foreground">
+            Dias da semana
+          </Label>
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            className="justify-start flex-wrap"
+            value={value.weekdays.map(String)}
+            onValueChange={(days) =>
+              onChange({ ...value, weekdays: days.map(Number).sort() })
+            }
+            disabled={disabled}
+          >
+            {WEEKDAY_ORDER.map((weekday) => (
+              <ToggleGroupItem key={weekday} value={String(weekday)}>
+                {WEEKDAY_SHORT_LABELS[weekday]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      )}
+
+      {value.frequency === 'monthly' && (
+        <div className="space-y-2">
+          <Label
+            htmlFor="recurrence-month-day"
+            className="text-xs uppercase text-muted-foreground"
+          >
+            Dia do mês
+          </Label>
+          <Input
+            id="recurrence-month-day"
+            type="number"
+            min={1}
+            max={31}
+            className="w-24"
+            value={value.monthDay}
+            disabled={disabled}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                monthDay: Math.min(
+                  31,
+                  Math.max(1, Math.floor(Number(e.target.value)) || 1),
+                ),
+              })
+            }
+          />
+          <p className="text-xs text-muted-foreground">
+            Meses mais curtos usam o último dia.
+          </p>
+        </div>
+      )}
+
+      {value.frequency === 'cron' && (
+        <p className="text-xs text-muted-foreground">
+          Cinco campos: minuto, hora, dia do mês, mês e dia da semana (0 =
+          domingo). Aceita *, listas (1,3), intervalos (1-5) e passos (*/15).
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="text-xs uppercase text-muted-foreground">
+            Término
+          </Label>
+          <Select
+            value={endMode}
+            onValueChange={(mode) => setEndMode(mode as EndMode)}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {END_OPTIONS.map(([mode, label]) => (
+                <SelectItem key={mode} value={mode}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {endMode === 'date' && (
+          <div className="space-y-2">
+            <Label
+              htmlFor="recurrence-ends-on"
+              className="text-xs uppercase text-muted-foreground"
+            >
+              Última execução até
+            </Label>
+            <Input
+              id="recurrence-ends-on"
+              type="date"
+              value={value.endsOn ?? ''}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...value, endsOn: e.target.value })}
+            />
+          </div>
+        )}
+
+        {endMode === 'count' && (
+          <div className="space-y-2">
+            <Label
+              htmlFor="recurrence-count"
+              className="text-xs uppercase text-muted-foreground"
+            >
+              Execuções
+            </Label>
+            <Input
+              id="recurrence-count"
+              type="number"
+              min={1}
+              className="w-24"
+              value={value.maxOccurrences ?? 1}
+              disabled={disabled}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  maxOccurrences: Math.max(
+                    1,
+                    Math.floor(Number(e.target.value)) || 1,
+                  ),
+                })
+              }
+            />
+          </div>
+        )}
+      </div>
+
+      {error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : runs.length > 0 ? (
+        <div className="space-y-1 text-xs text-muted-foreground">
+          <p>Próximas execuções:</p>
+          <ul className="list-disc pl-4">
+            {runs.map((run) => (
+              <li key={run.getTime()}>{formatRun.format(run)}</li>
+            ))}
+          </ul>
+          <p>
+            Cada execução envia para os mesmos contatos, com esta configuração.
+          </p>
+        </div>
+      ) : (
+        <p className="text-xs text-destructive">
+          A regra não tem nenhuma execução futura.
+        </p>
+      )}
+    </div>
+  )
+}
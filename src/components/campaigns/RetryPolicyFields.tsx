@@ -0,0 +1,131 @@
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  MAX_RETRY_ATTEMPTS,
+  RetryPolicy,
+  retryDelaySeconds,
+  SEND_ERROR_LABELS,
+  SendErrorCode,
+} from '@/lib/retry'
+
+const ERROR_OPTIONS = Object.entries(SEND_ERROR_LABELS) as [
+  SendErrorCode,
+  string,
+][]
+
+function formatDelay(seconds: number) {
+  if (seconds < 60) return `${seconds}s`
+  if (seconds < 3600) return `${Math.round(seconds / 60)} min`
+  return `${Math.round((seconds / 3600) * 10) / 10} h`
+}
+
+interface RetryPolicyFieldsProps {
+  value: RetryPolicy
+  onChange: (policy: RetryPolicy) => void
+  disabled?: boolean
+}
+
+export function RetryPolicyFields({
+  value,
+  onChange,
+  disabled,
+}: RetryPolicyFieldsProps) {
+  const toggleError = (code: SendErrorCode, checked: boolean) => {
+    onChange({
+      ...value,
+      retryableErrors: checked
+        ? [...value.retryableErrors, code]
+        : value.retryableErrors.filter((item) => item !== code),
+    })
+  }
+
+  const delays = Array.from(
+    { length: Math.max(0, value.maxAttempts - 1) },
+    (_, i) => formatDelay(retryDelaySeconds(value, i + 1)),
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label
+            htmlFor="retry-max-attempts"
+            className="text-xs uppercase text-muted-foreground"
+          >
+            Tentativas por mensagem
+          </Label>
+          <Input
+            id="retry-max-attempts"
+            type="number"
+            min={1}
+            max={MAX_RETRY_ATTEMPTS}
+            value={value.maxAttempts}
+            disabled={disabled}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                maxAttempts: Math.min(
+                  MAX_RETRY_ATTEMPTS,
+                  Math.max(1, Number(e.target.value) || 1),
+                ),
+              })
+            }
+          />
+        </div>
+        <div className="space-y-2">
+          <Label
+            htmlFor="retry-backoff"
+            className="text-xs uppercase text-muted-foreground"
+          >
+            Espera inicial (s)
+          </Label>
+          <Input
+            id="retry-backoff"
+            type="number"
+            min={1}
+            value={value.backoffSeconds}
+            disabled={disabled || value.maxAttempts <= 1}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                backoffSeconds: Math.max(1, Number(e.target.value) || 1),
+              })
+            }
+          />
+        </div>
+      </div>
+
+      {value.maxAttempts > 1 && (
+        <>
+          <div className="space-y-2">
+            <Label className="text-xs uppercase text-muted-foreground">
+              Tentar novamente quando o erro for
+            </Label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {ERROR_OPTIONS.map(([code, label]) => (
+                <label
+                  key={code}
+                  className="flex items-center gap-2 text-sm cursor-pointer"
+                >
+                  <Checkbox
+                    checked={value.retryableErrors.includes(code)}
+                    onCheckedChange={(checked) =>
+                      toggleError(code, checked === true)
+                    }
+                    disabled={disabled}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Novas tentativas após {delays.join(', ')}. A espera dobra a cada
+            falha.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
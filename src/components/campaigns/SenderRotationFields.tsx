@@ -0,0 +1,123 @@
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  ROTATION_STRATEGY_LABELS,
+  RotationStrategy,
+  SENDER_STATUS_LABELS,
+  SenderRotation,
+} from '@/lib/sender-pool'
+import { WhatsAppConnection } from '@/services/whatsapp'
+
+interface SenderRotationFieldsProps {
+  value: SenderRotation
+  onChange: (rotation: SenderRotation) => void
+  // The account's numbers, in the order round-robin walks them
+  senders: WhatsAppConnection[]
+  disabled?: boolean
+}
+
+const STRATEGY_HINTS: Record<RotationStrategy, string> = {
+  round_robin: 'Cada mensagem sai pelo próximo número da lista.',
+  least_used:
+    'Cada mensagem sai pelo número que menos enviou hoje, somando todas as campanhas.',
+  sticky:
+    'Contatos que já receberam mensagem continuam no mesmo número, para que as respostas cheguem onde a conversa começou.',
+}
+
+const STRATEGY_OPTIONS = Object.entries(ROTATION_STRATEGY_LABELS) as [
+  RotationStrategy,
+  string,
+][]
+
+export function SenderRotationFields({
+  value,
+  onChange,
+  senders,
+  disabled,
+}: SenderRotationFieldsProps) {
+  // An empty selection means every active number
+  const isSelected = (id: string) =>
+    value.senderIds.length === 0 || value.senderIds.includes(id)
+
+  const toggleSender = (id: string, checked: boolean) => {
+    const selected = senders
+      .map((sender) => sender.id)
+      .filter((senderId) => (senderId === id ? checked : isSelected(senderId)))
+    // At least one number has to stay in the campaign
+    if (selected.length === 0) return
+    onChange({
+      ...value,
+      senderIds: selected.length === senders.length ? [] : selected,
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-xs uppercase text-muted-foreground">
+          Rodízio entre números
+        </Label>
+        <Select
+          value={value.strategy}
+          onValueChange={(strategy) =>
+            onChange({ ...value, strategy: strategy as RotationStrategy })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {STRATEGY_OPTIONS.map(([strategy, label]) => (
+              <SelectItem key={strategy} value={strategy}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {STRATEGY_HINTS[value.strategy]}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs uppercase text-muted-foreground">
+          Números usados nesta campanha
+        </Label>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {senders.map((sender) => (
+            <label
+              key={sender.id}
+              className="flex items-center gap-2 text-sm cursor-pointer"
+            >
+              <Checkbox
+                checked={isSelected(sender.id)}
+                onCheckedChange={(checked) =>
+                  toggleSender(sender.id, checked === true)
+                }
+                disabled={disabled}
+              />
+              {sender.label || sender.phone || 'Sem nome'}
+              {sender.status !== 'active' && (
+                <span className="text-xs text-muted-foreground">
+                  ({SENDER_STATUS_LABELS[sender.status]})
+                </span>
+              )}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Números pausados, com falhas ou no limite diário ficam de fora até
+          voltarem a ficar disponíveis.
+        </p>
+      </div>
+    </div>
+  )
+}
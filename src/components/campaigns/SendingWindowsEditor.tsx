@@ -0,0 +1,157 @@
+import { Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  normalizeDayWindows,
+  SendingWindow,
+  summarizeWeeklyWindows,
+  WEEKDAY_LABELS,
+  WEEKDAY_ORDER,
+  WeeklyWindows,
+} from '@/lib/sending-windows'
+
+interface SendingWindowsEditorProps {
+  value: WeeklyWindows
+  onChange: (windows: WeeklyWindows) => void
+  disabled?: boolean
+}
+
+const DEFAULT_WINDOW: SendingWindow = { start: '08:00', end: '18:00' }
+
+export function SendingWindowsEditor({
+  value,
+  onChange,
+  disabled,
+}: SendingWindowsEditorProps) {
+  const updateDay = (weekday: number, windows: SendingWindow[]) => {
+    onChange(value.map((day, index) => (index === weekday ? windows : day)))
+  }
+
+  const addWindow = (weekday: number) => {
+    const day = value[weekday] ?? []
+    // A one hour window right after the last one
+    const last = day[day.length - 1]
+    const [hours, minutes] = (last?.end ?? '').split(':').map(Number)
+    const next =
+      last && hours < 23
+        ? {
+            start: last.end,
+            end: `${String(Math.min(23, hours + 1)).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`,
+          }
+        : DEFAULT_WINDOW
+    updateDay(weekday, [...day, next])
+  }
+
+  return (
+    <div className="space-y-3">
+      {WEEKDAY_ORDER.map((weekday) => {
+        const day = value[weekday] ?? []
+        const isOpen = day.length > 0
+        const isInvalid = day.some(
+          (window) => normalizeDayWindows([window]).length === 0,
+        )
+
+        return (
+          <div
+            key={weekday}
+            className="flex flex-col gap-2 sm:flex-row sm:items-start"
+          >
+            <div className="flex w-36 shrink-0 items-center gap-2 pt-2">
+              <Switch
+                id={`sending-window-${weekday}`}
+                checked={isOpen}
+                disabled={disabled}
+                onCheckedChange={(checked) =>
+                  updateDay(weekday, checked ? [DEFAULT_WINDOW] : [])
+                }
+              />
+              <Label htmlFor={`sending-window-${weekday}`}>
+                {WEEKDAY_LABELS[weekday]}
+              </Label>
+            </div>
+
+            {isOpen ? (
+              <div className="flex-1 space-y-2">
+                {day.map((window, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      className="w-28"
+                      aria-label={`${WEEKDAY_LABELS[weekday]}: início`}
+                      value={window.start}
+                      disabled={disabled}
+                      onChange={(e) =>
+                        updateDay(
+                          weekday,
+                          day.map((w, i) =>
+                            i === index ? { ...w, start: e.target.value } : w,
+                          ),
+                        )
+                      }
+                    />
+                    <span className="text-sm text-muted-foreground">até</span>
+                    <Input
+                      type="time"
+                      className="w-28"
+                      aria-label={`${WEEKDAY_LABELS[weekday]}: fim`}
+                      value={window.end}
+                      disabled={disabled}
+                      onChange={(e) =>
+                        updateDay(
+                          weekday,
+                          day.map((w, i) =>
+                            i === index ? { ...w, end: e.target.value } : w,
+                          ),
+                        )
+                      }
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      disabled={disabled}
+                      onClick={() =>
+                        updateDay(
+                          weekday,
+                          day.filter((_, i) => i !== index),
+                        )
+                      }
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="h-auto px-0"
+                  disabled={disabled}
+                  onClick={() => addWindow(weekday)}
+                >
+                  <Plus className="mr-1 h-3 w-3" />
+                  Adicionar janela
+                </Button>
+                {isInvalid && (
+                  <p className="text-sm text-destructive">
+                    O fim de cada janela deve ser depois do início.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="pt-2 text-sm text-muted-foreground">Sem envios</p>
+            )}
+          </div>
+        )
+      })}
+
+      <p className="text-sm text-muted-foreground">
+        {summarizeWeeklyWindows(value)}. Fora dessas janelas a campanha fica
+        pausada e retoma no início da próxima.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Shuffle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { countSpintaxVariants, hasSpintax, sampleSpintax } from '@/lib/spintax'
+import { buildContactVariables, renderTemplate } from '@/lib/template'
+
+const SAMPLE_COUNT = 3
+
+interface SpintaxPreviewProps {
+  template: string
+  contact?: { name?: string; phone?: string; variables?: unknown }
+}
+
+export function SpintaxPreview({ template, contact }: SpintaxPreviewProps) {
+  const [rawSamples, setRawSamples] = useState<string[]>(() =>
+    sampleSpintax(template, SAMPLE_COUNT),
+  )
+
+  // Draw new samples whenever the text changes; variables are filled on render
+  useEffect(() => {
+    setRawSamples(sampleSpintax(template, SAMPLE_COUNT))
+  }, [template])
+
+  const variantCount = useMemo(() => countSpintaxVariants(template), [template])
+  const variables = buildContactVariables(contact || {})
+
+  if (!hasSpintax(template)) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Dica: use {'{Olá|Oi|E aí}'} para variar o texto entre os contatos.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border bg-muted/30 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium text-foreground">
+          {variantCount.toLocaleString('pt-BR')}{' '}
+          {variantCount === 1 ? 'variação possível' : 'variações possíveis'}
+        </span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => setRawSamples(sampleSpintax(template, SAMPLE_COUNT))}
+        >
+          <Shuffle className="mr-1 h-3 w-3" />
+          Gerar exemplos
+        </Button>
+      </div>
+      <ul className="space-y-1">
+        {rawSamples.map((sample, index) => (
+          <li
+            key={index}
+            className="text-xs text-muted-foreground whitespace-pre-wrap break-words border-l-2 border-primary/40 pl-2"
+          >
+            {renderTemplate(sample, variables).text}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
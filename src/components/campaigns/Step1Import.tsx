@@ -5,6 +5,8 @@ import {
   Loader2,
   FileIcon,
   Code as CodeIcon,
+  Paperclip,
+  X,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
@@ -19,9 +21,14 @@ import {
 } from '@/components/ui/table'
 import { toast } from 'sonner'
 import { parseCSV, ParsedContact } from '@/lib/csv'
+import { ACCEPTED_MEDIA_TYPES, validateMediaFile } from '@/lib/media'
 
 interface Step1ImportProps {
-  onNext: (contacts: ParsedContact[], filename: string) => void
+  onNext: (
+    contacts: ParsedContact[],
+    filename: string,
+    mediaFiles: File[],
+  ) => void
   isProcessing: boolean
 }
 
@@ -30,6 +37,8 @@ export function Step1Import({ onNext, isProcessing }: Step1ImportProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [isParsing, setIsParsing] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const [mediaFiles, setMediaFiles] = useState<File[]>([])
+  const mediaInputRef = useRef<HTMLInputElement>(null)
 
   const validateFile = (selectedFile: File) => {
     const fileExtension =
@@ -81,6 +90,25 @@ export function Step1Import({ onNext, isProcessing }: Step1ImportProps) {
     e.target.value = ''
   }
 
+  const handleMediaInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || [])
+    e.target.value = ''
+
+    const valid = selected.filter((mediaFile) => {
+      const validationError = validateMediaFile(mediaFile)
+      if (validationError) {
+        toast.error(mediaFile.name, { description: validationError })
+        return false
+      }
+      return true
+    })
+
+    setMediaFiles((prev) => [
+      ...prev.filter((f) => !valid.some((v) => v.name === f.name)),
+      ...valid,
+    ])
+  }
+
   const handleProcess = async () => {
     if (!file) return
 
@@ -90,7 +118,16 @@ export function Step1Import({ onNext, isProcessing }: Step1ImportProps) {
       // This will handle header exclusion, field mapping, and validation
       const contacts = await parseCSV(file)
 
-      onNext(contacts, file.name)
+      const referencedFiles = contacts.filter(
+        (c) => c.media && !/^https?:\/\//i.test(c.media),
+      )
+      if (referencedFiles.length > 0 && mediaFiles.length === 0) {
+        toast.warning('Anexos não enviados', {
+          description: `${referencedFiles.length} contato(s) citam arquivos pelo nome. Envie os arquivos em "Anexos por contato" se ainda não estiverem na sua biblioteca.`,
+        })
+      }
+
+      onNext(contacts, file.name, mediaFiles)
     } catch (error: any) {
       toast.error('Erro ao processar arquivo', {
         description: error.message,
@@ -180,6 +217,64 @@ export function Step1Import({ onNext, isProcessing }: Step1ImportProps) {
         </CardContent>
       </Card>
 
+      {/* Per-contact attachments referenced by name in the spreadsheet */}
+      <Card className="bg-white shadow-sm">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div>
+              <p className="font-semibold text-slate-900 text-sm">
+                Anexos por contato (opcional)
+              </p>
+              <p className="text-xs text-slate-500">
+                Adicione uma coluna "anexo" na planilha com a URL ou o nome do
+                arquivo enviado aqui.
+              </p>
+            </div>
+            <input
+              type="file"
+              className="hidden"
+              ref={mediaInputRef}
+              accept={ACCEPTED_MEDIA_TYPES}
+              multiple
+              onChange={handleMediaInput}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => mediaInputRef.current?.click()}
+              disabled={isProcessing || isParsing}
+            >
+              <Paperclip className="mr-2 h-4 w-4" />
+              Selecionar arquivos
+            </Button>
+          </div>
+          {mediaFiles.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {mediaFiles.map((mediaFile) => (
+                <span
+                  key={mediaFile.name}
+                  className="flex items-center gap-1 rounded-full bg-slate-100 px-3 py-1 text-xs text-slate-700"
+                >
+                  {mediaFile.name}
+                  <button
+                    type="button"
+                    className="hover:text-destructive"
+                    onClick={() =>
+                      setMediaFiles((prev) =>
+                        prev.filter((f) => f.name !== mediaFile.name),
+                      )
+                    }
+                    title="Remover"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Format Reference & Action */}
       <div className="grid lg:grid-cols-3 gap-8 items-end">
         <div className="lg:col-span-2 space-y-4">
@@ -212,7 +307,7 @@ export function Step1Import({ onNext, isProcessing }: Step1ImportProps) {
                       5511999999999
                     </TableCell>
                     <TableCell className="py-3 text-sm text-slate-600">
-                      Olá, tudo bem?
+                      {'Olá {{primeiro_nome}}, tudo bem?'}
                     </TableCell>
                   </TableRow>
                 </TableBody>
@@ -224,6 +319,11 @@ export function Step1Import({ onNext, isProcessing }: Step1ImportProps) {
             telefone, mensagem. O sistema ignora a primeira linha durante a
             importação.
           </p>
+          <p className="text-xs text-slate-400">
+            Personalize a mensagem com {'{{nome}}'}, {'{{primeiro_nome}}'},{' '}
+            {'{{telefone}}'} ou qualquer coluna extra da planilha (ex.:{' '}
+            {'{{cidade}}'}). Defina um valor padrão com {'{{nome|cliente}}'}.
+          </p>
         </div>
 
         <div className="flex justify-end lg:justify-end w-full">
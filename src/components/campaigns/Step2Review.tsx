@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import {
   Table,
   TableBody,
@@ -28,12 +28,19 @@ import {
   Users,
   Loader2,
   Trash,
+  AlertTriangle,
+  ShieldBan,
 } from 'lucide-react'
 import { campaignsService, CampaignMessage } from '@/services/campaigns'
 import { contactsService, Contact } from '@/services/contacts'
 import { toast } from 'sonner'
 import { cn } from '@/lib/utils'
 import { EditContactDialog } from '@/components/contacts/EditContactDialog'
+import { MessagePreview } from '@/components/campaigns/MessagePreview'
+import { renderContactMessage } from '@/lib/template'
+import { normalizePhone } from '@/lib/phone'
+import { suppressionService } from '@/services/suppression'
+import { Badge } from '@/components/ui/badge'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -57,6 +64,9 @@ export function Step2Review({ campaignId, onBack, onNext }: Step2ReviewProps) {
   const [isLoading, setIsLoading] = useState(true)
   const [selectedIds, setSelectedIds] = useState<string[]>([])
   const [isDeleting, setIsDeleting] = useState(false)
+  const [suppressedPhones, setSuppressedPhones] = useState<Set<string>>(
+    new Set(),
+  )
 
   // Edit Dialog State
   const [editingContact, setEditingContact] = useState<Contact | null>(null)
@@ -69,8 +79,12 @@ export function Step2Review({ campaignId, onBack, onNext }: Step2ReviewProps) {
   const fetchMessages = async () => {
     try {
       setIsLoading(true)
-      const data = await campaignsService.getMessages(campaignId)
+      const [data, suppressed] = await Promise.all([
+        campaignsService.getMessages(campaignId),
+        suppressionService.getSuppressedPhones(),
+      ])
       setMessages(data)
+      setSuppressedPhones(suppressed)
     } catch (error) {
       console.error(error)
       toast.error('Erro ao carregar contatos')
@@ -79,6 +93,26 @@ export function Step2Review({ campaignId, onBack, onNext }: Step2ReviewProps) {
     }
   }
 
+  // Recipients whose message references variables they don't have
+  const messagesWithMissingVariables = useMemo(
+    () =>
+      messages.filter(
+        (m) =>
+          m.contacts && renderContactMessage(m.contacts).missing.length > 0,
+      ),
+    [messages],
+  )
+
+  // Recipients on the suppression list; the queue skips them
+  const suppressedMessages = useMemo(
+    () =>
+      messages.filter(
+        (m) =>
+          m.contacts && suppressedPhones.has(normalizePhone(m.contacts.phone)),
+      ),
+    [messages, suppressedPhones],
+  )
+
   const toggleSelectAll = () => {
     if (selectedIds.length === messages.length) {
       setSelectedIds([])
@@ -130,7 +164,10 @@ export function Step2Review({ campaignId, onBack, onNext }: Step2ReviewProps) {
         id: message.contact_id,
         name: message.contacts.name,
         phone: message.contacts.phone,
-        message: (message.contacts as any).message || '',
+        message: message.contacts.message || '',
+        variables: message.contacts.variables || {},
+        media_url: message.contacts.media_url || null,
+        normalized_phone: null,
         created_at: '',
         user_id: '',
         status: 'pendente',
@@ -153,7 +190,10 @@ export function Step2Review({ campaignId, onBack, onNext }: Step2ReviewProps) {
         id: message.contact_id,
         name: message.contacts.name,
         phone: message.contacts.phone,
-        message: (message.contacts as any).message || '',
+        message: message.contacts.message || '',
+        variables: message.contacts.variables || {},
+        media_url: message.contacts.media_url || null,
+        normalized_phone: null,
         created_at: '',
         user_id: '',
         status: 'pendente',
@@ -212,6 +252,38 @@ export function Step2Review({ campaignId, onBack, onNext }: Step2ReviewProps) {
         </p>
       </div>
 
+      {messagesWithMissingVariables.length > 0 && (
+        <div className="flex items-start gap-3 rounded-2xl border border-amber-200 bg-amber-50 p-4 text-amber-800 dark:border-amber-900 dark:bg-amber-950/30 dark:text-amber-300">
+          <AlertTriangle className="h-5 w-5 shrink-0 mt-0.5" />
+          <div className="text-sm">
+            <p className="font-semibold">
+              {messagesWithMissingVariables.length} contato(s) com variáveis sem
+              valor
+            </p>
+            <p>
+              Essas variáveis serão enviadas em branco. Edite os contatos
+              marcados ou use um valor padrão, como{' '}
+              <code className="font-mono">{'{{nome|cliente}}'}</code>.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {suppressedMessages.length > 0 && (
+        <div className="flex items-start gap-3 rounded-2xl border border-slate-200 bg-slate-50 p-4 text-slate-700 dark:border-slate-800 dark:bg-slate-900/40 dark:text-slate-300">
+          <ShieldBan className="h-5 w-5 shrink-0 mt-0.5" />
+          <div className="text-sm">
+            <p className="font-semibold">
+              {suppressedMessages.length} contato(s) na lista de supressão
+            </p>
+            <p>
+              Eles pediram para não receber mensagens e serão ignorados no
+              envio. Gerencie a lista em Configurações.
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Table Container */}
       <Card className="border-slate-200 dark:border-slate-800 rounded-3xl overflow-hidden shadow-sm">
         {/* Toolbar */}
@@ -275,6 +347,7 @@ export function Step2Review({ campaignId, onBack, onNext }: Step2ReviewProps) {
                   </TableHead>
                   <TableHead>Nome do Cliente</TableHead>
                   <TableHead>Telefone do Cliente</TableHead>
+                  <TableHead>Mensagem</TableHead>
                   <TableHead className="text-right">Ações</TableHead>
                 </TableRow>
               </TableHeader>
@@ -294,6 +367,9 @@ export function Step2Review({ campaignId, onBack, onNext }: Step2ReviewProps) {
                       <TableCell>
                         <div className="h-4 w-24 rounded bg-muted animate-pulse" />
                       </TableCell>
+                      <TableCell>
+                        <div className="h-4 w-40 rounded bg-muted animate-pulse" />
+                      </TableCell>
                       <TableCell className="text-right">
                         <div className="h-8 w-24 ml-auto rounded bg-muted animate-pulse" />
                       </TableCell>
@@ -302,7 +378,7 @@ export function Step2Review({ campaignId, onBack, onNext }: Step2ReviewProps) {
                 ) : messages.length === 0 ? (
                   <TableRow>
                     <TableCell
-                      colSpan={4}
+                      colSpan={5}
                       className="h-32 text-center text-muted-foreground"
                     >
                       Nenhum contato encontrado.
@@ -338,9 +414,20 @@ export function Step2Review({ campaignId, onBack, onNext }: Step2ReviewProps) {
                         </div>
                       </TableCell>
                       <TableCell>
-                        <span className="font-mono text-muted-foreground">
-                          {message.contacts?.phone}
-                        </span>
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono text-muted-foreground">
+                            {message.contacts?.phone}
+                          </span>
+                          {message.contacts &&
+                            suppressedPhones.has(
+                              normalizePhone(message.contacts.phone),
+                            ) && <Badge variant="secondary">Suprimido</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {message.contacts && (
+                          <MessagePreview contact={message.contacts} />
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-1 opacity-20 group-hover:opacity-100 transition-opacity duration-200">
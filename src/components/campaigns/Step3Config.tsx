@@ -15,6 +15,13 @@ import {
   AlertTriangle,
   Info,
   CalendarClock,
+  Paperclip,
+  RotateCcw,
+  ShieldAlert,
+  Gauge,
+  Smartphone,
+  Repeat,
+  FlaskConical,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
@@ -55,6 +62,52 @@ import {
 import { campaignsService, Campaign } from '@/services/campaigns'
 import { toast } from 'sonner'
 import { mapDbConfigToScheduleConfig } from '@/lib/campaign-utils'
+import { MediaAttachment, resolveMessageMedia } from '@/lib/media'
+import { MediaAttachmentField } from './MediaAttachmentField'
+import { parseRetryPolicy, RetryPolicy } from '@/lib/retry'
+import { RetryPolicyFields } from './RetryPolicyFields'
+import {
+  CircuitBreakerConfig,
+  parseCircuitBreaker,
+} from '@/lib/circuit-breaker'
+import { CircuitBreakerFields } from './CircuitBreakerFields'
+import {
+  calendarDateKey,
+  parseCalendarDate,
+  resolveTimeZone,
+  zonedDateKey,
+} from '@/lib/timezone'
+import { TimezoneSelect } from './TimezoneSelect'
+import {
+  DEFAULT_WEEKLY_WINDOWS,
+  hasAnyWindow,
+  WeeklyWindows,
+} from '@/lib/sending-windows'
+import { SendingWindowsEditor } from './SendingWindowsEditor'
+import {
+  BlackoutCalendar,
+  EMPTY_BLACKOUT_CALENDAR,
+  getBlackoutReason,
+} from '@/lib/blackout'
+import { blackoutService } from '@/services/blackout'
+import { AccountSendingLimits, parseAccountLimits } from '@/lib/daily-caps'
+import { profileService } from '@/services/profile'
+import { DailyLimitFields } from './DailyLimitFields'
+import { parseSenderRotation, SenderRotation } from '@/lib/sender-pool'
+import { whatsappService, WhatsAppConnection } from '@/services/whatsapp'
+import { SenderRotationFields } from './SenderRotationFields'
+import {
+  DEFAULT_RECURRENCE,
+  RecurrenceRule,
+  validateRecurrence,
+} from '@/lib/recurrence'
+import { RecurrenceFields } from './RecurrenceFields'
+import {
+  AbTestSetup,
+  defaultAbTestSetup,
+  validateAbTestSetup,
+} from '@/lib/ab-testing'
+import { AbTestFields } from './AbTestFields'
 
 const formSchema = z
   .object({
@@ -67,7 +120,7 @@ const formSchema = z
       .number()
       .min(1, 'Mínimo de 1 segundo')
       .max(3600, 'Máximo de 1 hora'),
-    scheduleType: z.enum(['immediate', 'scheduled']),
+    scheduleType: z.enum(['immediate', 'scheduled', 'recurring']),
     scheduledDate: z.date().optional(),
     scheduledTime: z.string().optional(),
 
@@ -132,7 +185,7 @@ export interface Step3ConfigValues {
   name: string
   minInterval: number
   maxInterval: number
-  scheduleType: 'immediate' | 'scheduled'
+  scheduleType: 'immediate' | 'scheduled' | 'recurring'
   scheduledDate?: Date
   scheduledTime?: string
   useBatching: boolean
@@ -140,10 +193,21 @@ export interface Step3ConfigValues {
   batchPauseMin?: number
   batchPauseMax?: number
   businessHoursStrategy: 'ignore' | 'pause'
+  sendingWindows?: WeeklyWindows
+  dailyLimit?: number | null
+  senderRotation?: SenderRotation
   automaticPause: boolean
   pauseTime?: string
   resumeDate?: Date
   resumeTime?: string
+  media?: MediaAttachment | null
+  retryPolicy?: RetryPolicy
+  circuitBreaker?: CircuitBreakerConfig
+  timezone?: string
+  // Set when scheduleType is 'recurring'
+  recurrence?: RecurrenceRule
+  // Message variants to test; not offered for recurring campaigns
+  abTest?: AbTestSetup | null
 }
 
 interface Step3ConfigProps {
@@ -160,6 +224,29 @@ export function Step3Config({
   const [loading, setLoading] = useState(true)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [campaign, setCampaign] = useState<Campaign | null>(null)
+  const [media, setMedia] = useState<MediaAttachment | null>(null)
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(
+    parseRetryPolicy(null),
+  )
+  const [circuitBreaker, setCircuitBreaker] = useState<CircuitBreakerConfig>(
+    parseCircuitBreaker(null),
+  )
+  const [timezone, setTimezone] = useState(resolveTimeZone(null))
+  const [sendingWindows, setSendingWindows] = useState<WeeklyWindows>(
+    DEFAULT_WEEKLY_WINDOWS,
+  )
+  const [blackout, setBlackout] = useState<BlackoutCalendar>(
+    EMPTY_BLACKOUT_CALENDAR,
+  )
+  const [dailyLimit, setDailyLimit] = useState<number | null>(null)
+  const [accountLimits, setAccountLimits] = useState<AccountSendingLimits>()
+  const [senderRotation, setSenderRotation] = useState<SenderRotation>(
+    parseSenderRotation(null),
+  )
+  const [senders, setSenders] = useState<WhatsAppConnection[]>([])
+  const [recurrence, setRecurrence] =
+    useState<RecurrenceRule>(DEFAULT_RECURRENCE)
+  const [abTest, setAbTest] = useState<AbTestSetup | null>(null)
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -184,6 +271,25 @@ export function Step3Config({
         const data = await campaignsService.getById(campaignId)
         setCampaign(data)
         form.setValue('name', data.name)
+        setMedia(resolveMessageMedia(null, data))
+        setRetryPolicy(parseRetryPolicy(data.config))
+        setCircuitBreaker(parseCircuitBreaker(data.config))
+        setSenderRotation(parseSenderRotation(data.config))
+        // New drafts inherit the profile's zone when they are created
+        setTimezone(resolveTimeZone(data.timezone))
+        // Only feeds the start date warning, so a failure isn't fatal
+        blackoutService
+          .getCalendar(data.user_id)
+          .then(setBlackout)
+          .catch((err) => console.error('Failed to load blackout dates', err))
+        profileService
+          .get(data.user_id)
+          .then((profile) => setAccountLimits(parseAccountLimits(profile)))
+          .catch((err) => console.error('Failed to load sending limits', err))
+        whatsappService
+          .getConnections(data.user_id)
+          .then(setSenders)
+          .catch((err) => console.error('Failed to load sender numbers', err))
 
         if (data.config) {
           // If editing existing config, map it correctly
@@ -192,6 +298,7 @@ export function Step3Config({
           const mappedConfig = mapDbConfigToScheduleConfig(
             data.config,
             startTime,
+            data.timezone,
           )
 
           form.setValue('minInterval', mappedConfig.minInterval)
@@ -207,6 +314,9 @@ export function Step3Config({
             'businessHoursStrategy',
             mappedConfig.businessHoursStrategy,
           )
+          if (mappedConfig.sendingWindows)
+            setSendingWindows(mappedConfig.sendingWindows)
+          setDailyLimit(mappedConfig.dailyLimit ?? null)
 
           if (mappedConfig.automaticPause) {
             form.setValue('automaticPause', true)
@@ -252,10 +362,60 @@ export function Step3Config({
     return `~ ${minutes.toString().padStart(2, '0')} min ${seconds.toString().padStart(2, '0')} seg`
   }
 
+  // The campaign's first day, in its own zone
+  const watchedScheduleType = form.watch('scheduleType')
+  const watchedScheduledDate = form.watch('scheduledDate')
+  const startDay =
+    watchedScheduleType === 'scheduled'
+      ? parseCalendarDate(watchedScheduledDate)
+      : null
+  const startDateKey = startDay
+    ? calendarDateKey(startDay)
+    : zonedDateKey(new Date(), timezone)
+  const startBlackoutReason = getBlackoutReason(startDateKey, blackout)
+
   const onSubmit = async (values: z.infer<typeof formSchema>) => {
+    if (
+      values.businessHoursStrategy === 'pause' &&
+      !hasAnyWindow(sendingWindows)
+    ) {
+      toast.error('Defina ao menos uma janela de envio')
+      return
+    }
+
+    const recurrenceError =
+      values.scheduleType === 'recurring'
+        ? validateRecurrence(recurrence)
+        : null
+    if (recurrenceError) {
+      toast.error(recurrenceError)
+      return
+    }
+
+    const isRecurring = values.scheduleType === 'recurring'
+    const abTestError =
+      abTest && !isRecurring
+        ? validateAbTestSetup(abTest, campaign?.total_messages)
+        : null
+    if (abTestError) {
+      toast.error(abTestError)
+      return
+    }
+
     setIsSubmitting(true)
     try {
-      await onFinish(values as Step3ConfigValues)
+      await onFinish({
+        ...values,
+        media,
+        retryPolicy,
+        circuitBreaker,
+        timezone,
+        sendingWindows,
+        dailyLimit,
+        senderRotation,
+        recurrence: isRecurring ? recurrence : undefined,
+        abTest: isRecurring ? null : abTest,
+      } as Step3ConfigValues)
     } catch (error) {
       console.error(error)
     } finally {
@@ -355,6 +515,60 @@ export function Step3Config({
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Paperclip className="h-4 w-4 text-muted-foreground" />
+                Anexo
+              </CardTitle>
+              <CardDescription>
+                Opcional. Contatos com anexo próprio na planilha usam o arquivo
+                deles.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MediaAttachmentField
+                value={media}
+                onChange={setMedia}
+                disabled={isSubmitting}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Runs of a recurring campaign are copied without the variants */}
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <div className="space-y-1">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <FlaskConical className="h-4 w-4 text-muted-foreground" />
+                  Teste A/B
+                </CardTitle>
+                <CardDescription>
+                  {watchedScheduleType === 'recurring'
+                    ? 'Indisponível para campanhas recorrentes.'
+                    : 'Compare de 2 a 5 versões da mensagem e veja qual tem mais entregas e respostas.'}
+                </CardDescription>
+              </div>
+              <Switch
+                checked={!!abTest && watchedScheduleType !== 'recurring'}
+                onCheckedChange={(checked) =>
+                  setAbTest(checked ? defaultAbTestSetup() : null)
+                }
+                disabled={isSubmitting || watchedScheduleType === 'recurring'}
+              />
+            </CardHeader>
+            {abTest && watchedScheduleType !== 'recurring' && (
+              <CardContent className="pt-4 animate-fade-in-down">
+                <AbTestFields
+                  value={abTest}
+                  onChange={setAbTest}
+                  recipients={campaign?.total_messages || 0}
+                  disabled={isSubmitting}
+                />
+              </CardContent>
+            )}
+          </Card>
+
           <div className="grid gap-6 md:grid-cols-2">
             <Card className="h-full">
               <CardHeader>
@@ -428,7 +642,7 @@ export function Step3Config({
                         <RadioGroup
                           onValueChange={field.onChange}
                           defaultValue={field.value}
-                          className="grid grid-cols-2 gap-4"
+                          className="grid grid-cols-3 gap-4"
                         >
                           <FormItem>
                             <FormControl>
@@ -462,6 +676,22 @@ export function Step3Config({
                               Agendar
                             </Label>
                           </FormItem>
+                          <FormItem>
+                            <FormControl>
+                              <RadioGroupItem
+                                value="recurring"
+                                className="peer sr-only"
+                                id="recurring"
+                              />
+                            </FormControl>
+                            <Label
+                              htmlFor="recurring"
+                              className="flex flex-col items-center justify-between rounded-md border-2 border-muted bg-transparent p-4 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary peer-data-[state=checked]:text-primary cursor-pointer transition-all"
+                            >
+                              <Repeat className="mb-2 h-5 w-5" />
+                              Recorrente
+                            </Label>
+                          </FormItem>
                         </RadioGroup>
                       </FormControl>
                     </FormItem>
@@ -530,6 +760,36 @@ export function Step3Config({
                     />
                   </div>
                 )}
+
+                {form.watch('scheduleType') === 'recurring' && (
+                  <div className="animate-fade-in-down">
+                    <RecurrenceFields
+                      value={recurrence}
+                      onChange={setRecurrence}
+                      timeZone={timezone}
+                    />
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="campaign-timezone">Fuso horário</Label>
+                  <TimezoneSelect
+                    id="campaign-timezone"
+                    value={timezone}
+                    onChange={setTimezone}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Agendamento, horário comercial e pausas seguem este fuso.
+                  </p>
+                </div>
+
+                {startBlackoutReason && (
+                  <p className="text-xs text-amber-600 flex items-center gap-1">
+                    <AlertTriangle className="h-3 w-3 shrink-0" />O início cai
+                    em um dia bloqueado ({startBlackoutReason}). Os envios
+                    começam no próximo dia liberado.
+                  </p>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -723,15 +983,95 @@ export function Step3Config({
             )}
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <RotateCcw className="h-4 w-4 text-muted-foreground" />
+                Reenvio Automático
+              </CardTitle>
+              <CardDescription>
+                Mensagens que falham por instabilidade voltam para a fila e são
+                reenviadas com espera crescente.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RetryPolicyFields
+                value={retryPolicy}
+                onChange={setRetryPolicy}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <ShieldAlert className="h-4 w-4 text-muted-foreground" />
+                Proteção contra Falhas
+              </CardTitle>
+              <CardDescription>
+                Evita que uma queda do WhatsApp consuma a lista inteira marcando
+                todos os envios como falha.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CircuitBreakerFields
+                value={circuitBreaker}
+                onChange={setCircuitBreaker}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Gauge className="h-4 w-4 text-muted-foreground" />
+                Limite Diário
+              </CardTitle>
+              <CardDescription>
+                Números novos ou com pouco histórico são bloqueados quando
+                enviam muitas mensagens no mesmo dia.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <DailyLimitFields
+                value={dailyLimit}
+                onChange={setDailyLimit}
+                accountLimits={accountLimits}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Rotation only matters with more than one number */}
+          {senders.length > 1 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Smartphone className="h-4 w-4 text-muted-foreground" />
+                  Números de Envio
+                </CardTitle>
+                <CardDescription>
+                  Espalhe os envios entre os seus números para não sobrecarregar
+                  nenhum deles.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SenderRotationFields
+                  value={senderRotation}
+                  onChange={setSenderRotation}
+                  senders={senders}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2 text-base">
                 <Clock className="h-4 w-4 text-muted-foreground" />
-                Horário Comercial (08:00 - 18:00)
+                Janelas de Envio
               </CardTitle>
               <CardDescription>
-                Defina o comportamento caso o envio ultrapasse o horário
-                comercial.
+                Defina em quais dias e horários as mensagens podem sair.
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -759,7 +1099,7 @@ export function Step3Config({
                             <RadioGroupItem value="pause" id="pause" />
                           </FormControl>
                           <FormLabel htmlFor="pause" className="font-normal">
-                            Pausar e retomar diariamente
+                            Enviar apenas nas janelas
                           </FormLabel>
                         </FormItem>
                       </RadioGroup>
@@ -771,6 +1111,15 @@ export function Step3Config({
                         horário comercial.
                       </p>
                     )}
+                    {field.value === 'pause' && (
+                      <div className="pt-2">
+                        <SendingWindowsEditor
+                          value={sendingWindows}
+                          onChange={setSendingWindows}
+                          disabled={isSubmitting}
+                        />
+                      </div>
+                    )}
                   </FormItem>
                 )}
               />
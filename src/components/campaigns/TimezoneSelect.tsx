@@ -0,0 +1,42 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { BRAZIL_TIMEZONES } from '@/lib/timezone'
+
+interface TimezoneSelectProps {
+  id?: string
+  value: string
+  onChange: (timezone: string) => void
+  disabled?: boolean
+}
+
+export function TimezoneSelect({
+  id,
+  value,
+  onChange,
+  disabled,
+}: TimezoneSelectProps) {
+  // Zones saved outside the Brazilian list still show up as an option
+  const options = BRAZIL_TIMEZONES.some((option) => option.value === value)
+    ? BRAZIL_TIMEZONES
+    : [...BRAZIL_TIMEZONES, { value, label: value }]
+
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Selecione o fuso horário" />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
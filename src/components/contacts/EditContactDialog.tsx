@@ -14,6 +14,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -23,6 +24,7 @@ import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Contact, contactsService } from '@/services/contacts'
+import { SpintaxPreview } from '@/components/campaigns/SpintaxPreview'
 import { toast } from 'sonner'
 
 const formSchema = z.object({
@@ -128,6 +130,18 @@ export function EditContactDialog({
                       {...field}
                     />
                   </FormControl>
+                  <FormDescription>
+                    Variáveis como {'{{primeiro_nome}}'} são preenchidas no
+                    envio.
+                  </FormDescription>
+                  <SpintaxPreview
+                    template={field.value}
+                    contact={{
+                      name: form.watch('name'),
+                      phone: form.watch('phone'),
+                      variables: contact?.variables,
+                    }}
+                  />
                   <FormMessage />
                 </FormItem>
               )}
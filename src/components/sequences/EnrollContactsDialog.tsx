@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Loader2, UserPlus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Campaign,
+  CampaignMessage,
+  campaignsService,
+  matchesRecipientFilter,
+  RECIPIENT_FILTER_LABELS,
+  RecipientFilter,
+} from '@/services/campaigns'
+import { Sequence, SequenceStep, sequencesService } from '@/services/sequences'
+
+interface EnrollContactsDialogProps {
+  open: boolean
+  sequence: Sequence
+  // Enrolled contacts are scheduled for it right away
+  firstStep: SequenceStep | null
+  onClose: () => void
+  onEnrolled: () => void
+}
+
+const FILTER_OPTIONS = Object.entries(RECIPIENT_FILTER_LABELS) as [
+  RecipientFilter,
+  string,
+][]
+
+export function EnrollContactsDialog({
+  open,
+  sequence,
+  firstStep,
+  onClose,
+  onEnrolled,
+}: EnrollContactsDialogProps) {
+  const [campaigns, setCampaigns] = useState<Campaign[] | null>(null)
+  const [campaignId, setCampaignId] = useState<string>('')
+  const [messages, setMessages] = useState<CampaignMessage[] | null>(null)
+  const [filter, setFilter] = useState<RecipientFilter>('all')
+  const [isEnrolling, setIsEnrolling] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setCampaignId('')
+    setMessages(null)
+    setFilter('all')
+    campaignsService
+      .getAll()
+      // Recurring campaigns keep their recipients as templates
+      .then((data) => setCampaigns(data.filter((c) => !c.recurrence)))
+      .catch((err) => {
+        console.error('Failed to load campaigns', err)
+        toast.error('Erro ao carregar campanhas')
+      })
+  }, [open])
+
+  useEffect(() => {
+    if (!campaignId) return
+    setMessages(null)
+    campaignsService
+      .getMessages(campaignId)
+      .then(setMessages)
+      .catch((err) => {
+        console.error('Failed to load campaign recipients', err)
+        toast.error('Erro ao carregar destinatários da campanha')
+      })
+  }, [campaignId])
+
+  const contactIdsFor = (option: RecipientFilter) => [
+    ...new Set(
+      (messages || [])
+        .filter((message) => matchesRecipientFilter(message, option))
+        .map((message) => message.contact_id),
+    ),
+  ]
+
+  const handleEnroll = async () => {
+    if (!firstStep) return
+    setIsEnrolling(true)
+    try {
+      const contactIds = contactIdsFor(filter)
+      const enrolled = await sequencesService.enroll(
+        sequence,
+        firstStep,
+        contactIds,
+      )
+      toast.success('Contatos inscritos', {
+        description:
+          enrolled < contactIds.length
+            ? `${enrolled} inscritos; ${contactIds.length - enrolled} já estavam na sequência.`
+            : `${enrolled} contatos começam a receber a sequência.`,
+      })
+      onEnrolled()
+      onClose()
+    } catch (error: any) {
+      console.error(error)
+      toast.error('Erro ao inscrever contatos', { description: error.message })
+    } finally {
+      setIsEnrolling(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Inscrever contatos</DialogTitle>
+          <DialogDescription>
+            Escolha os destinatários de uma campanha. Quem já está na sequência
+            não é inscrito de novo.
+          </DialogDescription>
+        </DialogHeader>
+
+        {campaigns === null ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-xs uppercase text-muted-foreground">
+                Campanha
+              </Label>
+              <Select value={campaignId} onValueChange={setCampaignId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione uma campanha" />
+                </SelectTrigger>
+                <SelectContent>
+                  {campaigns.map((campaign) => (
+                    <SelectItem key={campaign.id} value={campaign.id}>
+                      {campaign.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {campaignId &&
+              (messages === null ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <RadioGroup
+                  value={filter}
+                  onValueChange={(value) => setFilter(value as RecipientFilter)}
+                  className="gap-2"
+                >
+                  {FILTER_OPTIONS.map(([option, label]) => {
+                    const count = contactIdsFor(option).length
+                    return (
+                      <Label
+                        key={option}
+                        htmlFor={`enroll-${option}`}
+                        className="flex items-center gap-3 rounded-md border p-3 cursor-pointer has-[:disabled]:cursor-not-allowed has-[:disabled]:opacity-50"
+                      >
+                        <RadioGroupItem
+                          value={option}
+                          id={`enroll-${option}`}
+                          disabled={count === 0}
+                        />
+                        <div className="flex flex-1 justify-between gap-2 font-medium">
+                          {label}
+                          <span className="text-muted-foreground">{count}</span>
+                        </div>
+                      </Label>
+                    )
+                  })}
+                </RadioGroup>
+              ))}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={onClose} disabled={isEnrolling}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleEnroll}
+            disabled={
+              isEnrolling ||
+              !firstStep ||
+              !messages ||
+              contactIdsFor(filter).length === 0
+            }
+          >
+            {isEnrolling ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <UserPlus className="mr-2 h-4 w-4" />
+            )}
+            Inscrever
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,78 @@
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import {
+  buildSequenceFunnel,
+  ENROLLMENT_STATUS_LABELS,
+  EnrollmentStatus,
+  formatDelay,
+} from '@/lib/sequences'
+import { SequenceEnrollment, SequenceStep } from '@/services/sequences'
+
+interface SequenceFunnelProps {
+  steps: SequenceStep[]
+  enrollments: SequenceEnrollment[]
+}
+
+// Ways out of a sequence, in the order they are listed
+const EXIT_STATUSES: EnrollmentStatus[] = [
+  'completed',
+  'replied',
+  'opted_out',
+  'failed',
+  'removed',
+]
+
+export function SequenceFunnel({ steps, enrollments }: SequenceFunnelProps) {
+  const total = enrollments.length
+  const stages = buildSequenceFunnel(steps.length, enrollments)
+
+  if (total === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Nenhum contato inscrito ainda.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        {stages.map((stage, index) => {
+          const percentage = Math.round((stage.sent / total) * 100)
+          return (
+            <div key={stage.position} className="space-y-1.5">
+              <div className="flex justify-between gap-2 text-sm">
+                <span className="font-medium">
+                  Passo {stage.position}
+                  <span className="ml-2 font-normal text-muted-foreground">
+                    {steps[index].delay_minutes > 0 && 'após '}
+                    {formatDelay(steps[index].delay_minutes)}
+                  </span>
+                </span>
+                <span className="text-muted-foreground">
+                  {stage.sent} enviados
+                  {stage.waiting > 0 && ` · ${stage.waiting} aguardando`}
+                </span>
+              </div>
+              <Progress value={percentage} className="h-2" />
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {EXIT_STATUSES.map((status) => {
+          const count = enrollments.filter(
+            (enrollment) => enrollment.status === status,
+          ).length
+          return (
+            <Badge key={status} variant="outline" className="gap-1">
+              {ENROLLMENT_STATUS_LABELS[status]}
+              <span className="text-muted-foreground">{count}</span>
+            </Badge>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,181 @@
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { SendingWindowsEditor } from '@/components/campaigns/SendingWindowsEditor'
+import {
+  DELAY_UNIT_LABELS,
+  DELAY_UNIT_MINUTES,
+  DelayUnit,
+  splitDelay,
+} from '@/lib/sequences'
+import { DEFAULT_WEEKLY_WINDOWS } from '@/lib/sending-windows'
+import { SequenceStepInput } from '@/services/sequences'
+
+interface SequenceStepsEditorProps {
+  value: SequenceStepInput[]
+  onChange: (steps: SequenceStepInput[]) => void
+  disabled?: boolean
+}
+
+const UNIT_OPTIONS = Object.entries(DELAY_UNIT_LABELS) as [DelayUnit, string][]
+
+// A new step waits a day after the one before it
+const NEW_STEP: SequenceStepInput = {
+  message: '',
+  delay_minutes: DELAY_UNIT_MINUTES.days,
+  send_window: null,
+}
+
+export function SequenceStepsEditor({
+  value,
+  onChange,
+  disabled,
+}: SequenceStepsEditorProps) {
+  const updateStep = (index: number, changes: Partial<SequenceStepInput>) =>
+    onChange(
+      value.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    )
+
+  return (
+    <div className="space-y-4">
+      {value.map((step, index) => {
+        const delay = splitDelay(step.delay_minutes)
+        return (
+          <div key={index} className="rounded-md border p-4 space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">Passo {index + 1}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                disabled={disabled}
+                title="Remover passo"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label
+                htmlFor={`step-${index}-delay`}
+                className="text-xs uppercase text-muted-foreground"
+              >
+                {index === 0
+                  ? 'Aguardar após a inscrição'
+                  : 'Aguardar após o passo anterior'}
+              </Label>
+              <div className="flex gap-2">
+                <Input
+                  id={`step-${index}-delay`}
+                  type="number"
+                  min={0}
+                  className="w-24"
+                  value={delay.amount}
+                  disabled={disabled}
+                  onChange={(e) =>
+                    updateStep(index, {
+                      delay_minutes:
+                        Math.max(0, Math.floor(Number(e.target.value)) || 0) *
+                        DELAY_UNIT_MINUTES[delay.unit],
+                    })
+                  }
+                />
+                <Select
+                  value={delay.unit}
+                  onValueChange={(unit) =>
+                    updateStep(index, {
+                      delay_minutes:
+                        delay.amount * DELAY_UNIT_MINUTES[unit as DelayUnit],
+                    })
+                  }
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {UNIT_OPTIONS.map(([unit, label]) => (
+                      <SelectItem key={unit} value={unit}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label
+                htmlFor={`step-${index}-message`}
+                className="text-xs uppercase text-muted-foreground"
+              >
+                Mensagem
+              </Label>
+              <Textarea
+                id={`step-${index}-message`}
+                rows={4}
+                placeholder="Olá {{nome}}, ..."
+                value={step.message}
+                disabled={disabled}
+                onChange={(e) => updateStep(index, { message: e.target.value })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor={`step-${index}-window`} className="text-sm">
+                Enviar este passo só em horários definidos
+              </Label>
+              <Switch
+                id={`step-${index}-window`}
+                checked={!!step.send_window}
+                onCheckedChange={(checked) =>
+                  updateStep(index, {
+                    send_window: checked ? DEFAULT_WEEKLY_WINDOWS : null,
+                  })
+                }
+                disabled={disabled}
+              />
+            </div>
+
+            {step.send_window && (
+              <SendingWindowsEditor
+                value={step.send_window}
+                onChange={(send_window) => updateStep(index, { send_window })}
+                disabled={disabled}
+              />
+            )}
+          </div>
+        )
+      })}
+
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full"
+        onClick={() =>
+          onChange([
+            ...value,
+            // The first step goes out as soon as the contact is enrolled
+            value.length === 0 ? { ...NEW_STEP, delay_minutes: 0 } : NEW_STEP,
+          ])
+        }
+        disabled={disabled}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Adicionar passo
+      </Button>
+    </div>
+  )
+}
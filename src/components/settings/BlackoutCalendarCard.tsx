@@ -0,0 +1,318 @@
+import { useEffect, useState } from 'react'
+import {
+  Calendar as CalendarIcon,
+  CalendarOff,
+  Loader2,
+  Plus,
+  Trash2,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { ptBR } from 'date-fns/locale'
+import { DateRange } from 'react-day-picker'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Calendar } from '@/components/ui/calendar'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { cn } from '@/lib/utils'
+import { brazilianHolidays } from '@/lib/blackout'
+import { blackoutService, BlackoutDate } from '@/services/blackout'
+
+interface BlackoutCalendarCardProps {
+  userId: string
+}
+
+// 'YYYY-MM-DD' <-> local Date, the way the date picker works
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd')
+const fromDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export function BlackoutCalendarCard({ userId }: BlackoutCalendarCardProps) {
+  const [loading, setLoading] = useState(true)
+  const [entries, setEntries] = useState<BlackoutDate[]>([])
+  const [nationalHolidays, setNationalHolidays] = useState(true)
+  const [isSavingHolidays, setIsSavingHolidays] = useState(false)
+  const [nameInput, setNameInput] = useState('')
+  const [range, setRange] = useState<DateRange | undefined>()
+  const [isAdding, setIsAdding] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function loadCalendar() {
+      try {
+        const [list, calendar] = await Promise.all([
+          blackoutService.getAll(),
+          blackoutService.getCalendar(userId),
+        ])
+        setEntries(list)
+        setNationalHolidays(calendar.nationalHolidays)
+      } catch (error) {
+        console.error(error)
+        toast.error('Erro ao carregar calendário de bloqueios')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadCalendar()
+  }, [userId])
+
+  // The rest of this year's holidays and the next year's, so December
+  // still shows what is coming
+  const today = toDateKey(new Date())
+  const year = new Date().getFullYear()
+  const upcomingHolidays = [
+    ...brazilianHolidays(year),
+    ...brazilianHolidays(year + 1),
+  ]
+    .filter((holiday) => holiday.date >= today)
+    .slice(0, 8)
+
+  const handleToggleHolidays = async (enabled: boolean) => {
+    setIsSavingHolidays(true)
+    try {
+      await blackoutService.setNationalHolidays(userId, enabled)
+      setNationalHolidays(enabled)
+      toast.success(
+        enabled
+          ? 'Feriados nacionais serão pulados'
+          : 'Feriados nacionais liberados para envio',
+      )
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao salvar preferência de feriados')
+    } finally {
+      setIsSavingHolidays(false)
+    }
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!range?.from) {
+      toast.error('Selecione a data ou o período')
+      return
+    }
+
+    setIsAdding(true)
+    try {
+      await blackoutService.add({
+        name: nameInput || 'Data bloqueada',
+        start_date: toDateKey(range.from),
+        end_date: toDateKey(range.to ?? range.from),
+      })
+      setEntries(await blackoutService.getAll())
+      setNameInput('')
+      setRange(undefined)
+      toast.success('Bloqueio adicionado')
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao adicionar bloqueio')
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleRemove = async (id: string) => {
+    setRemovingId(id)
+    try {
+      await blackoutService.remove(id)
+      setEntries((prev) => prev.filter((entry) => entry.id !== id))
+      toast.success('Bloqueio removido')
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao remover bloqueio')
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  const formatPeriod = (start: string, end: string) => {
+    const from = format(fromDateKey(start), 'dd/MM/yyyy', { locale: ptBR })
+    if (start === end) return from
+    return `${from} a ${format(fromDateKey(end), 'dd/MM/yyyy', { locale: ptBR })}`
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarOff className="h-5 w-5" />
+          Feriados e Bloqueios
+        </CardTitle>
+        <CardDescription>
+          Campanhas não enviam mensagens nestes dias. Os envios ficam pausados e
+          retomam no próximo dia liberado.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="skip-national-holidays">
+                  Pular feriados nacionais (inclui Carnaval e Corpus Christi)
+                </Label>
+                <Switch
+                  id="skip-national-holidays"
+                  checked={nationalHolidays}
+                  onCheckedChange={handleToggleHolidays}
+                  disabled={isSavingHolidays}
+                />
+              </div>
+              {nationalHolidays && (
+                <div className="flex flex-wrap gap-2">
+                  {upcomingHolidays.map((holiday) => (
+                    <Badge
+                      key={holiday.date}
+                      variant="secondary"
+                      className="font-normal"
+                    >
+                      {format(fromDateKey(holiday.date), 'dd/MM', {
+                        locale: ptBR,
+                      })}{' '}
+                      · {holiday.name}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3 pt-4 border-t">
+              <Label htmlFor="blackout-name">Bloquear data ou período</Label>
+              <form
+                onSubmit={handleAdd}
+                className="flex flex-col sm:flex-row gap-2"
+              >
+                <Input
+                  id="blackout-name"
+                  placeholder="Ex.: Aniversário da cidade"
+                  value={nameInput}
+                  onChange={(e) => setNameInput(e.target.value)}
+                />
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className={cn(
+                        'sm:w-[260px] justify-start text-left font-normal',
+                        !range?.from && 'text-muted-foreground',
+                      )}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {range?.from ? (
+                        formatPeriod(
+                          toDateKey(range.from),
+                          toDateKey(range.to ?? range.from),
+                        )
+                      ) : (
+                        <span>Selecione</span>
+                      )}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="range"
+                      selected={range}
+                      onSelect={setRange}
+                      numberOfMonths={2}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+                <Button type="submit" disabled={isAdding || !range?.from}>
+                  {isAdding ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Plus className="mr-2 h-4 w-4" />
+                  )}
+                  Adicionar
+                </Button>
+              </form>
+
+              <div className="rounded-md border">
+                <ScrollArea className="max-h-[320px]">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Descrição</TableHead>
+                        <TableHead>Período</TableHead>
+                        <TableHead className="text-right">Ações</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {entries.length === 0 ? (
+                        <TableRow>
+                          <TableCell
+                            colSpan={3}
+                            className="h-20 text-center text-muted-foreground"
+                          >
+                            Nenhuma data bloqueada.
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        entries.map((entry) => (
+                          <TableRow key={entry.id}>
+                            <TableCell>{entry.name}</TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {formatPeriod(entry.start_date, entry.end_date)}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 hover:text-destructive"
+                                onClick={() => handleRemove(entry.id)}
+                                disabled={removingId === entry.id}
+                                title="Remover bloqueio"
+                              >
+                                {removingId === entry.id ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Trash2 className="h-4 w-4" />
+                                )}
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,267 @@
+import { useEffect, useState } from 'react'
+import { Gauge, Loader2, Save } from 'lucide-react'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  DEFAULT_ACCOUNT_LIMITS,
+  parseAccountLimits,
+  parseDailyLimit,
+  parseWarmupSchedule,
+  warmupDay,
+  warmupLimit,
+} from '@/lib/daily-caps'
+import { positiveInt } from '@/lib/numbers'
+import { parseSenderThroughput } from '@/lib/throughput'
+import { profileService } from '@/services/profile'
+import { type WhatsAppConnection, whatsappService } from '@/services/whatsapp'
+
+interface SendingLimitsCardProps {
+  userId: string
+}
+
+export function SendingLimitsCard({ userId }: SendingLimitsCardProps) {
+  const [loading, setLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [dailyLimit, setDailyLimit] = useState<number | null>(null)
+  const [warmupEnabled, setWarmupEnabled] = useState(false)
+  const [scheduleInput, setScheduleInput] = useState(
+    DEFAULT_ACCOUNT_LIMITS.warmup.schedule.join(', '),
+  )
+  const [senders, setSenders] = useState<WhatsAppConnection[]>([])
+  const [minSpacing, setMinSpacing] = useState(0)
+  const [hourlyLimit, setHourlyLimit] = useState<number | null>(null)
+
+  useEffect(() => {
+    async function loadLimits() {
+      try {
+        const [profile, connections] = await Promise.all([
+          profileService.get(userId),
+          whatsappService.getConnections(userId),
+        ])
+        const limits = parseAccountLimits(profile)
+        setDailyLimit(limits.dailyLimit)
+        setWarmupEnabled(limits.warmup.enabled)
+        setScheduleInput(limits.warmup.schedule.join(', '))
+        setSenders(connections)
+        const throughput = parseSenderThroughput(profile)
+        setMinSpacing(throughput.minSpacingSeconds)
+        setHourlyLimit(throughput.hourlyLimit)
+      } catch (error) {
+        console.error(error)
+        toast.error('Erro ao carregar limites de envio')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadLimits()
+  }, [userId])
+
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const schedule = parseWarmupSchedule(scheduleInput)
+  const warmup = { enabled: warmupEnabled, schedule }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await profileService.update(userId, {
+        daily_send_limit: dailyLimit,
+        warmup_enabled: warmupEnabled,
+        warmup_schedule: schedule,
+        sender_min_spacing_seconds: minSpacing,
+        sender_hourly_limit: hourlyLimit,
+      })
+      setScheduleInput(schedule.join(', '))
+      toast.success('Limites de envio salvos!')
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao salvar limites de envio')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Limites de Envio
+        </CardTitle>
+        <CardDescription>
+          Limites somando todas as campanhas. Ao atingir um limite diário, os
+          envios param e retomam no dia seguinte; o ritmo por número vale mesmo
+          com várias campanhas rodando ao mesmo tempo.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="account-daily-limit-enabled">
+                  Limite diário da conta
+                </Label>
+                <Switch
+                  id="account-daily-limit-enabled"
+                  checked={dailyLimit !== null}
+                  onCheckedChange={(enabled) =>
+                    setDailyLimit(enabled ? 500 : null)
+                  }
+                />
+              </div>
+              {dailyLimit !== null && (
+                <Input
+                  id="account-daily-limit"
+                  type="number"
+                  min={1}
+                  className="w-40"
+                  value={dailyLimit}
+                  onChange={(e) =>
+                    setDailyLimit(parseDailyLimit(e.target.value) ?? 1)
+                  }
+                />
+              )}
+            </div>
+
+            <div className="space-y-3 pt-4 border-t">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="warmup-enabled">
+                  Aquecimento do número (aumenta o limite aos poucos)
+                </Label>
+                <Switch
+                  id="warmup-enabled"
+                  checked={warmupEnabled}
+                  onCheckedChange={setWarmupEnabled}
+                />
+              </div>
+
+              {warmupEnabled && (
+                <div className="space-y-2">
+                  <Label
+                    htmlFor="warmup-schedule"
+                    className="text-xs uppercase text-muted-foreground"
+                  >
+                    Mensagens por dia (dia 1, 2, 3...)
+                  </Label>
+                  <Input
+                    id="warmup-schedule"
+                    placeholder="50, 100, 200, 400, 800"
+                    value={scheduleInput}
+                    onChange={(e) => setScheduleInput(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Cada número começa no dia 1 com o seu primeiro envio.
+                  </p>
+                </div>
+              )}
+
+              {warmupEnabled && senders.length > 0 && (
+                <ul className="space-y-1 text-xs text-muted-foreground">
+                  {senders.map((sender) => {
+                    const limit = warmupLimit(
+                      warmup,
+                      sender.warmup_started_on,
+                      today,
+                    )
+                    return (
+                      <li key={sender.id}>
+                        {sender.label || sender.phone || 'Número sem nome'}:{' '}
+                        {sender.warmup_started_on
+                          ? `dia ${warmupDay(sender.warmup_started_on, today)}`
+                          : 'ainda não enviou'}
+                        {' — '}
+                        {limit !== null
+                          ? `até ${limit} mensagens hoje`
+                          : 'aquecimento concluído'}
+                      </li>
+                    )
+                  })}
+                </ul>
+              )}
+            </div>
+
+            <div className="space-y-3 pt-4 border-t">
+              <Label>Ritmo por número</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label
+                    htmlFor="sender-min-spacing"
+                    className="text-xs uppercase text-muted-foreground"
+                  >
+                    Intervalo mínimo entre envios (segundos)
+                  </Label>
+                  <Input
+                    id="sender-min-spacing"
+                    type="number"
+                    min={0}
+                    className="w-40"
+                    value={minSpacing}
+                    onChange={(e) =>
+                      setMinSpacing(positiveInt(e.target.value) ?? 0)
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label
+                    htmlFor="sender-hourly-limit"
+                    className="text-xs uppercase text-muted-foreground"
+                  >
+                    Máximo de mensagens por hora
+                  </Label>
+                  <Input
+                    id="sender-hourly-limit"
+                    type="number"
+                    min={1}
+                    className="w-40"
+                    placeholder="Sem limite"
+                    value={hourlyLimit ?? ''}
+                    onChange={(e) =>
+                      setHourlyLimit(positiveInt(e.target.value))
+                    }
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Cada número respeita este ritmo somando todas as campanhas,
+                então campanhas em paralelo dividem o número em vez de dobrar a
+                velocidade.
+              </p>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 pt-4 border-t">
+              <p className="text-sm text-muted-foreground">
+                {dailyLimit !== null
+                  ? `A conta pode enviar até ${dailyLimit} mensagens por dia.`
+                  : 'Sem limite diário para a conta.'}
+              </p>
+              <Button type="button" onClick={handleSave} disabled={isSaving}>
+                {isSaving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                Salvar
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
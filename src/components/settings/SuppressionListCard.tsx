@@ -0,0 +1,297 @@
+import { useEffect, useState } from 'react'
+import { Loader2, Save, ShieldBan, Plus, Trash2, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { ptBR } from 'date-fns/locale'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { normalizeOptOutKeyword } from '@/lib/opt-out'
+import { normalizePhone } from '@/lib/phone'
+import { suppressionService, SuppressionEntry } from '@/services/suppression'
+
+interface SuppressionListCardProps {
+  userId: string
+}
+
+export function SuppressionListCard({ userId }: SuppressionListCardProps) {
+  const [loading, setLoading] = useState(true)
+  const [entries, setEntries] = useState<SuppressionEntry[]>([])
+  const [keywords, setKeywords] = useState<string[]>([])
+  const [keywordInput, setKeywordInput] = useState('')
+  const [isSavingKeywords, setIsSavingKeywords] = useState(false)
+  const [phoneInput, setPhoneInput] = useState('')
+  const [isAdding, setIsAdding] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    async function loadSuppression() {
+      try {
+        const [list, savedKeywords] = await Promise.all([
+          suppressionService.getAll(),
+          suppressionService.getKeywords(userId),
+        ])
+        setEntries(list)
+        setKeywords(savedKeywords)
+      } catch (error) {
+        console.error(error)
+        toast.error('Erro ao carregar lista de supressão')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadSuppression()
+  }, [userId])
+
+  const handleAddKeyword = () => {
+    const keyword = normalizeOptOutKeyword(keywordInput)
+    if (!keyword) return
+    if (!keywords.includes(keyword)) setKeywords([...keywords, keyword])
+    setKeywordInput('')
+  }
+
+  const handleSaveKeywords = async () => {
+    if (keywords.length === 0) {
+      toast.error('Informe ao menos uma palavra-chave')
+      return
+    }
+
+    setIsSavingKeywords(true)
+    try {
+      await suppressionService.saveKeywords(userId, keywords)
+      toast.success('Palavras-chave salvas!')
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao salvar palavras-chave')
+    } finally {
+      setIsSavingKeywords(false)
+    }
+  }
+
+  const handleAddPhone = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (normalizePhone(phoneInput).length < 10) {
+      toast.error('Informe um telefone válido com DDD')
+      return
+    }
+
+    setIsAdding(true)
+    try {
+      await suppressionService.add(phoneInput)
+      setEntries(await suppressionService.getAll())
+      setPhoneInput('')
+      toast.success('Número adicionado à lista de supressão')
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao adicionar número')
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleRemove = async (id: string) => {
+    setRemovingId(id)
+    try {
+      await suppressionService.remove(id)
+      setEntries((prev) => prev.filter((entry) => entry.id !== id))
+      toast.success('Número removido da lista de supressão')
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao remover número')
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldBan className="h-5 w-5" />
+          Lista de Supressão
+        </CardTitle>
+        <CardDescription>
+          Números nesta lista não recebem mensagens de campanhas. Contatos que
+          respondem apenas com uma das palavras-chave abaixo são adicionados
+          automaticamente.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <Label htmlFor="opt-out-keyword">Palavras-chave de saída</Label>
+              <div className="flex flex-wrap gap-2">
+                {keywords.map((keyword) => (
+                  <Badge key={keyword} variant="secondary" className="gap-1">
+                    {keyword}
+                    <button
+                      type="button"
+                      className="rounded-full hover:text-destructive"
+                      onClick={() =>
+                        setKeywords(keywords.filter((k) => k !== keyword))
+                      }
+                      title="Remover palavra-chave"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  id="opt-out-keyword"
+                  placeholder="Ex.: CANCELAR"
+                  value={keywordInput}
+                  onChange={(e) => setKeywordInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault()
+                      handleAddKeyword()
+                    }
+                  }}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleAddKeyword}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Adicionar
+                </Button>
+                <Button
+                  type="button"
+                  onClick={handleSaveKeywords}
+                  disabled={isSavingKeywords}
+                >
+                  {isSavingKeywords ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Save className="mr-2 h-4 w-4" />
+                  )}
+                  Salvar
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                A resposta precisa ser exatamente a palavra (maiúsculas, acentos
+                e pontuação são ignorados).
+              </p>
+            </div>
+
+            <div className="space-y-3 pt-4 border-t">
+              <Label htmlFor="suppression-phone">Adicionar número</Label>
+              <form
+                onSubmit={handleAddPhone}
+                className="flex flex-col sm:flex-row gap-2"
+              >
+                <Input
+                  id="suppression-phone"
+                  placeholder="(11) 98765-4321"
+                  value={phoneInput}
+                  onChange={(e) => setPhoneInput(e.target.value)}
+                />
+                <Button type="submit" disabled={isAdding || !phoneInput}>
+                  {isAdding ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Plus className="mr-2 h-4 w-4" />
+                  )}
+                  Adicionar à lista
+                </Button>
+              </form>
+
+              <div className="rounded-md border">
+                <ScrollArea className="max-h-[320px]">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Telefone</TableHead>
+                        <TableHead>Origem</TableHead>
+                        <TableHead>Desde</TableHead>
+                        <TableHead className="text-right">Ações</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {entries.length === 0 ? (
+                        <TableRow>
+                          <TableCell
+                            colSpan={4}
+                            className="h-20 text-center text-muted-foreground"
+                          >
+                            Nenhum número na lista de supressão.
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        entries.map((entry) => (
+                          <TableRow key={entry.id}>
+                            <TableCell className="font-mono">
+                              {entry.phone}
+                            </TableCell>
+                            <TableCell>
+                              {entry.reason === 'opt_out' ? (
+                                <Badge variant="outline">
+                                  Respondeu "{entry.keyword}"
+                                </Badge>
+                              ) : (
+                                <Badge variant="secondary">Manual</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {format(
+                                new Date(entry.created_at),
+                                'dd/MM/yyyy HH:mm',
+                                { locale: ptBR },
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 hover:text-destructive"
+                                onClick={() => handleRemove(entry.id)}
+                                disabled={removingId === entry.id}
+                                title="Remover da lista"
+                              >
+                                {removingId === entry.id ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Trash2 className="h-4 w-4" />
+                                )}
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
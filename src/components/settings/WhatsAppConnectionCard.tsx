@@ -0,0 +1,721 @@
+import { useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import * as z from 'zod'
+import {
+  Loader2,
+  Save,
+  PlugZap,
+  CheckCircle2,
+  XCircle,
+  Smartphone,
+  Plus,
+  Pencil,
+  Pause,
+  Play,
+  Trash2,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { ptBR } from 'date-fns/locale'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { parseDailyLimit } from '@/lib/daily-caps'
+import { positiveInt } from '@/lib/numbers'
+import {
+  MAX_MIN_SPACING_SECONDS,
+  MIN_SPACING_ERROR,
+  parseMinSpacingSeconds,
+} from '@/lib/throughput'
+import { SENDER_STATUS_LABELS, SenderStatus } from '@/lib/sender-pool'
+import {
+  whatsappService,
+  WhatsAppConnection,
+  WhatsAppProviderType,
+  ConnectionTestResult,
+} from '@/services/whatsapp'
+
+const PROVIDER_OPTIONS: {
+  value: WhatsAppProviderType
+  label: string
+  endpointPlaceholder: string
+  instanceLabel: string
+  tokenLabel: string
+}[] = [
+  {
+    value: 'n8n',
+    label: 'Webhook n8n',
+    endpointPlaceholder: 'https://seu-n8n.com/webhook/disparos',
+    instanceLabel: 'ID da instância (opcional)',
+    tokenLabel: 'Token do webhook (opcional)',
+  },
+  {
+    value: 'evolution',
+    label: 'Evolution API',
+    endpointPlaceholder: 'https://api.seugateway.com',
+    instanceLabel: 'Nome da instância',
+    tokenLabel: 'API Key',
+  },
+  {
+    value: 'meta',
+    label: 'WhatsApp Cloud API (Meta)',
+    endpointPlaceholder: 'https://graph.facebook.com/v20.0',
+    instanceLabel: 'Phone Number ID',
+    tokenLabel: 'Token de acesso',
+  },
+  {
+    value: 'mock',
+    label: 'Simulado (testes)',
+    endpointPlaceholder: 'Não utilizado',
+    instanceLabel: 'ID da instância (opcional)',
+    tokenLabel: 'Token (opcional)',
+  },
+]
+
+const STATUS_BADGE_CLASSES: Record<SenderStatus, string> = {
+  active: 'bg-green-100 text-green-700 border-green-200',
+  paused: 'bg-slate-100 text-slate-700 border-slate-200',
+  failing: 'bg-red-100 text-red-700 border-red-200',
+}
+
+const connectionFormSchema = z
+  .object({
+    label: z.string().trim().optional(),
+    phone: z.string().trim().optional(),
+    daily_limit: z.string().trim().optional(),
+    min_interval_seconds: z
+      .string()
+      .trim()
+      .optional()
+      .refine((value) => parseMinSpacingSeconds(value) !== null, {
+        message: MIN_SPACING_ERROR,
+      }),
+    hourly_limit: z.string().trim().optional(),
+    provider: z.enum(['n8n', 'evolution', 'meta', 'mock']),
+    endpoint: z.string().trim().optional(),
+    instance_id: z.string().trim().optional(),
+    token: z.string().trim().optional(),
+  })
+  .refine((data) => data.provider !== 'evolution' || !!data.endpoint, {
+    message: 'Informe a URL do gateway',
+    path: ['endpoint'],
+  })
+  .refine(
+    (data) =>
+      !['evolution', 'meta'].includes(data.provider) || !!data.instance_id,
+    { message: 'Informe o identificador da instância', path: ['instance_id'] },
+  )
+
+type ConnectionFormValues = z.infer<typeof connectionFormSchema>
+
+interface WhatsAppConnectionCardProps {
+  userId: string
+}
+
+const EMPTY_FORM: ConnectionFormValues = {
+  label: '',
+  phone: '',
+  daily_limit: '',
+  min_interval_seconds: '',
+  hourly_limit: '',
+  provider: 'n8n',
+  endpoint: '',
+  instance_id: '',
+  token: '',
+}
+
+export function WhatsAppConnectionCard({
+  userId,
+}: WhatsAppConnectionCardProps) {
+  const [loading, setLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isTesting, setIsTesting] = useState(false)
+  const [connections, setConnections] = useState<WhatsAppConnection[]>([])
+  // Number on the form: its id, 'new' while adding one, null when closed
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(
+    null,
+  )
+
+  const form = useForm<ConnectionFormValues>({
+    resolver: zodResolver(connectionFormSchema),
+    defaultValues: EMPTY_FORM,
+  })
+
+  const provider = form.watch('provider')
+  const providerOption =
+    PROVIDER_OPTIONS.find((option) => option.value === provider) ||
+    PROVIDER_OPTIONS[0]
+  const connection = connections.find((item) => item.id === editingId) ?? null
+
+  useEffect(() => {
+    async function loadConnections() {
+      try {
+        const data = await whatsappService.getConnections(userId)
+        setConnections(data)
+        if (data.length === 0) setEditingId('new')
+      } catch (error) {
+        console.error(error)
+        toast.error('Erro ao carregar números do WhatsApp')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadConnections()
+  }, [userId])
+
+  const openForm = (item: WhatsAppConnection | null) => {
+    setEditingId(item ? item.id : 'new')
+    setTestResult(
+      item?.last_tested_at && item.last_test_message
+        ? { ok: !!item.last_test_ok, message: item.last_test_message }
+        : null,
+    )
+    form.reset(
+      item
+        ? {
+            label: item.label || '',
+            phone: item.phone || '',
+            daily_limit: item.daily_limit ? String(item.daily_limit) : '',
+            min_interval_seconds: item.min_interval_seconds
+              ? String(item.min_interval_seconds)
+              : '',
+            hourly_limit: item.hourly_limit ? String(item.hourly_limit) : '',
+            provider: item.provider,
+            endpoint: item.endpoint || '',
+            instance_id: item.instance_id || '',
+            token: '',
+          }
+        : EMPTY_FORM,
+    )
+  }
+
+  const toInput = (values: ConnectionFormValues) => ({
+    ...values,
+    id: connection?.id,
+    daily_limit: parseDailyLimit(values.daily_limit),
+    min_interval_seconds:
+      parseMinSpacingSeconds(values.min_interval_seconds) ?? 0,
+    hourly_limit: positiveInt(values.hourly_limit),
+  })
+
+  async function onSubmit(values: ConnectionFormValues) {
+    setIsSaving(true)
+    try {
+      await whatsappService.saveConnection(toInput(values))
+      setConnections(await whatsappService.getConnections(userId))
+      setEditingId(null)
+      toast.success('Número salvo com sucesso!')
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao salvar número')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleTest = async () => {
+    const valid = await form.trigger()
+    if (!valid) return
+
+    setIsTesting(true)
+    setTestResult(null)
+    try {
+      const result = await whatsappService.testConnection(
+        toInput(form.getValues()),
+      )
+      setTestResult(result)
+      if (result.ok) {
+        toast.success('Conexão funcionando!')
+      } else {
+        toast.error('Falha ao testar conexão')
+      }
+    } catch (error: any) {
+      console.error(error)
+      setTestResult({ ok: false, message: error.message })
+      toast.error('Erro ao testar conexão')
+    } finally {
+      setIsTesting(false)
+    }
+  }
+
+  const handleToggleStatus = async (item: WhatsAppConnection) => {
+    const status = item.status === 'active' ? 'paused' : 'active'
+    setBusyId(item.id)
+    try {
+      await whatsappService.setConnectionStatus(item.id, status)
+      setConnections(await whatsappService.getConnections(userId))
+      toast.success(
+        status === 'active'
+          ? 'Número de volta ao rodízio'
+          : 'Número pausado; as campanhas usam os demais',
+      )
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao alterar status do número')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleRemove = async (item: WhatsAppConnection) => {
+    setBusyId(item.id)
+    try {
+      await whatsappService.deleteConnection(item.id)
+      setConnections((prev) => prev.filter((c) => c.id !== item.id))
+      if (editingId === item.id) setEditingId(null)
+      toast.success('Número removido')
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao remover número')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Smartphone className="h-5 w-5" />
+          Números de Envio
+        </CardTitle>
+        <CardDescription>
+          Conecte um ou mais números (instâncias) do WhatsApp. As campanhas
+          revezam os envios entre os números ativos, e um número que começa a
+          falhar sai do rodízio automaticamente. Sem um número próprio, os
+          envios usam o provedor padrão da plataforma.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {connections.length > 0 && (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Número</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Limite/dia</TableHead>
+                      <TableHead>Ritmo</TableHead>
+                      <TableHead className="text-right">Ações</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {connections.map((item) => (
+                      <TableRow key={item.id}>
+                        <TableCell>
+                          <span className="font-medium">
+                            {item.label || item.phone || 'Sem nome'}
+                          </span>
+                          <span className="block text-xs text-muted-foreground">
+                            {[
+                              item.label ? item.phone : null,
+                              PROVIDER_OPTIONS.find(
+                                (o) => o.value === item.provider,
+                              )?.label,
+                            ]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="outline"
+                            className={STATUS_BADGE_CLASSES[item.status]}
+                          >
+                            {SENDER_STATUS_LABELS[item.status]}
+                          </Badge>
+                          {item.status_reason && (
+                            <span className="block text-xs text-muted-foreground mt-1 max-w-[240px]">
+                              {item.status_reason}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {item.daily_limit ?? 'Sem limite'}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {[
+                            item.min_interval_seconds > 0
+                              ? `${item.min_interval_seconds}s`
+                              : null,
+                            item.hourly_limit ? `${item.hourly_limit}/h` : null,
+                          ]
+                            .filter(Boolean)
+                            .join(' · ') || '-'}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => openForm(item)}
+                            title="Editar número"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => handleToggleStatus(item)}
+                            disabled={busyId === item.id}
+                            title={
+                              item.status === 'active'
+                                ? 'Pausar número'
+                                : 'Reativar número'
+                            }
+                          >
+                            {item.status === 'active' ? (
+                              <Pause className="h-4 w-4" />
+                            ) : (
+                              <Play className="h-4 w-4" />
+                            )}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 hover:text-destructive"
+                            onClick={() => handleRemove(item)}
+                            disabled={busyId === item.id}
+                            title="Remover número"
+                          >
+                            {busyId === item.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {editingId === null ? (
+              <div className="flex justify-end">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => openForm(null)}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Adicionar número
+                </Button>
+              </div>
+            ) : (
+              <Form {...form}>
+                <form
+                  onSubmit={form.handleSubmit(onSubmit)}
+                  className="space-y-6"
+                >
+                  <div className="grid gap-6 sm:grid-cols-2">
+                    <FormField
+                      control={form.control}
+                      name="label"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Nome do número</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Ex.: Comercial 1" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="phone"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Telefone</FormLabel>
+                          <FormControl>
+                            <Input placeholder="5511999999999" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="provider"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Provedor</FormLabel>
+                        <Select
+                          onValueChange={field.onChange}
+                          value={field.value}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Selecione o provedor" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {PROVIDER_OPTIONS.map((option) => (
+                              <SelectItem
+                                key={option.value}
+                                value={option.value}
+                              >
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="grid gap-6 sm:grid-cols-2">
+                    <FormField
+                      control={form.control}
+                      name="endpoint"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Endpoint</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder={providerOption.endpointPlaceholder}
+                              disabled={provider === 'mock'}
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="instance_id"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{providerOption.instanceLabel}</FormLabel>
+                          <FormControl>
+                            <Input {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="token"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{providerOption.tokenLabel}</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            autoComplete="new-password"
+                            placeholder={
+                              connection?.token_hint
+                                ? `Salvo (${connection.token_hint})`
+                                : ''
+                            }
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          O token é armazenado criptografado. Deixe em branco
+                          para manter o token atual.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="grid gap-6 sm:grid-cols-3">
+                    <FormField
+                      control={form.control}
+                      name="daily_limit"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Limite diário do número</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={1}
+                              placeholder="Sem limite"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Ao atingir o limite, o número sai do rodízio até o
+                            dia seguinte.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="min_interval_seconds"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Intervalo mínimo (segundos)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              max={MAX_MIN_SPACING_SECONDS}
+                              placeholder="0"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Espera entre dois envios deste número, somando todas
+                            as campanhas.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="hourly_limit"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Máximo por hora</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={1}
+                              placeholder="Sem limite"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Soma todas as campanhas. Vale junto com o ritmo da
+                            conta; o mais restritivo prevalece.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  {testResult && (
+                    <Alert variant={testResult.ok ? 'default' : 'destructive'}>
+                      {testResult.ok ? (
+                        <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <XCircle className="h-4 w-4" />
+                      )}
+                      <AlertTitle>
+                        {testResult.ok ? 'Conexão ativa' : 'Falha na conexão'}
+                      </AlertTitle>
+                      <AlertDescription>
+                        {testResult.message}
+                        {connection?.last_tested_at && (
+                          <span className="block text-xs text-muted-foreground mt-1">
+                            Último teste:{' '}
+                            {format(
+                              new Date(connection.last_tested_at),
+                              'dd/MM/yyyy HH:mm',
+                              { locale: ptBR },
+                            )}
+                          </span>
+                        )}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  <div className="flex flex-col-reverse sm:flex-row justify-end gap-2 pt-4 border-t">
+                    {connections.length > 0 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => setEditingId(null)}
+                        disabled={isSaving || isTesting}
+                      >
+                        Cancelar
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleTest}
+                      disabled={isTesting || isSaving}
+                    >
+                      {isTesting ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <PlugZap className="mr-2 h-4 w-4" />
+                      )}
+                      Testar conexão
+                    </Button>
+                    <Button type="submit" disabled={isSaving || isTesting}>
+                      {isSaving ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Salvando...
+                        </>
+                      ) : (
+                        <>
+                          <Save className="mr-2 h-4 w-4" />
+                          Salvar número
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
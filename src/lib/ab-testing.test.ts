@@ -0,0 +1,247 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type AbTestSetup,
+  assignVariants,
+  evenSplits,
+  parseAbTestSlice,
+  pickWinner,
+  splitCounts,
+  statsByVariant,
+  testSliceSize,
+  validateAbTestSetup,
+  variantStats,
+} from './ab-testing'
+
+// Deterministic stand-in for Math.random
+function seeded(seed = 1) {
+  let state = seed
+  return () => {
+    state = (state * 16807) % 2147483647
+    return (state - 1) / 2147483646
+  }
+}
+
+function setup(splits: number[], testPercent?: number): AbTestSetup {
+  return {
+    variants: splits.map((split, index) => ({
+      label: String.fromCharCode(65 + index),
+      message: `Mensagem ${index + 1}`,
+      split,
+    })),
+    testSlice:
+      testPercent === undefined
+        ? null
+        : { testPercent, evaluationMinutes: 60, metric: 'reply_rate' },
+  }
+}
+
+function sum(values: number[]) {
+  return values.reduce((acc, value) => acc + value, 0)
+}
+
+describe('evenSplits', () => {
+  it('gives what does not divide to the first variants', () => {
+    expect(evenSplits(2)).toEqual([50, 50])
+    expect(evenSplits(3)).toEqual([34, 33, 33])
+    expect(sum(evenSplits(5))).toBe(100)
+  })
+})
+
+describe('splitCounts', () => {
+  it('splits exactly when the shares divide the total', () => {
+    expect(splitCounts(100, [50, 50])).toEqual([50, 50])
+    expect(splitCounts(10, [70, 30])).toEqual([7, 3])
+  })
+
+  it('hands the remainder out by largest remainder, ties to the first', () => {
+    expect(splitCounts(10, [34, 33, 33])).toEqual([4, 3, 3])
+    expect(splitCounts(7, [20, 20, 20, 20, 20])).toEqual([2, 2, 1, 1, 1])
+  })
+
+  it('gives every share at least one recipient when there are enough', () => {
+    expect(splitCounts(20, [1, 99])).toEqual([1, 19])
+    expect(splitCounts(3, [98, 1, 1])).toEqual([1, 1, 1])
+  })
+
+  it('cannot cover every share with fewer recipients than shares', () => {
+    expect(splitCounts(2, [33, 33, 34])).toEqual([1, 0, 1])
+    expect(splitCounts(0, [50, 50])).toEqual([0, 0])
+  })
+
+  it('always sums to the total', () => {
+    for (const total of [1, 2, 5, 13, 99, 1000, 1001]) {
+      for (const splits of [
+        [50, 50],
+        [1, 99],
+        [34, 33, 33],
+        [10, 20, 30, 25, 15],
+      ]) {
+        expect(sum(splitCounts(total, splits))).toBe(total)
+      }
+    }
+  })
+})
+
+describe('testSliceSize', () => {
+  it('rounds the sample up and keeps one recipient per variant', () => {
+    expect(testSliceSize(101, 10, 2)).toBe(11)
+    expect(testSliceSize(10, 1, 3)).toBe(3)
+    expect(testSliceSize(2, 50, 3)).toBe(2)
+  })
+})
+
+describe('assignVariants', () => {
+  it('assigns every recipient without a test slice', () => {
+    const slots = assignVariants(10, setup([70, 30]), seeded())
+    expect(slots).toHaveLength(10)
+    expect(slots.filter((slot) => slot === 0)).toHaveLength(7)
+    expect(slots.filter((slot) => slot === 1)).toHaveLength(3)
+  })
+
+  it('holds the recipients outside the sample back', () => {
+    const slots = assignVariants(100, setup([50, 50], 20), seeded())
+    expect(slots.filter((slot) => slot === null)).toHaveLength(80)
+    expect(slots.filter((slot) => slot === 0)).toHaveLength(10)
+    expect(slots.filter((slot) => slot === 1)).toHaveLength(10)
+  })
+
+  it('does not follow the import order', () => {
+    const slots = assignVariants(50, setup([50, 50]), seeded(7))
+    expect(slots.slice(0, 25).every((slot) => slot === 0)).toBe(false)
+  })
+
+  it('throws when there are fewer recipients than variants', () => {
+    expect(() => assignVariants(2, setup([34, 33, 33]), seeded())).toThrow(
+      'São necessários ao menos 3 contatos para testar 3 variações.',
+    )
+  })
+})
+
+describe('validateAbTestSetup', () => {
+  it('accepts a complete setup', () => {
+    expect(validateAbTestSetup(setup([50, 50], 20), 10)).toBeNull()
+  })
+
+  it('explains what is wrong', () => {
+    expect(validateAbTestSetup(setup([100]))).toBe('Use de 2 a 5 variações.')
+    expect(validateAbTestSetup(setup([50, 40]))).toBe(
+      'As porcentagens das variações devem somar 100%.',
+    )
+    expect(validateAbTestSetup(setup([100, 0]))).toBe(
+      'Cada variação precisa de ao menos 1% dos contatos.',
+    )
+    expect(validateAbTestSetup(setup([50, 50]), 1)).toBe(
+      'São necessários ao menos 2 contatos para testar 2 variações.',
+    )
+
+    const blank = setup([50, 50])
+    blank.variants[1].message = '  '
+    expect(validateAbTestSetup(blank)).toBe('Escreva a mensagem da variação B.')
+  })
+})
+
+describe('parseAbTestSlice', () => {
+  it('reads the stored column and the form value', () => {
+    const expected = {
+      testPercent: 20,
+      evaluationMinutes: 90,
+      metric: 'delivery_rate',
+    }
+    expect(
+      parseAbTestSlice({
+        test_percent: 20,
+        evaluation_minutes: 90,
+        metric: 'delivery_rate',
+      }),
+    ).toEqual(expected)
+    expect(parseAbTestSlice(expected)).toEqual(expected)
+  })
+
+  it('is null without a usable sample size', () => {
+    expect(parseAbTestSlice(null)).toBeNull()
+    expect(parseAbTestSlice({ test_percent: 100 })).toBeNull()
+  })
+})
+
+function message(
+  variant_id: string | null,
+  status: string,
+  replied = false,
+  ab_rollout = false,
+) {
+  return {
+    variant_id,
+    ab_rollout,
+    status,
+    replied_at: replied ? '2026-05-04T12:00:00Z' : null,
+  }
+}
+
+describe('variantStats', () => {
+  it('rates deliveries and replies on the sent messages', () => {
+    const stats = variantStats([
+      message('a', 'delivered', true),
+      message('a', 'read'),
+      message('a', 'sent'),
+      message('a', 'failed'),
+      message('a', 'pending'),
+    ])
+    expect(stats).toMatchObject({
+      total: 5,
+      sent: 3,
+      delivered: 2,
+      failed: 1,
+      replied: 1,
+    })
+    expect(stats.deliveryRate).toBeCloseTo(2 / 3)
+    expect(stats.replyRate).toBeCloseTo(1 / 3)
+    expect(stats.failureRate).toBeCloseTo(1 / 4)
+  })
+
+  it('is all zeros before anything was sent', () => {
+    expect(variantStats([message('a', 'pending')])).toMatchObject({
+      deliveryRate: 0,
+      replyRate: 0,
+      failureRate: 0,
+    })
+  })
+})
+
+describe('statsByVariant and pickWinner', () => {
+  it('compares the variants on the sample only', () => {
+    const messages = [
+      message('a', 'delivered', true),
+      message('a', 'delivered'),
+      message('b', 'delivered'),
+      message('b', 'delivered'),
+      // Sent to the rest after B won: must not count for B
+      message('b', 'delivered', true, true),
+      message('b', 'delivered', true, true),
+      message(null, 'pending'),
+    ]
+    const stats = statsByVariant(['a', 'b'], messages)
+    expect(stats.get('a')!.total).toBe(2)
+    expect(stats.get('b')!.total).toBe(2)
+    expect(stats.get('b')!.replied).toBe(0)
+    expect(pickWinner(['a', 'b'], stats, 'reply_rate')).toBe('a')
+  })
+
+  it('breaks ties on messages sent, then on the variant order', () => {
+    const stats = statsByVariant(
+      ['a', 'b', 'c'],
+      [
+        message('a', 'delivered'),
+        message('b', 'delivered'),
+        message('b', 'delivered'),
+        message('c', 'delivered'),
+        message('c', 'delivered'),
+      ],
+    )
+    expect(pickWinner(['a', 'b', 'c'], stats, 'delivery_rate')).toBe('b')
+  })
+
+  it('is null when no variant was sent', () => {
+    const stats = statsByVariant(['a', 'b'], [message('a', 'failed')])
+    expect(pickWinner(['a', 'b'], stats, 'reply_rate')).toBeNull()
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import {
+  brazilianHolidays,
+  type BlackoutCalendar,
+  easterSunday,
+  EMPTY_BLACKOUT_CALENDAR,
+  getBlackoutReason,
+  skipBlackoutDays,
+} from './blackout'
+
+const SAO_PAULO = 'America/Sao_Paulo'
+
+describe('easterSunday', () => {
+  it('matches known dates', () => {
+    expect(easterSunday(2024)).toEqual({ year: 2024, month: 3, day: 31 })
+    expect(easterSunday(2025)).toEqual({ year: 2025, month: 4, day: 20 })
+    expect(easterSunday(2026)).toEqual({ year: 2026, month: 4, day: 5 })
+  })
+})
+
+describe('brazilianHolidays', () => {
+  it('places the movable holidays around Easter', () => {
+    const holidays = brazilianHolidays(2026)
+    const dates = (name: string) =>
+      holidays.filter((h) => h.name === name).map((h) => h.date)
+
+    expect(dates('Carnaval')).toEqual(['2026-02-16', '2026-02-17'])
+    expect(dates('Sexta-feira Santa')).toEqual(['2026-04-03'])
+    expect(dates('Corpus Christi')).toEqual(['2026-06-04'])
+  })
+
+  it('is sorted by date', () => {
+    const dates = brazilianHolidays(2027).map((h) => h.date)
+    expect(dates).toEqual([...dates].sort())
+    expect(dates).toHaveLength(13)
+  })
+})
+
+describe('getBlackoutReason', () => {
+  const calendar: BlackoutCalendar = {
+    nationalHolidays: true,
+    ranges: [
+      {
+        name: 'Férias coletivas',
+        start_date: '2026-12-20',
+        end_date: '2027-01-05',
+      },
+      { name: '', start_date: '2026-07-10', end_date: '2026-07-10' },
+    ],
+  }
+
+  it('names the holiday or blocked range', () => {
+    expect(getBlackoutReason('2026-11-20', calendar)).toBe(
+      'Dia Nacional de Zumbi e da Consciência Negra',
+    )
+    expect(getBlackoutReason('2027-01-05', calendar)).toBe('Férias coletivas')
+    expect(getBlackoutReason('2026-07-10', calendar)).toBe('Data bloqueada')
+    expect(getBlackoutReason('2026-07-11', calendar)).toBeNull()
+  })
+
+  it('skips the holidays when the account opted out of them', () => {
+    expect(
+      getBlackoutReason('2026-12-25', { ...calendar, nationalHolidays: false }),
+    ).toBe('Férias coletivas')
+    expect(
+      getBlackoutReason('2026-11-20', { ...calendar, nationalHolidays: false }),
+    ).toBeNull()
+  })
+})
+
+describe('skipBlackoutDays', () => {
+  it('keeps a date on an open day', () => {
+    const date = new Date('2026-05-04T15:00:00Z')
+    expect(skipBlackoutDays(date, EMPTY_BLACKOUT_CALENDAR, SAO_PAULO)).toEqual(
+      date,
+    )
+  })
+
+  it('moves to midnight of the next open day in the zone', () => {
+    // Carnaval Monday and Tuesday, 2026-02-16 and 17
+    const date = new Date('2026-02-16T15:00:00Z')
+    expect(skipBlackoutDays(date, EMPTY_BLACKOUT_CALENDAR, SAO_PAULO)).toEqual(
+      new Date('2026-02-18T03:00:00Z'),
+    )
+  })
+
+  it('uses the calendar day of the zone, not UTC', () => {
+    // 22:00 on 2026-04-20 in São Paulo is already Tiradentes in UTC
+    const date = new Date('2026-04-21T01:00:00Z')
+    expect(skipBlackoutDays(date, EMPTY_BLACKOUT_CALENDAR, SAO_PAULO)).toEqual(
+      date,
+    )
+  })
+})
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildCampaignConfig,
+  CAMPAIGN_CONFIG_VERSION,
+  DEFAULT_CAMPAIGN_CONFIG,
+  parseCampaignConfig,
+} from './campaign-config'
+import { dailyWindows } from './sending-windows'
+
+describe('parseCampaignConfig', () => {
+  it('returns a valid current config unchanged', () => {
+    const config = {
+      ...DEFAULT_CAMPAIGN_CONFIG,
+      min_interval: 10,
+      max_interval: 20,
+      daily_limit: 500,
+    }
+    expect(parseCampaignConfig(config)).toEqual(config)
+  })
+
+  it('falls back to the defaults for rows without a config', () => {
+    // Except the windows: older rows were sent 08:00-18:00 every day
+    const expected = {
+      ...DEFAULT_CAMPAIGN_CONFIG,
+      business_hours: {
+        strategy: 'ignore',
+        windows: dailyWindows('08:00', '18:00'),
+      },
+    }
+    expect(parseCampaignConfig(null)).toEqual(expected)
+    expect(parseCampaignConfig('not json')).toEqual(expected)
+  })
+
+  it('upgrades a version 1 row from the upload wizard', () => {
+    const config = parseCampaignConfig({
+      version: 1,
+      min_interval: 15,
+      max_interval: 45,
+      batch_config: { enabled: true, size: 50, pause_min: 300, pause_max: 600 },
+      business_hours: {
+        strategy: 'pause',
+        pause_at: '18:00',
+        resume_at: '08:30',
+      },
+      automatic_pause: {
+        enabled: true,
+        pause_time: '12:00',
+        resume_date: '2026-05-10',
+        resume_time: '14:00',
+      },
+    })
+
+    expect(config.version).toBe(CAMPAIGN_CONFIG_VERSION)
+    expect(config.min_interval).toBe(15)
+    expect(config.max_interval).toBe(45)
+    expect(config.batch_config).toEqual({
+      enabled: true,
+      size: 50,
+      pause_min: 300,
+      pause_max: 600,
+    })
+    // The single pair became the same window on every day of the week
+    expect(config.business_hours).toEqual({
+      strategy: 'pause',
+      windows: dailyWindows('08:30', '18:00'),
+    })
+    expect(config.automatic_pause).toEqual({
+      enabled: true,
+      pause_at: '12:00',
+      resume_date: '2026-05-10',
+      resume_time: '14:00',
+    })
+    expect(config.daily_limit).toBeNull()
+    expect(config.retry_policy).toEqual(DEFAULT_CAMPAIGN_CONFIG.retry_policy)
+  })
+
+  it('keeps a version 1 window that runs past midnight', () => {
+    const config = parseCampaignConfig({
+      business_hours: {
+        strategy: 'pause',
+        pause_at: '02:00',
+        resume_at: '20:00',
+      },
+    })
+    expect(config.business_hours.windows[1]).toEqual([
+      { start: '00:00', end: '02:00' },
+      { start: '20:00', end: '23:59' },
+    ])
+  })
+
+  it('upgrades the flat camelCase shape of the bulk send modal', () => {
+    const config = parseCampaignConfig({
+      minInterval: '5',
+      maxInterval: '8',
+      useBatching: true,
+      batchSize: 10,
+      businessHoursStrategy: 'pause',
+      businessHoursResumeTime: '9:00',
+      businessHoursPauseTime: '17:00',
+      automaticPause: true,
+      pauseTime: '11:00',
+      resumeDate: '2026-06-01',
+      resumeTime: '13:00',
+    })
+
+    expect(config.min_interval).toBe(5)
+    expect(config.max_interval).toBe(8)
+    expect(config.batch_config.enabled).toBe(true)
+    expect(config.batch_config.size).toBe(10)
+    expect(config.business_hours.windows[3]).toEqual([
+      { start: '09:00', end: '17:00' },
+    ])
+    expect(config.automatic_pause.enabled).toBe(true)
+    expect(config.automatic_pause.pause_at).toBe('11:00')
+  })
+
+  it('repairs values that would not validate', () => {
+    const config = parseCampaignConfig({
+      min_interval: 90,
+      max_interval: 30,
+      batch_config: { enabled: true, size: 0, pause_min: 120, pause_max: 60 },
+      automatic_pause: { enabled: true, pause_at: '12:00' },
+    })
+
+    expect(config.max_interval).toBe(90)
+    expect(config.batch_config.size).toBe(1)
+    expect(config.batch_config.pause_max).toBe(120)
+    // Without a resume date the pause can't be honored
+    expect(config.automatic_pause.enabled).toBe(false)
+  })
+
+  it('ignores the pause strategy when no window is left', () => {
+    const config = parseCampaignConfig({
+      business_hours: {
+        strategy: 'pause',
+        windows: [[], [], [], [], [], [], []],
+      },
+    })
+    expect(config.business_hours.strategy).toBe('ignore')
+  })
+})
+
+describe('buildCampaignConfig', () => {
+  const input = {
+    minInterval: 30,
+    maxInterval: 60,
+    useBatching: false,
+    businessHoursStrategy: 'ignore' as const,
+  }
+
+  it('fills what the form leaves out with the defaults', () => {
+    expect(buildCampaignConfig(input)).toEqual(DEFAULT_CAMPAIGN_CONFIG)
+  })
+
+  it('stores the resume date as a calendar key', () => {
+    const config = buildCampaignConfig({
+      ...input,
+      automaticPause: true,
+      pauseTime: '12:00',
+      resumeDate: new Date(2026, 4, 10),
+      resumeTime: '14:00',
+    })
+    expect(config.automatic_pause.resume_date).toBe('2026-05-10')
+  })
+
+  it('throws on inconsistent values', () => {
+    expect(() =>
+      buildCampaignConfig({ ...input, minInterval: 60, maxInterval: 30 }),
+    ).toThrow('Intervalo máximo deve ser maior ou igual ao mínimo')
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import {
+  byPriority,
+  type CampaignPriority,
+  nextLane,
+  parseCampaignPriority,
+} from './campaign-priority'
+
+function lane(id: string, priority: CampaignPriority, readyAt: number) {
+  return { id, priority, readyAt }
+}
+
+describe('parseCampaignPriority', () => {
+  it('falls back to normal for unknown values', () => {
+    expect(parseCampaignPriority('urgent')).toBe('urgent')
+    expect(parseCampaignPriority('high')).toBe('normal')
+    expect(parseCampaignPriority(null)).toBe('normal')
+  })
+})
+
+describe('byPriority', () => {
+  it('sorts urgent campaigns first', () => {
+    const campaigns = [
+      { id: 'a', priority: 'low' },
+      { id: 'b', priority: null },
+      { id: 'c', priority: 'urgent' },
+    ]
+    expect([...campaigns].sort(byPriority).map((c) => c.id)).toEqual([
+      'c',
+      'b',
+      'a',
+    ])
+  })
+})
+
+describe('nextLane', () => {
+  const now = 100_000
+
+  it('is null without lanes', () => {
+    expect(nextLane([], now)).toBeNull()
+  })
+
+  it('serves the higher priority among lanes due together', () => {
+    expect(
+      nextLane([lane('low', 'low', now), lane('urgent', 'urgent', now)], now)
+        ?.id,
+    ).toBe('urgent')
+  })
+
+  it('lets a lane that waited long enough go before a higher priority', () => {
+    // 11s waited at weight 1 beats 1s at weight 4
+    expect(
+      nextLane(
+        [lane('urgent', 'urgent', now), lane('low', 'low', now - 10_000)],
+        now,
+      )?.id,
+    ).toBe('low')
+  })
+
+  it('picks the lane due first when none is due yet', () => {
+    expect(
+      nextLane(
+        [
+          lane('later', 'urgent', now + 5_000),
+          lane('sooner', 'low', now + 1_000),
+          lane('tied', 'normal', now + 1_000),
+        ],
+        now,
+      )?.id,
+    ).toBe('tied')
+  })
+
+  it('never starves a low priority lane', () => {
+    // The worker sends one message a second and every lane always has more
+    const lanes = [
+      lane('urgent', 'urgent', 0),
+      lane('normal', 'normal', 0),
+      lane('low', 'low', 0),
+    ]
+    const served: Record<string, number> = { urgent: 0, normal: 0, low: 0 }
+    for (let t = 0; t < 70_000; t += 1_000) {
+      const next = nextLane(lanes, t)!
+      served[next.id]++
+      next.readyAt = t + 1
+    }
+    expect(served.low).toBeGreaterThan(0)
+    expect(served.urgent).toBeGreaterThan(served.normal)
+    expect(served.normal).toBeGreaterThan(served.low)
+  })
+})
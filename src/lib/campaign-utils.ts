@@ -1,13 +1,21 @@
+import { addSeconds, addMinutes, isBefore, isAfter } from 'date-fns'
 import {
-  addSeconds,
-  set,
-  addDays,
-  addMinutes,
-  isBefore,
-  isAfter,
-  isSameDay,
-  parseISO,
-} from 'date-fns'
+  parseCalendarDate,
+  parseTimeOfDay,
+  resolveTimeZone,
+  zonedDateKey,
+  zonedMinutesOfDay,
+  zonedTimeToUtc,
+} from '@/lib/timezone'
+import { parseCampaignConfig } from '@/lib/campaign-config'
+import { nextSendingTime, WeeklyWindows } from '@/lib/sending-windows'
+import { BlackoutCalendar, skipBlackoutDays } from '@/lib/blackout'
+import {
+  AccountSendingLimits,
+  dailyLimitFor,
+  WarmupSender,
+} from '@/lib/daily-caps'
+import { secondsPerMessage, SenderThroughput } from '@/lib/throughput'
 
 export interface ScheduleConfig {
   minInterval: number
@@ -17,14 +25,27 @@ export interface ScheduleConfig {
   batchPauseMin?: number
   batchPauseMax?: number
   businessHoursStrategy: 'ignore' | 'pause'
-  businessHoursPauseTime?: string
-  businessHoursResumeTime?: string
+  // Weekly windows messages are limited to when the strategy is `pause`
+  sendingWindows?: WeeklyWindows
   // New Automatic Pause fields
   automaticPause?: boolean
   pauseTime?: string
   resumeDate?: Date
   resumeTime?: string
   startTime: Date
+  // IANA zone the hours above are read in (defaults to Brasília)
+  timezone?: string
+  // Holidays and blocked dates of the account, skipped entirely
+  blackout?: BlackoutCalendar
+  // Messages per day for this campaign (null for no limit)
+  dailyLimit?: number | null
+  // Account cap and warm-up ramp, applied on top of the campaign's
+  accountLimits?: AccountSendingLimits
+  // Account-wide pace of each sender number, and the numbers the campaign
+  // spreads its sends across with their own limits (none for the
+  // platform's default sender)
+  throughput?: SenderThroughput
+  senders?: WarmupSender[]
 }
 
 export interface ScheduledMessage {
@@ -39,35 +60,22 @@ export interface ConflictResult {
   suggestedTime?: Date
 }
 
+// Plans when each message goes out. Without `random` every interval and
+// batch pause is the average of its range, which keeps estimates stable;
+// with it each one is drawn from the range, for the plan a campaign is
+// launched with.
 export function calculateCampaignSchedule(
   config: ScheduleConfig,
   totalMessages: number,
+  random?: () => number,
 ): ScheduledMessage[] {
   const schedule: ScheduledMessage[] = []
+  const timeZone = resolveTimeZone(config.timezone)
   let currentTime = new Date(config.startTime)
-
-  // Business Hours setup
-  let pauseHour = 18,
-    pauseMinute = 0
-  let resumeHour = 8,
-    resumeMinute = 0
-
-  if (
-    config.businessHoursStrategy === 'pause' &&
-    config.businessHoursPauseTime &&
-    config.businessHoursResumeTime
-  ) {
-    ;[pauseHour, pauseMinute] = config.businessHoursPauseTime
-      .split(':')
-      .map(Number)
-    ;[resumeHour, resumeMinute] = config.businessHoursResumeTime
-      .split(':')
-      .map(Number)
-  }
+  const startDay = zonedDateKey(config.startTime, timeZone)
 
   // Automatic Pause setup
-  let autoPauseHour = 0,
-    autoPauseMinute = 0
+  let autoPauseT = 0
   let autoResumeDateTime: Date | null = null
 
   if (
@@ -76,25 +84,69 @@ export function calculateCampaignSchedule(
     config.resumeDate &&
     config.resumeTime
   ) {
-    ;[autoPauseHour, autoPauseMinute] = config.pauseTime.split(':').map(Number)
+    autoPauseT = parseTimeOfDay(config.pauseTime) ?? 0
     const [h, m] = config.resumeTime.split(':').map(Number)
-    autoResumeDateTime = set(config.resumeDate, {
-      hours: h,
-      minutes: m,
-      seconds: 0,
-      milliseconds: 0,
-    })
+    const resumeDay = parseCalendarDate(config.resumeDate)
+    if (resumeDay) {
+      autoResumeDateTime = zonedTimeToUtc(
+        { ...resumeDay, hour: h, minute: m },
+        timeZone,
+      )
+    }
+  }
+
+  // One-time interruption: from the pause time on the start day (or any
+  // later day) until the resume moment
+  const applyAutomaticPause = () => {
+    if (!autoResumeDateTime || !isBefore(currentTime, autoResumeDateTime)) {
+      return
+    }
+    const isPauseTimeReached =
+      zonedMinutesOfDay(currentTime, timeZone) >= autoPauseT
+    const isAfterStartDay = zonedDateKey(currentTime, timeZone) > startDay
+
+    if (isPauseTimeReached || isAfterStartDay) {
+      currentTime = new Date(autoResumeDateTime)
+    }
+  }
+
+  // Daily caps: messages already planned for each day of the campaign.
+  // Numbers that never sent start their warm-up with this campaign
+  const sentByDay = new Map<string, number>()
+  const senders = (config.senders ?? []).map((sender) => ({
+    ...sender,
+    warmup_started_on: sender.warmup_started_on ?? startDay,
+  }))
+  const applyDailyCap = () => {
+    const dayKey = zonedDateKey(currentTime, timeZone)
+    const limit = dailyLimitFor(
+      dayKey,
+      config.dailyLimit ?? null,
+      config.accountLimits,
+      senders,
+    )
+    if (limit === null || (sentByDay.get(dayKey) ?? 0) < limit) return
+
+    const day = parseCalendarDate(dayKey)!
+    currentTime = zonedTimeToUtc({ ...day, day: day.day + 1 }, timeZone)
   }
 
-  const avgInterval = (config.minInterval + config.maxInterval) / 2
-  const avgBatchPause =
-    config.useBatching && config.batchPauseMin && config.batchPauseMax
-      ? (config.batchPauseMin + config.batchPauseMax) / 2
-      : 0
+  const pick = (min: number, max: number) =>
+    random ? min + random() * (max - min) : (min + max) / 2
+
+  // The numbers' pacing can be slower than the campaign's own interval
+  const senderInterval = config.throughput
+    ? secondsPerMessage(config.throughput) / Math.max(1, senders.length)
+    : 0
+  const hasBatchPause =
+    config.useBatching && !!config.batchPauseMin && !!config.batchPauseMax
 
   for (let i = 0; i < totalMessages; i++) {
     if (i > 0) {
-      currentTime = addSeconds(currentTime, avgInterval)
+      currentTime = addSeconds(
+        currentTime,
+        Math.max(pick(config.minInterval, config.maxInterval), senderInterval),
+      )
     }
 
     if (
@@ -103,76 +155,42 @@ export function calculateCampaignSchedule(
       i > 0 &&
       i % config.batchSize === 0
     ) {
-      currentTime = addSeconds(currentTime, avgBatchPause)
+      currentTime = addSeconds(
+        currentTime,
+        hasBatchPause ? pick(config.batchPauseMin!, config.batchPauseMax!) : 0,
+      )
     }
 
     // Check Automatic Pause (One-time interruption)
-    if (autoResumeDateTime && isBefore(currentTime, autoResumeDateTime)) {
-      const currentH = currentTime.getHours()
-      const currentM = currentTime.getMinutes()
-
-      // If we hit the pause time, or if we are on a day AFTER the start but BEFORE the resume
-      const isPauseTimeReached =
-        currentH > autoPauseHour ||
-        (currentH === autoPauseHour && currentM >= autoPauseMinute)
-
-      const isAfterStartDay =
-        !isSameDay(currentTime, config.startTime) &&
-        isAfter(currentTime, config.startTime)
-
-      if (isPauseTimeReached || isAfterStartDay) {
-        // Jump to resume time
-        if (isBefore(currentTime, autoResumeDateTime)) {
-          currentTime = new Date(autoResumeDateTime)
-        }
-      }
-    }
+    applyAutomaticPause()
+
+    // Check Daily Caps, Blackout Days and Sending Windows (Recurring). Each
+    // jump can land somewhere another rule forbids, so repeat until all of
+    // them agree
+    for (let attempt = 0; attempt < 14; attempt++) {
+      const before = currentTime.getTime()
 
-    // Check Business Hours (Recurring)
-    if (config.businessHoursStrategy === 'pause') {
-      const h = currentTime.getHours()
-      const m = currentTime.getMinutes()
-      const t = h * 60 + m
-      const pauseT = pauseHour * 60 + pauseMinute
-      const resumeT = resumeHour * 60 + resumeMinute
-
-      const isAfterPause = t >= pauseT
-      const isBeforeResume = t < resumeT
-
-      if (isAfterPause || isBeforeResume) {
-        if (isAfterPause) {
-          currentTime = addDays(currentTime, 1)
-        }
-        currentTime = set(currentTime, {
-          hours: resumeHour,
-          minutes: resumeMinute,
-          seconds: 0,
-          milliseconds: 0,
-        })
-
-        // After adjusting for business hours, we must re-check automatic pause
-        // because we might have jumped into the forbidden zone or past it.
-        if (autoResumeDateTime && isBefore(currentTime, autoResumeDateTime)) {
-          const currentH = currentTime.getHours()
-          const currentM = currentTime.getMinutes()
-          const isPauseTimeReached =
-            currentH > autoPauseHour ||
-            (currentH === autoPauseHour && currentM >= autoPauseMinute)
-          const isAfterStartDay =
-            !isSameDay(currentTime, config.startTime) &&
-            isAfter(currentTime, config.startTime)
-
-          if (isPauseTimeReached || isAfterStartDay) {
-            currentTime = new Date(autoResumeDateTime)
-          }
-        }
+      applyDailyCap()
+      if (config.blackout) {
+        currentTime = skipBlackoutDays(currentTime, config.blackout, timeZone)
       }
+      if (config.businessHoursStrategy === 'pause' && config.sendingWindows) {
+        currentTime =
+          nextSendingTime(currentTime, config.sendingWindows, timeZone) ??
+          currentTime
+      }
+      applyAutomaticPause()
+
+      if (currentTime.getTime() === before) break
     }
 
     schedule.push({
       contactIndex: i,
       sendTime: new Date(currentTime),
     })
+
+    const sentDay = zonedDateKey(currentTime, timeZone)
+    sentByDay.set(sentDay, (sentByDay.get(sentDay) ?? 0) + 1)
   }
 
   return schedule
@@ -191,90 +209,41 @@ export function estimateCampaignEndTime(
 }
 
 export function mapDbConfigToScheduleConfig(
-  dbConfig: any,
+  dbConfig: unknown,
   startTime: string | Date,
+  timezone?: string | null,
 ): ScheduleConfig {
   const start = typeof startTime === 'string' ? new Date(startTime) : startTime
+  const config = parseCampaignConfig(dbConfig)
+  const pause = config.automatic_pause
 
-  // Helper to get value from either snake_case or camelCase
-  const getVal = (snake: string, camel: string, defaultVal?: any) => {
-    return dbConfig?.[camel] ?? dbConfig?.[snake] ?? defaultVal
-  }
-
-  // Automatic Pause Parsing
-  const autoPauseEnabled =
-    getVal('automatic_pause', 'automaticPause')?.enabled ??
-    dbConfig?.automatic_pause?.enabled ??
-    dbConfig?.automaticPause?.enabled ??
-    false
-  const autoPauseAt =
-    getVal('automatic_pause', 'automaticPause')?.pause_at ??
-    getVal('automatic_pause', 'automaticPause')?.pauseTime ??
-    dbConfig?.automatic_pause?.pause_at ??
-    dbConfig?.automaticPause?.pauseTime
-  const autoResumeDate =
-    getVal('automatic_pause', 'automaticPause')?.resume_date ??
-    getVal('automatic_pause', 'automaticPause')?.resumeDate ??
-    dbConfig?.automatic_pause?.resume_date ??
-    dbConfig?.automaticPause?.resumeDate
-  const autoResumeTime =
-    getVal('automatic_pause', 'automaticPause')?.resume_time ??
-    getVal('automatic_pause', 'automaticPause')?.resumeTime ??
-    dbConfig?.automatic_pause?.resume_time ??
-    dbConfig?.automaticPause?.resumeTime
-
-  // Batch Config Parsing
-  const batchEnabled =
-    getVal('batch_config', 'useBatching')?.enabled ??
-    getVal('batch_config', 'useBatching') ??
-    false
-  // If useBatching is a boolean true at root level (camelCase style), we handle that,
-  // but if it's an object (snake_case style), we check .enabled
-  const isBatchEnabled =
-    typeof batchEnabled === 'object' ? batchEnabled.enabled : batchEnabled
-
-  const batchSize = dbConfig?.batchSize ?? dbConfig?.batch_config?.size
-  const batchPauseMin =
-    dbConfig?.batchPauseMin ?? dbConfig?.batch_config?.pause_min
-  const batchPauseMax =
-    dbConfig?.batchPauseMax ?? dbConfig?.batch_config?.pause_max
-
-  // Business Hours Parsing
-  const businessStrategy =
-    dbConfig?.businessHoursStrategy ??
-    dbConfig?.business_hours?.strategy ??
-    'ignore'
-  const businessPauseAt =
-    dbConfig?.businessHoursPauseTime ??
-    dbConfig?.business_hours?.pause_at ??
-    '18:00'
-  const businessResumeAt =
-    dbConfig?.businessHoursResumeTime ??
-    dbConfig?.business_hours?.resume_at ??
-    '08:00'
+  // Back to a local-midnight Date, the shape the date picker works with
+  const resumeDay = parseCalendarDate(pause.resume_date)
 
   return {
-    minInterval: getVal('min_interval', 'minInterval', 30),
-    maxInterval: getVal('max_interval', 'maxInterval', 60),
-    useBatching: !!isBatchEnabled,
-    batchSize: batchSize,
-    batchPauseMin: batchPauseMin,
-    batchPauseMax: batchPauseMax,
-    businessHoursStrategy: businessStrategy,
-    businessHoursPauseTime: businessPauseAt,
-    businessHoursResumeTime: businessResumeAt,
-    automaticPause: !!autoPauseEnabled,
-    pauseTime: autoPauseAt,
-    resumeDate: autoResumeDate
-      ? typeof autoResumeDate === 'string'
-        ? parseISO(autoResumeDate)
-        : autoResumeDate
+    minInterval: config.min_interval,
+    maxInterval: config.max_interval,
+    useBatching: config.batch_config.enabled,
+    batchSize: config.batch_config.size,
+    batchPauseMin: config.batch_config.pause_min,
+    batchPauseMax: config.batch_config.pause_max,
+    businessHoursStrategy: config.business_hours.strategy,
+    sendingWindows: config.business_hours.windows,
+    dailyLimit: config.daily_limit,
+    automaticPause: pause.enabled,
+    pauseTime: pause.pause_at ?? undefined,
+    resumeDate: resumeDay
+      ? new Date(resumeDay.year, resumeDay.month - 1, resumeDay.day)
       : undefined,
-    resumeTime: autoResumeTime,
+    resumeTime: pause.resume_time ?? undefined,
     startTime: start,
+    timezone: resolveTimeZone(timezone),
   }
 }
 
+// Advisory only: the worker paces every sender number across all of the
+// account's campaigns, so an overlap is safe and only means both campaigns
+// take longer than they would alone
 export function checkScheduleConflict(
   newConfig: ScheduleConfig,
   totalMessages: number,
@@ -285,6 +254,7 @@ export function checkScheduleConflict(
     started_at: string | null
     total_messages: number | null
     config: any
+    timezone?: string | null
   }>,
 ): ConflictResult {
   const BUFFER_MINUTES = 60
@@ -296,10 +266,18 @@ export function checkScheduleConflict(
     const campaignStartStr = campaign.started_at || campaign.scheduled_at
     if (!campaignStartStr) continue
 
-    const campaignConfig = mapDbConfigToScheduleConfig(
-      campaign.config,
-      campaignStartStr,
-    )
+    const campaignConfig = {
+      ...mapDbConfigToScheduleConfig(
+        campaign.config,
+        campaignStartStr,
+        campaign.timezone,
+      ),
+      // Same account, same calendar, caps and numbers
+      blackout: newConfig.blackout,
+      accountLimits: newConfig.accountLimits,
+      throughput: newConfig.throughput,
+      senders: newConfig.senders,
+    }
     const campaignEnd = estimateCampaignEndTime(
       campaignConfig,
       campaign.total_messages || 0,
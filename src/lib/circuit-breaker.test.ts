@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type AttemptOutcome,
+  DEFAULT_CIRCUIT_BREAKER,
+  evaluateCircuitBreaker,
+  parseCircuitBreaker,
+  serializeCircuitBreaker,
+} from './circuit-breaker'
+
+const config = {
+  enabled: true,
+  maxConsecutiveFailures: 3,
+  failureRateThreshold: 0.5,
+  windowSize: 6,
+}
+
+// Outcomes listed oldest first, one minute apart, returned newest first
+// like the worker reads them
+function attempts(...outcomes: ('sent' | 'failed' | 'invalid')[]) {
+  return outcomes
+    .map(
+      (outcome, index): AttemptOutcome => ({
+        campaign_message_id: `m${index}`,
+        status: outcome === 'sent' ? 'sent' : 'failed',
+        error_code:
+          outcome === 'invalid'
+            ? 'invalid_number'
+            : outcome === 'failed'
+              ? 'provider_error'
+              : null,
+        error_message: outcome === 'sent' ? null : `erro ${index}`,
+        attempted_at: new Date(Date.UTC(2026, 4, 4, 12, index)).toISOString(),
+      }),
+    )
+    .reverse()
+}
+
+describe('parseCircuitBreaker', () => {
+  it('uses the defaults for older campaigns', () => {
+    expect(parseCircuitBreaker({})).toEqual(DEFAULT_CIRCUIT_BREAKER)
+  })
+
+  it('reads the stored config and clamps it', () => {
+    const parsed = parseCircuitBreaker({
+      circuit_breaker: {
+        enabled: false,
+        max_consecutive_failures: 500,
+        failure_rate_threshold: 0,
+        window_size: 1,
+      },
+    })
+    expect(parsed).toEqual({
+      enabled: false,
+      maxConsecutiveFailures: 100,
+      failureRateThreshold: 0.01,
+      windowSize: 2,
+    })
+    expect(
+      parseCircuitBreaker({ circuit_breaker: serializeCircuitBreaker(parsed) }),
+    ).toEqual(parsed)
+  })
+})
+
+describe('evaluateCircuitBreaker', () => {
+  it('trips on a streak of failures', () => {
+    const result = evaluateCircuitBreaker(
+      config,
+      attempts('sent', 'failed', 'failed', 'failed'),
+    )
+    expect(result.tripped).toBe(true)
+    expect(result.reason).toBe(
+      '3 falhas consecutivas no envio. Último erro: erro 3',
+    )
+    expect(result.failedMessageIds).toEqual(['m3', 'm2', 'm1'])
+  })
+
+  it('does not count failures caused by the recipient', () => {
+    expect(
+      evaluateCircuitBreaker(
+        config,
+        attempts('failed', 'invalid', 'failed', 'invalid'),
+      ).tripped,
+    ).toBe(false)
+  })
+
+  it('trips on the failure rate once the window is full', () => {
+    const result = evaluateCircuitBreaker(
+      config,
+      attempts('failed', 'failed', 'sent', 'failed', 'failed', 'sent'),
+    )
+    expect(result.tripped).toBe(true)
+    expect(result.reason).toMatch(/^67% de falhas nas últimas 6 tentativas/)
+    expect(
+      evaluateCircuitBreaker(config, attempts('failed', 'failed', 'sent'))
+        .tripped,
+    ).toBe(false)
+  })
+
+  it('does nothing when disabled', () => {
+    expect(
+      evaluateCircuitBreaker(
+        { ...config, enabled: false },
+        attempts('failed', 'failed', 'failed'),
+      ).tripped,
+    ).toBe(false)
+  })
+
+  it('does not trip again on the first failure after a resume', () => {
+    const history = attempts('sent', 'failed', 'failed', 'failed')
+    expect(evaluateCircuitBreaker(config, history).tripped).toBe(true)
+
+    // Resumed after the streak, then one more send failed
+    const resumedAt = new Date(Date.UTC(2026, 4, 4, 12, 10)).toISOString()
+    const afterResume = [
+      {
+        campaign_message_id: 'm9',
+        status: 'failed' as const,
+        error_code: 'provider_error',
+        error_message: 'erro 9',
+        attempted_at: new Date(Date.UTC(2026, 4, 4, 12, 11)).toISOString(),
+      },
+      ...history,
+    ]
+    expect(evaluateCircuitBreaker(config, afterResume, resumedAt)).toEqual({
+      tripped: false,
+      reason: null,
+      failedMessageIds: [],
+    })
+  })
+
+  it('leaves the failure rate of a resumed campaign to new attempts', () => {
+    const history = attempts(
+      'failed',
+      'failed',
+      'sent',
+      'failed',
+      'failed',
+      'sent',
+    )
+    expect(evaluateCircuitBreaker(config, history).tripped).toBe(true)
+
+    // Resumed before the last attempt: the window isn't full again yet
+    const resumedAt = new Date(Date.UTC(2026, 4, 4, 12, 4, 30)).toISOString()
+    expect(evaluateCircuitBreaker(config, history, resumedAt).tripped).toBe(
+      false,
+    )
+  })
+})
@@ -1,7 +1,13 @@
+import { normalizeVariableKey } from '@/lib/template'
+
 export interface ParsedContact {
   name: string
   phone: string
   message: string
+  // Any other column, available to the message as {{coluna}}
+  variables: Record<string, string>
+  // Attachment URL or uploaded file name
+  media?: string
 }
 
 export const parseCSV = async (file: File): Promise<ParsedContact[]> => {
@@ -117,6 +123,16 @@ export const parseCSV = async (file: File): Promise<ParsedContact[]> => {
         const messageIndex = headers.findIndex(
           (h) => h === 'mensagem' || h === 'message',
         )
+        // Optional per-contact attachment
+        const mediaIndex = headers.findIndex(
+          (h) =>
+            h === 'midia' ||
+            h === 'mídia' ||
+            h === 'media' ||
+            h === 'anexo' ||
+            h === 'arquivo' ||
+            h === 'attachment',
+        )
 
         // Error Handling for missing columns
         if (nameIndex === -1 || phoneIndex === -1 || messageIndex === -1) {
@@ -133,6 +149,21 @@ export const parseCSV = async (file: File): Promise<ParsedContact[]> => {
           return
         }
 
+        // Remaining columns become template variables
+        const variableColumns = cleanRows[0]
+          .map((header, index) => ({
+            key: normalizeVariableKey(header),
+            index,
+          }))
+          .filter(
+            ({ key, index }) =>
+              key &&
+              index !== nameIndex &&
+              index !== phoneIndex &&
+              index !== messageIndex &&
+              index !== mediaIndex,
+          )
+
         const contacts: ParsedContact[] = []
 
         // 6. Dynamic Row Parsing
@@ -142,13 +173,22 @@ export const parseCSV = async (file: File): Promise<ParsedContact[]> => {
           const name = row[nameIndex]?.trim()
           const phone = row[phoneIndex]?.trim()
           const message = row[messageIndex]?.trim()
+          const media = mediaIndex !== -1 ? row[mediaIndex]?.trim() : ''
 
           // Only add valid contacts (must have name OR phone, and message)
           if ((name || phone) && message !== undefined) {
+            const variables: Record<string, string> = {}
+            for (const { key, index } of variableColumns) {
+              const value = row[index]?.trim()
+              if (value) variables[key] = value
+            }
+
             contacts.push({
               name: name || '',
               phone: phone || '',
               message: message || '',
+              variables,
+              ...(media && { media }),
             })
           }
         }
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_ACCOUNT_LIMITS,
+  DEFAULT_WARMUP_SCHEDULE,
+  dailyLimitFor,
+  parseAccountLimits,
+  parseWarmupSchedule,
+  senderDailyLimit,
+  sendersDailyLimit,
+  warmupDay,
+  warmupLimit,
+} from './daily-caps'
+
+const warmup = { enabled: true, schedule: [50, 100, 200] }
+
+describe('parseWarmupSchedule', () => {
+  it('reads what the user typed and skips invalid steps', () => {
+    expect(parseWarmupSchedule('50, 100;200 abc -5')).toEqual([50, 100, 200])
+  })
+
+  it('falls back to the default ramp when nothing is left', () => {
+    expect(parseWarmupSchedule('')).toEqual(DEFAULT_WARMUP_SCHEDULE)
+    expect(parseWarmupSchedule(null)).toEqual(DEFAULT_WARMUP_SCHEDULE)
+  })
+})
+
+describe('parseAccountLimits', () => {
+  it('reads the profile columns', () => {
+    expect(parseAccountLimits(null)).toEqual(DEFAULT_ACCOUNT_LIMITS)
+    expect(
+      parseAccountLimits({
+        daily_send_limit: 300,
+        warmup_enabled: true,
+        warmup_schedule: [10, 20],
+      }),
+    ).toEqual({
+      dailyLimit: 300,
+      warmup: { enabled: true, schedule: [10, 20] },
+    })
+  })
+})
+
+describe('warmupDay', () => {
+  it('counts calendar days from the first send', () => {
+    expect(warmupDay('2026-05-04', '2026-05-04')).toBe(1)
+    expect(warmupDay('2026-05-04', '2026-05-06')).toBe(3)
+    // Across the end of a short month
+    expect(warmupDay('2026-02-27', '2026-03-02')).toBe(4)
+  })
+})
+
+describe('warmupLimit', () => {
+  it('follows the ramp and ends with it', () => {
+    expect(warmupLimit(warmup, '2026-05-04', '2026-05-05')).toBe(100)
+    expect(warmupLimit(warmup, '2026-05-04', '2026-05-07')).toBeNull()
+  })
+
+  it('puts a number that never sent on day 1', () => {
+    expect(warmupLimit(warmup, null, '2026-05-04')).toBe(50)
+  })
+
+  it('is null when warm-up is off', () => {
+    expect(
+      warmupLimit({ ...warmup, enabled: false }, null, '2026-05-04'),
+    ).toBeNull()
+  })
+})
+
+describe('senderDailyLimit', () => {
+  it('is the smaller of the number limit and its warm-up step', () => {
+    const sender = { daily_limit: 80, warmup_started_on: '2026-05-04' }
+    expect(senderDailyLimit(sender, warmup, '2026-05-04')).toBe(50)
+    expect(senderDailyLimit(sender, warmup, '2026-05-05')).toBe(80)
+    expect(senderDailyLimit(sender, warmup, '2026-06-01')).toBe(80)
+  })
+})
+
+describe('sendersDailyLimit', () => {
+  it('adds up what each number may send', () => {
+    expect(
+      sendersDailyLimit(
+        [
+          { daily_limit: null, warmup_started_on: '2026-05-01' },
+          { daily_limit: null, warmup_started_on: null },
+        ],
+        warmup,
+        '2026-05-03',
+      ),
+    ).toBe(250)
+  })
+
+  it('is null when one number has no limit, or without numbers', () => {
+    const old = { daily_limit: null, warmup_started_on: '2026-01-01' }
+    expect(sendersDailyLimit([old], warmup, '2026-05-04')).toBeNull()
+    expect(sendersDailyLimit([], warmup, '2026-05-04')).toBeNull()
+  })
+})
+
+describe('dailyLimitFor', () => {
+  const limits = { dailyLimit: 120, warmup }
+
+  it('takes the strictest of the campaign, account and numbers', () => {
+    const fresh = [{ daily_limit: null, warmup_started_on: null }]
+    expect(dailyLimitFor('2026-05-04', 500, limits, fresh)).toBe(50)
+    expect(dailyLimitFor('2026-05-04', 30, limits, fresh)).toBe(30)
+    expect(dailyLimitFor('2026-05-04', null, limits)).toBe(120)
+  })
+
+  it('is null when nothing limits the day', () => {
+    expect(dailyLimitFor('2026-05-04', null)).toBeNull()
+    expect(dailyLimitFor('2026-05-04', null, DEFAULT_ACCOUNT_LIMITS)).toBeNull()
+  })
+})
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import { positiveInt } from './numbers'
+
+describe('positiveInt', () => {
+  it('reads whole numbers from numbers and typed text', () => {
+    expect(positiveInt(12)).toBe(12)
+    expect(positiveInt('40')).toBe(40)
+    expect(positiveInt('7.9')).toBe(7)
+  })
+
+  it('is null for empty, zero, negative or non-numeric values', () => {
+    expect(positiveInt('')).toBeNull()
+    expect(positiveInt(null)).toBeNull()
+    expect(positiveInt(0)).toBeNull()
+    expect(positiveInt(-3)).toBeNull()
+    expect(positiveInt('abc')).toBeNull()
+  })
+})
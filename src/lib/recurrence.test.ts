@@ -0,0 +1,237 @@
+import { describe, expect, it } from 'vitest'
+import {
+  describeRecurrence,
+  nextRun,
+  parseCron,
+  parseRecurrence,
+  validateRecurrence,
+} from './recurrence'
+
+const SAO_PAULO = 'America/Sao_Paulo'
+const NEW_YORK = 'America/New_York'
+
+function rule(raw: Record<string, unknown>) {
+  return parseRecurrence(raw)!
+}
+
+function iso(date: Date | null) {
+  return date?.toISOString() ?? null
+}
+
+describe('parseRecurrence', () => {
+  it('is null for campaigns that do not repeat', () => {
+    expect(parseRecurrence(null)).toBeNull()
+    expect(parseRecurrence({ frequency: 'yearly' })).toBeNull()
+  })
+
+  it('reads the stored snake_case rule and the form camelCase one alike', () => {
+    const stored = rule({
+      frequency: 'monthly',
+      time: '10:15',
+      month_day: 31,
+      ends_on: '2026-12-31',
+      max_occurrences: 3,
+    })
+    const form = rule({
+      frequency: 'monthly',
+      time: '10:15',
+      monthDay: 31,
+      endsOn: '2026-12-31',
+      maxOccurrences: 3,
+    })
+    expect(form).toEqual(stored)
+    expect(stored).toMatchObject({
+      monthDay: 31,
+      endsOn: '2026-12-31',
+      maxOccurrences: 3,
+    })
+  })
+
+  it('dedupes weekdays, folds 7 into Sunday and drops invalid values', () => {
+    expect(
+      rule({ frequency: 'weekly', weekdays: [3, 7, 1, 3, -1, 'x'] }).weekdays,
+    ).toEqual([0, 1, 3])
+  })
+
+  it('falls back to the default time and caps the month day', () => {
+    const parsed = rule({ frequency: 'monthly', time: 'soon', month_day: 45 })
+    expect(parsed.time).toBe('09:00')
+    expect(parsed.monthDay).toBe(31)
+  })
+})
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    const cron = parseCron('*/15 8-10 1,15 * 1-5')!
+    expect(cron.minutes).toEqual([0, 15, 30, 45])
+    expect(cron.hours).toEqual([8, 9, 10])
+    expect([...cron.days]).toEqual([1, 15])
+    expect([...cron.weekdays]).toEqual([1, 2, 3, 4, 5])
+    expect(cron.anyDay).toBe(false)
+  })
+
+  it('treats 7 as Sunday', () => {
+    expect([...parseCron('0 9 * * 7')!.weekdays]).toEqual([0])
+  })
+
+  it('rejects out of range values and the wrong number of fields', () => {
+    expect(parseCron('60 9 * * *')).toBeNull()
+    expect(parseCron('0 9 * 13 *')).toBeNull()
+    expect(parseCron('0 9 5-1 * *')).toBeNull()
+    expect(parseCron('0 9 * *')).toBeNull()
+  })
+})
+
+describe('validateRecurrence', () => {
+  it('accepts the default rule', () => {
+    expect(validateRecurrence(rule({ frequency: 'weekly' }))).toBeNull()
+  })
+
+  it('asks for a weekday and for a valid cron', () => {
+    expect(
+      validateRecurrence(rule({ frequency: 'weekly', weekdays: [] })),
+    ).toBe('Escolha ao menos um dia da semana.')
+    expect(
+      validateRecurrence(rule({ frequency: 'cron', cron: '0 9 * *' })),
+    ).toMatch(/^Expressão cron inválida/)
+  })
+})
+
+describe('nextRun', () => {
+  it('runs later the same day when the time has not passed yet', () => {
+    const daily = rule({ frequency: 'daily', time: '09:00' })
+    // 08:00 in São Paulo (UTC-3)
+    const after = new Date('2026-05-04T11:00:00Z')
+    expect(iso(nextRun(daily, after, SAO_PAULO, 0))).toBe(
+      '2026-05-04T12:00:00.000Z',
+    )
+  })
+
+  it('is strictly after the given instant', () => {
+    const daily = rule({ frequency: 'daily', time: '09:00' })
+    const after = new Date('2026-05-04T12:00:00Z')
+    expect(iso(nextRun(daily, after, SAO_PAULO, 0))).toBe(
+      '2026-05-05T12:00:00.000Z',
+    )
+  })
+
+  it('picks the next chosen weekday', () => {
+    // Monday and Wednesday, from Tuesday 2026-05-05
+    const weekly = rule({
+      frequency: 'weekly',
+      time: '09:00',
+      weekdays: [1, 3],
+    })
+    const after = new Date('2026-05-05T15:00:00Z')
+    expect(iso(nextRun(weekly, after, SAO_PAULO, 0))).toBe(
+      '2026-05-06T12:00:00.000Z',
+    )
+  })
+
+  it('uses the calendar day of the campaign zone, not UTC', () => {
+    // 22:00 on Sunday in São Paulo is already Monday in UTC
+    const weekly = rule({ frequency: 'weekly', time: '23:00', weekdays: [0] })
+    const after = new Date('2026-05-04T01:00:00Z')
+    expect(iso(nextRun(weekly, after, SAO_PAULO, 0))).toBe(
+      '2026-05-04T02:00:00.000Z',
+    )
+  })
+
+  it('runs monthly rules on the last day of shorter months', () => {
+    const monthly = rule({ frequency: 'monthly', time: '09:00', month_day: 31 })
+    const feb = nextRun(monthly, new Date('2026-02-01T00:00:00Z'), SAO_PAULO, 0)
+    expect(iso(feb)).toBe('2026-02-28T12:00:00.000Z')
+    const leap = nextRun(
+      monthly,
+      new Date('2028-02-01T00:00:00Z'),
+      SAO_PAULO,
+      0,
+    )
+    expect(iso(leap)).toBe('2028-02-29T12:00:00.000Z')
+    expect(iso(nextRun(monthly, feb!, SAO_PAULO, 1))).toBe(
+      '2026-03-31T12:00:00.000Z',
+    )
+  })
+
+  it('moves a time skipped by the DST jump forward by the jump', () => {
+    // New York skips 02:00-03:00 on 2026-03-08
+    const daily = rule({ frequency: 'daily', time: '02:30' })
+    const after = new Date('2026-03-07T12:00:00Z')
+    expect(iso(nextRun(daily, after, NEW_YORK, 0))).toBe(
+      '2026-03-08T07:30:00.000Z',
+    )
+    expect(
+      iso(nextRun(daily, new Date('2026-03-08T12:00:00Z'), NEW_YORK, 0)),
+    ).toBe('2026-03-09T06:30:00.000Z')
+  })
+
+  it('runs once on the day DST ends', () => {
+    // 01:30 happens twice in New York on 2026-11-01
+    const daily = rule({ frequency: 'daily', time: '01:30' })
+    const first = nextRun(daily, new Date('2026-10-31T12:00:00Z'), NEW_YORK, 0)
+    expect(iso(first)).toBe('2026-11-01T05:30:00.000Z')
+    expect(iso(nextRun(daily, first!, NEW_YORK, 1))).toBe(
+      '2026-11-02T06:30:00.000Z',
+    )
+  })
+
+  it('stops after the last allowed day', () => {
+    const daily = rule({
+      frequency: 'daily',
+      time: '09:00',
+      ends_on: '2026-05-04',
+    })
+    expect(
+      iso(nextRun(daily, new Date('2026-05-04T00:00:00Z'), SAO_PAULO, 0)),
+    ).toBe('2026-05-04T12:00:00.000Z')
+    expect(
+      nextRun(daily, new Date('2026-05-04T12:00:00Z'), SAO_PAULO, 1),
+    ).toBeNull()
+  })
+
+  it('stops once the maximum number of runs was spawned', () => {
+    const daily = rule({ frequency: 'daily', max_occurrences: 2 })
+    const after = new Date('2026-05-04T00:00:00Z')
+    expect(nextRun(daily, after, SAO_PAULO, 1)).not.toBeNull()
+    expect(nextRun(daily, after, SAO_PAULO, 2)).toBeNull()
+  })
+
+  it('finds a cron that only fires on February 29th', () => {
+    const cron = rule({ frequency: 'cron', cron: '0 9 29 2 *' })
+    expect(
+      iso(nextRun(cron, new Date('2026-03-01T00:00:00Z'), SAO_PAULO, 0)),
+    ).toBe('2028-02-29T12:00:00.000Z')
+  })
+
+  it('fires a cron on either restricted day field, like cron does', () => {
+    // The 15th or any Monday: from Tuesday 2026-05-12 the 15th comes first
+    const cron = rule({ frequency: 'cron', cron: '30 8 15 * 1' })
+    const after = new Date('2026-05-12T12:00:00Z')
+    const first = nextRun(cron, after, SAO_PAULO, 0)
+    expect(iso(first)).toBe('2026-05-15T11:30:00.000Z')
+    expect(iso(nextRun(cron, first!, SAO_PAULO, 1))).toBe(
+      '2026-05-18T11:30:00.000Z',
+    )
+  })
+
+  it('is null for an invalid cron', () => {
+    const cron = rule({ frequency: 'cron', cron: 'every day' })
+    expect(nextRun(cron, new Date(), SAO_PAULO, 0)).toBeNull()
+  })
+})
+
+describe('describeRecurrence', () => {
+  it('lists the weekdays from Monday and how the rule ends', () => {
+    expect(
+      describeRecurrence(
+        rule({
+          frequency: 'weekly',
+          time: '09:00',
+          weekdays: [3, 1],
+          ends_on: '2026-12-31',
+          max_occurrences: 10,
+        }),
+      ),
+    ).toBe('Toda semana (Seg, Qua) às 09:00, até 31/12/2026, 10 execuções')
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_RETRY_POLICY,
+  parseRetryPolicy,
+  retryDelaySeconds,
+  serializeRetryPolicy,
+  shouldRetry,
+} from './retry'
+
+describe('parseRetryPolicy', () => {
+  it('uses the defaults for older campaigns', () => {
+    expect(parseRetryPolicy({})).toEqual(DEFAULT_RETRY_POLICY)
+    expect(parseRetryPolicy(null)).toEqual(DEFAULT_RETRY_POLICY)
+  })
+
+  it('reads the stored config, clamps it and drops unknown errors', () => {
+    const parsed = parseRetryPolicy({
+      retry_policy: {
+        max_attempts: 50,
+        backoff_seconds: 0,
+        retryable_errors: ['timeout', 'not_an_error'],
+      },
+    })
+    expect(parsed).toEqual({
+      maxAttempts: 10,
+      backoffSeconds: 1,
+      retryableErrors: ['timeout'],
+    })
+    expect(
+      parseRetryPolicy({ retry_policy: serializeRetryPolicy(parsed) }),
+    ).toEqual(parsed)
+  })
+
+  it('reads the form config too', () => {
+    expect(
+      parseRetryPolicy({
+        retryPolicy: {
+          maxAttempts: 1,
+          backoffSeconds: 30,
+          retryableErrors: [],
+        },
+      }),
+    ).toEqual({ maxAttempts: 1, backoffSeconds: 30, retryableErrors: [] })
+  })
+})
+
+describe('shouldRetry', () => {
+  it('retries transient errors until the attempts run out', () => {
+    expect(shouldRetry(DEFAULT_RETRY_POLICY, 1, 'timeout')).toBe(true)
+    expect(shouldRetry(DEFAULT_RETRY_POLICY, 2, 'rate_limited')).toBe(true)
+    expect(shouldRetry(DEFAULT_RETRY_POLICY, 3, 'timeout')).toBe(false)
+  })
+
+  it('never retries errors outside the policy or without a code', () => {
+    expect(shouldRetry(DEFAULT_RETRY_POLICY, 1, 'invalid_number')).toBe(false)
+    expect(shouldRetry(DEFAULT_RETRY_POLICY, 1, null)).toBe(false)
+  })
+})
+
+describe('retryDelaySeconds', () => {
+  it('doubles the wait on every attempt, up to 6 hours', () => {
+    expect(retryDelaySeconds(DEFAULT_RETRY_POLICY, 1)).toBe(60)
+    expect(retryDelaySeconds(DEFAULT_RETRY_POLICY, 2)).toBe(120)
+    expect(retryDelaySeconds(DEFAULT_RETRY_POLICY, 3)).toBe(240)
+    expect(retryDelaySeconds(DEFAULT_RETRY_POLICY, 20)).toBe(6 * 60 * 60)
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest'
+import {
+  campaignSenders,
+  countsAsSenderFailure,
+  DEFAULT_SENDER_ROTATION,
+  parseSenderRotation,
+  pickSender,
+  type SenderRotation,
+  type SenderState,
+  serializeSenderRotation,
+} from './sender-pool'
+
+const now = new Date('2026-05-04T12:00:00Z')
+
+function sender(id: string, overrides: Partial<SenderState> = {}) {
+  return {
+    id,
+    status: 'active' as const,
+    daily_limit: null,
+    min_interval_seconds: 0,
+    last_used_at: null,
+    sentToday: 0,
+    ...overrides,
+  }
+}
+
+const roundRobin: SenderRotation = { strategy: 'round_robin', senderIds: [] }
+
+describe('parseSenderRotation', () => {
+  it('uses the defaults for campaigns created before the pool', () => {
+    expect(parseSenderRotation({})).toEqual(DEFAULT_SENDER_ROTATION)
+  })
+
+  it('reads the stored config and drops duplicate ids', () => {
+    const parsed = parseSenderRotation({
+      sender_rotation: { strategy: 'sticky', sender_ids: ['a', 'b', 'a', 3] },
+    })
+    expect(parsed).toEqual({ strategy: 'sticky', senderIds: ['a', 'b'] })
+    expect(
+      parseSenderRotation({ senderRotation: serializeSenderRotation(parsed) }),
+    ).toEqual(parsed)
+  })
+})
+
+describe('campaignSenders', () => {
+  it('keeps the active numbers the campaign may use', () => {
+    const senders = [
+      sender('a'),
+      sender('b', { status: 'paused' }),
+      sender('c'),
+    ]
+    expect(campaignSenders(roundRobin, senders).map((s) => s.id)).toEqual([
+      'a',
+      'c',
+    ])
+    expect(
+      campaignSenders({ ...roundRobin, senderIds: ['c'] }, senders).map(
+        (s) => s.id,
+      ),
+    ).toEqual(['c'])
+  })
+})
+
+describe('countsAsSenderFailure', () => {
+  it('ignores errors caused by the recipient or the content', () => {
+    expect(countsAsSenderFailure('provider_error')).toBe(true)
+    expect(countsAsSenderFailure('invalid_number')).toBe(false)
+    expect(countsAsSenderFailure(null)).toBe(false)
+  })
+})
+
+describe('pickSender', () => {
+  it('walks the pool in order after the last number', () => {
+    const senders = [sender('a'), sender('b'), sender('c')]
+    expect(
+      pickSender(roundRobin, senders, now, { lastSenderId: 'a' })?.sender.id,
+    ).toBe('b')
+    expect(
+      pickSender(roundRobin, senders, now, { lastSenderId: 'c' })?.sender.id,
+    ).toBe('a')
+  })
+
+  it('skips numbers that are paused or over their daily limit', () => {
+    const senders = [
+      sender('a'),
+      sender('b', { status: 'failing' }),
+      sender('c', { daily_limit: 10, sentToday: 10 }),
+      sender('d'),
+    ]
+    expect(
+      pickSender(roundRobin, senders, now, { lastSenderId: 'a' })?.sender.id,
+    ).toBe('d')
+  })
+
+  it('is null when no number may send again today', () => {
+    const senders = [sender('a', { daily_limit: 5, sentToday: 5 })]
+    expect(pickSender(roundRobin, senders, now, {})).toBeNull()
+  })
+
+  it('prefers the least used number', () => {
+    const senders = [
+      sender('a', { sentToday: 9 }),
+      sender('b', { sentToday: 2 }),
+    ]
+    expect(
+      pickSender({ ...roundRobin, strategy: 'least_used' }, senders, now, {})
+        ?.sender.id,
+    ).toBe('b')
+  })
+
+  it('keeps the contact on its previous number', () => {
+    const senders = [sender('a'), sender('b', { sentToday: 50 })]
+    const sticky = { ...roundRobin, strategy: 'sticky' as const }
+    expect(
+      pickSender(sticky, senders, now, { contactSenderId: 'b' })?.sender.id,
+    ).toBe('b')
+    expect(
+      pickSender(sticky, senders, now, { contactSenderId: 'gone' })?.sender.id,
+    ).toBe('a')
+  })
+
+  it('waits for the number that frees up first when all are spacing out', () => {
+    const senders = [
+      sender('a', {
+        min_interval_seconds: 60,
+        last_used_at: '2026-05-04T11:59:30Z',
+      }),
+      sender('b', {
+        min_interval_seconds: 60,
+        last_used_at: '2026-05-04T11:59:50Z',
+      }),
+    ]
+    expect(pickSender(roundRobin, senders, now, {})).toEqual({
+      sender: senders[0],
+      waitMs: 30_000,
+    })
+  })
+
+  it('prefers a free number over one the limiter turned down', () => {
+    const senders = [
+      sender('a', { blocked_until: '2026-05-04T12:05:00Z' }),
+      sender('b'),
+    ]
+    expect(
+      pickSender(roundRobin, senders, now, { lastSenderId: 'b' })?.sender.id,
+    ).toBe('b')
+  })
+})
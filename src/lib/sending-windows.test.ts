@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import {
+  dailyWindows,
+  DEFAULT_WEEKLY_WINDOWS,
+  hasAnyWindow,
+  isWithinSendingWindow,
+  nextSendingTime,
+  normalizeDayWindows,
+  normalizeWeeklyWindows,
+  summarizeWeeklyWindows,
+  type WeeklyWindows,
+} from './sending-windows'
+
+const SAO_PAULO = 'America/Sao_Paulo'
+
+// 2026-05-04 is a Monday; São Paulo is UTC-3
+function saoPaulo(day: number, time: string) {
+  return new Date(`2026-05-${String(day).padStart(2, '0')}T${time}:00-03:00`)
+}
+
+describe('normalizeDayWindows', () => {
+  it('sorts, drops empty ranges and merges overlaps', () => {
+    expect(
+      normalizeDayWindows([
+        { start: '13:00', end: '18:00' },
+        { start: '12:00', end: '12:00' },
+        { start: '08:00', end: '12:00' },
+        { start: '11:00', end: '13:00' },
+        { start: '20:00', end: '19:00' },
+      ]),
+    ).toEqual([{ start: 8 * 60, end: 18 * 60 }])
+  })
+})
+
+describe('normalizeWeeklyWindows', () => {
+  it('needs one entry per weekday', () => {
+    expect(normalizeWeeklyWindows([[]])).toBeNull()
+    expect(normalizeWeeklyWindows('08:00-18:00')).toBeNull()
+  })
+})
+
+describe('dailyWindows', () => {
+  it('splits a window that runs past midnight', () => {
+    expect(dailyWindows('22:00', '06:00')[0]).toEqual([
+      { start: '00:00', end: '06:00' },
+      { start: '22:00', end: '23:59' },
+    ])
+  })
+})
+
+describe('hasAnyWindow', () => {
+  it('is false for a week without windows', () => {
+    expect(hasAnyWindow(Array.from({ length: 7 }, () => []))).toBe(false)
+    expect(hasAnyWindow(DEFAULT_WEEKLY_WINDOWS)).toBe(true)
+  })
+})
+
+describe('isWithinSendingWindow', () => {
+  it('includes the start and excludes the end', () => {
+    const windows = dailyWindows('08:00', '18:00')
+    expect(
+      isWithinSendingWindow(saoPaulo(4, '08:00'), windows, SAO_PAULO),
+    ).toBe(true)
+    expect(
+      isWithinSendingWindow(saoPaulo(4, '18:00'), windows, SAO_PAULO),
+    ).toBe(false)
+  })
+})
+
+describe('nextSendingTime', () => {
+  const weekdays: WeeklyWindows = [
+    [],
+    [
+      { start: '08:00', end: '12:00' },
+      { start: '14:00', end: '18:00' },
+    ],
+    [{ start: '08:00', end: '18:00' }],
+    [{ start: '08:00', end: '18:00' }],
+    [{ start: '08:00', end: '18:00' }],
+    [{ start: '08:00', end: '18:00' }],
+    [],
+  ]
+
+  it('keeps a time inside a window', () => {
+    const date = saoPaulo(4, '09:30')
+    expect(nextSendingTime(date, weekdays, SAO_PAULO)).toEqual(date)
+  })
+
+  it('waits for the next window of the same day', () => {
+    expect(nextSendingTime(saoPaulo(4, '12:30'), weekdays, SAO_PAULO)).toEqual(
+      saoPaulo(4, '14:00'),
+    )
+  })
+
+  it('skips days without windows', () => {
+    // Friday evening -> Monday morning
+    expect(nextSendingTime(saoPaulo(8, '19:00'), weekdays, SAO_PAULO)).toEqual(
+      saoPaulo(11, '08:00'),
+    )
+  })
+
+  it('comes back to the same weekday a week later', () => {
+    const mondays: WeeklyWindows = [
+      [],
+      [{ start: '08:00', end: '09:00' }],
+      [],
+      [],
+      [],
+      [],
+      [],
+    ]
+    expect(nextSendingTime(saoPaulo(4, '10:00'), mondays, SAO_PAULO)).toEqual(
+      saoPaulo(11, '08:00'),
+    )
+  })
+
+  it('is null for a week without windows', () => {
+    const none = Array.from({ length: 7 }, () => [])
+    expect(nextSendingTime(saoPaulo(4, '10:00'), none, SAO_PAULO)).toBeNull()
+  })
+})
+
+describe('summarizeWeeklyWindows', () => {
+  it('groups consecutive days with the same windows', () => {
+    expect(summarizeWeeklyWindows(DEFAULT_WEEKLY_WINDOWS)).toBe(
+      'Seg–Sex 08:00–18:00 · Sáb 08:00–12:00',
+    )
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildSequenceFunnel,
+  formatDelay,
+  splitDelay,
+  stepDueAt,
+  stepSendWindow,
+} from './sequences'
+import { dailyWindows } from './sending-windows'
+
+const SAO_PAULO = 'America/Sao_Paulo'
+
+// 2026-05-04 is a Monday; São Paulo is UTC-3
+function saoPaulo(day: number, time: string) {
+  return new Date(`2026-05-${String(day).padStart(2, '0')}T${time}:00-03:00`)
+}
+
+describe('splitDelay and formatDelay', () => {
+  it('uses the biggest whole unit', () => {
+    expect(splitDelay(3 * 24 * 60)).toEqual({ amount: 3, unit: 'days' })
+    expect(splitDelay(120)).toEqual({ amount: 2, unit: 'hours' })
+    expect(splitDelay(90)).toEqual({ amount: 90, unit: 'minutes' })
+    expect(splitDelay(0)).toEqual({ amount: 0, unit: 'minutes' })
+  })
+
+  it('describes the delay in words', () => {
+    expect(formatDelay(0)).toBe('imediatamente')
+    expect(formatDelay(24 * 60)).toBe('1 dia')
+    expect(formatDelay(3 * 60)).toBe('3 horas')
+  })
+})
+
+describe('stepSendWindow', () => {
+  it('is null for steps that may go out at any time', () => {
+    expect(stepSendWindow({ send_window: null })).toBeNull()
+    expect(
+      stepSendWindow({ send_window: Array.from({ length: 7 }, () => []) }),
+    ).toBeNull()
+  })
+})
+
+describe('stepDueAt', () => {
+  const business = dailyWindows('08:00', '18:00')
+
+  it('counts the delay from the previous send', () => {
+    const step = { position: 2, delay_minutes: 90, send_window: null }
+    expect(stepDueAt(step, saoPaulo(4, '10:00'), SAO_PAULO)).toEqual(
+      saoPaulo(4, '11:30'),
+    )
+  })
+
+  it('moves a step that falls outside its window to the next opening', () => {
+    const step = { position: 2, delay_minutes: 24 * 60, send_window: business }
+    expect(stepDueAt(step, saoPaulo(4, '19:00'), SAO_PAULO)).toEqual(
+      saoPaulo(6, '08:00'),
+    )
+  })
+
+  it('treats a week without windows as any time', () => {
+    const closed = Array.from({ length: 7 }, () => [])
+    const step = { position: 1, delay_minutes: 0, send_window: closed }
+    expect(stepDueAt(step, saoPaulo(4, '22:00'), SAO_PAULO)).toEqual(
+      saoPaulo(4, '22:00'),
+    )
+  })
+})
+
+describe('buildSequenceFunnel', () => {
+  it('counts who received each step and who waits for it', () => {
+    expect(
+      buildSequenceFunnel(3, [
+        { status: 'active', current_step: 0 },
+        { status: 'active', current_step: 1 },
+        { status: 'replied', current_step: 1 },
+        { status: 'completed', current_step: 3 },
+      ]),
+    ).toEqual([
+      { position: 1, sent: 3, waiting: 1 },
+      { position: 2, sent: 1, waiting: 1 },
+      { position: 3, sent: 1, waiting: 0 },
+    ])
+  })
+})
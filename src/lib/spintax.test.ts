@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import {
+  countSpintaxVariants,
+  hasSpintax,
+  resolveSpintax,
+  sampleSpintax,
+} from './spintax'
+
+// Picks option `index` of every group
+function always(index: number, options: number) {
+  return () => index / options
+}
+
+describe('hasSpintax', () => {
+  it('tells groups apart from placeholders and literal braces', () => {
+    expect(hasSpintax('{Oi|Olá} {{nome}}')).toBe(true)
+    expect(hasSpintax('Olá {{nome|cliente}}')).toBe(false)
+    expect(hasSpintax('Código {ABC}')).toBe(false)
+    expect(hasSpintax('Aberto {Oi|Olá')).toBe(false)
+  })
+})
+
+describe('countSpintaxVariants', () => {
+  it('multiplies groups and adds nested options', () => {
+    expect(countSpintaxVariants('Sem variação')).toBe(1)
+    expect(countSpintaxVariants('{Oi|Olá} {tudo bem|como vai}?')).toBe(4)
+    expect(countSpintaxVariants('{Oi|{Bom dia|Boa tarde}}')).toBe(3)
+  })
+})
+
+describe('resolveSpintax', () => {
+  it('picks one option per group', () => {
+    expect(resolveSpintax('{Oi|Olá|E aí}, tudo bem?', always(1, 3))).toBe(
+      'Olá, tudo bem?',
+    )
+  })
+
+  it('resolves nested groups', () => {
+    expect(resolveSpintax('{Oi|{Bom dia|Boa tarde}}!', always(1, 2))).toBe(
+      'Boa tarde!',
+    )
+  })
+
+  it('leaves placeholders and unbalanced braces alone', () => {
+    expect(
+      resolveSpintax('{Oi|Olá} {{nome|cliente}} {ABC} {x', always(0, 2)),
+    ).toBe('Oi {{nome|cliente}} {ABC} {x')
+  })
+
+  it('allows an empty option', () => {
+    expect(resolveSpintax('Oi{|!}', always(0, 2))).toBe('Oi')
+  })
+})
+
+describe('sampleSpintax', () => {
+  it('returns distinct texts, no more than the template can produce', () => {
+    const samples = sampleSpintax('{Oi|Olá}', 5)
+    expect(samples).toHaveLength(2)
+    expect(new Set(samples).size).toBe(2)
+  })
+})
@@ -15,30 +15,160 @@ export type Database = {
   }
   public: {
     Tables: {
+      blackout_dates: {
+        Row: {
+          created_at: string
+          end_date: string
+          id: string
+          name: string
+          start_date: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          id?: string
+          name: string
+          start_date: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          id?: string
+          name?: string
+          start_date?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      campaign_message_attempts: {
+        Row: {
+          attempt_number: number
+          attempted_at: string
+          campaign_id: string
+          campaign_message_id: string
+          error_code: string | null
+          error_message: string | null
+          id: string
+          next_attempt_at: string | null
+          provider_message_id: string | null
+          sender_id: string | null
+          status: string
+        }
+        Insert: {
+          attempt_number: number
+          attempted_at?: string
+          campaign_id: string
+          campaign_message_id: string
+          error_code?: string | null
+          error_message?: string | null
+          id?: string
+          next_attempt_at?: string | null
+          provider_message_id?: string | null
+          sender_id?: string | null
+          status: string
+        }
+        Update: {
+          attempt_number?: number
+          attempted_at?: string
+          campaign_id?: string
+          campaign_message_id?: string
+          error_code?: string | null
+          error_message?: string | null
+          id?: string
+          next_attempt_at?: string | null
+          provider_message_id?: string | null
+          sender_id?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'campaign_message_attempts_campaign_id_fkey'
+            columns: ['campaign_id']
+            isOneToOne: false
+            referencedRelation: 'campaigns'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'campaign_message_attempts_campaign_message_id_fkey'
+            columns: ['campaign_message_id']
+            isOneToOne: false
+            referencedRelation: 'campaign_messages'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'campaign_message_attempts_sender_id_fkey'
+            columns: ['sender_id']
+            isOneToOne: false
+            referencedRelation: 'whatsapp_connections'
+            referencedColumns: ['id']
+          },
+        ]
+      }
       campaign_messages: {
         Row: {
+          ab_rollout: boolean
+          attempt_count: number
           campaign_id: string
           contact_id: string
+          delivered_at: string | null
           error_message: string | null
+          failed_at: string | null
           id: string
+          last_error_code: string | null
+          next_attempt_at: string | null
+          provider_message_id: string | null
+          read_at: string | null
+          rendered_message: string | null
+          replied_at: string | null
+          scheduled_for: string | null
+          sender_id: string | null
           sent_at: string | null
           status: string
+          variant_id: string | null
         }
         Insert: {
+          ab_rollout?: boolean
+          attempt_count?: number
           campaign_id: string
           contact_id: string
+          delivered_at?: string | null
           error_message?: string | null
+          failed_at?: string | null
           id?: string
+          last_error_code?: string | null
+          next_attempt_at?: string | null
+          provider_message_id?: string | null
+          read_at?: string | null
+          rendered_message?: string | null
+          replied_at?: string | null
+          scheduled_for?: string | null
+          sender_id?: string | null
           sent_at?: string | null
           status: string
+          variant_id?: string | null
         }
         Update: {
+          ab_rollout?: boolean
+          attempt_count?: number
           campaign_id?: string
           contact_id?: string
+          delivered_at?: string | null
           error_message?: string | null
+          failed_at?: string | null
           id?: string
+          last_error_code?: string | null
+          next_attempt_at?: string | null
+          provider_message_id?: string | null
+          read_at?: string | null
+          rendered_message?: string | null
+          replied_at?: string | null
+          scheduled_for?: string | null
+          sender_id?: string | null
           sent_at?: string | null
           status?: string
+          variant_id?: string | null
         }
         Relationships: [
           {
@@ -55,52 +185,159 @@ export type Database = {
             referencedRelation: 'contacts'
             referencedColumns: ['id']
           },
+          {
+            foreignKeyName: 'campaign_messages_sender_id_fkey'
+            columns: ['sender_id']
+            isOneToOne: false
+            referencedRelation: 'whatsapp_connections'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'campaign_messages_variant_id_fkey'
+            columns: ['variant_id']
+            isOneToOne: false
+            referencedRelation: 'campaign_variants'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      campaign_variants: {
+        Row: {
+          campaign_id: string
+          created_at: string
+          id: string
+          is_winner: boolean
+          label: string
+          message: string
+          split_percent: number
+        }
+        Insert: {
+          campaign_id: string
+          created_at?: string
+          id?: string
+          is_winner?: boolean
+          label: string
+          message: string
+          split_percent: number
+        }
+        Update: {
+          campaign_id?: string
+          created_at?: string
+          id?: string
+          is_winner?: boolean
+          label?: string
+          message?: string
+          split_percent?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'campaign_variants_campaign_id_fkey'
+            columns: ['campaign_id']
+            isOneToOne: false
+            referencedRelation: 'campaigns'
+            referencedColumns: ['id']
+          },
         ]
       }
       campaigns: {
         Row: {
+          ab_decide_at: string | null
+          ab_test: Json | null
+          canceled_at: string | null
+          canceled_by: string | null
           config: Json | null
           created_at: string | null
           execution_time: number | null
           finished_at: string | null
           id: string
+          media_filename: string | null
+          media_type: string | null
+          media_url: string | null
           name: string
+          next_run_at: string | null
+          occurrence_count: number
+          parent_campaign_id: string | null
+          pause_reason: string | null
+          paused_at: string | null
+          priority: string
+          recurrence: Json | null
+          resumed_at: string | null
           scheduled_at: string | null
           sent_messages: number | null
           started_at: string | null
           status: string | null
+          timezone: string | null
           total_messages: number | null
           user_id: string
         }
         Insert: {
+          ab_decide_at?: string | null
+          ab_test?: Json | null
+          canceled_at?: string | null
+          canceled_by?: string | null
           config?: Json | null
           created_at?: string | null
           execution_time?: number | null
           finished_at?: string | null
           id?: string
+          media_filename?: string | null
+          media_type?: string | null
+          media_url?: string | null
           name: string
+          next_run_at?: string | null
+          occurrence_count?: number
+          parent_campaign_id?: string | null
+          pause_reason?: string | null
+          paused_at?: string | null
+          priority?: string
+          recurrence?: Json | null
+          resumed_at?: string | null
           scheduled_at?: string | null
           sent_messages?: number | null
           started_at?: string | null
           status?: string | null
+          timezone?: string | null
           total_messages?: number | null
           user_id: string
         }
         Update: {
+          ab_decide_at?: string | null
+          ab_test?: Json | null
+          canceled_at?: string | null
+          canceled_by?: string | null
           config?: Json | null
           created_at?: string | null
           execution_time?: number | null
           finished_at?: string | null
           id?: string
+          media_filename?: string | null
+          media_type?: string | null
+          media_url?: string | null
           name?: string
+          next_run_at?: string | null
+          occurrence_count?: number
+          parent_campaign_id?: string | null
+          pause_reason?: string | null
+          paused_at?: string | null
+          priority?: string
+          recurrence?: Json | null
+          resumed_at?: string | null
           scheduled_at?: string | null
           sent_messages?: number | null
           started_at?: string | null
           status?: string | null
+          timezone?: string | null
           total_messages?: number | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: 'campaigns_parent_campaign_id_fkey'
+            columns: ['parent_campaign_id']
+            isOneToOne: false
+            referencedRelation: 'campaigns'
+            referencedColumns: ['id']
+          },
           {
             foreignKeyName: 'campaigns_user_id_fkey'
             columns: ['user_id']
@@ -114,53 +351,480 @@ export type Database = {
         Row: {
           created_at: string
           id: string
+          media_url: string | null
           message: string
           name: string
+          normalized_phone: string | null
           phone: string
           status: string | null
           user_id: string
+          variables: Json
         }
         Insert: {
           created_at?: string
           id?: string
+          media_url?: string | null
           message: string
           name: string
+          normalized_phone?: string | null
           phone: string
           status?: string | null
           user_id: string
+          variables?: Json
         }
         Update: {
           created_at?: string
           id?: string
+          media_url?: string | null
           message?: string
           name?: string
+          normalized_phone?: string | null
           phone?: string
           status?: string | null
           user_id?: string
+          variables?: Json
         }
         Relationships: []
       }
+      message_replies: {
+        Row: {
+          body: string
+          campaign_id: string | null
+          campaign_message_id: string | null
+          contact_id: string | null
+          created_at: string
+          id: string
+          normalized_phone: string
+          phone: string
+          provider_message_id: string
+          received_at: string
+          sender_name: string | null
+          user_id: string
+        }
+        Insert: {
+          body?: string
+          campaign_id?: string | null
+          campaign_message_id?: string | null
+          contact_id?: string | null
+          created_at?: string
+          id?: string
+          normalized_phone: string
+          phone: string
+          provider_message_id: string
+          received_at: string
+          sender_name?: string | null
+          user_id: string
+        }
+        Update: {
+          body?: string
+          campaign_id?: string | null
+          campaign_message_id?: string | null
+          contact_id?: string | null
+          created_at?: string
+          id?: string
+          normalized_phone?: string
+          phone?: string
+          provider_message_id?: string
+          received_at?: string
+          sender_name?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'message_replies_campaign_id_fkey'
+            columns: ['campaign_id']
+            isOneToOne: false
+            referencedRelation: 'campaigns'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'message_replies_campaign_message_id_fkey'
+            columns: ['campaign_message_id']
+            isOneToOne: false
+            referencedRelation: 'campaign_messages'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'message_replies_contact_id_fkey'
+            columns: ['contact_id']
+            isOneToOne: false
+            referencedRelation: 'contacts'
+            referencedColumns: ['id']
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
           created_at: string
+          daily_send_limit: number | null
           email: string | null
           id: string
+          last_send_at: string | null
           name: string | null
+          opt_out_keywords: string[]
+          sender_hourly_limit: number | null
+          sender_min_spacing_seconds: number
+          skip_national_holidays: boolean
+          timezone: string
+          warmup_enabled: boolean
+          warmup_schedule: number[]
         }
         Insert: {
           avatar_url?: string | null
           created_at?: string
+          daily_send_limit?: number | null
           email?: string | null
           id: string
+          last_send_at?: string | null
           name?: string | null
+          opt_out_keywords?: string[]
+          sender_hourly_limit?: number | null
+          sender_min_spacing_seconds?: number
+          skip_national_holidays?: boolean
+          timezone?: string
+          warmup_enabled?: boolean
+          warmup_schedule?: number[]
         }
         Update: {
           avatar_url?: string | null
           created_at?: string
+          daily_send_limit?: number | null
           email?: string | null
           id?: string
+          last_send_at?: string | null
           name?: string | null
+          opt_out_keywords?: string[]
+          sender_hourly_limit?: number | null
+          sender_min_spacing_seconds?: number
+          skip_national_holidays?: boolean
+          timezone?: string
+          warmup_enabled?: boolean
+          warmup_schedule?: number[]
+        }
+        Relationships: []
+      }
+      send_slot_reservations: {
+        Row: {
+          id: string
+          reserved_at: string
+          sender_id: string | null
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          reserved_at?: string
+          sender_id?: string | null
+          user_id: string
+        }
+        Update: {
+          id?: string
+          reserved_at?: string
+          sender_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'send_slot_reservations_sender_id_fkey'
+            columns: ['sender_id']
+            isOneToOne: false
+            referencedRelation: 'whatsapp_connections'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      sequence_enrollments: {
+        Row: {
+          attempt_count: number
+          contact_id: string
+          current_step: number
+          enrolled_at: string
+          error_message: string | null
+          exited_at: string | null
+          id: string
+          last_sent_at: string | null
+          next_step_at: string | null
+          sequence_id: string
+          status: string
+        }
+        Insert: {
+          attempt_count?: number
+          contact_id: string
+          current_step?: number
+          enrolled_at?: string
+          error_message?: string | null
+          exited_at?: string | null
+          id?: string
+          last_sent_at?: string | null
+          next_step_at?: string | null
+          sequence_id: string
+          status?: string
+        }
+        Update: {
+          attempt_count?: number
+          contact_id?: string
+          current_step?: number
+          enrolled_at?: string
+          error_message?: string | null
+          exited_at?: string | null
+          id?: string
+          last_sent_at?: string | null
+          next_step_at?: string | null
+          sequence_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'sequence_enrollments_contact_id_fkey'
+            columns: ['contact_id']
+            isOneToOne: false
+            referencedRelation: 'contacts'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'sequence_enrollments_sequence_id_fkey'
+            columns: ['sequence_id']
+            isOneToOne: false
+            referencedRelation: 'sequences'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      sequence_messages: {
+        Row: {
+          enrollment_id: string
+          error_code: string | null
+          error_message: string | null
+          id: string
+          position: number
+          provider_message_id: string | null
+          rendered_message: string | null
+          sender_id: string | null
+          sent_at: string
+          status: string
+          step_id: string | null
+        }
+        Insert: {
+          enrollment_id: string
+          error_code?: string | null
+          error_message?: string | null
+          id?: string
+          position: number
+          provider_message_id?: string | null
+          rendered_message?: string | null
+          sender_id?: string | null
+          sent_at?: string
+          status: string
+          step_id?: string | null
+        }
+        Update: {
+          enrollment_id?: string
+          error_code?: string | null
+          error_message?: string | null
+          id?: string
+          position?: number
+          provider_message_id?: string | null
+          rendered_message?: string | null
+          sender_id?: string | null
+          sent_at?: string
+          status?: string
+          step_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'sequence_messages_enrollment_id_fkey'
+            columns: ['enrollment_id']
+            isOneToOne: false
+            referencedRelation: 'sequence_enrollments'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'sequence_messages_step_id_fkey'
+            columns: ['step_id']
+            isOneToOne: false
+            referencedRelation: 'sequence_steps'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      sequence_steps: {
+        Row: {
+          created_at: string
+          delay_minutes: number
+          id: string
+          message: string
+          position: number
+          send_window: Json | null
+          sequence_id: string
+        }
+        Insert: {
+          created_at?: string
+          delay_minutes?: number
+          id?: string
+          message: string
+          position: number
+          send_window?: Json | null
+          sequence_id: string
+        }
+        Update: {
+          created_at?: string
+          delay_minutes?: number
+          id?: string
+          message?: string
+          position?: number
+          send_window?: Json | null
+          sequence_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'sequence_steps_sequence_id_fkey'
+            columns: ['sequence_id']
+            isOneToOne: false
+            referencedRelation: 'sequences'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      sequences: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          status: string
+          timezone: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          status?: string
+          timezone?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          status?: string
+          timezone?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      suppression_list: {
+        Row: {
+          created_at: string
+          id: string
+          keyword: string | null
+          normalized_phone: string
+          phone: string
+          reason: string
+          reply_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          keyword?: string | null
+          normalized_phone?: string
+          phone: string
+          reason?: string
+          reply_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          keyword?: string | null
+          normalized_phone?: string
+          phone?: string
+          reason?: string
+          reply_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'suppression_list_reply_id_fkey'
+            columns: ['reply_id']
+            isOneToOne: false
+            referencedRelation: 'message_replies'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      whatsapp_connections: {
+        Row: {
+          consecutive_failures: number
+          created_at: string
+          daily_limit: number | null
+          endpoint: string | null
+          hourly_limit: number | null
+          id: string
+          instance_id: string | null
+          label: string | null
+          last_test_message: string | null
+          last_test_ok: boolean | null
+          last_tested_at: string | null
+          last_used_at: string | null
+          min_interval_seconds: number
+          phone: string | null
+          provider: string
+          status: string
+          status_reason: string | null
+          token_encrypted: string | null
+          token_hint: string | null
+          updated_at: string
+          user_id: string
+          warmup_started_on: string | null
+        }
+        Insert: {
+          consecutive_failures?: number
+          created_at?: string
+          daily_limit?: number | null
+          endpoint?: string | null
+          hourly_limit?: number | null
+          id?: string
+          instance_id?: string | null
+          label?: string | null
+          last_test_message?: string | null
+          last_test_ok?: boolean | null
+          last_tested_at?: string | null
+          last_used_at?: string | null
+          min_interval_seconds?: number
+          phone?: string | null
+          provider?: string
+          status?: string
+          status_reason?: string | null
+          token_encrypted?: string | null
+          token_hint?: string | null
+          updated_at?: string
+          user_id: string
+          warmup_started_on?: string | null
+        }
+        Update: {
+          consecutive_failures?: number
+          created_at?: string
+          daily_limit?: number | null
+          endpoint?: string | null
+          hourly_limit?: number | null
+          id?: string
+          instance_id?: string | null
+          label?: string | null
+          last_test_message?: string | null
+          last_test_ok?: boolean | null
+          last_tested_at?: string | null
+          last_used_at?: string | null
+          min_interval_seconds?: number
+          phone?: string | null
+          provider?: string
+          status?: string
+          status_reason?: string | null
+          token_encrypted?: string | null
+          token_hint?: string | null
+          updated_at?: string
+          user_id?: string
+          warmup_started_on?: string | null
         }
         Relationships: []
       }
@@ -169,7 +833,43 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      apply_message_schedule: {
+        Args: { p_campaign_id: string; p_times: string[] }
+        Returns: number
+      }
+      cancel_campaign: { Args: { p_campaign_id: string }; Returns: number }
+      claim_next_campaign_message: {
+        Args: { p_campaign_id: string; p_min_gap_seconds?: number }
+        Returns: {
+          attempt_count: number
+          campaign_id: string
+          contact_id: string
+          contacts: Json
+          id: string
+          sent_at: string
+          status: string
+        }[]
+      }
       increment_campaign_sent: { Args: { row_id: string }; Returns: undefined }
+      normalize_phone: { Args: { phone: string }; Returns: string }
+      owns_sequence: { Args: { p_sequence_id: string }; Returns: boolean }
+      release_ab_winner: {
+        Args: { p_campaign_id: string; p_variant_id: string }
+        Returns: number
+      }
+      reserve_send_slot: {
+        Args: {
+          p_hourly_limit?: number
+          p_min_spacing_seconds?: number
+          p_sender_id?: string
+          p_user_id: string
+        }
+        Returns: number
+      }
+      spawn_recurring_run: {
+        Args: { p_next_run_at: string | null; p_parent_id: string }
+        Returns: string | null
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildContactVariables,
+  composeContactMessage,
+  extractTemplateVariables,
+  normalizeVariableKey,
+  renderTemplate,
+} from './template'
+
+describe('normalizeVariableKey', () => {
+  it('matches spreadsheet headers however they are written', () => {
+    expect(normalizeVariableKey('Primeiro Nome')).toBe('primeiro_nome')
+    expect(normalizeVariableKey(' Cidade/UF ')).toBe('cidade_uf')
+    expect(normalizeVariableKey('Endereço')).toBe('endereco')
+  })
+})
+
+describe('buildContactVariables', () => {
+  it('adds the built-ins to the custom columns', () => {
+    expect(
+      buildContactVariables({
+        name: ' Maria da Silva ',
+        phone: '5511999990000',
+        variables: { Cidade: 'São Paulo', Pedido: 42, Vazio: null },
+      }),
+    ).toEqual({
+      cidade: 'São Paulo',
+      pedido: '42',
+      nome: 'Maria da Silva',
+      primeiro_nome: 'Maria',
+      telefone: '5511999990000',
+    })
+  })
+
+  it('never lets a column override the contact name or phone', () => {
+    const variables = buildContactVariables({
+      name: 'João',
+      phone: '1',
+      variables: { nome: 'Outro' },
+    })
+    expect(variables.nome).toBe('João')
+  })
+})
+
+describe('extractTemplateVariables', () => {
+  it('lists each placeholder once, normalized', () => {
+    expect(
+      extractTemplateVariables('{{ Nome }}, {{cidade|aqui}} e {{nome}}'),
+    ).toEqual(['nome', 'cidade'])
+  })
+})
+
+describe('renderTemplate', () => {
+  it('fills the placeholders', () => {
+    expect(
+      renderTemplate('Olá {{primeiro_nome}}, de {{ Cidade }}!', {
+        primeiro_nome: 'Ana',
+        cidade: 'Recife',
+      }),
+    ).toEqual({ text: 'Olá Ana, de Recife!', missing: [] })
+  })
+
+  it('uses the fallback when the value is missing or empty', () => {
+    expect(renderTemplate('Olá {{nome|cliente}}', { nome: '' }).text).toBe(
+      'Olá cliente',
+    )
+    expect(renderTemplate('Olá {{nome| }}!', {})).toEqual({
+      text: 'Olá !',
+      missing: [],
+    })
+  })
+
+  it('reports missing variables without a fallback', () => {
+    expect(renderTemplate('{{pedido}} para {{pedido}}', {})).toEqual({
+      text: ' para ',
+      missing: ['pedido'],
+    })
+  })
+})
+
+describe('composeContactMessage', () => {
+  it('picks the spintax option, then renders the variables', () => {
+    const result = composeContactMessage(
+      { name: 'Ana Souza', phone: '1', message: '{Oi|Olá} {{primeiro_nome}}' },
+      () => 0.9,
+    )
+    expect(result).toEqual({ text: 'Olá Ana', missing: [] })
+  })
+})
@@ -0,0 +1,5 @@
+// The shared logic lives next to the edge functions, in
+// supabase/functions/_shared, and each module there is re-exported from
+// src/lib like this one, so previews and the queue worker produce exactly
+// the same results
+export * from '../../supabase/functions/_shared/template.ts'
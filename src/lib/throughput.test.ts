@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_SENDER_THROUGHPUT,
+  effectiveThroughput,
+  MAX_MIN_SPACING_SECONDS,
+  parseMinSpacingSeconds,
+  parseSenderThroughput,
+  secondsPerMessage,
+} from './throughput'
+
+describe('parseMinSpacingSeconds', () => {
+  it('treats an empty field as no spacing', () => {
+    expect(parseMinSpacingSeconds('')).toBe(0)
+    expect(parseMinSpacingSeconds('45')).toBe(45)
+  })
+
+  it('rejects fractions, negatives and more than an hour', () => {
+    expect(parseMinSpacingSeconds('1.5')).toBeNull()
+    expect(parseMinSpacingSeconds(-1)).toBeNull()
+    expect(parseMinSpacingSeconds(MAX_MIN_SPACING_SECONDS + 1)).toBeNull()
+  })
+})
+
+describe('parseSenderThroughput', () => {
+  it('reads the profile columns', () => {
+    expect(parseSenderThroughput(null)).toEqual(DEFAULT_SENDER_THROUGHPUT)
+    expect(
+      parseSenderThroughput({
+        sender_min_spacing_seconds: 20,
+        sender_hourly_limit: null,
+      }),
+    ).toEqual({ minSpacingSeconds: 20, hourlyLimit: null })
+  })
+})
+
+describe('effectiveThroughput', () => {
+  it('keeps the longer spacing and the lower ceiling', () => {
+    const account = { minSpacingSeconds: 30, hourlyLimit: 100 }
+    expect(
+      effectiveThroughput(account, {
+        min_interval_seconds: 10,
+        hourly_limit: 60,
+      }),
+    ).toEqual({ minSpacingSeconds: 30, hourlyLimit: 60 })
+    expect(
+      effectiveThroughput(DEFAULT_SENDER_THROUGHPUT, {
+        min_interval_seconds: 90,
+        hourly_limit: null,
+      }),
+    ).toEqual({ minSpacingSeconds: 90, hourlyLimit: null })
+  })
+
+  it('is the account pacing for the default sender', () => {
+    const account = { minSpacingSeconds: 5, hourlyLimit: null }
+    expect(effectiveThroughput(account, null)).toEqual(account)
+  })
+})
+
+describe('secondsPerMessage', () => {
+  it('is the slower of the spacing and the hourly ceiling', () => {
+    expect(secondsPerMessage({ minSpacingSeconds: 10, hourlyLimit: 60 })).toBe(
+      60,
+    )
+    expect(secondsPerMessage({ minSpacingSeconds: 90, hourlyLimit: 60 })).toBe(
+      90,
+    )
+    expect(secondsPerMessage(DEFAULT_SENDER_THROUGHPUT)).toBe(0)
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_TIMEZONE,
+  getZonedParts,
+  parseCalendarDate,
+  parseTimeOfDay,
+  resolveTimeZone,
+  zonedDateKey,
+  zonedMinutesOfDay,
+  zonedTimeToUtc,
+} from './timezone'
+
+const SAO_PAULO = 'America/Sao_Paulo'
+const NEW_YORK = 'America/New_York'
+
+describe('resolveTimeZone', () => {
+  it('takes the first valid zone and falls back to Brasília', () => {
+    expect(resolveTimeZone('Not/AZone', null, 'America/Manaus')).toBe(
+      'America/Manaus',
+    )
+    expect(resolveTimeZone(undefined, '')).toBe(DEFAULT_TIMEZONE)
+  })
+})
+
+describe('getZonedParts', () => {
+  it('reads the wall clock and weekday of the zone', () => {
+    // 02:00 UTC on Monday is still Sunday evening in São Paulo
+    expect(getZonedParts(new Date('2026-05-04T02:00:00Z'), SAO_PAULO)).toEqual({
+      year: 2026,
+      month: 5,
+      day: 3,
+      hour: 23,
+      minute: 0,
+      second: 0,
+      weekday: 0,
+    })
+  })
+})
+
+describe('zonedDateKey and zonedMinutesOfDay', () => {
+  it('use the calendar day of the zone, not UTC', () => {
+    const date = new Date('2026-05-04T02:30:00Z')
+    expect(zonedDateKey(date, SAO_PAULO)).toBe('2026-05-03')
+    expect(zonedDateKey(date, 'UTC')).toBe('2026-05-04')
+    expect(zonedMinutesOfDay(date, SAO_PAULO)).toBe(23 * 60 + 30)
+  })
+})
+
+describe('zonedTimeToUtc', () => {
+  it('converts a wall-clock time of the zone', () => {
+    expect(
+      zonedTimeToUtc(
+        { year: 2026, month: 5, day: 4, hour: 9, minute: 15 },
+        SAO_PAULO,
+      ).toISOString(),
+    ).toBe('2026-05-04T12:15:00.000Z')
+  })
+
+  it('rolls out of range days over into the next month', () => {
+    expect(
+      zonedTimeToUtc(
+        { year: 2026, month: 1, day: 32 },
+        SAO_PAULO,
+      ).toISOString(),
+    ).toBe('2026-02-01T03:00:00.000Z')
+  })
+
+  it('follows the offset on both sides of a DST change', () => {
+    // New York is UTC-5 in winter and UTC-4 in summer
+    expect(
+      zonedTimeToUtc(
+        { year: 2026, month: 1, day: 15, hour: 9 },
+        NEW_YORK,
+      ).toISOString(),
+    ).toBe('2026-01-15T14:00:00.000Z')
+    expect(
+      zonedTimeToUtc(
+        { year: 2026, month: 7, day: 15, hour: 9 },
+        NEW_YORK,
+      ).toISOString(),
+    ).toBe('2026-07-15T13:00:00.000Z')
+  })
+
+  it('moves a time skipped by the DST jump forward by the jump', () => {
+    // New York skips 02:00-03:00 on 2026-03-08: 02:30 becomes 03:30 EDT
+    expect(
+      zonedTimeToUtc(
+        { year: 2026, month: 3, day: 8, hour: 2, minute: 30 },
+        NEW_YORK,
+      ).toISOString(),
+    ).toBe('2026-03-08T07:30:00.000Z')
+  })
+
+  it('handles a zone whose midnight was skipped', () => {
+    // São Paulo still had DST in 2018 and jumped from 00:00 to 01:00
+    expect(
+      zonedTimeToUtc(
+        { year: 2018, month: 11, day: 4 },
+        SAO_PAULO,
+      ).toISOString(),
+    ).toBe('2018-11-04T03:00:00.000Z')
+  })
+
+  it('picks the first of the two times a wall clock repeats', () => {
+    // 01:30 happens twice in New York on 2026-11-01
+    expect(
+      zonedTimeToUtc(
+        { year: 2026, month: 11, day: 1, hour: 1, minute: 30 },
+        NEW_YORK,
+      ).toISOString(),
+    ).toBe('2026-11-01T05:30:00.000Z')
+  })
+})
+
+describe('parseTimeOfDay', () => {
+  it('reads HH:mm as minutes since midnight', () => {
+    expect(parseTimeOfDay('08:30')).toBe(510)
+    expect(parseTimeOfDay('18')).toBe(1080)
+    expect(parseTimeOfDay('manhã')).toBeNull()
+  })
+})
+
+describe('parseCalendarDate', () => {
+  it('reads stored days and the timestamps of older configs', () => {
+    expect(parseCalendarDate('2026-05-04')).toEqual({
+      year: 2026,
+      month: 5,
+      day: 4,
+    })
+    expect(parseCalendarDate('2026-05-04T03:00:00.000Z')).toEqual({
+      year: 2026,
+      month: 5,
+      day: 4,
+    })
+    expect(parseCalendarDate('04/05/2026')).toBeNull()
+    expect(parseCalendarDate(new Date('invalid'))).toBeNull()
+  })
+})
@@ -4,37 +4,90 @@ import {
   campaignsService,
   Campaign,
   CampaignMessage,
+  CampaignVariant,
+  MessageReply,
+  SENT_MESSAGE_STATUSES,
 } from '@/services/campaigns'
 import { useParams, Link, Navigate } from 'react-router-dom'
-import { Button } from '@/components/ui/button'
+import { Button, buttonVariants } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { Loader2, ArrowLeft, Play, Pause, RotateCcw } from 'lucide-react'
+import {
+  Loader2,
+  ArrowLeft,
+  Play,
+  Pause,
+  RotateCcw,
+  ShieldAlert,
+  Ban,
+  Copy,
+  Repeat,
+} from 'lucide-react'
 import { toast } from 'sonner'
 import { supabase } from '@/lib/supabase/client'
-import { ScheduleConfig } from '@/lib/campaign-utils'
 import { CampaignKPIs } from '@/components/campaigns/CampaignKPIs'
 import { CampaignConfig } from '@/components/campaigns/CampaignConfig'
 import { CampaignMessagesTable } from '@/components/campaigns/CampaignMessagesTable'
+import { CampaignRepliesTable } from '@/components/campaigns/CampaignRepliesTable'
+import { DuplicateCampaignDialog } from '@/components/campaigns/DuplicateCampaignDialog'
+import { CampaignVariantStats } from '@/components/campaigns/CampaignVariantStats'
 import { Skeleton } from '@/components/ui/skeleton'
-import { Card, CardHeader, CardContent } from '@/components/ui/card'
+import {
+  Card,
+  CardHeader,
+  CardContent,
+  CardTitle,
+  CardDescription,
+} from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { cn } from '@/lib/utils'
+import { describeRecurrence, parseRecurrence } from '@/lib/recurrence'
+import { format } from 'date-fns'
+import { ptBR } from 'date-fns/locale'
 
 export default function DisparoDetalhes() {
   const { user, loading: authLoading } = useAuth()
   const { id } = useParams<{ id: string }>()
   const [campaign, setCampaign] = useState<Campaign | null>(null)
   const [messages, setMessages] = useState<CampaignMessage[]>([])
+  const [replies, setReplies] = useState<MessageReply[]>([])
   const [loading, setLoading] = useState(true)
   const [actionLoading, setActionLoading] = useState(false)
   const [retryLoadingId, setRetryLoadingId] = useState<string | null>(null)
+  const [confirmCancelOpen, setConfirmCancelOpen] = useState(false)
+  const [duplicateOpen, setDuplicateOpen] = useState(false)
+  // Runs spawned so far, when this is a recurring campaign
+  const [runs, setRuns] = useState<Campaign[]>([])
+  // Message variants, when the campaign is an A/B test
+  const [variants, setVariants] = useState<CampaignVariant[]>([])
 
   const fetchCampaignData = useCallback(async (campaignId: string) => {
     try {
-      const [campData, msgsData] = await Promise.all([
-        campaignsService.getById(campaignId),
-        campaignsService.getMessages(campaignId),
-      ])
+      const [campData, msgsData, repliesData, variantsData] = await Promise.all(
+        [
+          campaignsService.getById(campaignId),
+          campaignsService.getMessages(campaignId),
+          campaignsService.getReplies(campaignId),
+          campaignsService.getVariants(campaignId),
+        ],
+      )
       setCampaign(campData)
       setMessages(msgsData)
+      setReplies(repliesData)
+      setVariants(variantsData)
+      setRuns(
+        campData.recurrence ? await campaignsService.getRuns(campaignId) : [],
+      )
     } catch (error) {
       console.error(error)
       toast.error('Erro ao carregar detalhes da campanha')
@@ -60,6 +113,8 @@ export default function DisparoDetalhes() {
           },
           (payload) => {
             setCampaign(payload.new as Campaign)
+            // The winner of an A/B test is marked while the campaign runs
+            campaignsService.getVariants(id).then(setVariants)
           },
         )
         .subscribe()
@@ -82,9 +137,26 @@ export default function DisparoDetalhes() {
         )
         .subscribe()
 
+      const repliesSub = supabase
+        .channel(`message_replies_${id}`)
+        .on(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'message_replies',
+            filter: `campaign_id=eq.${id}`,
+          },
+          () => {
+            campaignsService.getReplies(id).then(setReplies)
+          },
+        )
+        .subscribe()
+
       return () => {
         campaignSub.unsubscribe()
         messagesSub.unsubscribe()
+        repliesSub.unsubscribe()
       }
     }
   }, [user, id, fetchCampaignData])
@@ -114,7 +186,17 @@ export default function DisparoDetalhes() {
       }
       // Optimistic update
       setCampaign((prev) =>
-        prev ? { ...prev, status: isPaused ? 'active' : 'paused' } : null,
+        prev
+          ? {
+              ...prev,
+              status: isPaused
+                ? prev.recurrence
+                  ? 'recurring'
+                  : 'active'
+                : 'paused',
+              pause_reason: null,
+            }
+          : null,
       )
     } catch (error) {
       console.error(error)
@@ -124,6 +206,26 @@ export default function DisparoDetalhes() {
     }
   }
 
+  const handleCancel = async (e: React.MouseEvent) => {
+    e.preventDefault()
+    if (!campaign) return
+    setActionLoading(true)
+
+    try {
+      const canceled = await campaignsService.cancel(campaign.id)
+      toast.success('Campanha cancelada', {
+        description: `Mensagens retiradas da fila: ${canceled}`,
+      })
+      setConfirmCancelOpen(false)
+      fetchCampaignData(campaign.id)
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao cancelar campanha')
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
   const handleRetryMessage = async (messageId: string) => {
     setRetryLoadingId(messageId)
     try {
@@ -189,16 +291,31 @@ export default function DisparoDetalhes() {
 
   const kpiStats = campaign
     ? {
-        sent: messages.filter((m) => m.status === 'sent').length,
+        sent: messages.filter((m) => SENT_MESSAGE_STATUSES.includes(m.status))
+          .length,
+        delivered: messages.filter((m) =>
+          ['delivered', 'read'].includes(m.status),
+        ).length,
+        read: messages.filter((m) => m.status === 'read').length,
+        replied: messages.filter((m) => m.replied_at).length,
         waiting: messages.filter((m) =>
-          ['aguardando', 'pending'].includes(m.status),
+          ['aguardando', 'pending', 'ab_holdout'].includes(m.status),
         ).length,
         failed: messages.filter((m) => ['failed', 'error'].includes(m.status))
           .length,
         elapsed: campaign.execution_time || 0,
       }
-    : { sent: 0, waiting: 0, failed: 0, elapsed: 0 }
+    : {
+        sent: 0,
+        delivered: 0,
+        read: 0,
+        replied: 0,
+        waiting: 0,
+        failed: 0,
+        elapsed: 0,
+      }
 
+  const recurrence = parseRecurrence(campaign?.recurrence)
   const isPaused = campaign?.status === 'paused'
   const isActive = campaign
     ? ['active', 'processing'].includes(campaign.status)
@@ -236,33 +353,155 @@ export default function DisparoDetalhes() {
                 <p className="text-muted-foreground text-sm">
                   ID: {campaign?.id}
                 </p>
+                {campaign?.parent_campaign_id && (
+                  <Link
+                    to={`/disparos/${campaign.parent_campaign_id}`}
+                    className="text-sm text-primary hover:underline flex items-center gap-1"
+                  >
+                    <Repeat className="h-3 w-3" />
+                    Execução de uma campanha recorrente
+                  </Link>
+                )}
               </>
             )}
           </div>
         </div>
 
-        {!loading && !isFinished && campaign && (
-          <Button
-            onClick={handlePauseResume}
-            disabled={actionLoading}
-            variant={isPaused ? 'default' : 'secondary'}
-            className="w-full md:w-auto"
-          >
-            {actionLoading ? (
-              <Loader2 className="h-4 w-4 animate-spin mr-2" />
-            ) : isPaused ? (
-              <Play className="h-4 w-4 mr-2 fill-current" />
-            ) : (
-              <Pause className="h-4 w-4 mr-2 fill-current" />
+        {!loading && campaign && (
+          <div className="flex w-full md:w-auto gap-2">
+            <Button
+              onClick={() => setDuplicateOpen(true)}
+              variant="outline"
+              className="flex-1 md:flex-none"
+            >
+              <Copy className="h-4 w-4 mr-2" />
+              Duplicar
+            </Button>
+            {!isFinished && (
+              <>
+                <Button
+                  onClick={handlePauseResume}
+                  disabled={actionLoading}
+                  variant={isPaused ? 'default' : 'secondary'}
+                  className="flex-1 md:flex-none"
+                >
+                  {actionLoading ? (
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  ) : isPaused ? (
+                    <Play className="h-4 w-4 mr-2 fill-current" />
+                  ) : (
+                    <Pause className="h-4 w-4 mr-2 fill-current" />
+                  )}
+                  {isPaused ? 'Retomar Campanha' : 'Pausar Campanha'}
+                </Button>
+                <Button
+                  onClick={() => setConfirmCancelOpen(true)}
+                  disabled={actionLoading}
+                  variant="outline"
+                  className="flex-1 md:flex-none border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+                >
+                  <Ban className="h-4 w-4 mr-2" />
+                  Cancelar Campanha
+                </Button>
+              </>
             )}
-            {isPaused ? 'Retomar Campanha' : 'Pausar Campanha'}
-          </Button>
+          </div>
         )}
       </div>
 
+      {/* Canceled */}
+      {campaign?.status === 'canceled' && (
+        <Alert>
+          <Ban className="h-4 w-4" />
+          <AlertTitle>Campanha cancelada</AlertTitle>
+          <AlertDescription>
+            {campaign.canceled_at
+              ? `Cancelada em ${format(new Date(campaign.canceled_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}`
+              : 'Cancelada'}
+            {campaign.canceled_by === user.id && ' por você'}. As mensagens que
+            aguardavam na fila não foram enviadas; o histórico abaixo mostra o
+            que já tinha saído.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Recurring campaign and its runs */}
+      {campaign && recurrence && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Repeat className="h-4 w-4 text-muted-foreground" />
+              Campanha recorrente
+            </CardTitle>
+            <CardDescription>
+              {describeRecurrence(recurrence)}.{' '}
+              {campaign.next_run_at &&
+              !['finished', 'canceled'].includes(campaign.status)
+                ? `Próxima execução em ${format(new Date(campaign.next_run_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}.`
+                : 'Não há próximas execuções.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {runs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Nenhuma execução até agora.
+              </p>
+            ) : (
+              <ul className="divide-y rounded-md border">
+                {runs.map((run) => (
+                  <li key={run.id}>
+                    <Link
+                      to={`/disparos/${run.id}`}
+                      className="flex items-center justify-between gap-4 px-4 py-2 text-sm hover:bg-muted/50"
+                    >
+                      <span className="font-medium truncate">{run.name}</span>
+                      <span className="flex items-center gap-3 shrink-0 text-muted-foreground">
+                        {run.sent_messages || 0} / {run.total_messages || 0}{' '}
+                        enviadas
+                        <Badge variant="secondary">
+                          {run.status.toUpperCase()}
+                        </Badge>
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Circuit breaker */}
+      {isPaused && campaign?.pause_reason && (
+        <Alert variant="destructive">
+          <ShieldAlert className="h-4 w-4" />
+          <AlertTitle>Campanha pausada automaticamente</AlertTitle>
+          <AlertDescription className="space-y-1">
+            <p>
+              {campaign.pause_reason}
+              {campaign.paused_at &&
+                ` (${format(new Date(campaign.paused_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })})`}
+            </p>
+            <p>
+              As mensagens que falharam voltaram para a fila. Verifique a
+              conexão do WhatsApp em Configurações e retome a campanha.
+            </p>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* KPIs */}
       <CampaignKPIs stats={kpiStats} isLoading={loading} />
 
+      {/* A/B test results */}
+      {campaign && variants.length > 0 && (
+        <CampaignVariantStats
+          campaign={campaign}
+          variants={variants}
+          messages={messages}
+        />
+      )}
+
       {/* Config Summary */}
       {loading ? (
         <Card>
@@ -280,17 +519,26 @@ export default function DisparoDetalhes() {
         </Card>
       ) : (
         <CampaignConfig
-          config={campaign?.config as unknown as ScheduleConfig}
+          config={campaign?.config}
           scheduledAt={campaign?.scheduled_at || null}
+          timezone={campaign?.timezone}
         />
       )}
 
-      {/* Messages Table */}
-      <div className="space-y-4">
+      {/* Messages and replies */}
+      <Tabs defaultValue="messages" className="space-y-4">
         <div className="flex items-center justify-between">
-          <h2 className="text-xl font-semibold tracking-tight">
-            Log de Mensagens
-          </h2>
+          <TabsList>
+            <TabsTrigger value="messages">Mensagens</TabsTrigger>
+            <TabsTrigger value="replies">
+              Respostas
+              {replies.length > 0 && (
+                <Badge variant="secondary" className="ml-2 h-5 px-1.5">
+                  {replies.length}
+                </Badge>
+              )}
+            </TabsTrigger>
+          </TabsList>
           <Button
             variant="ghost"
             size="sm"
@@ -301,13 +549,61 @@ export default function DisparoDetalhes() {
             Atualizar
           </Button>
         </div>
-        <CampaignMessagesTable
-          messages={messages}
-          onRetry={handleRetryMessage}
-          loadingId={retryLoadingId}
-          isLoading={loading}
-        />
-      </div>
+        <TabsContent value="messages">
+          <CampaignMessagesTable
+            messages={messages}
+            onRetry={
+              campaign?.status === 'canceled' ? undefined : handleRetryMessage
+            }
+            loadingId={retryLoadingId}
+            isLoading={loading}
+          />
+        </TabsContent>
+        <TabsContent value="replies">
+          <CampaignRepliesTable replies={replies} isLoading={loading} />
+        </TabsContent>
+      </Tabs>
+
+      <DuplicateCampaignDialog
+        campaign={duplicateOpen ? campaign : null}
+        onClose={() => setDuplicateOpen(false)}
+      />
+
+      <AlertDialog open={confirmCancelOpen} onOpenChange={setConfirmCancelOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancelar esta campanha?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O envio para imediatamente e as {kpiStats.waiting} mensagens que
+              ainda aguardam na fila não serão enviadas. O histórico do que já
+              foi enviado continua disponível. Uma campanha cancelada não pode
+              ser retomada.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={actionLoading}>
+              Voltar
+            </AlertDialogCancel>
+            <AlertDialogAction
+              disabled={actionLoading}
+              onClick={handleCancel}
+              className={cn(
+                buttonVariants({ variant: 'destructive' }),
+                'bg-destructive text-destructive-foreground hover:bg-destructive/90',
+              )}
+            >
+              {actionLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Cancelando...
+                </>
+              ) : (
+                'Cancelar campanha'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback } from 'react'
+import { Fragment, useEffect, useState, useCallback } from 'react'
 import { useAuth } from '@/hooks/use-auth'
 import { campaignsService, Campaign } from '@/services/campaigns'
 import { Button, buttonVariants } from '@/components/ui/button'
@@ -12,6 +12,13 @@ import {
 } from '@/components/ui/table'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import {
   Card,
   CardContent,
@@ -40,6 +47,11 @@ import {
   XCircle,
   AlertTriangle,
   Trash2,
+  Ban,
+  Copy,
+  Repeat,
+  ChevronDown,
+  ChevronRight,
 } from 'lucide-react'
 import { Link, Navigate, useNavigate } from 'react-router-dom'
 import { toast } from 'sonner'
@@ -48,6 +60,20 @@ import { ptBR } from 'date-fns/locale'
 import { supabase } from '@/lib/supabase/client'
 import { Skeleton } from '@/components/ui/skeleton'
 import { cn } from '@/lib/utils'
+import { DuplicateCampaignDialog } from '@/components/campaigns/DuplicateCampaignDialog'
+import {
+  CAMPAIGN_PRIORITY_LABELS,
+  CampaignPriority,
+  parseCampaignPriority,
+} from '@/lib/campaign-priority'
+
+const PRIORITY_OPTIONS = Object.entries(CAMPAIGN_PRIORITY_LABELS) as [
+  CampaignPriority,
+  string,
+][]
+
+// Campaigns that will not send anymore keep their priority read-only
+const CLOSED_STATUSES = ['finished', 'failed', 'canceled']
 
 export default function Disparos() {
   const { user, loading: authLoading } = useAuth()
@@ -55,10 +81,19 @@ export default function Disparos() {
   const [loading, setLoading] = useState(true)
   const [pausingId, setPausingId] = useState<string | null>(null)
   const [resumingId, setResumingId] = useState<string | null>(null)
+  const [prioritizingId, setPrioritizingId] = useState<string | null>(null)
   const [campaignToDelete, setCampaignToDelete] = useState<Campaign | null>(
     null,
   )
   const [isDeleting, setIsDeleting] = useState(false)
+  const [campaignToCancel, setCampaignToCancel] = useState<Campaign | null>(
+    null,
+  )
+  const [isCanceling, setIsCanceling] = useState(false)
+  const [campaignToDuplicate, setCampaignToDuplicate] =
+    useState<Campaign | null>(null)
+  // Recurring campaigns whose runs are shown
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set())
   const navigate = useNavigate()
 
   const fetchCampaigns = useCallback(async () => {
@@ -136,7 +171,11 @@ export default function Disparos() {
       toast.success('Campanha retomada com sucesso')
       // Optimistic update
       setCampaigns((prev) =>
-        prev.map((c) => (c.id === id ? { ...c, status: 'active' } : c)),
+        prev.map((c) =>
+          c.id === id
+            ? { ...c, status: c.recurrence ? 'recurring' : 'active' }
+            : c,
+        ),
       )
     } catch (error) {
       console.error(error)
@@ -146,6 +185,61 @@ export default function Disparos() {
     }
   }
 
+  const handlePriorityChange = async (
+    id: string,
+    priority: CampaignPriority,
+  ) => {
+    setPrioritizingId(id)
+    try {
+      await campaignsService.setPriority(id, priority)
+      toast.success('Prioridade atualizada')
+      // Optimistic update
+      setCampaigns((prev) =>
+        prev.map((c) => (c.id === id ? { ...c, priority } : c)),
+      )
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao atualizar prioridade')
+    } finally {
+      setPrioritizingId(null)
+    }
+  }
+
+  const handleCancelClick = (e: React.MouseEvent, campaign: Campaign) => {
+    e.stopPropagation()
+    setCampaignToCancel(campaign)
+  }
+
+  const confirmCancel = async (e: React.MouseEvent) => {
+    e.preventDefault()
+    if (!campaignToCancel) return
+
+    setIsCanceling(true)
+    try {
+      await campaignsService.cancel(campaignToCancel.id)
+      toast.success('Campanha cancelada')
+      // Optimistic update
+      setCampaigns((prev) =>
+        prev.map((c) =>
+          c.id === campaignToCancel.id
+            ? {
+                ...c,
+                status: 'canceled',
+                canceled_at: new Date().toISOString(),
+                canceled_by: user?.id ?? null,
+              }
+            : c,
+        ),
+      )
+      setCampaignToCancel(null)
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao cancelar campanha')
+    } finally {
+      setIsCanceling(false)
+    }
+  }
+
   const handleDeleteClick = (e: React.MouseEvent, campaign: Campaign) => {
     e.stopPropagation()
     setCampaignToDelete(campaign)
@@ -230,6 +324,13 @@ export default function Disparos() {
         )
       case 'canceled':
         return <Badge variant="outline">Cancelado</Badge>
+      case 'recurring':
+        return (
+          <Badge className="bg-violet-500 hover:bg-violet-600 gap-1">
+            <Repeat className="h-3 w-3" />
+            Recorrente
+          </Badge>
+        )
       default:
         return <Badge variant="secondary">{status}</Badge>
     }
@@ -257,6 +358,249 @@ export default function Disparos() {
     }
   }
 
+  // Runs of a recurring campaign are listed under it, not on their own
+  const runsByParent = new Map<string, Campaign[]>()
+  for (const campaign of campaigns) {
+    if (!campaign.parent_campaign_id) continue
+    const runs = runsByParent.get(campaign.parent_campaign_id) ?? []
+    runsByParent.set(campaign.parent_campaign_id, [...runs, campaign])
+  }
+  const campaignIds = new Set(campaigns.map((campaign) => campaign.id))
+  const topLevel = campaigns.filter(
+    (campaign) =>
+      !campaign.parent_campaign_id ||
+      !campaignIds.has(campaign.parent_campaign_id),
+  )
+
+  const toggleExpanded = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation()
+    setExpandedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  // `runs` is given for top-level rows; the runs listed under a recurring
+  // campaign leave it out and are indented
+  const renderRow = (campaign: Campaign, runs?: Campaign[]) => {
+    const total = Math.max(campaign.total_messages || 0, 0)
+    // Ensure sent is not negative and respect the DB value, clamping to total is optional but good for UI sanity if DB desyncs
+    const sent = Math.min(Math.max(campaign.sent_messages || 0, 0), total)
+    const percentage = total > 0 ? Math.round((sent / total) * 100) : 0
+
+    const status = campaign.status || 'unknown'
+    // Pausing a recurring campaign holds its next runs
+    const isActive = ['active', 'processing', 'recurring'].includes(status)
+    const isPaused = status === 'paused'
+    const priority = parseCampaignPriority(campaign.priority)
+    const isRecurring = !!campaign.recurrence
+    const isNested = runs === undefined
+    const isExpanded = expandedIds.has(campaign.id)
+
+    // Logic to detect if finished with errors:
+    // Status is 'finished' BUT sent messages count is less than total messages count
+    const hasErrors = status === 'finished' && sent < total
+
+    return (
+      <TableRow
+        key={campaign.id}
+        className={cn(
+          'cursor-pointer hover:bg-muted/50 transition-colors',
+          isNested && 'bg-muted/20',
+        )}
+        onClick={() => handleRowClick(campaign.id)}
+      >
+        <TableCell className="font-medium">
+          <div className={cn('flex flex-col', isNested && 'pl-8')}>
+            <span className="flex items-center gap-1 truncate max-w-[200px] md:max-w-none">
+              {runs && runs.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  onClick={(e) => toggleExpanded(e, campaign.id)}
+                >
+                  {isExpanded ? (
+                    <ChevronDown className="h-4 w-4" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4" />
+                  )}
+                  <span className="sr-only">
+                    {isExpanded ? 'Ocultar execuções' : 'Mostrar execuções'}
+                  </span>
+                </Button>
+              )}
+              {campaign.name}
+            </span>
+            <span className="text-xs text-muted-foreground md:hidden">
+              {format(new Date(campaign.created_at), 'dd/MM/yyyy', {
+                locale: ptBR,
+              })}
+            </span>
+          </div>
+        </TableCell>
+        <TableCell>{getStatusBadge(status, hasErrors)}</TableCell>
+        <TableCell onClick={(e) => e.stopPropagation()}>
+          {CLOSED_STATUSES.includes(status) ? (
+            <span className="text-sm text-muted-foreground">
+              {CAMPAIGN_PRIORITY_LABELS[priority]}
+            </span>
+          ) : (
+            <Select
+              value={priority}
+              onValueChange={(value) =>
+                handlePriorityChange(campaign.id, value as CampaignPriority)
+              }
+              disabled={prioritizingId === campaign.id}
+            >
+              <SelectTrigger
+                className={cn(
+                  'h-8 w-[120px]',
+                  priority === 'urgent' && 'border-red-200 text-red-600',
+                )}
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRIORITY_OPTIONS.map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </TableCell>
+        <TableCell>
+          {isRecurring ? (
+            <div className="space-y-0.5 text-xs">
+              <p className="font-medium">
+                {campaign.occurrence_count}{' '}
+                {campaign.occurrence_count === 1 ? 'execução' : 'execuções'}
+              </p>
+              <p className="text-muted-foreground">
+                {campaign.next_run_at && status !== 'canceled'
+                  ? `Próxima: ${format(new Date(campaign.next_run_at), "dd/MM 'às' HH:mm", { locale: ptBR })}`
+                  : 'Sem próximas execuções'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-1.5">
+              <div className="flex justify-between text-xs font-medium">
+                <span>{percentage}%</span>
+                <span className="text-muted-foreground">
+                  {sent} / {total} enviadas
+                </span>
+              </div>
+              <Progress
+                value={percentage}
+                className="h-2.5"
+                indicatorClassName={getProgressIndicatorClass(
+                  status,
+                  hasErrors,
+                )}
+              />
+            </div>
+          )}
+        </TableCell>
+        <TableCell className="text-muted-foreground hidden md:table-cell whitespace-nowrap">
+          {format(new Date(campaign.created_at), "dd 'de' MMM, HH:mm", {
+            locale: ptBR,
+          })}
+        </TableCell>
+        <TableCell className="text-right">
+          <div className="flex justify-end gap-2">
+            {isActive && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 border-orange-200 text-orange-600 hover:bg-orange-50 hover:text-orange-700 hidden sm:flex"
+                onClick={(e) => handlePause(e, campaign.id)}
+                disabled={pausingId === campaign.id}
+              >
+                {pausingId === campaign.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <>
+                    <Pause className="h-3 w-3 mr-1" />
+                    Pausar
+                  </>
+                )}
+              </Button>
+            )}
+            {isPaused && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 border-green-200 text-green-600 hover:bg-green-50 hover:text-green-700 hidden sm:flex"
+                onClick={(e) => handleResume(e, campaign.id)}
+                disabled={resumingId === campaign.id}
+              >
+                {resumingId === campaign.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <>
+                    <Play className="h-3 w-3 mr-1" />
+                    Retomar
+                  </>
+                )}
+              </Button>
+            )}
+            {!CLOSED_STATUSES.includes(status) && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                onClick={(e) => handleCancelClick(e, campaign)}
+              >
+                <Ban className="h-4 w-4" />
+                <span className="sr-only">Cancelar campanha</span>
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground"
+              onClick={(e) => {
+                e.stopPropagation()
+                setCampaignToDuplicate(campaign)
+              }}
+            >
+              <Copy className="h-4 w-4" />
+              <span className="sr-only">Duplicar campanha</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+              onClick={(e) => handleDeleteClick(e, campaign)}
+            >
+              <Trash2 className="h-4 w-4" />
+              <span className="sr-only">Excluir campanha</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={(e) => {
+                e.stopPropagation()
+                handleRowClick(campaign.id)
+              }}
+            >
+              <Eye className="h-4 w-4" />
+              <span className="sr-only">Ver detalhes</span>
+            </Button>
+          </div>
+        </TableCell>
+      </TableRow>
+    )
+  }
+
   if (authLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -302,6 +646,7 @@ export default function Disparos() {
                   <TableRow>
                     <TableHead>Nome da Campanha</TableHead>
                     <TableHead>Status</TableHead>
+                    <TableHead>Prioridade</TableHead>
                     <TableHead className="w-[250px]">Progresso</TableHead>
                     <TableHead>Data de Criação</TableHead>
                     <TableHead className="text-right">Ações</TableHead>
@@ -316,6 +661,9 @@ export default function Disparos() {
                       <TableCell>
                         <Skeleton className="h-5 w-24 rounded-full" />
                       </TableCell>
+                      <TableCell>
+                        <Skeleton className="h-8 w-28" />
+                      </TableCell>
                       <TableCell>
                         <Skeleton className="h-3 w-full rounded-full" />
                       </TableCell>
@@ -352,142 +700,22 @@ export default function Disparos() {
                   <TableRow>
                     <TableHead>Nome da Campanha</TableHead>
                     <TableHead>Status</TableHead>
+                    <TableHead>Prioridade</TableHead>
                     <TableHead className="w-[250px]">Progresso</TableHead>
                     <TableHead>Data de Criação</TableHead>
                     <TableHead className="text-right">Ações</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {campaigns.map((campaign) => {
-                    const total = Math.max(campaign.total_messages || 0, 0)
-                    // Ensure sent is not negative and respect the DB value, clamping to total is optional but good for UI sanity if DB desyncs
-                    const sent = Math.min(
-                      Math.max(campaign.sent_messages || 0, 0),
-                      total,
-                    )
-                    const percentage =
-                      total > 0 ? Math.round((sent / total) * 100) : 0
-
-                    const status = campaign.status || 'unknown'
-                    const isActive = ['active', 'processing'].includes(status)
-                    const isPaused = status === 'paused'
-
-                    // Logic to detect if finished with errors:
-                    // Status is 'finished' BUT sent messages count is less than total messages count
-                    const hasErrors = status === 'finished' && sent < total
-
-                    return (
-                      <TableRow
-                        key={campaign.id}
-                        className="cursor-pointer hover:bg-muted/50 transition-colors"
-                        onClick={() => handleRowClick(campaign.id)}
-                      >
-                        <TableCell className="font-medium">
-                          <div className="flex flex-col">
-                            <span className="truncate max-w-[200px] md:max-w-none">
-                              {campaign.name}
-                            </span>
-                            <span className="text-xs text-muted-foreground md:hidden">
-                              {format(
-                                new Date(campaign.created_at),
-                                'dd/MM/yyyy',
-                                { locale: ptBR },
-                              )}
-                            </span>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          {getStatusBadge(status, hasErrors)}
-                        </TableCell>
-                        <TableCell>
-                          <div className="space-y-1.5">
-                            <div className="flex justify-between text-xs font-medium">
-                              <span>{percentage}%</span>
-                              <span className="text-muted-foreground">
-                                {sent} / {total} enviadas
-                              </span>
-                            </div>
-                            <Progress
-                              value={percentage}
-                              className="h-2.5"
-                              indicatorClassName={getProgressIndicatorClass(
-                                status,
-                                hasErrors,
-                              )}
-                            />
-                          </div>
-                        </TableCell>
-                        <TableCell className="text-muted-foreground hidden md:table-cell whitespace-nowrap">
-                          {format(
-                            new Date(campaign.created_at),
-                            "dd 'de' MMM, HH:mm",
-                            { locale: ptBR },
-                          )}
-                        </TableCell>
-                        <TableCell className="text-right">
-                          <div className="flex justify-end gap-2">
-                            {isActive && (
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                className="h-8 border-orange-200 text-orange-600 hover:bg-orange-50 hover:text-orange-700 hidden sm:flex"
-                                onClick={(e) => handlePause(e, campaign.id)}
-                                disabled={pausingId === campaign.id}
-                              >
-                                {pausingId === campaign.id ? (
-                                  <Loader2 className="h-4 w-4 animate-spin" />
-                                ) : (
-                                  <>
-                                    <Pause className="h-3 w-3 mr-1" />
-                                    Pausar
-                                  </>
-                                )}
-                              </Button>
-                            )}
-                            {isPaused && (
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                className="h-8 border-green-200 text-green-600 hover:bg-green-50 hover:text-green-700 hidden sm:flex"
-                                onClick={(e) => handleResume(e, campaign.id)}
-                                disabled={resumingId === campaign.id}
-                              >
-                                {resumingId === campaign.id ? (
-                                  <Loader2 className="h-4 w-4 animate-spin" />
-                                ) : (
-                                  <>
-                                    <Play className="h-3 w-3 mr-1" />
-                                    Retomar
-                                  </>
-                                )}
-                              </Button>
-                            )}
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-8 w-8 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
-                              onClick={(e) => handleDeleteClick(e, campaign)}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                              <span className="sr-only">Excluir campanha</span>
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-8 w-8"
-                              onClick={(e) => {
-                                e.stopPropagation()
-                                handleRowClick(campaign.id)
-                              }}
-                            >
-                              <Eye className="h-4 w-4" />
-                              <span className="sr-only">Ver detalhes</span>
-                            </Button>
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    )
-                  })}
+                  {topLevel.map((campaign) => (
+                    <Fragment key={campaign.id}>
+                      {renderRow(campaign, runsByParent.get(campaign.id) ?? [])}
+                      {expandedIds.has(campaign.id) &&
+                        (runsByParent.get(campaign.id) ?? []).map((run) =>
+                          renderRow(run),
+                        )}
+                    </Fragment>
+                  ))}
                 </TableBody>
               </Table>
             </div>
@@ -495,6 +723,51 @@ export default function Disparos() {
         </CardContent>
       </Card>
 
+      <DuplicateCampaignDialog
+        campaign={campaignToDuplicate}
+        onClose={() => setCampaignToDuplicate(null)}
+      />
+
+      <AlertDialog
+        open={!!campaignToCancel}
+        onOpenChange={(open) => !open && setCampaignToCancel(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancelar esta campanha?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O envio da campanha{' '}
+              <span className="font-medium text-foreground">
+                "{campaignToCancel?.name}"
+              </span>{' '}
+              para imediatamente e as mensagens que ainda aguardam na fila não
+              serão enviadas. O histórico do que já foi enviado continua
+              disponível. Uma campanha cancelada não pode ser retomada.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isCanceling}>Voltar</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isCanceling}
+              onClick={confirmCancel}
+              className={cn(
+                buttonVariants({ variant: 'destructive' }),
+                'bg-destructive text-destructive-foreground hover:bg-destructive/90',
+              )}
+            >
+              {isCanceling ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Cancelando...
+                </>
+              ) : (
+                'Cancelar campanha'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog
         open={!!campaignToDelete}
         onOpenChange={(open) => !open && setCampaignToDelete(null)}
@@ -0,0 +1,510 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Link, Navigate, useNavigate, useParams } from 'react-router-dom'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { ptBR } from 'date-fns/locale'
+import {
+  ArrowLeft,
+  Loader2,
+  Pause,
+  Play,
+  Save,
+  Trash2,
+  UserMinus,
+  UserPlus,
+} from 'lucide-react'
+import { useAuth } from '@/hooks/use-auth'
+import { Button, buttonVariants } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { EnrollContactsDialog } from '@/components/sequences/EnrollContactsDialog'
+import { SequenceFunnel } from '@/components/sequences/SequenceFunnel'
+import { SequenceStepsEditor } from '@/components/sequences/SequenceStepsEditor'
+import { supabase } from '@/lib/supabase/client'
+import { ENROLLMENT_STATUS_LABELS, stepSendWindow } from '@/lib/sequences'
+import { DEFAULT_TIMEZONE } from '@/lib/timezone'
+import { cn } from '@/lib/utils'
+import {
+  Sequence,
+  SequenceEnrollment,
+  SequenceStep,
+  SequenceStepInput,
+  sequencesService,
+} from '@/services/sequences'
+
+const toStepInputs = (steps: SequenceStep[]): SequenceStepInput[] =>
+  steps.map((step) => ({
+    message: step.message,
+    delay_minutes: step.delay_minutes,
+    send_window: stepSendWindow(step),
+  }))
+
+export default function SequenciaDetalhes() {
+  const { user, loading: authLoading } = useAuth()
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const [sequence, setSequence] = useState<Sequence | null>(null)
+  const [steps, setSteps] = useState<SequenceStep[]>([])
+  // Steps as edited, saved all at once
+  const [draftSteps, setDraftSteps] = useState<SequenceStepInput[]>([])
+  const [enrollments, setEnrollments] = useState<SequenceEnrollment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [actionLoading, setActionLoading] = useState(false)
+  const [removingId, setRemovingId] = useState<string | null>(null)
+  const [enrollOpen, setEnrollOpen] = useState(false)
+  const [confirmDeleteOpen, setConfirmDeleteOpen] = useState(false)
+
+  const fetchSequenceData = useCallback(async (sequenceId: string) => {
+    try {
+      const [sequenceData, stepsData, enrollmentsData] = await Promise.all([
+        sequencesService.getById(sequenceId),
+        sequencesService.getSteps(sequenceId),
+        sequencesService.getEnrollments(sequenceId),
+      ])
+      setSequence(sequenceData)
+      setSteps(stepsData)
+      setDraftSteps(toStepInputs(stepsData))
+      setEnrollments(enrollmentsData)
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao carregar sequência')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (user && id) {
+      fetchSequenceData(id)
+
+      // Enrollments move along as the queue worker sends each step
+      const enrollmentsSub = supabase
+        .channel(`sequence_enrollments_${id}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'sequence_enrollments',
+            filter: `sequence_id=eq.${id}`,
+          },
+          () => {
+            sequencesService.getEnrollments(id).then(setEnrollments)
+          },
+        )
+        .subscribe()
+
+      return () => {
+        enrollmentsSub.unsubscribe()
+      }
+    }
+  }, [user, id, fetchSequenceData])
+
+  const isDirty =
+    JSON.stringify(draftSteps) !== JSON.stringify(toStepInputs(steps))
+
+  const handleSaveSteps = async () => {
+    if (!sequence) return
+    if (draftSteps.some((step) => !step.message.trim())) {
+      toast.error('Preencha a mensagem de todos os passos')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await sequencesService.saveSteps(sequence.id, draftSteps)
+      const saved = await sequencesService.getSteps(sequence.id)
+      setSteps(saved)
+      setDraftSteps(toStepInputs(saved))
+      toast.success('Passos salvos')
+    } catch (error: any) {
+      console.error(error)
+      toast.error('Erro ao salvar passos', { description: error.message })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggleStatus = async () => {
+    if (!sequence) return
+    const status = sequence.status === 'active' ? 'paused' : 'active'
+    setActionLoading(true)
+    try {
+      await sequencesService.update(sequence.id, { status })
+      setSequence({ ...sequence, status })
+      toast.success(
+        status === 'active' ? 'Sequência ativada' : 'Sequência pausada',
+      )
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao atualizar sequência')
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  const handleRemoveEnrollment = async (enrollmentId: string) => {
+    setRemovingId(enrollmentId)
+    try {
+      await sequencesService.removeEnrollment(enrollmentId)
+      toast.success('Contato removido da sequência')
+      // Optimistic update
+      setEnrollments((prev) =>
+        prev.map((enrollment) =>
+          enrollment.id === enrollmentId
+            ? {
+                ...enrollment,
+                status: 'removed',
+                next_step_at: null,
+                exited_at: new Date().toISOString(),
+              }
+            : enrollment,
+        ),
+      )
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao remover contato')
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  const handleDelete = async (e: React.MouseEvent) => {
+    e.preventDefault()
+    if (!sequence) return
+    setActionLoading(true)
+    try {
+      await sequencesService.delete(sequence.id)
+      toast.success('Sequência excluída')
+      navigate('/sequencias')
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao excluir sequência')
+      setActionLoading(false)
+    }
+  }
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace />
+  }
+
+  if (!loading && !sequence) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-7xl text-center">
+        <h2 className="text-2xl font-bold mb-2">Sequência não encontrada</h2>
+        <Button asChild variant="outline" className="mt-4">
+          <Link to="/sequencias">Voltar para a lista</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  const isActive = sequence?.status === 'active'
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl animate-fade-in-up space-y-8">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="ghost" size="icon" className="h-10 w-10">
+            <Link to="/sequencias">
+              <ArrowLeft className="h-6 w-6" />
+            </Link>
+          </Button>
+          <div>
+            {loading ? (
+              <div className="space-y-2">
+                <Skeleton className="h-8 w-64" />
+                <Skeleton className="h-4 w-32" />
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center gap-3">
+                  <h1 className="text-2xl font-bold tracking-tight">
+                    {sequence?.name}
+                  </h1>
+                  <Badge variant={isActive ? 'default' : 'secondary'}>
+                    {isActive ? 'ATIVA' : 'PAUSADA'}
+                  </Badge>
+                </div>
+                <p className="text-muted-foreground text-sm">
+                  Horários no fuso {sequence?.timezone || DEFAULT_TIMEZONE}
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+
+        {!loading && sequence && (
+          <div className="flex w-full md:w-auto gap-2">
+            <Button
+              onClick={() => setEnrollOpen(true)}
+              disabled={steps.length === 0 || isDirty}
+              className="flex-1 md:flex-none"
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              Inscrever contatos
+            </Button>
+            <Button
+              onClick={handleToggleStatus}
+              disabled={actionLoading}
+              variant={isActive ? 'secondary' : 'default'}
+              className="flex-1 md:flex-none"
+            >
+              {actionLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              ) : isActive ? (
+                <Pause className="h-4 w-4 mr-2 fill-current" />
+              ) : (
+                <Play className="h-4 w-4 mr-2 fill-current" />
+              )}
+              {isActive ? 'Pausar' : 'Ativar'}
+            </Button>
+            <Button
+              onClick={() => setConfirmDeleteOpen(true)}
+              disabled={actionLoading}
+              variant="outline"
+              className="flex-1 md:flex-none border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Excluir
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-8 lg:grid-cols-2">
+        {/* Funnel */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Funil</CardTitle>
+            <CardDescription>
+              {enrollments.length} contatos inscritos. Quem responde ou se
+              descadastra sai da sequência.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="space-y-4">
+                {[...Array(3)].map((_, i) => (
+                  <Skeleton key={i} className="h-8 w-full" />
+                ))}
+              </div>
+            ) : (
+              <SequenceFunnel steps={steps} enrollments={enrollments} />
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Steps */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Passos</CardTitle>
+            <CardDescription>
+              Cada passo sai depois do anterior, respeitando o próprio horário.
+              Quem já está na sequência recebe os passos salvos daqui em diante.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <Skeleton className="h-40 w-full" />
+            ) : (
+              <>
+                <SequenceStepsEditor
+                  value={draftSteps}
+                  onChange={setDraftSteps}
+                  disabled={isSaving}
+                />
+                <Button
+                  onClick={handleSaveSteps}
+                  disabled={isSaving || !isDirty}
+                  className="w-full"
+                >
+                  {isSaving ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Save className="mr-2 h-4 w-4" />
+                  )}
+                  Salvar passos
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Enrollments */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Contatos</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : enrollments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Nenhum contato inscrito ainda.
+            </p>
+          ) : (
+            <div className="rounded-md border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Contato</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Passos enviados</TableHead>
+                    <TableHead>Próximo envio</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {enrollments.map((enrollment) => (
+                    <TableRow key={enrollment.id}>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <span className="font-medium">
+                            {enrollment.contacts?.name || '-'}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            {enrollment.contacts?.phone}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={
+                            enrollment.status === 'failed'
+                              ? 'destructive'
+                              : enrollment.status === 'active'
+                                ? 'default'
+                                : 'secondary'
+                          }
+                          title={enrollment.error_message || undefined}
+                        >
+                          {ENROLLMENT_STATUS_LABELS[enrollment.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {enrollment.current_step} de {steps.length}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {enrollment.status === 'active' &&
+                        enrollment.next_step_at
+                          ? format(
+                              new Date(enrollment.next_step_at),
+                              "dd/MM/yyyy 'às' HH:mm",
+                              { locale: ptBR },
+                            )
+                          : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {enrollment.status === 'active' && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                            onClick={() =>
+                              handleRemoveEnrollment(enrollment.id)
+                            }
+                            disabled={removingId === enrollment.id}
+                            title="Remover da sequência"
+                          >
+                            {removingId === enrollment.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <UserMinus className="h-4 w-4" />
+                            )}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {sequence && (
+        <EnrollContactsDialog
+          open={enrollOpen}
+          sequence={sequence}
+          firstStep={steps[0] ?? null}
+          onClose={() => setEnrollOpen(false)}
+          onEnrolled={() =>
+            sequencesService.getEnrollments(sequence.id).then(setEnrollments)
+          }
+        />
+      )}
+
+      <AlertDialog open={confirmDeleteOpen} onOpenChange={setConfirmDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir esta sequência?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os contatos inscritos deixam de receber os próximos passos e o
+              histórico da sequência é apagado. Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={actionLoading}>
+              Voltar
+            </AlertDialogCancel>
+            <AlertDialogAction
+              disabled={actionLoading}
+              onClick={handleDelete}
+              className={cn(
+                buttonVariants({ variant: 'destructive' }),
+                'bg-destructive text-destructive-foreground hover:bg-destructive/90',
+              )}
+            >
+              {actionLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Excluindo...
+                </>
+              ) : (
+                'Excluir'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,271 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Link, Navigate, useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { format } from 'date-fns'
+import { ptBR } from 'date-fns/locale'
+import { AlertCircle, Eye, ListOrdered, Loader2, Plus } from 'lucide-react'
+import { useAuth } from '@/hooks/use-auth'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { TimezoneSelect } from '@/components/campaigns/TimezoneSelect'
+import { DEFAULT_TIMEZONE } from '@/lib/timezone'
+import { profileService } from '@/services/profile'
+import { sequencesService, SequenceSummary } from '@/services/sequences'
+
+export default function Sequencias() {
+  const { user, loading: authLoading } = useAuth()
+  const [sequences, setSequences] = useState<SequenceSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE)
+  const [isCreating, setIsCreating] = useState(false)
+  const navigate = useNavigate()
+
+  const fetchSequences = useCallback(async () => {
+    try {
+      const data = await sequencesService.getAll()
+      setSequences(data)
+    } catch (error) {
+      console.error(error)
+      toast.error('Erro ao carregar sequências')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (user) fetchSequences()
+  }, [user, fetchSequences])
+
+  const openCreate = async () => {
+    setName('')
+    setIsCreateOpen(true)
+    if (!user) return
+    // Steps are timed in the account's zone unless changed here
+    try {
+      const profile = await profileService.get(user.id)
+      setTimezone(profile?.timezone || DEFAULT_TIMEZONE)
+    } catch (error) {
+      console.error(error)
+    }
+  }
+
+  const handleCreate = async () => {
+    if (!name.trim()) return
+    setIsCreating(true)
+    try {
+      const sequence = await sequencesService.create(name, timezone)
+      toast.success('Sequência criada')
+      navigate(`/sequencias/${sequence.id}`)
+    } catch (error: any) {
+      console.error(error)
+      toast.error('Erro ao criar sequência', { description: error.message })
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace />
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl animate-fade-in-up">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Sequências</h1>
+          <p className="text-muted-foreground">
+            Mensagens de acompanhamento enviadas em etapas, que param quando o
+            contato responde.
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" />
+          Nova Sequência
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Minhas Sequências</CardTitle>
+          <CardDescription>
+            Acompanhe quantos contatos estão em cada sequência.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : sequences.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="bg-muted/50 p-6 rounded-full w-fit mx-auto mb-4">
+                <AlertCircle className="h-10 w-10 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold mb-2">
+                Nenhuma sequência encontrada
+              </h3>
+              <p className="text-muted-foreground mb-6">
+                Crie uma sequência para enviar mensagens de acompanhamento.
+              </p>
+              <Button onClick={openCreate}>Criar primeira sequência</Button>
+            </div>
+          ) : (
+            <div className="rounded-md border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Passos</TableHead>
+                    <TableHead>Contatos</TableHead>
+                    <TableHead>Data de Criação</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sequences.map((sequence) => (
+                    <TableRow
+                      key={sequence.id}
+                      className="cursor-pointer hover:bg-muted/50 transition-colors"
+                      onClick={() => navigate(`/sequencias/${sequence.id}`)}
+                    >
+                      <TableCell className="font-medium">
+                        <span className="flex items-center gap-2">
+                          <ListOrdered className="h-4 w-4 text-muted-foreground" />
+                          {sequence.name}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        {sequence.status === 'active' ? (
+                          <Badge className="bg-green-500 hover:bg-green-600">
+                            Ativa
+                          </Badge>
+                        ) : (
+                          <Badge
+                            variant="secondary"
+                            className="bg-orange-400 text-white hover:bg-orange-500"
+                          >
+                            Pausada
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {sequence.sequence_steps[0]?.count ?? 0}
+                      </TableCell>
+                      <TableCell>
+                        {sequence.sequence_enrollments[0]?.count ?? 0}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {format(new Date(sequence.created_at), 'dd/MM/yyyy', {
+                          locale: ptBR,
+                        })}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" asChild>
+                          <Link
+                            to={`/sequencias/${sequence.id}`}
+                            onClick={(e) => e.stopPropagation()}
+                            title="Ver detalhes"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={isCreateOpen}
+        onOpenChange={(open) => !open && setIsCreateOpen(false)}
+      >
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Nova sequência</DialogTitle>
+            <DialogDescription>
+              Depois de criar, adicione os passos e inscreva os contatos.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sequence-name">Nome</Label>
+              <Input
+                id="sequence-name"
+                placeholder="Ex: Acompanhamento de orçamento"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sequence-timezone">Fuso horário</Label>
+              <TimezoneSelect
+                id="sequence-timezone"
+                value={timezone}
+                onChange={setTimezone}
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button
+              variant="outline"
+              onClick={() => setIsCreateOpen(false)}
+              disabled={isCreating}
+            >
+              Cancelar
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={isCreating || !name.trim()}
+            >
+              {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Criar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
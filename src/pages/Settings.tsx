@@ -26,12 +26,19 @@ import { Loader2, Save, User as UserIcon, Camera, Upload } from 'lucide-react'
 import { toast } from 'sonner'
 import { profileService } from '@/services/profile'
 import { Navigate } from 'react-router-dom'
+import { WhatsAppConnectionCard } from '@/components/settings/WhatsAppConnectionCard'
+import { SuppressionListCard } from '@/components/settings/SuppressionListCard'
+import { BlackoutCalendarCard } from '@/components/settings/BlackoutCalendarCard'
+import { SendingLimitsCard } from '@/components/settings/SendingLimitsCard'
+import { TimezoneSelect } from '@/components/campaigns/TimezoneSelect'
+import { DEFAULT_TIMEZONE } from '@/lib/timezone'
 
 const profileFormSchema = z.object({
   name: z.string().min(2, {
     message: 'O nome deve ter pelo menos 2 caracteres.',
   }),
   email: z.string().email(),
+  timezone: z.string().min(1),
 })
 
 type ProfileFormValues = z.infer<typeof profileFormSchema>
@@ -49,6 +56,7 @@ export default function Settings() {
     defaultValues: {
       name: '',
       email: '',
+      timezone: DEFAULT_TIMEZONE,
     },
     mode: 'onChange',
   })
@@ -63,6 +71,7 @@ export default function Settings() {
           form.reset({
             name: profile.name || '',
             email: user.email || '',
+            timezone: profile.timezone || DEFAULT_TIMEZONE,
           })
           if (profile.avatar_url) {
             setPreviewUrl(profile.avatar_url)
@@ -71,6 +80,7 @@ export default function Settings() {
           form.reset({
             name: '',
             email: user.email || '',
+            timezone: DEFAULT_TIMEZONE,
           })
         }
       } catch (error) {
@@ -122,6 +132,7 @@ export default function Settings() {
 
       await profileService.update(user.id, {
         name: data.name,
+        timezone: data.timezone,
         ...(avatarUrl && { avatar_url: avatarUrl }),
       })
 
@@ -161,7 +172,7 @@ export default function Settings() {
       <div className="mb-8">
         <h1 className="text-3xl font-bold tracking-tight">Configurações</h1>
         <p className="text-muted-foreground">
-          Gerencie suas informações de perfil e foto.
+          Gerencie suas informações de perfil, foto e conexão do WhatsApp.
         </p>
       </div>
 
@@ -265,6 +276,25 @@ export default function Settings() {
                         </FormItem>
                       )}
                     />
+
+                    <FormField
+                      control={form.control}
+                      name="timezone"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Fuso horário padrão</FormLabel>
+                          <TimezoneSelect
+                            value={field.value}
+                            onChange={field.onChange}
+                          />
+                          <FormDescription>
+                            Usado por novas campanhas para agendamento, horário
+                            comercial e pausas.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   </div>
                 </div>
 
@@ -288,6 +318,22 @@ export default function Settings() {
           )}
         </CardContent>
       </Card>
+
+      <div className="mt-8">
+        <WhatsAppConnectionCard userId={user.id} />
+      </div>
+
+      <div className="mt-8">
+        <SuppressionListCard userId={user.id} />
+      </div>
+
+      <div className="mt-8">
+        <BlackoutCalendarCard userId={user.id} />
+      </div>
+
+      <div className="mt-8">
+        <SendingLimitsCard userId={user.id} />
+      </div>
     </div>
   )
 }
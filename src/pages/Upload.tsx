@@ -1,9 +1,10 @@
 import { useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useLocation, useNavigate } from 'react-router-dom'
 import { useAuth } from '@/hooks/use-auth'
 import { Loader2 } from 'lucide-react'
 import { toast } from 'sonner'
 import { campaignsService } from '@/services/campaigns'
+import { mediaService } from '@/services/media'
 import { Step1Import } from '@/components/campaigns/Step1Import'
 import { Step2Review } from '@/components/campaigns/Step2Review'
 import {
@@ -11,22 +12,39 @@ import {
   Step3ConfigValues,
 } from '@/components/campaigns/Step3Config'
 import { ParsedContact } from '@/lib/csv'
+import { buildCampaignConfig } from '@/lib/campaign-config'
+import { nextRun } from '@/lib/recurrence'
+import {
+  parseCalendarDate,
+  resolveTimeZone,
+  zonedTimeToUtc,
+} from '@/lib/timezone'
 
 export default function Upload() {
   const { user, loading: authLoading } = useAuth()
   const navigate = useNavigate()
+  const location = useLocation()
+  // Duplicated campaigns arrive as a draft, straight to review
+  const draftId =
+    (location.state as { campaignId?: string } | null)?.campaignId ?? null
 
-  const [currentStep, setCurrentStep] = useState(1)
+  const [currentStep, setCurrentStep] = useState(draftId ? 2 : 1)
   const [isProcessing, setIsProcessing] = useState(false)
-  const [campaignId, setCampaignId] = useState<string | null>(null)
+  const [campaignId, setCampaignId] = useState<string | null>(draftId)
 
   // Handlers
   const handleStep1Next = async (
     parsedContacts: ParsedContact[],
     filename: string,
+    mediaFiles: File[] = [],
   ) => {
     setIsProcessing(true)
     try {
+      // Files referenced by name in the spreadsheet's attachment column
+      if (mediaFiles.length > 0) {
+        await mediaService.uploadMany(mediaFiles)
+      }
+
       // Create campaign draft immediately
       const defaultName = `Campanha ${filename} - ${new Date().toLocaleDateString()}`
 
@@ -59,6 +77,7 @@ export default function Upload() {
     if (!campaignId) return
     setIsProcessing(true)
     try {
+      const timezone = resolveTimeZone(values.timezone)
       let scheduledAt = new Date().toISOString()
 
       if (
@@ -66,61 +85,79 @@ export default function Upload() {
         values.scheduledDate &&
         values.scheduledTime
       ) {
+        // The chosen day and hour are wall-clock time in the campaign's zone
         const [hours, minutes] = values.scheduledTime.split(':').map(Number)
-        const date = new Date(values.scheduledDate)
-        date.setHours(hours, minutes, 0, 0)
-        scheduledAt = date.toISOString()
+        scheduledAt = zonedTimeToUtc(
+          {
+            ...parseCalendarDate(values.scheduledDate)!,
+            hour: hours,
+            minute: minutes,
+          },
+          timezone,
+        ).toISOString()
       } else {
         // Immediate - ensure it's "now"
         scheduledAt = new Date().toISOString()
       }
 
-      // Prepare config JSON
-      const config = {
-        min_interval: values.minInterval,
-        max_interval: values.maxInterval,
-        batch_config: values.useBatching
-          ? {
-              enabled: true,
-              size: values.batchSize,
-              pause_min: values.batchPauseMin,
-              pause_max: values.batchPauseMax,
-            }
-          : { enabled: false },
-        business_hours: {
-          strategy: values.businessHoursStrategy,
-          pause_at: '18:00',
-          resume_at: '08:00',
-        },
-        automatic_pause: values.automaticPause
-          ? {
-              enabled: true,
-              pause_time: values.pauseTime,
-              resume_date: values.resumeDate,
-              resume_time: values.resumeTime,
-            }
-          : { enabled: false },
+      // The first run of a recurring campaign is its first occurrence
+      const firstRun = values.recurrence
+        ? nextRun(values.recurrence, new Date(), timezone, 0)
+        : null
+      if (values.recurrence && !firstRun) {
+        toast.error('A recorrência não tem nenhuma execução futura')
+        return
+      }
+
+      const config = buildCampaignConfig(values)
+
+      // Variants are assigned while the campaign is still a draft, so the
+      // worker can't claim a recipient before it has one
+      if (values.abTest) {
+        await campaignsService.setupAbTest(campaignId, values.abTest)
       }
 
-      // Update campaign in DB
+      // Update campaign in DB. The worker only picks up a campaign with a
+      // start time, so `scheduled_at` is written together with the final
+      // status, once every message has its send time.
       await campaignsService.update(campaignId, {
         name: values.name,
-        config: config as any,
-        scheduled_at: scheduledAt,
-        status: values.scheduleType === 'scheduled' ? 'scheduled' : 'active',
+        config,
+        media_url: values.media?.url ?? null,
+        media_type: values.media?.type ?? null,
+        media_filename: values.media?.filename ?? null,
+        scheduled_at: null,
+        timezone,
       })
 
-      // If immediate, execute post-update actions like resuming and triggering queue
-      if (values.scheduleType === 'immediate') {
-        await campaignsService.resume(campaignId)
-        try {
-          await campaignsService.triggerQueue(campaignId)
-        } catch (e) {
-          console.warn('Queue trigger warning:', e)
+      if (values.recurrence && firstRun) {
+        // The queue worker spawns each run when it is due
+        await campaignsService.makeRecurring(
+          campaignId,
+          values.recurrence,
+          firstRun,
+        )
+      } else {
+        await campaignsService.reschedule(campaignId, new Date(scheduledAt))
+        await campaignsService.update(campaignId, {
+          status: values.scheduleType === 'scheduled' ? 'scheduled' : 'active',
+          scheduled_at: scheduledAt,
+        })
+
+        if (values.scheduleType === 'immediate') {
+          try {
+            await campaignsService.triggerQueue(campaignId)
+          } catch (e) {
+            console.warn('Queue trigger warning:', e)
+          }
         }
       }
 
-      toast.success('Campanha iniciada com sucesso!')
+      toast.success(
+        firstRun
+          ? 'Campanha recorrente criada com sucesso!'
+          : 'Campanha iniciada com sucesso!',
+      )
       navigate(`/disparos/${campaignId}`)
     } catch (error) {
       console.error(error)
@@ -0,0 +1,70 @@
+import { supabase } from '@/lib/supabase/client'
+import { Database } from '@/lib/supabase/types'
+import { BlackoutCalendar } from '@/lib/blackout'
+
+export type BlackoutDate = Database['public']['Tables']['blackout_dates']['Row']
+
+export const blackoutService = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('blackout_dates')
+      .select('*')
+      .order('start_date', { ascending: true })
+
+    if (error) throw error
+    return data as BlackoutDate[]
+  },
+
+  // Everything the schedule needs to skip blocked days for the account
+  async getCalendar(userId: string): Promise<BlackoutCalendar> {
+    const [{ data: profile, error: profileError }, ranges] = await Promise.all([
+      supabase
+        .from('profiles')
+        .select('skip_national_holidays')
+        .eq('id', userId)
+        .single(),
+      this.getAll(),
+    ])
+
+    if (profileError) throw profileError
+    return {
+      nationalHolidays: profile.skip_national_holidays,
+      ranges: ranges.map(({ name, start_date, end_date }) => ({
+        name,
+        start_date,
+        end_date,
+      })),
+    }
+  },
+
+  async add(entry: { name: string; start_date: string; end_date: string }) {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) throw new Error('Usuário não autenticado')
+
+    const { error } = await supabase
+      .from('blackout_dates')
+      .insert({ ...entry, name: entry.name.trim(), user_id: user.id })
+
+    if (error) throw error
+  },
+
+  async remove(id: string) {
+    const { error } = await supabase
+      .from('blackout_dates')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  },
+
+  async setNationalHolidays(userId: string, enabled: boolean) {
+    const { error } = await supabase
+      .from('profiles')
+      .update({ skip_national_holidays: enabled })
+      .eq('id', userId)
+
+    if (error) throw error
+  },
+}
@@ -1,6 +1,23 @@
 import { supabase } from '@/lib/supabase/client'
 import { Database } from '@/lib/supabase/types'
+import {
+  AbTestSetup,
+  assignVariants,
+  serializeAbTestSlice,
+} from '@/lib/ab-testing'
+import { CampaignPriority } from '@/lib/campaign-priority'
+import {
+  calculateCampaignSchedule,
+  mapDbConfigToScheduleConfig,
+} from '@/lib/campaign-utils'
+import { parseAccountLimits } from '@/lib/daily-caps'
+import { campaignSenders, parseSenderRotation } from '@/lib/sender-pool'
+import { parseSenderThroughput } from '@/lib/throughput'
+import { RecurrenceRule, serializeRecurrence } from '@/lib/recurrence'
 import { contactsService } from './contacts'
+import { profileService } from './profile'
+import { blackoutService } from './blackout'
+import { whatsappService } from './whatsapp'
 
 export interface Campaign {
   id: string
@@ -15,6 +32,7 @@ export interface Campaign {
     | 'paused'
     | 'failed'
     | 'canceled'
+    | 'recurring'
   total_messages: number
   sent_messages: number
   execution_time: number
@@ -22,6 +40,31 @@ export interface Campaign {
   started_at: string | null
   finished_at: string | null
   config: Record<string, any> | null
+  media_url: string | null
+  media_type: string | null
+  media_filename: string | null
+  // Filled when the circuit breaker paused the campaign
+  pause_reason: string | null
+  paused_at: string | null
+  // Last time the user resumed it; the circuit breaker counts from there
+  resumed_at: string | null
+  // Who stopped the campaign for good, and when
+  canceled_at: string | null
+  canceled_by: string | null
+  // IANA zone for business hours, pauses and the scheduled start
+  timezone: string | null
+  // Order against the account's other running campaigns
+  priority: CampaignPriority
+  // Recurring campaigns: the stored rule, when the next run is spawned and
+  // how many were. Each run points back through parent_campaign_id.
+  recurrence: Record<string, any> | null
+  next_run_at: string | null
+  occurrence_count: number
+  parent_campaign_id: string | null
+  // A/B test with a sample: its settings, and when the winner is picked
+  // once the sample was sent
+  ab_test: Record<string, any> | null
+  ab_decide_at: string | null
   created_at: string
 }
 
@@ -32,10 +75,90 @@ export interface CampaignMessage {
   status: string
   error_message: string | null
   sent_at: string | null
+  delivered_at: string | null
+  read_at: string | null
+  failed_at: string | null
+  replied_at: string | null
+  rendered_message: string | null
+  attempt_count: number
+  next_attempt_at: string | null
+  last_error_code: string | null
+  sender_id: string | null
+  // Planned send time; null while the campaign is paused
+  scheduled_for: string | null
+  // A/B test variant the recipient got; null while held for the winner
+  variant_id: string | null
+  // Sent the winner after the sample, rather than being part of it
+  ab_rollout: boolean
   contacts: {
     name: string
     phone: string
+    message?: string
+    variables?: Record<string, string> | null
+    media_url?: string | null
   } | null
+  // Number of the pool that sent the message
+  sender?: { label: string | null; phone: string | null } | null
+}
+
+export type CampaignVariant =
+  Database['public']['Tables']['campaign_variants']['Row']
+
+export interface MessageReply {
+  id: string
+  campaign_id: string | null
+  campaign_message_id: string | null
+  contact_id: string | null
+  phone: string
+  sender_name: string | null
+  body: string
+  received_at: string
+  contacts: { name: string; phone: string } | null
+}
+
+export interface MessageAttempt {
+  id: string
+  attempt_number: number
+  status: 'sent' | 'failed'
+  error_code: string | null
+  error_message: string | null
+  provider_message_id: string | null
+  next_attempt_at: string | null
+  attempted_at: string
+}
+
+// Statuses of messages the provider accepted, including later receipts
+export const SENT_MESSAGE_STATUSES = ['sent', 'delivered', 'read']
+
+// Which recipients of a campaign a copy of it goes to
+export type RecipientFilter = 'all' | 'failed' | 'not_replied' | 'not_delivered'
+
+export const RECIPIENT_FILTER_LABELS: Record<RecipientFilter, string> = {
+  all: 'Todos os destinatários',
+  failed: 'Só os que falharam',
+  not_replied: 'Só os que não responderam',
+  not_delivered: 'Só os que nunca receberam',
+}
+
+export function matchesRecipientFilter(
+  message: Pick<CampaignMessage, 'status' | 'replied_at'>,
+  filter: RecipientFilter,
+) {
+  // Opted-out numbers are never messaged again
+  if (message.status === 'suppressed') return false
+
+  switch (filter) {
+    case 'failed':
+      return ['failed', 'error'].includes(message.status)
+    case 'not_replied':
+      return (
+        SENT_MESSAGE_STATUSES.includes(message.status) && !message.replied_at
+      )
+    case 'not_delivered':
+      return !['delivered', 'read'].includes(message.status)
+    default:
+      return true
+  }
 }
 
 export type CampaignInsert = Database['public']['Tables']['campaigns']['Insert']
@@ -55,7 +178,7 @@ export const campaignsService = {
     const { data, error } = await supabase
       .from('campaigns')
       .select(
-        'id, name, status, scheduled_at, started_at, total_messages, config',
+        'id, name, status, scheduled_at, started_at, total_messages, config, timezone',
       )
       .in('status', ['active', 'scheduled', 'processing', 'pending'])
       .order('scheduled_at', { ascending: true })
@@ -75,7 +198,13 @@ export const campaignsService = {
     return data as Campaign
   },
 
-  async create(campaign: CampaignInsert, contactIds: string[]) {
+  // `scheduledFor` is the planned send time of each contact, in the same
+  // order as `contactIds`
+  async create(
+    campaign: CampaignInsert,
+    contactIds: string[],
+    scheduledFor?: Date[],
+  ) {
     const { data: campaignData, error: campaignError } = await supabase
       .from('campaigns')
       .insert(campaign)
@@ -87,10 +216,11 @@ export const campaignsService = {
     if (contactIds.length === 0) return campaignData as Campaign
 
     const chunkSize = 100
-    const messages = contactIds.map((contactId) => ({
+    const messages = contactIds.map((contactId, index) => ({
       campaign_id: campaignData.id,
       contact_id: contactId,
       status: 'aguardando',
+      scheduled_for: scheduledFor?.[index]?.toISOString() ?? null,
     }))
 
     for (let i = 0; i < messages.length; i += chunkSize) {
@@ -110,7 +240,13 @@ export const campaignsService = {
 
   async createDraft(
     name: string,
-    contacts: { name: string; phone: string; message: string }[],
+    contacts: {
+      name: string
+      phone: string
+      message: string
+      variables?: Record<string, string>
+      media?: string
+    }[],
   ) {
     const {
       data: { user },
@@ -134,6 +270,62 @@ export const campaignsService = {
     return await this.create(campaignData, contactIds)
   },
 
+  // New draft with the campaign's config and attachment, for the recipients
+  // that match the filter. It is created like a fresh upload, so it goes
+  // through review and configuration before anything is sent.
+  async duplicate(id: string, filter: RecipientFilter) {
+    const [source, messages] = await Promise.all([
+      this.getById(id),
+      this.getMessages(id),
+    ])
+
+    const contacts = new Map<string, CampaignMessage['contacts']>()
+    for (const message of messages) {
+      if (message.contacts && matchesRecipientFilter(message, filter)) {
+        contacts.set(message.contact_id, message.contacts)
+      }
+    }
+    if (contacts.size === 0) {
+      throw new Error('Nenhum destinatário corresponde ao filtro escolhido')
+    }
+
+    // The copy gets its own contacts, like an upload would, so editing or
+    // deleting them never reaches the original campaign
+    const { data: copies, error: contactsError } = await supabase
+      .from('contacts')
+      .insert(
+        [...contacts.values()].map((contact) => ({
+          name: contact.name,
+          phone: contact.phone,
+          message: contact.message ?? '',
+          variables: contact.variables ?? {},
+          media_url: contact.media_url ?? null,
+          user_id: source.user_id,
+          status: 'pendente',
+        })),
+      )
+      .select('id')
+
+    if (contactsError) throw contactsError
+
+    return await this.create(
+      {
+        name: `${source.name} (cópia)`,
+        user_id: source.user_id,
+        status: 'pending',
+        total_messages: copies.length,
+        sent_messages: 0,
+        config: source.config,
+        media_url: source.media_url,
+        media_type: source.media_type,
+        media_filename: source.media_filename,
+        timezone: source.timezone,
+        priority: source.priority,
+      },
+      copies.map((contact) => contact.id),
+    )
+  },
+
   async update(id: string, updates: Partial<CampaignInsert>) {
     const { data, error } = await supabase
       .from('campaigns')
@@ -149,16 +341,253 @@ export const campaignsService = {
   async pause(id: string) {
     const { error } = await supabase
       .from('campaigns')
-      .update({ status: 'paused' })
+      .update({
+        status: 'paused',
+        pause_reason: null,
+        paused_at: new Date().toISOString(),
+      })
       .eq('id', id)
 
     if (error) throw error
+    // Nobody knows when it will resume, so the remaining ETAs go away
+    await this.applySchedule(id, [])
   },
 
   async resume(id: string) {
+    const campaign = await this.getById(id)
+    // Planned while still paused, so the worker doesn't claim messages
+    // that have no send time yet. A recurring campaign goes back to
+    // spawning runs; it sends nothing itself, so there is nothing to plan.
+    if (!campaign.recurrence) await this.reschedule(id)
+
+    const { error } = await supabase
+      .from('campaigns')
+      .update({
+        status: campaign.recurrence ? 'recurring' : 'active',
+        pause_reason: null,
+        paused_at: null,
+        resumed_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+
+    if (error) throw error
+  },
+
+  // Turns a configured draft into a recurring campaign. Its recipients
+  // become the template every run is copied from, and the queue worker
+  // spawns the first run at `firstRunAt`.
+  async makeRecurring(id: string, rule: RecurrenceRule, firstRunAt: Date) {
+    // Runs are copied from the recipients alone, without variants or the
+    // recipients held for a winner
+    const { count: variantCount, error: variantsError } = await supabase
+      .from('campaign_variants')
+      .select('id', { count: 'exact', head: true })
+      .eq('campaign_id', id)
+
+    if (variantsError) throw variantsError
+    if (variantCount) {
+      throw new Error('Campanhas recorrentes não podem ter teste A/B')
+    }
+
+    const { error: messagesError } = await supabase
+      .from('campaign_messages')
+      .update({ status: 'template', scheduled_for: null })
+      .eq('campaign_id', id)
+      .in('status', ['aguardando', 'pending'])
+
+    if (messagesError) throw messagesError
+
+    const { error } = await supabase
+      .from('campaigns')
+      .update({
+        status: 'recurring',
+        recurrence: serializeRecurrence(rule),
+        scheduled_at: firstRunAt.toISOString(),
+        next_run_at: firstRunAt.toISOString(),
+        occurrence_count: 0,
+      })
+      .eq('id', id)
+
+    if (error) throw error
+  },
+
+  // Stores the variants and gives each waiting recipient one, or holds it
+  // back for the winner when the test has a sample. Called on the draft,
+  // before it is launched.
+  async setupAbTest(id: string, setup: AbTestSetup) {
+    const campaign = await this.getById(id)
+    if (campaign.recurrence) {
+      throw new Error('Campanhas recorrentes não podem ter teste A/B')
+    }
+
+    // A launch that failed halfway may have left a setup behind
+    const { error: clearError } = await supabase
+      .from('campaign_variants')
+      .delete()
+      .eq('campaign_id', id)
+    if (clearError) throw clearError
+
+    const { error: holdoutError } = await supabase
+      .from('campaign_messages')
+      .update({ status: 'aguardando' })
+      .eq('campaign_id', id)
+      .eq('status', 'ab_holdout')
+    if (holdoutError) throw holdoutError
+
+    const { data: variants, error: variantsError } = await supabase
+      .from('campaign_variants')
+      .insert(
+        setup.variants.map((variant) => ({
+          campaign_id: id,
+          label: variant.label,
+          message: variant.message,
+          split_percent: variant.split,
+        })),
+      )
+      .select()
+
+    if (variantsError) throw variantsError
+    const variantIds = setup.variants.map(
+      (variant) => variants.find((v) => v.label === variant.label)!.id,
+    )
+
+    const { data: messages, error: messagesError } = await supabase
+      .from('campaign_messages')
+      .select('id')
+      .eq('campaign_id', id)
+      .in('status', ['aguardando', 'pending'])
+
+    if (messagesError) throw messagesError
+
+    const assignment = assignVariants(messages.length, setup, Math.random)
+    const groups = new Map<string | null, string[]>()
+    messages.forEach((message, index) => {
+      const variant = assignment[index]
+      const key = variant === null ? null : variantIds[variant]
+      groups.set(key, [...(groups.get(key) ?? []), message.id])
+    })
+
+    const chunkSize = 100
+    for (const [variantId, ids] of groups) {
+      for (let i = 0; i < ids.length; i += chunkSize) {
+        const { error } = await supabase
+          .from('campaign_messages')
+          .update(
+            variantId
+              ? { variant_id: variantId }
+              : { status: 'ab_holdout', scheduled_for: null },
+          )
+          .in('id', ids.slice(i, i + chunkSize))
+
+        if (error) throw error
+      }
+    }
+
     const { error } = await supabase
       .from('campaigns')
-      .update({ status: 'active' })
+      .update({
+        ab_test: setup.testSlice ? serializeAbTestSlice(setup.testSlice) : null,
+        ab_decide_at: null,
+      })
+      .eq('id', id)
+
+    if (error) throw error
+  },
+
+  async getVariants(campaignId: string) {
+    const { data, error } = await supabase
+      .from('campaign_variants')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .order('label', { ascending: true })
+
+    if (error) throw error
+    return data as CampaignVariant[]
+  },
+
+  // The runs a recurring campaign spawned, newest first
+  async getRuns(parentId: string) {
+    const { data, error } = await supabase
+      .from('campaigns')
+      .select('*')
+      .eq('parent_campaign_id', parentId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data as Campaign[]
+  },
+
+  // Stops the campaign for good: the messages still waiting are canceled,
+  // what was already sent stays. Returns how many were canceled.
+  async cancel(id: string) {
+    const { data, error } = await supabase.rpc('cancel_campaign', {
+      p_campaign_id: id,
+    })
+
+    if (error) throw error
+    return data as number
+  },
+
+  // Sets the planned send time of the messages still waiting, in the
+  // order they were planned. An empty list clears them.
+  async applySchedule(id: string, times: Date[]) {
+    const { error } = await supabase.rpc('apply_message_schedule', {
+      p_campaign_id: id,
+      p_times: times.map((time) => time.toISOString()),
+    })
+
+    if (error) throw error
+  },
+
+  // Plans the remaining messages again, from now or from the scheduled
+  // start when that is still ahead, with the account's current calendar,
+  // caps and numbers. Used after the campaign is resumed or edited, and
+  // before launch with the start `startAt` it is about to be given.
+  async reschedule(id: string, startAt?: Date) {
+    const campaign = await this.getById(id)
+    const [profile, blackout, senders, remaining] = await Promise.all([
+      profileService.get(campaign.user_id),
+      blackoutService.getCalendar(campaign.user_id),
+      whatsappService.getConnections(campaign.user_id),
+      supabase
+        .from('campaign_messages')
+        .select('id', { count: 'exact', head: true })
+        .eq('campaign_id', id)
+        .in('status', ['aguardando', 'pending']),
+    ])
+    if (remaining.error) throw remaining.error
+
+    const now = new Date()
+    const scheduledAt =
+      startAt ??
+      (campaign.scheduled_at ? new Date(campaign.scheduled_at) : null)
+    const schedule = calculateCampaignSchedule(
+      {
+        ...mapDbConfigToScheduleConfig(
+          campaign.config,
+          scheduledAt && scheduledAt > now ? scheduledAt : now,
+          campaign.timezone,
+        ),
+        blackout,
+        accountLimits: parseAccountLimits(profile),
+        throughput: parseSenderThroughput(profile),
+        senders: campaignSenders(parseSenderRotation(campaign.config), senders),
+      },
+      remaining.count || 0,
+      Math.random,
+    )
+
+    await this.applySchedule(
+      id,
+      schedule.map((item) => item.sendTime),
+    )
+  },
+
+  // Takes effect from the next message, also while the campaign runs
+  async setPriority(id: string, priority: CampaignPriority) {
+    const { error } = await supabase
+      .from('campaigns')
+      .update({ priority })
       .eq('id', id)
 
     if (error) throw error
@@ -188,7 +617,9 @@ export const campaignsService = {
   async getMessages(campaignId: string) {
     const { data, error } = await supabase
       .from('campaign_messages')
-      .select('*, contacts(name, phone, message)')
+      .select(
+        '*, contacts(name, phone, message, variables, media_url), sender:whatsapp_connections(label, phone)',
+      )
       .eq('campaign_id', campaignId)
       .order('id', { ascending: true })
 
@@ -196,6 +627,33 @@ export const campaignsService = {
     return data as unknown as CampaignMessage[]
   },
 
+  async getReplies(campaignId: string) {
+    const { data, error } = await supabase
+      .from('message_replies')
+      .select(
+        'id, campaign_id, campaign_message_id, contact_id, phone, sender_name, body, received_at, contacts(name, phone)',
+      )
+      .eq('campaign_id', campaignId)
+      .order('received_at', { ascending: false })
+
+    if (error) throw error
+    return data as unknown as MessageReply[]
+  },
+
+  async getAttempts(messageId: string) {
+    const { data, error } = await supabase
+      .from('campaign_message_attempts')
+      .select(
+        'id, attempt_number, status, error_code, error_message, provider_message_id, next_attempt_at, attempted_at',
+      )
+      .eq('campaign_message_id', messageId)
+      .order('attempt_number', { ascending: true })
+
+    if (error) throw error
+    return data as MessageAttempt[]
+  },
+
+  // Manual retries are one extra attempt on top of the automatic ones
   async retryMessage(messageId: string) {
     const { data: message, error } = await supabase
       .from('campaign_messages')
@@ -203,6 +661,12 @@ export const campaignsService = {
         status: 'aguardando',
         error_message: null,
         sent_at: null,
+        delivered_at: null,
+        read_at: null,
+        failed_at: null,
+        provider_message_id: null,
+        next_attempt_at: null,
+        last_error_code: null,
       })
       .eq('id', messageId)
       .select('campaign_id')
@@ -1,5 +1,7 @@
 import { supabase } from '@/lib/supabase/client'
 import { Database } from '@/lib/supabase/types'
+import { composeContactMessage } from '@/lib/template'
+import { mediaService } from './media'
 
 export type Contact = Database['public']['Tables']['contacts']['Row']
 
@@ -27,7 +29,14 @@ export const contactsService = {
   },
 
   async createBulk(
-    contacts: { name: string; phone: string; message: string }[],
+    contacts: {
+      name: string
+      phone: string
+      message: string
+      variables?: Record<string, string>
+      // URL or name of a file uploaded to the media bucket
+      media?: string
+    }[],
   ) {
     const {
       data: { user },
@@ -39,6 +48,10 @@ export const contactsService = {
       name: contact.name,
       phone: contact.phone,
       message: contact.message,
+      variables: contact.variables || {},
+      media_url: contact.media
+        ? mediaService.resolveReference(user.id, contact.media)
+        : null,
       user_id: user.id,
       status: 'pendente',
     }))
@@ -79,9 +92,10 @@ export const contactsService = {
   async sendWhatsappMessage(contact: Contact) {
     const { error } = await supabase.functions.invoke('send-whatsapp-message', {
       body: {
-        contactId: contact.id,
+        contact_id: contact.id,
+        name: contact.name,
         phone: contact.phone,
-        message: contact.message,
+        message: composeContactMessage(contact).text,
       },
     })
 
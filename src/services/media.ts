@@ -0,0 +1,71 @@
+import { supabase } from '@/lib/supabase/client'
+import {
+  MediaAttachment,
+  mediaTypeFromFilename,
+  mediaTypeFromMime,
+} from '@/lib/media'
+
+const MEDIA_BUCKET = 'campaign-media'
+
+// Storage keys can't hold accents or most punctuation. Uploads and
+// spreadsheet references go through the same function so they match.
+function sanitizeFileName(name: string) {
+  return name
+    .trim()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+}
+
+function getPublicUrl(userId: string, fileName: string) {
+  const { data } = supabase.storage
+    .from(MEDIA_BUCKET)
+    .getPublicUrl(`${userId}/${sanitizeFileName(fileName)}`)
+  return data.publicUrl
+}
+
+export const mediaService = {
+  async upload(file: File): Promise<MediaAttachment> {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) throw new Error('Usuário não autenticado')
+
+    // Keep the original name so spreadsheets can reference the file
+    const filePath = `${user.id}/${sanitizeFileName(file.name)}`
+
+    const { error: uploadError } = await supabase.storage
+      .from(MEDIA_BUCKET)
+      .upload(filePath, file, {
+        upsert: true,
+        contentType: file.type || undefined,
+      })
+
+    if (uploadError) {
+      throw uploadError
+    }
+
+    const { data } = supabase.storage.from(MEDIA_BUCKET).getPublicUrl(filePath)
+    return {
+      url: data.publicUrl,
+      type:
+        mediaTypeFromMime(file.type) ||
+        mediaTypeFromFilename(file.name) ||
+        'document',
+      filename: file.name,
+      mimeType: file.type || null,
+    }
+  },
+
+  async uploadMany(files: File[]) {
+    return Promise.all(files.map((file) => this.upload(file)))
+  },
+
+  // A spreadsheet cell holds either a full URL or the name of an uploaded file
+  resolveReference(userId: string, value: string) {
+    const trimmed = value.trim()
+    if (!trimmed) return null
+    if (/^https?:\/\//i.test(trimmed)) return trimmed
+    return getPublicUrl(userId, trimmed)
+  },
+}
@@ -5,6 +5,12 @@ export type ProfileData = {
   name: string | null
   email: string | null
   avatar_url: string | null
+  timezone: string
+  daily_send_limit: number | null
+  warmup_enabled: boolean
+  warmup_schedule: number[]
+  sender_min_spacing_seconds: number
+  sender_hourly_limit: number | null
   created_at?: string
 }
 
@@ -22,7 +28,16 @@ export const profileService = {
 
   async update(
     userId: string,
-    data: { name?: string; avatar_url?: string | null },
+    data: {
+      name?: string
+      avatar_url?: string | null
+      timezone?: string
+      daily_send_limit?: number | null
+      warmup_enabled?: boolean
+      warmup_schedule?: number[]
+      sender_min_spacing_seconds?: number
+      sender_hourly_limit?: number | null
+    },
   ) {
     const { error } = await supabase
       .from('profiles')
@@ -0,0 +1,196 @@
+import { supabase } from '@/lib/supabase/client'
+import { Database, Json } from '@/lib/supabase/types'
+import { EnrollmentStatus, stepDueAt } from '@/lib/sequences'
+import { WeeklyWindows } from '@/lib/sending-windows'
+import { resolveTimeZone } from '@/lib/timezone'
+
+export type Sequence = Database['public']['Tables']['sequences']['Row']
+export type SequenceStep = Database['public']['Tables']['sequence_steps']['Row']
+
+// List row, with how many steps and contacts the sequence has
+export interface SequenceSummary extends Sequence {
+  sequence_steps: { count: number }[]
+  sequence_enrollments: { count: number }[]
+}
+
+export interface SequenceEnrollment {
+  id: string
+  sequence_id: string
+  contact_id: string
+  status: EnrollmentStatus
+  current_step: number
+  next_step_at: string | null
+  last_sent_at: string | null
+  error_message: string | null
+  enrolled_at: string
+  exited_at: string | null
+  contacts: { name: string; phone: string } | null
+}
+
+// What the editor saves for each step; the position is the list order
+export interface SequenceStepInput {
+  message: string
+  delay_minutes: number
+  send_window: WeeklyWindows | null
+}
+
+export const sequencesService = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('sequences')
+      .select('*, sequence_steps(count), sequence_enrollments(count)')
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data as unknown as SequenceSummary[]
+  },
+
+  async getById(id: string) {
+    const { data, error } = await supabase
+      .from('sequences')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error) throw error
+    return data as Sequence
+  },
+
+  async getSteps(sequenceId: string) {
+    const { data, error } = await supabase
+      .from('sequence_steps')
+      .select('*')
+      .eq('sequence_id', sequenceId)
+      .order('position', { ascending: true })
+
+    if (error) throw error
+    return data as SequenceStep[]
+  },
+
+  async getEnrollments(sequenceId: string) {
+    const { data, error } = await supabase
+      .from('sequence_enrollments')
+      .select('*, contacts(name, phone)')
+      .eq('sequence_id', sequenceId)
+      .order('enrolled_at', { ascending: false })
+
+    if (error) throw error
+    return data as unknown as SequenceEnrollment[]
+  },
+
+  async create(name: string, timezone: string) {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) throw new Error('Usuário não autenticado')
+
+    const { data, error } = await supabase
+      .from('sequences')
+      .insert({ name: name.trim(), timezone, user_id: user.id })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data as Sequence
+  },
+
+  async update(
+    id: string,
+    updates: Partial<Pick<Sequence, 'name' | 'status' | 'timezone'>>,
+  ) {
+    const { error } = await supabase
+      .from('sequences')
+      .update(updates)
+      .eq('id', id)
+
+    if (error) throw error
+  },
+
+  // Replaces the steps. Contacts keep their place by position: someone who
+  // got two steps gets the third one next, whatever it now says. Steps are
+  // overwritten in place and only the positions past the new end removed,
+  // so the worker never finds the sequence empty mid-save and the history
+  // keeps pointing at its steps.
+  async saveSteps(sequenceId: string, steps: SequenceStepInput[]) {
+    if (steps.length > 0) {
+      const { error } = await supabase.from('sequence_steps').upsert(
+        steps.map((step, index) => ({
+          sequence_id: sequenceId,
+          position: index + 1,
+          message: step.message,
+          delay_minutes: step.delay_minutes,
+          send_window: step.send_window as unknown as Json,
+        })),
+        { onConflict: 'sequence_id,position' },
+      )
+
+      if (error) throw error
+    }
+
+    const { error: deleteError } = await supabase
+      .from('sequence_steps')
+      .delete()
+      .eq('sequence_id', sequenceId)
+      .gt('position', steps.length)
+
+    if (deleteError) throw deleteError
+  },
+
+  // Contacts already in the sequence, whatever their status, are left as
+  // they are. Returns how many were enrolled.
+  async enroll(
+    sequence: Sequence,
+    firstStep: SequenceStep,
+    contactIds: string[],
+  ) {
+    const firstAt = stepDueAt(
+      firstStep,
+      new Date(),
+      resolveTimeZone(sequence.timezone),
+    )
+    if (!firstAt) {
+      throw new Error('O primeiro passo não tem nenhum horário de envio')
+    }
+
+    const chunkSize = 100
+    let enrolled = 0
+    for (let i = 0; i < contactIds.length; i += chunkSize) {
+      const { data, error } = await supabase
+        .from('sequence_enrollments')
+        .upsert(
+          contactIds.slice(i, i + chunkSize).map((contactId) => ({
+            sequence_id: sequence.id,
+            contact_id: contactId,
+            next_step_at: firstAt.toISOString(),
+          })),
+          { onConflict: 'sequence_id,contact_id', ignoreDuplicates: true },
+        )
+        .select('id')
+
+      if (error) throw error
+      enrolled += data?.length ?? 0
+    }
+    return enrolled
+  },
+
+  // Takes the contact out without sending anything else
+  async removeEnrollment(id: string) {
+    const { error } = await supabase
+      .from('sequence_enrollments')
+      .update({
+        status: 'removed',
+        next_step_at: null,
+        exited_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', 'active')
+
+    if (error) throw error
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase.from('sequences').delete().eq('id', id)
+
+    if (error) throw error
+  },
+}
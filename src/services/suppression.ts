@@ -0,0 +1,75 @@
+import { supabase } from '@/lib/supabase/client'
+import { Database } from '@/lib/supabase/types'
+import { parseOptOutKeywords } from '@/lib/opt-out'
+
+export type SuppressionEntry =
+  Database['public']['Tables']['suppression_list']['Row']
+
+export const suppressionService = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('suppression_list')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data as SuppressionEntry[]
+  },
+
+  // Normalized numbers (see normalizePhone) for matching recipients
+  async getSuppressedPhones() {
+    const { data, error } = await supabase
+      .from('suppression_list')
+      .select('normalized_phone')
+
+    if (error) throw error
+    return new Set(data.map((entry) => entry.normalized_phone))
+  },
+
+  async add(phone: string) {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) throw new Error('Usuário não autenticado')
+
+    // normalized_phone is filled by a trigger, so a number already on the
+    // list in another format is ignored instead of duplicated
+    const { error } = await supabase
+      .from('suppression_list')
+      .upsert(
+        { user_id: user.id, phone: phone.trim(), reason: 'manual' },
+        { onConflict: 'user_id,normalized_phone', ignoreDuplicates: true },
+      )
+
+    if (error) throw error
+  },
+
+  async remove(id: string) {
+    const { error } = await supabase
+      .from('suppression_list')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  },
+
+  async getKeywords(userId: string) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('opt_out_keywords')
+      .eq('id', userId)
+      .single()
+
+    if (error) throw error
+    return parseOptOutKeywords(data.opt_out_keywords)
+  },
+
+  async saveKeywords(userId: string, keywords: string[]) {
+    const { error } = await supabase
+      .from('profiles')
+      .update({ opt_out_keywords: parseOptOutKeywords(keywords) })
+      .eq('id', userId)
+
+    if (error) throw error
+  },
+}
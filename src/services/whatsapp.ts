@@ -0,0 +1,105 @@
+import { supabase } from '@/lib/supabase/client'
+import type { SenderStatus } from '@/lib/sender-pool'
+
+export type WhatsAppProviderType = 'n8n' | 'evolution' | 'meta' | 'mock'
+
+// One sender number of the account's pool
+export type WhatsAppConnection = {
+  id: string
+  label: string | null
+  phone: string | null
+  status: SenderStatus
+  status_reason: string | null
+  daily_limit: number | null
+  min_interval_seconds: number
+  hourly_limit: number | null
+  consecutive_failures: number
+  last_used_at: string | null
+  // Day 1 of the number's warm-up, set on its first send
+  warmup_started_on: string | null
+  provider: WhatsAppProviderType
+  endpoint: string | null
+  instance_id: string | null
+  token_hint: string | null
+  last_tested_at: string | null
+  last_test_ok: boolean | null
+  last_test_message: string | null
+  updated_at: string
+}
+
+export type WhatsAppConnectionInput = {
+  // Empty to add a new number
+  id?: string
+  label?: string
+  phone?: string
+  daily_limit?: number | null
+  min_interval_seconds?: number
+  hourly_limit?: number | null
+  provider: WhatsAppProviderType
+  endpoint?: string
+  instance_id?: string
+  // Left empty to keep the stored token
+  token?: string
+}
+
+export type ConnectionTestResult = {
+  ok: boolean
+  message: string
+}
+
+async function invokeConnectionFunction(body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke(
+    'whatsapp-connection',
+    { body },
+  )
+
+  if (error) throw error
+  if (data && data.success === false) {
+    throw new Error(data.error || 'Erro desconhecido na conexão')
+  }
+  return data
+}
+
+export const whatsappService = {
+  async getConnections(userId: string) {
+    // token_encrypted is not readable from the client
+    const { data, error } = await supabase
+      .from('whatsapp_connections')
+      .select(
+        'id, label, phone, status, status_reason, daily_limit, min_interval_seconds, hourly_limit, consecutive_failures, last_used_at, warmup_started_on, provider, endpoint, instance_id, token_hint, last_tested_at, last_test_ok, last_test_message, updated_at',
+      )
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return data as WhatsAppConnection[]
+  },
+
+  // Returns the id of the saved number
+  async saveConnection(input: WhatsAppConnectionInput) {
+    const data = await invokeConnectionFunction({ action: 'save', ...input })
+    return data?.id as string
+  },
+
+  // Pause a number or put it back in rotation
+  async setConnectionStatus(id: string, status: 'active' | 'paused') {
+    await invokeConnectionFunction({ action: 'status', id, status })
+  },
+
+  async deleteConnection(id: string) {
+    const { error } = await supabase
+      .from('whatsapp_connections')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  },
+
+  async testConnection(input: WhatsAppConnectionInput) {
+    const data = await invokeConnectionFunction({ action: 'test', ...input })
+    return {
+      ok: !!data?.ok,
+      message: data?.message || '',
+    } as ConnectionTestResult
+  },
+}
@@ -0,0 +1,284 @@
+// A/B tests of a campaign's message: two to five variants, each sent to
+// its share of the recipients. With a test slice only a sample gets the
+// variants at first; once the evaluation window is over the queue worker
+// picks the winner and sends it to everybody else.
+// This module must stay free of Deno/browser specific APIs.
+
+export const MIN_VARIANTS = 2
+export const MAX_VARIANTS = 5
+export const VARIANT_LABELS = ['A', 'B', 'C', 'D', 'E']
+
+export type AbWinnerMetric = 'reply_rate' | 'delivery_rate'
+
+export const AB_WINNER_METRIC_LABELS: Record<AbWinnerMetric, string> = {
+  reply_rate: 'Maior taxa de resposta',
+  delivery_rate: 'Maior taxa de entrega',
+}
+
+export interface VariantDraft {
+  label: string
+  // Template with {{placeholders}} and spintax; replaces the message of
+  // the recipient's row
+  message: string
+  // Share of the recipients, in percent
+  split: number
+}
+
+export interface AbTestSlice {
+  // Share of the recipients in the sample, in percent
+  testPercent: number
+  // Wait after the sample is sent before the winner is picked
+  evaluationMinutes: number
+  metric: AbWinnerMetric
+}
+
+export interface AbTestSetup {
+  variants: VariantDraft[]
+  // Null sends the variants to every recipient right away
+  testSlice: AbTestSlice | null
+}
+
+export const DEFAULT_AB_TEST_SLICE: AbTestSlice = {
+  testPercent: 20,
+  evaluationMinutes: 4 * 60,
+  metric: 'reply_rate',
+}
+
+// Even shares, the first variants taking what doesn't divide
+export function evenSplits(count: number) {
+  const base = Math.floor(100 / count)
+  return Array.from(
+    { length: count },
+    (_, index) => base + (index < 100 - base * count ? 1 : 0),
+  )
+}
+
+export function defaultAbTestSetup(): AbTestSetup {
+  const splits = evenSplits(MIN_VARIANTS)
+  return {
+    variants: splits.map((split, index) => ({
+      label: VARIANT_LABELS[index],
+      message: '',
+      split,
+    })),
+    testSlice: null,
+  }
+}
+
+// Reads the `ab_test` column (snake_case) or a form value (camelCase).
+// Null when the campaign has no test slice.
+export function parseAbTestSlice(value: unknown): AbTestSlice | null {
+  if (!value || typeof value !== 'object') return null
+  const raw = value as Record<string, any>
+  const testPercent = Math.round(Number(raw.test_percent ?? raw.testPercent))
+  const evaluationMinutes = Math.round(
+    Number(raw.evaluation_minutes ?? raw.evaluationMinutes),
+  )
+  if (!(testPercent >= 1 && testPercent <= 99)) return null
+
+  return {
+    testPercent,
+    evaluationMinutes:
+      evaluationMinutes >= 0
+        ? evaluationMinutes
+        : DEFAULT_AB_TEST_SLICE.evaluationMinutes,
+    metric: raw.metric === 'delivery_rate' ? 'delivery_rate' : 'reply_rate',
+  }
+}
+
+export function serializeAbTestSlice(slice: AbTestSlice) {
+  return {
+    test_percent: slice.testPercent,
+    evaluation_minutes: slice.evaluationMinutes,
+    metric: slice.metric,
+  }
+}
+
+// Portuguese error for the form, or null when the setup can be launched.
+// `recipients` is checked when given: each variant needs one of them.
+export function validateAbTestSetup(
+  setup: AbTestSetup,
+  recipients?: number,
+): string | null {
+  const { variants, testSlice } = setup
+  if (variants.length < MIN_VARIANTS || variants.length > MAX_VARIANTS) {
+    return `Use de ${MIN_VARIANTS} a ${MAX_VARIANTS} variações.`
+  }
+  if (recipients !== undefined && recipients < variants.length) {
+    return `São necessários ao menos ${variants.length} contatos para testar ${variants.length} variações.`
+  }
+  const empty = variants.find((variant) => !variant.message.trim())
+  if (empty) return `Escreva a mensagem da variação ${empty.label}.`
+  if (variants.some((variant) => !Number.isInteger(variant.split))) {
+    return 'As porcentagens das variações devem ser números inteiros.'
+  }
+  if (variants.some((variant) => variant.split < 1)) {
+    return 'Cada variação precisa de ao menos 1% dos contatos.'
+  }
+  if (variants.reduce((sum, variant) => sum + variant.split, 0) !== 100) {
+    return 'As porcentagens das variações devem somar 100%.'
+  }
+  if (
+    testSlice &&
+    !(testSlice.testPercent >= 1 && testSlice.testPercent <= 99)
+  ) {
+    return 'A amostra deve ter entre 1% e 99% dos contatos.'
+  }
+  return null
+}
+
+// How many recipients get each share, summing to `total` (largest
+// remainder, ties to the first variants). When there are enough
+// recipients every share gets at least one, so no variant goes untested.
+export function splitCounts(total: number, splits: number[]) {
+  const reserved = total >= splits.length ? 1 : 0
+  const rest = total - reserved * splits.length
+  const sum = splits.reduce((acc, split) => acc + split, 0) || 1
+  const exact = splits.map((split) => (rest * split) / sum)
+  const counts = exact.map(Math.floor)
+  let left = rest - counts.reduce((acc, count) => acc + count, 0)
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+  for (const { index } of byRemainder) {
+    if (left <= 0) break
+    counts[index]++
+    left--
+  }
+  return counts.map((count) => count + reserved)
+}
+
+// Recipients in the sample: the share rounded up, and at least one per
+// variant when there are that many recipients
+export function testSliceSize(
+  total: number,
+  testPercent: number,
+  variantCount: number,
+) {
+  const size = Math.ceil((total * testPercent) / 100)
+  return Math.min(total, Math.max(size, variantCount))
+}
+
+// Variant index for each of `total` recipients, drawn at random; null for
+// the ones held back until the winner is known. Throws when there are
+// fewer recipients than variants.
+export function assignVariants(
+  total: number,
+  setup: AbTestSetup,
+  random: () => number,
+): (number | null)[] {
+  if (total < setup.variants.length) {
+    throw new Error(
+      `São necessários ao menos ${setup.variants.length} contatos para testar ${setup.variants.length} variações.`,
+    )
+  }
+  const sampled = setup.testSlice
+    ? testSliceSize(total, setup.testSlice.testPercent, setup.variants.length)
+    : total
+  const counts = splitCounts(
+    sampled,
+    setup.variants.map((variant) => variant.split),
+  )
+
+  const slots: (number | null)[] = counts.flatMap((count, index) =>
+    Array<number>(count).fill(index),
+  )
+  while (slots.length < total) slots.push(null)
+
+  // Fisher-Yates, so who gets what doesn't follow the import order
+  for (let i = slots.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[slots[i], slots[j]] = [slots[j], slots[i]]
+  }
+  return slots
+}
+
+// Statuses of messages the provider accepted, including later receipts
+const SENT_STATUSES = ['sent', 'delivered', 'read']
+
+export interface VariantStats {
+  // Recipients assigned to the variant
+  total: number
+  sent: number
+  delivered: number
+  failed: number
+  replied: number
+  // Shares of the sent messages, 0-1; failures are a share of the attempts
+  deliveryRate: number
+  replyRate: number
+  failureRate: number
+}
+
+export function variantStats(
+  messages: { status: string; replied_at: string | null }[],
+): VariantStats {
+  const sent = messages.filter((m) => SENT_STATUSES.includes(m.status)).length
+  const delivered = messages.filter((m) =>
+    ['delivered', 'read'].includes(m.status),
+  ).length
+  const failed = messages.filter((m) =>
+    ['failed', 'error'].includes(m.status),
+  ).length
+  const replied = messages.filter((m) => m.replied_at).length
+
+  return {
+    total: messages.length,
+    sent,
+    delivered,
+    failed,
+    replied,
+    deliveryRate: sent > 0 ? delivered / sent : 0,
+    replyRate: sent > 0 ? replied / sent : 0,
+    failureRate: sent + failed > 0 ? failed / (sent + failed) : 0,
+  }
+}
+
+// Stats of each variant in the sample, keyed by its id. Messages sent to
+// the rest once the winner was picked are left out, so they don't tilt
+// the comparison towards the winner.
+export function statsByVariant(
+  variantIds: string[],
+  messages: {
+    variant_id: string | null
+    ab_rollout: boolean
+    status: string
+    replied_at: string | null
+  }[],
+) {
+  return new Map(
+    variantIds.map((id) => [
+      id,
+      variantStats(
+        messages.filter(
+          (message) => message.variant_id === id && !message.ab_rollout,
+        ),
+      ),
+    ]),
+  )
+}
+
+// The variant with the best rate on the metric; more messages sent breaks
+// a tie, then the order of the variants. Null when none was sent.
+export function pickWinner(
+  variantIds: string[],
+  stats: Map<string, VariantStats>,
+  metric: AbWinnerMetric,
+): string | null {
+  const rate = (s: VariantStats) =>
+    metric === 'delivery_rate' ? s.deliveryRate : s.replyRate
+
+  let winner: string | null = null
+  for (const id of variantIds) {
+    const current = stats.get(id)
+    if (!current || current.sent === 0) continue
+    const best = winner ? stats.get(winner)! : null
+    if (
+      !best ||
+      rate(current) > rate(best) ||
+      (rate(current) === rate(best) && current.sent > best.sent)
+    ) {
+      winner = id
+    }
+  }
+  return winner
+}
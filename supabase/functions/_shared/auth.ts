@@ -0,0 +1,27 @@
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+
+export type RequestCaller =
+  | { kind: 'service' }
+  | { kind: 'user'; userId: string }
+  | { kind: 'anonymous' }
+
+// Identifies who is calling a function: the queue worker (service role key)
+// or a signed-in user of the app (their access token)
+export async function getRequestCaller(
+  req: Request,
+  supabase: SupabaseClient,
+): Promise<RequestCaller> {
+  const token = req.headers
+    .get('Authorization')
+    ?.replace(/^Bearer\s+/i, '')
+    .trim()
+  if (!token) return { kind: 'anonymous' }
+
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return { kind: 'service' }
+  }
+
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error || !data.user) return { kind: 'anonymous' }
+  return { kind: 'user', userId: data.user.id }
+}
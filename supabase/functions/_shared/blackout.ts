@@ -0,0 +1,140 @@
+// Days on which campaigns don't send: the Brazilian national holidays,
+// computed per year (the movable ones from Easter), plus the dates and
+// ranges each account blocks out. Used by the schedule preview, the config
+// step warning and the queue worker.
+// This module must stay free of Deno/browser specific APIs.
+import {
+  calendarDateKey,
+  type CalendarDate,
+  getZonedParts,
+  zonedTimeToUtc,
+} from './timezone.ts'
+
+export interface BlackoutRange {
+  name: string
+  // 'YYYY-MM-DD', both inclusive
+  start_date: string
+  end_date: string
+}
+
+export interface BlackoutCalendar {
+  nationalHolidays: boolean
+  ranges: BlackoutRange[]
+}
+
+export interface Holiday {
+  date: string
+  name: string
+}
+
+export const EMPTY_BLACKOUT_CALENDAR: BlackoutCalendar = {
+  nationalHolidays: true,
+  ranges: [],
+}
+
+// Through Date.UTC so out of range days roll over into the next month
+function toDateKey(day: CalendarDate) {
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day))
+  return calendarDateKey({
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  })
+}
+
+// Gregorian Easter Sunday (anonymous Gregorian algorithm)
+export function easterSunday(year: number): CalendarDate {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return { year, month, day }
+}
+
+const holidayCache = new Map<number, Holiday[]>()
+
+// National holidays plus Carnaval and Corpus Christi, which are optional
+// days off nationally but when most businesses close
+export function brazilianHolidays(year: number): Holiday[] {
+  const cached = holidayCache.get(year)
+  if (cached) return cached
+
+  const easter = easterSunday(year)
+  const fromEaster = (days: number) =>
+    toDateKey({ ...easter, day: easter.day + days })
+  const fixed = (month: number, day: number) => toDateKey({ year, month, day })
+
+  const holidays = [
+    { date: fixed(1, 1), name: 'Confraternização Universal' },
+    { date: fromEaster(-48), name: 'Carnaval' },
+    { date: fromEaster(-47), name: 'Carnaval' },
+    { date: fromEaster(-2), name: 'Sexta-feira Santa' },
+    { date: fixed(4, 21), name: 'Tiradentes' },
+    { date: fixed(5, 1), name: 'Dia do Trabalho' },
+    { date: fromEaster(60), name: 'Corpus Christi' },
+    { date: fixed(9, 7), name: 'Independência do Brasil' },
+    { date: fixed(10, 12), name: 'Nossa Senhora Aparecida' },
+    { date: fixed(11, 2), name: 'Finados' },
+    { date: fixed(11, 15), name: 'Proclamação da República' },
+    {
+      date: fixed(11, 20),
+      name: 'Dia Nacional de Zumbi e da Consciência Negra',
+    },
+    { date: fixed(12, 25), name: 'Natal' },
+  ].sort((a, b) => a.date.localeCompare(b.date))
+
+  holidayCache.set(year, holidays)
+  return holidays
+}
+
+// Name of the holiday or blocked range covering the day, or null
+export function getBlackoutReason(
+  dateKey: string,
+  calendar: BlackoutCalendar,
+): string | null {
+  if (calendar.nationalHolidays) {
+    const holiday = brazilianHolidays(Number(dateKey.slice(0, 4))).find(
+      (h) => h.date === dateKey,
+    )
+    if (holiday) return holiday.name
+  }
+
+  const range = calendar.ranges.find(
+    (r) => r.start_date <= dateKey && dateKey <= r.end_date,
+  )
+  return range ? range.name || 'Data bloqueada' : null
+}
+
+// `date` itself on an open day, otherwise midnight (in the zone) of the
+// next day that isn't blocked
+export function skipBlackoutDays(
+  date: Date,
+  calendar: BlackoutCalendar,
+  timeZone: string,
+): Date {
+  const today = getZonedParts(date, timeZone)
+  if (!getBlackoutReason(toDateKey(today), calendar)) return date
+
+  // A year of blocked days is a misconfiguration, not something to honor
+  for (let offset = 1; offset <= 366; offset++) {
+    const day = {
+      year: today.year,
+      month: today.month,
+      day: today.day + offset,
+    }
+    if (!getBlackoutReason(toDateKey(day), calendar)) {
+      return zonedTimeToUtc(day, timeZone)
+    }
+  }
+  return date
+}
@@ -0,0 +1,349 @@
+// The campaign `config` JSON: one versioned, validated shape written by
+// the campaign forms and read by the previews and the queue worker.
+// Rows saved before the schema existed (camelCase from the bulk send modal,
+// snake_case from the upload wizard, `pause_time` instead of `pause_at`)
+// are upgraded on read.
+// This module must stay free of Deno/browser specific APIs.
+import * as z from 'zod'
+import {
+  type CircuitBreakerConfig,
+  DEFAULT_CIRCUIT_BREAKER,
+  parseCircuitBreaker,
+  serializeCircuitBreaker,
+} from './circuit-breaker.ts'
+import {
+  DEFAULT_RETRY_POLICY,
+  parseRetryPolicy,
+  type RetryPolicy,
+  serializeRetryPolicy,
+} from './retry.ts'
+import { calendarDateKey, parseCalendarDate } from './timezone.ts'
+import {
+  dailyWindows,
+  DEFAULT_WEEKLY_WINDOWS,
+  hasAnyWindow,
+  normalizeWeeklyWindows,
+  type WeeklyWindows,
+} from './sending-windows.ts'
+import { parseDailyLimit } from './daily-caps.ts'
+import {
+  DEFAULT_SENDER_ROTATION,
+  parseSenderRotation,
+  type SenderRotation,
+  serializeSenderRotation,
+} from './sender-pool.ts'
+
+// 2: business hours became weekly sending windows
+export const CAMPAIGN_CONFIG_VERSION = 2
+
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Horário inválido (use HH:mm)')
+const calendarDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida (use AAAA-MM-DD)')
+
+export const campaignConfigSchema = z
+  .object({
+    version: z.literal(CAMPAIGN_CONFIG_VERSION),
+    // Seconds between two messages, drawn at random from the range
+    min_interval: z.number().int().min(1).max(3600),
+    max_interval: z.number().int().min(1).max(3600),
+    batch_config: z.object({
+      enabled: z.boolean(),
+      size: z.number().int().min(1),
+      pause_min: z.number().int().min(1),
+      pause_max: z.number().int().min(1),
+    }),
+    // With `pause`, messages only go out inside these windows. Indexed by
+    // weekday, 0 = Sunday
+    business_hours: z.object({
+      strategy: z.enum(['ignore', 'pause']),
+      windows: z
+        .array(z.array(z.object({ start: timeOfDay, end: timeOfDay })))
+        .length(7),
+    }),
+    // Successful sends per day for this campaign, null for no limit. Added
+    // after version 2 without a bump: rows that lack it have no limit
+    daily_limit: z.number().int().min(1).nullable().default(null),
+    // Which numbers of the account's pool send, and how they take turns.
+    // Also added without a bump: rows that lack it use every active number
+    sender_rotation: z
+      .object({
+        strategy: z.enum(['round_robin', 'least_used', 'sticky']),
+        sender_ids: z.array(z.string()),
+      })
+      .default(serializeSenderRotation(DEFAULT_SENDER_ROTATION)),
+    // One-time stop from `pause_at` until `resume_date` at `resume_time`
+    automatic_pause: z.object({
+      enabled: z.boolean(),
+      pause_at: timeOfDay.nullable(),
+      resume_date: calendarDate.nullable(),
+      resume_time: timeOfDay.nullable(),
+    }),
+    retry_policy: z.object({
+      max_attempts: z.number().int().min(1),
+      backoff_seconds: z.number().int().min(1),
+      retryable_errors: z.array(z.string()),
+    }),
+    circuit_breaker: z.object({
+      enabled: z.boolean(),
+      max_consecutive_failures: z.number().int().min(1),
+      failure_rate_threshold: z.number().min(0).max(1),
+      window_size: z.number().int().min(2),
+    }),
+  })
+  .refine((config) => config.max_interval >= config.min_interval, {
+    message: 'Intervalo máximo deve ser maior ou igual ao mínimo',
+    path: ['max_interval'],
+  })
+  .refine(
+    ({ batch_config: batch }) =>
+      !batch.enabled || batch.pause_max >= batch.pause_min,
+    {
+      message: 'Pausa máxima do lote deve ser maior ou igual à mínima',
+      path: ['batch_config', 'pause_max'],
+    },
+  )
+  .refine(
+    ({ business_hours: business }) =>
+      business.strategy === 'ignore' || hasAnyWindow(business.windows),
+    {
+      message: 'Defina ao menos uma janela de envio',
+      path: ['business_hours', 'windows'],
+    },
+  )
+  .refine(
+    ({ automatic_pause: pause }) =>
+      !pause.enabled ||
+      (!!pause.pause_at && !!pause.resume_date && !!pause.resume_time),
+    {
+      message: 'Preencha todos os campos da pausa automática',
+      path: ['automatic_pause'],
+    },
+  )
+
+export type CampaignConfig = z.infer<typeof campaignConfigSchema>
+
+export const DEFAULT_CAMPAIGN_CONFIG: CampaignConfig = {
+  version: CAMPAIGN_CONFIG_VERSION,
+  min_interval: 30,
+  max_interval: 60,
+  batch_config: { enabled: false, size: 20, pause_min: 60, pause_max: 120 },
+  business_hours: { strategy: 'ignore', windows: DEFAULT_WEEKLY_WINDOWS },
+  daily_limit: null,
+  sender_rotation: serializeSenderRotation(DEFAULT_SENDER_ROTATION),
+  automatic_pause: {
+    enabled: false,
+    pause_at: null,
+    resume_date: null,
+    resume_time: null,
+  },
+  retry_policy: serializeRetryPolicy(DEFAULT_RETRY_POLICY),
+  circuit_breaker: serializeCircuitBreaker(DEFAULT_CIRCUIT_BREAKER),
+}
+
+// Values as the campaign forms hold them
+export interface CampaignConfigInput {
+  minInterval: number
+  maxInterval: number
+  useBatching: boolean
+  batchSize?: number
+  batchPauseMin?: number
+  batchPauseMax?: number
+  businessHoursStrategy: 'ignore' | 'pause'
+  sendingWindows?: WeeklyWindows
+  dailyLimit?: number | null
+  senderRotation?: SenderRotation
+  automaticPause?: boolean
+  pauseTime?: string
+  resumeDate?: Date | string
+  resumeTime?: string
+  retryPolicy?: RetryPolicy
+  circuitBreaker?: CircuitBreakerConfig
+}
+
+function toCalendarKey(value: Date | string | null | undefined) {
+  const day = parseCalendarDate(value)
+  return day ? calendarDateKey(day) : null
+}
+
+// Form values -> stored config. Throws a ZodError when the values are
+// inconsistent, so nothing invalid reaches the database.
+export function buildCampaignConfig(
+  input: CampaignConfigInput,
+): CampaignConfig {
+  const defaults = DEFAULT_CAMPAIGN_CONFIG
+  return campaignConfigSchema.parse({
+    version: CAMPAIGN_CONFIG_VERSION,
+    min_interval: Number(input.minInterval),
+    max_interval: Number(input.maxInterval),
+    batch_config: {
+      enabled: input.useBatching,
+      size: Number(input.batchSize ?? defaults.batch_config.size),
+      pause_min: Number(input.batchPauseMin ?? defaults.batch_config.pause_min),
+      pause_max: Number(input.batchPauseMax ?? defaults.batch_config.pause_max),
+    },
+    business_hours: {
+      strategy: input.businessHoursStrategy,
+      windows:
+        normalizeWeeklyWindows(input.sendingWindows) ??
+        defaults.business_hours.windows,
+    },
+    daily_limit: parseDailyLimit(input.dailyLimit),
+    sender_rotation: serializeSenderRotation(
+      input.senderRotation ?? DEFAULT_SENDER_ROTATION,
+    ),
+    automatic_pause: input.automaticPause
+      ? {
+          enabled: true,
+          pause_at: input.pauseTime || null,
+          resume_date: toCalendarKey(input.resumeDate),
+          resume_time: input.resumeTime || null,
+        }
+      : defaults.automatic_pause,
+    retry_policy: serializeRetryPolicy(
+      input.retryPolicy ?? DEFAULT_RETRY_POLICY,
+    ),
+    circuit_breaker: serializeCircuitBreaker(
+      input.circuitBreaker ?? DEFAULT_CIRCUIT_BREAKER,
+    ),
+  })
+}
+
+function pick(...values: unknown[]) {
+  return values.find((value) => value !== undefined && value !== null)
+}
+
+function toInt(value: unknown, fallback: number, min: number, max: number) {
+  if (value === undefined || value === null || value === '') return fallback
+  const n = Math.round(Number(value))
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback
+}
+
+function toTime(value: unknown): string | null {
+  const match = /^(\d{1,2}):(\d{2})/.exec(String(value ?? ''))
+  if (!match) return null
+  const time = `${match[1].padStart(2, '0')}:${match[2]}`
+  return timeOfDay.safeParse(time).success ? time : null
+}
+
+// Any historical shape -> current version, filling gaps with the defaults
+function upgradeLegacyConfig(raw: any): CampaignConfig {
+  const defaults = DEFAULT_CAMPAIGN_CONFIG
+  const batch = raw?.batch_config ?? {}
+  const business = raw?.business_hours ?? {}
+  // The modal once kept the automatic pause flat on the root
+  const pause =
+    raw?.automatic_pause ??
+    (typeof raw?.automaticPause === 'object'
+      ? raw.automaticPause
+      : {
+          enabled: raw?.automaticPause,
+          pauseTime: raw?.pauseTime,
+          resumeDate: raw?.resumeDate,
+          resumeTime: raw?.resumeTime,
+        })
+
+  const minInterval = toInt(
+    pick(raw?.min_interval, raw?.minInterval),
+    defaults.min_interval,
+    1,
+    3600,
+  )
+  const batchPauseMin = toInt(
+    pick(batch.pause_min, raw?.batchPauseMin),
+    defaults.batch_config.pause_min,
+    1,
+    86400,
+  )
+
+  const pauseAt = toTime(
+    pick(pause.pause_at, pause.pauseTime, pause.pause_time),
+  )
+  const resumeDate = toCalendarKey(
+    pick(pause.resume_date, pause.resumeDate) as string | undefined,
+  )
+  const resumeTime = toTime(pick(pause.resume_time, pause.resumeTime))
+  const pauseComplete = !!pauseAt && !!resumeDate && !!resumeTime
+
+  const strategy = pick(raw?.businessHoursStrategy, business.strategy)
+
+  // Before version 2 a single resume/pause pair applied to every day
+  const legacyWindows = dailyWindows(
+    toTime(pick(business.resume_at, raw?.businessHoursResumeTime)) ?? '08:00',
+    toTime(pick(business.pause_at, raw?.businessHoursPauseTime)) ?? '18:00',
+  )
+  const windows =
+    normalizeWeeklyWindows(business.windows) ??
+    (hasAnyWindow(legacyWindows)
+      ? normalizeWeeklyWindows(legacyWindows)!
+      : dailyWindows('08:00', '18:00'))
+
+  return {
+    version: CAMPAIGN_CONFIG_VERSION,
+    min_interval: minInterval,
+    max_interval: Math.max(
+      minInterval,
+      toInt(
+        pick(raw?.max_interval, raw?.maxInterval),
+        defaults.max_interval,
+        1,
+        3600,
+      ),
+    ),
+    batch_config: {
+      enabled: Boolean(
+        pick(
+          batch.enabled,
+          typeof raw?.useBatching === 'object'
+            ? raw.useBatching?.enabled
+            : raw?.useBatching,
+        ),
+      ),
+      size: toInt(
+        pick(batch.size, raw?.batchSize),
+        defaults.batch_config.size,
+        1,
+        100000,
+      ),
+      pause_min: batchPauseMin,
+      pause_max: Math.max(
+        batchPauseMin,
+        toInt(
+          pick(batch.pause_max, raw?.batchPauseMax),
+          defaults.batch_config.pause_max,
+          1,
+          86400,
+        ),
+      ),
+    },
+    business_hours: {
+      strategy:
+        strategy === 'pause' && hasAnyWindow(windows) ? 'pause' : 'ignore',
+      windows,
+    },
+    daily_limit: parseDailyLimit(pick(raw?.daily_limit, raw?.dailyLimit)),
+    sender_rotation: serializeSenderRotation(parseSenderRotation(raw)),
+    automatic_pause: {
+      enabled: Boolean(pause.enabled) && pauseComplete,
+      pause_at: pauseAt,
+      resume_date: resumeDate,
+      resume_time: resumeTime,
+    },
+    retry_policy: serializeRetryPolicy(parseRetryPolicy(raw)),
+    circuit_breaker: serializeCircuitBreaker(parseCircuitBreaker(raw)),
+  }
+}
+
+// Stored config -> canonical config. Never throws: a row that doesn't
+// validate is upgraded field by field, keeping whatever still makes sense.
+export function parseCampaignConfig(raw: unknown): CampaignConfig {
+  if ((raw as any)?.version === CAMPAIGN_CONFIG_VERSION) {
+    const result = campaignConfigSchema.safeParse(raw)
+    if (result.success) return result.data
+  }
+
+  const upgraded = campaignConfigSchema.safeParse(upgradeLegacyConfig(raw))
+  return upgraded.success ? upgraded.data : DEFAULT_CAMPAIGN_CONFIG
+}
@@ -0,0 +1,80 @@
+// Campaign priorities and the fair scheduling the queue worker uses to
+// interleave the sends of every running campaign within one invocation.
+// Higher priorities go first when several campaigns are due at once, but a
+// campaign's claim grows the longer it waits, so a long low-priority
+// broadcast still gets its turn and never keeps an urgent one waiting.
+// This module must stay free of Deno/browser specific APIs.
+
+export type CampaignPriority = 'urgent' | 'normal' | 'low'
+
+export const CAMPAIGN_PRIORITY_LABELS: Record<CampaignPriority, string> = {
+  urgent: 'Urgente',
+  normal: 'Normal',
+  low: 'Baixa',
+}
+
+export const DEFAULT_CAMPAIGN_PRIORITY: CampaignPriority = 'normal'
+
+// How much faster a campaign's claim grows for each second it waits
+export const PRIORITY_WEIGHTS: Record<CampaignPriority, number> = {
+  urgent: 4,
+  normal: 2,
+  low: 1,
+}
+
+// A campaign that is due right now still has this much claim, so the
+// weights break ties between campaigns that became due together
+const BASE_WAIT_MS = 1000
+
+export function parseCampaignPriority(value: unknown): CampaignPriority {
+  return typeof value === 'string' && value in CAMPAIGN_PRIORITY_LABELS
+    ? (value as CampaignPriority)
+    : DEFAULT_CAMPAIGN_PRIORITY
+}
+
+// Sort comparator putting urgent campaigns first
+export function byPriority(
+  a: { priority?: string | null },
+  b: { priority?: string | null },
+) {
+  return (
+    PRIORITY_WEIGHTS[parseCampaignPriority(b.priority)] -
+    PRIORITY_WEIGHTS[parseCampaignPriority(a.priority)]
+  )
+}
+
+export interface QueueLane {
+  priority: CampaignPriority
+  // Epoch milliseconds from which the campaign may send its next message
+  readyAt: number
+}
+
+// The lane to serve next: among those already due, the one with the highest
+// weighted wait; when none is due yet, the one that becomes due first.
+// Returns null for an empty list.
+export function nextLane<T extends QueueLane>(lanes: T[], now: number) {
+  let best: T | null = null
+  let bestClaim = -1
+  for (const lane of lanes) {
+    if (lane.readyAt > now) continue
+    const claim =
+      PRIORITY_WEIGHTS[lane.priority] * (now - lane.readyAt + BASE_WAIT_MS)
+    if (claim > bestClaim) {
+      best = lane
+      bestClaim = claim
+    }
+  }
+  if (best) return best
+
+  for (const lane of lanes) {
+    if (
+      !best ||
+      lane.readyAt < best.readyAt ||
+      (lane.readyAt === best.readyAt &&
+        PRIORITY_WEIGHTS[lane.priority] > PRIORITY_WEIGHTS[best.priority])
+    ) {
+      best = lane
+    }
+  }
+  return best
+}
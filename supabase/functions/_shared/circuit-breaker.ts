@@ -0,0 +1,138 @@
+// Auto-pause rules shared by the campaign forms and the queue worker.
+// This module must stay free of Deno/browser specific APIs.
+import type { SendErrorCode } from './providers/types.ts'
+
+export interface CircuitBreakerConfig {
+  enabled: boolean
+  // Trip after this many failures in a row
+  maxConsecutiveFailures: number
+  // ...or when more than this share (0-1) of the last `windowSize`
+  // attempts failed
+  failureRateThreshold: number
+  windowSize: number
+}
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerConfig = {
+  enabled: true,
+  maxConsecutiveFailures: 5,
+  failureRateThreshold: 0.3,
+  windowSize: 20,
+}
+
+// Bad numbers or content say nothing about the connection being down
+const IGNORED_ERRORS: SendErrorCode[] = ['invalid_number', 'invalid_request']
+
+export interface AttemptOutcome {
+  campaign_message_id: string
+  status: 'sent' | 'failed'
+  error_code: string | null
+  error_message: string | null
+  attempted_at: string
+}
+
+export interface CircuitBreakerResult {
+  tripped: boolean
+  reason: string | null
+  // Messages whose failure belongs to the streak that tripped the breaker
+  failedMessageIds: string[]
+}
+
+function clampNumber(
+  value: unknown,
+  min: number,
+  max: number,
+  fallback: number,
+) {
+  const n = Number(value)
+  return isNaN(n) ? fallback : Math.min(max, Math.max(min, n))
+}
+
+// Reads `circuit_breaker` (stored) or `circuitBreaker` (form) from a
+// campaign config. Older campaigns get the defaults.
+export function parseCircuitBreaker(config: any): CircuitBreakerConfig {
+  const raw = config?.circuit_breaker ?? config?.circuitBreaker
+  if (!raw) return DEFAULT_CIRCUIT_BREAKER
+
+  return {
+    enabled: raw.enabled !== false,
+    maxConsecutiveFailures: Math.round(
+      clampNumber(
+        raw.max_consecutive_failures ?? raw.maxConsecutiveFailures,
+        1,
+        100,
+        DEFAULT_CIRCUIT_BREAKER.maxConsecutiveFailures,
+      ),
+    ),
+    failureRateThreshold: clampNumber(
+      raw.failure_rate_threshold ?? raw.failureRateThreshold,
+      0.01,
+      1,
+      DEFAULT_CIRCUIT_BREAKER.failureRateThreshold,
+    ),
+    windowSize: Math.round(
+      clampNumber(
+        raw.window_size ?? raw.windowSize,
+        2,
+        200,
+        DEFAULT_CIRCUIT_BREAKER.windowSize,
+      ),
+    ),
+  }
+}
+
+export function serializeCircuitBreaker(config: CircuitBreakerConfig) {
+  return {
+    enabled: config.enabled,
+    max_consecutive_failures: config.maxConsecutiveFailures,
+    failure_rate_threshold: config.failureRateThreshold,
+    window_size: config.windowSize,
+  }
+}
+
+// `recent` holds the latest attempts, newest first. Attempts made before
+// `resumedAt` (the last resume) are left out: the user already dealt with
+// the failures that paused the campaign.
+export function evaluateCircuitBreaker(
+  config: CircuitBreakerConfig,
+  recent: AttemptOutcome[],
+  resumedAt: string | null = null,
+): CircuitBreakerResult {
+  const idle = { tripped: false, reason: null, failedMessageIds: [] }
+  if (!config.enabled) return idle
+
+  const since = resumedAt ? new Date(resumedAt).getTime() : null
+  const counted = recent.filter(
+    (attempt) =>
+      (since === null || new Date(attempt.attempted_at).getTime() > since) &&
+      (attempt.status === 'sent' ||
+        !IGNORED_ERRORS.includes(attempt.error_code as SendErrorCode)),
+  )
+  const lastError = counted.find((a) => a.status === 'failed')?.error_message
+  const suffix = lastError ? ` Último erro: ${lastError}` : ''
+
+  const streakEnd = counted.findIndex((attempt) => attempt.status === 'sent')
+  const streak = counted.slice(0, streakEnd === -1 ? counted.length : streakEnd)
+  if (streak.length >= config.maxConsecutiveFailures) {
+    return {
+      tripped: true,
+      reason: `${streak.length} falhas consecutivas no envio.${suffix}`,
+      failedMessageIds: streak.map((a) => a.campaign_message_id),
+    }
+  }
+
+  // The rate only means something once the window is full
+  const window = counted.slice(0, config.windowSize)
+  if (window.length >= config.windowSize) {
+    const failed = window.filter((attempt) => attempt.status === 'failed')
+    const rate = failed.length / window.length
+    if (rate > config.failureRateThreshold) {
+      return {
+        tripped: true,
+        reason: `${Math.round(rate * 100)}% de falhas nas últimas ${window.length} tentativas.${suffix}`,
+        failedMessageIds: failed.map((a) => a.campaign_message_id),
+      }
+    }
+  }
+
+  return idle
+}
@@ -0,0 +1,90 @@
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { decryptSecret } from './crypto.ts'
+import {
+  getProviderConfigFromEnv,
+  isProviderType,
+  type ProviderConfig,
+} from './providers/index.ts'
+
+const CONNECTION_COLUMNS =
+  'id, user_id, provider, endpoint, instance_id, token_encrypted, status'
+
+export interface ConnectionRow {
+  id: string
+  user_id: string
+  provider: string
+  endpoint: string | null
+  instance_id: string | null
+  token_encrypted: string | null
+  status: string
+}
+
+// The account's default number: the oldest active one, or the oldest of
+// all when every number is paused or failing
+export async function getConnectionForUser(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<ConnectionRow | null> {
+  const { data, error } = await supabase
+    .from('whatsapp_connections')
+    .select(CONNECTION_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  const rows = (data || []) as ConnectionRow[]
+  return rows.find((row) => row.status === 'active') ?? rows[0] ?? null
+}
+
+// One number of the account's pool; null when it isn't the user's
+export async function getConnectionById(
+  supabase: SupabaseClient,
+  userId: string,
+  connectionId: string,
+): Promise<ConnectionRow | null> {
+  const { data, error } = await supabase
+    .from('whatsapp_connections')
+    .select(CONNECTION_COLUMNS)
+    .eq('id', connectionId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as ConnectionRow | null
+}
+
+export async function connectionToProviderConfig(
+  connection: ConnectionRow,
+): Promise<ProviderConfig> {
+  if (!isProviderType(connection.provider)) {
+    throw new Error(`Unknown WhatsApp provider: ${connection.provider}`)
+  }
+
+  return {
+    provider: connection.provider,
+    endpoint: connection.endpoint || undefined,
+    instanceId: connection.instance_id || undefined,
+    token: connection.token_encrypted
+      ? await decryptSecret(connection.token_encrypted)
+      : undefined,
+  }
+}
+
+// Users without their own connection keep sending through the global
+// provider configured in the function secrets. With `senderId` the message
+// goes out through that number of the pool instead of the default one.
+export async function getProviderConfigForUser(
+  supabase: SupabaseClient,
+  userId: string,
+  senderId?: string | null,
+): Promise<ProviderConfig> {
+  if (senderId) {
+    const sender = await getConnectionById(supabase, userId, senderId)
+    if (!sender) throw new Error(`Sender number not found: ${senderId}`)
+    return connectionToProviderConfig(sender)
+  }
+
+  const connection = await getConnectionForUser(supabase, userId)
+  if (!connection) return getProviderConfigFromEnv()
+  return connectionToProviderConfig(connection)
+}
@@ -0,0 +1,61 @@
+// AES-GCM encryption for provider secrets stored in the database.
+// The key is derived from the WHATSAPP_TOKEN_ENCRYPTION_KEY function secret.
+
+const VERSION = 'v1'
+
+let cachedKey: Promise<CryptoKey> | null = null
+
+function getKey(): Promise<CryptoKey> {
+  if (!cachedKey) {
+    const secret = Deno.env.get('WHATSAPP_TOKEN_ENCRYPTION_KEY')
+    if (!secret) {
+      throw new Error('WHATSAPP_TOKEN_ENCRYPTION_KEY is not configured')
+    }
+
+    cachedKey = crypto.subtle
+      .digest('SHA-256', new TextEncoder().encode(secret))
+      .then((digest) =>
+        crypto.subtle.importKey('raw', digest, 'AES-GCM', false, [
+          'encrypt',
+          'decrypt',
+        ]),
+      )
+  }
+  return cachedKey
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0))
+}
+
+export async function encryptSecret(plain: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const cipher = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getKey(),
+    new TextEncoder().encode(plain),
+  )
+  return `${VERSION}:${toBase64(iv)}:${toBase64(new Uint8Array(cipher))}`
+}
+
+export async function decryptSecret(payload: string): Promise<string> {
+  const [version, iv, cipher] = payload.split(':')
+  if (version !== VERSION || !iv || !cipher) {
+    throw new Error('Unsupported encrypted secret format')
+  }
+
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    await getKey(),
+    fromBase64(cipher),
+  )
+  return new TextDecoder().decode(plain)
+}
+
+export function secretHint(plain: string): string {
+  return plain.length <= 4 ? '****' : `****${plain.slice(-4)}`
+}
@@ -0,0 +1,140 @@
+// Daily send caps: one per campaign, one per account across all its
+// campaigns, and the warm-up ramp that keeps a young sender number from
+// sending hundreds of messages on its first days. The ramp is set for the
+// account and runs for each number from its first send. Days are calendar
+// days in the campaign's timezone; only successful sends count.
+// This module must stay free of Deno/browser specific APIs.
+import { positiveInt } from './numbers.ts'
+
+export const DEFAULT_WARMUP_SCHEDULE = [50, 100, 200, 400, 800]
+
+export interface WarmupProfile {
+  enabled: boolean
+  // Messages allowed on day 1, 2, 3... of each number. Once the ramp is
+  // over only the other caps apply
+  schedule: number[]
+}
+
+// A sender number as the caps see it
+export interface WarmupSender {
+  daily_limit: number | null
+  // 'YYYY-MM-DD' of the number's first send, its day 1; null until then
+  warmup_started_on: string | null
+}
+
+export interface AccountSendingLimits {
+  dailyLimit: number | null
+  warmup: WarmupProfile
+}
+
+export const DEFAULT_ACCOUNT_LIMITS: AccountSendingLimits = {
+  dailyLimit: null,
+  warmup: {
+    enabled: false,
+    schedule: DEFAULT_WARMUP_SCHEDULE,
+  },
+}
+
+// Positive whole number, or null for "no limit"
+export function parseDailyLimit(value: unknown): number | null {
+  return positiveInt(value)
+}
+
+// Accepts the stored array or what the user typed ("50, 100, 200")
+export function parseWarmupSchedule(value: unknown): number[] {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(/[\s,;]+/)
+      : []
+  const schedule = items.map(positiveInt).filter((n): n is number => n !== null)
+  return schedule.length > 0 ? schedule : DEFAULT_WARMUP_SCHEDULE
+}
+
+// The limit columns of a profile row
+export function parseAccountLimits(
+  profile: {
+    daily_send_limit?: number | null
+    warmup_enabled?: boolean | null
+    warmup_schedule?: number[] | null
+  } | null,
+): AccountSendingLimits {
+  if (!profile) return DEFAULT_ACCOUNT_LIMITS
+  return {
+    dailyLimit: parseDailyLimit(profile.daily_send_limit),
+    warmup: {
+      enabled: Boolean(profile.warmup_enabled),
+      schedule: parseWarmupSchedule(profile.warmup_schedule),
+    },
+  }
+}
+
+function dayNumber(dateKey: string) {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  return Math.round(Date.UTC(year, month - 1, day) / 86400000)
+}
+
+// 1 on the day the number started, 2 the day after...
+export function warmupDay(startedOn: string, dateKey: string) {
+  return Math.max(1, dayNumber(dateKey) - dayNumber(startedOn) + 1)
+}
+
+// Null when warm-up is off or already over. A number that never sent is
+// on its day 1
+export function warmupLimit(
+  warmup: WarmupProfile,
+  startedOn: string | null,
+  dateKey: string,
+): number | null {
+  if (!warmup.enabled) return null
+  const day = startedOn ? warmupDay(startedOn.slice(0, 10), dateKey) : 1
+  return warmup.schedule[day - 1] ?? null
+}
+
+function smallest(...caps: (number | null)[]): number | null {
+  const set = caps.filter((n): n is number => n !== null)
+  return set.length > 0 ? Math.min(...set) : null
+}
+
+// What one number may send on the day: its own limit and its warm-up step
+export function senderDailyLimit(
+  sender: WarmupSender,
+  warmup: WarmupProfile,
+  dateKey: string,
+): number | null {
+  return smallest(
+    sender.daily_limit,
+    warmupLimit(warmup, sender.warmup_started_on, dateKey),
+  )
+}
+
+// What a campaign's numbers may send together on the day, or null when
+// one of them has no limit (or the account sends without a pool)
+export function sendersDailyLimit(
+  senders: WarmupSender[],
+  warmup: WarmupProfile,
+  dateKey: string,
+): number | null {
+  let total = 0
+  for (const sender of senders) {
+    const limit = senderDailyLimit(sender, warmup, dateKey)
+    if (limit === null) return null
+    total += limit
+  }
+  return senders.length > 0 ? total : null
+}
+
+// Everything a single campaign may send on the day: its own cap, the
+// account's and what its numbers allow
+export function dailyLimitFor(
+  dateKey: string,
+  campaignLimit: number | null,
+  limits?: AccountSendingLimits,
+  senders: WarmupSender[] = [],
+): number | null {
+  return smallest(
+    campaignLimit,
+    limits?.dailyLimit ?? null,
+    limits ? sendersDailyLimit(senders, limits.warmup, dateKey) : null,
+  )
+}
@@ -0,0 +1,136 @@
+// Media attachment rules shared by the upload UI and the send pipeline.
+// Limits follow the WhatsApp Business media constraints.
+// This module must stay free of Deno/browser specific APIs.
+
+export type MediaType = 'image' | 'video' | 'audio' | 'document'
+
+export interface MediaAttachment {
+  url: string
+  type: MediaType
+  filename?: string | null
+  mimeType?: string | null
+}
+
+const MB = 1024 * 1024
+
+export const MEDIA_LIMITS: Record<
+  MediaType,
+  { label: string; maxBytes: number; mimeTypes: string[]; extensions: string[] }
+> = {
+  image: {
+    label: 'Imagem',
+    maxBytes: 5 * MB,
+    mimeTypes: ['image/jpeg', 'image/png'],
+    extensions: ['jpg', 'jpeg', 'png'],
+  },
+  video: {
+    label: 'Vídeo',
+    maxBytes: 16 * MB,
+    mimeTypes: ['video/mp4', 'video/3gpp'],
+    extensions: ['mp4', '3gp'],
+  },
+  audio: {
+    label: 'Áudio',
+    maxBytes: 16 * MB,
+    mimeTypes: [
+      'audio/aac',
+      'audio/mp4',
+      'audio/mpeg',
+      'audio/amr',
+      'audio/ogg',
+    ],
+    extensions: ['aac', 'm4a', 'mp3', 'amr', 'ogg', 'opus'],
+  },
+  document: {
+    label: 'PDF',
+    maxBytes: 100 * MB,
+    mimeTypes: ['application/pdf'],
+    extensions: ['pdf'],
+  },
+}
+
+export const ACCEPTED_MEDIA_TYPES = Object.values(MEDIA_LIMITS)
+  .flatMap((limit) => limit.mimeTypes)
+  .join(',')
+
+export function isMediaType(value: unknown): value is MediaType {
+  return typeof value === 'string' && value in MEDIA_LIMITS
+}
+
+function extensionOf(filename: string): string {
+  const clean = filename.split(/[?#]/)[0]
+  const dot = clean.lastIndexOf('.')
+  return dot === -1 ? '' : clean.slice(dot + 1).toLowerCase()
+}
+
+export function mediaTypeFromMime(mimeType: string): MediaType | null {
+  const type = (Object.keys(MEDIA_LIMITS) as MediaType[]).find((key) =>
+    MEDIA_LIMITS[key].mimeTypes.includes(mimeType.toLowerCase()),
+  )
+  return type || null
+}
+
+export function mediaTypeFromFilename(filename: string): MediaType | null {
+  const extension = extensionOf(filename)
+  const type = (Object.keys(MEDIA_LIMITS) as MediaType[]).find((key) =>
+    MEDIA_LIMITS[key].extensions.includes(extension),
+  )
+  return type || null
+}
+
+export function filenameFromUrl(url: string): string {
+  const path = url.split(/[?#]/)[0]
+  return decodeURIComponent(path.substring(path.lastIndexOf('/') + 1))
+}
+
+// Returns an error message, or null when the file can be sent
+export function validateMediaFile(file: {
+  name: string
+  size: number
+  type: string
+}): string | null {
+  const mediaType =
+    (file.type && mediaTypeFromMime(file.type)) ||
+    mediaTypeFromFilename(file.name)
+
+  if (!mediaType) {
+    return 'Formato não suportado. Use JPG, PNG, MP4, 3GP, MP3, AAC, OGG, AMR ou PDF.'
+  }
+
+  const limit = MEDIA_LIMITS[mediaType]
+  if (file.size > limit.maxBytes) {
+    return `${limit.label} excede o limite de ${limit.maxBytes / MB} MB do WhatsApp.`
+  }
+
+  return null
+}
+
+// Per-contact media (CSV column) overrides the campaign attachment
+export function resolveMessageMedia(
+  contactMediaUrl: string | null | undefined,
+  campaign: {
+    media_url?: string | null
+    media_type?: string | null
+    media_filename?: string | null
+  },
+): MediaAttachment | null {
+  if (contactMediaUrl) {
+    return {
+      url: contactMediaUrl,
+      type: mediaTypeFromFilename(contactMediaUrl) || 'document',
+      filename: filenameFromUrl(contactMediaUrl),
+    }
+  }
+
+  if (campaign.media_url) {
+    return {
+      url: campaign.media_url,
+      type: isMediaType(campaign.media_type)
+        ? campaign.media_type
+        : mediaTypeFromFilename(campaign.media_url) || 'document',
+      filename: campaign.media_filename || filenameFromUrl(campaign.media_url),
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,9 @@
+// Parsing of the numeric settings users type or the database returns.
+// This module must stay free of Deno/browser specific APIs.
+
+// Positive whole number, or null when the value is empty or not one
+export function positiveInt(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const n = Math.floor(Number(value))
+  return Number.isFinite(n) && n > 0 ? n : null
+}
@@ -0,0 +1,39 @@
+// Opt-out keyword matching shared by the settings screen and the inbound
+// webhook. This module must stay free of Deno/browser specific APIs.
+
+export const DEFAULT_OPT_OUT_KEYWORDS = ['SAIR', 'PARAR', 'STOP']
+
+export function normalizeOptOutKeyword(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Deduplicated, normalized list; falls back to the defaults when empty
+export function parseOptOutKeywords(
+  keywords: string[] | string | null | undefined,
+): string[] {
+  const list = Array.isArray(keywords)
+    ? keywords
+    : String(keywords ?? '').split(',')
+  const normalized = [
+    ...new Set(list.map(normalizeOptOutKeyword).filter(Boolean)),
+  ]
+  return normalized.length > 0 ? normalized : DEFAULT_OPT_OUT_KEYWORDS
+}
+
+// The whole reply must be the keyword ("Sair", "stop!"), so a sentence that
+// merely contains it ("não posso parar agora") doesn't unsubscribe anyone.
+// Returns the matched keyword.
+export function matchOptOutKeyword(
+  text: string,
+  keywords: string[] | null | undefined,
+): string | null {
+  const reply = normalizeOptOutKeyword(text)
+  if (!reply) return null
+  return parseOptOutKeywords(keywords).find((k) => k === reply) ?? null
+}
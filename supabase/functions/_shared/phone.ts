@@ -0,0 +1,22 @@
+// Phone matching key shared by the database trigger and the webhooks.
+// This module must stay free of Deno/browser specific APIs.
+
+// Spreadsheets hold "(11) 98765-4321", providers report "5511987654321"
+// and older WhatsApp accounts still use the 8-digit form without the
+// mobile 9. All of them reduce to the same key: country code + area code
+// + the last 8 digits. Mirrors public.normalize_phone() in the database.
+export function normalizePhone(phone: string | null | undefined): string {
+  let digits = String(phone ?? '')
+    .split('@')[0]
+    .replace(/\D/g, '')
+    .replace(/^0+/, '')
+
+  // Brazilian numbers without the country code
+  if (digits.length === 10 || digits.length === 11) digits = `55${digits}`
+
+  if (digits.length === 13 && digits.startsWith('55') && digits[4] === '9') {
+    digits = digits.slice(0, 4) + digits.slice(5)
+  }
+
+  return digits
+}
@@ -0,0 +1,215 @@
+import type {
+  HealthResult,
+  OutgoingMessage,
+  ProviderConfig,
+  DeliveryStatus,
+  InboundMessage,
+  SendResult,
+  StatusUpdate,
+  WhatsAppProvider,
+} from './types.ts'
+import { inboundMessage, statusUpdate } from './status.ts'
+import {
+  errorCodeFromStatus,
+  failure,
+  failureFromException,
+  fetchWithTimeout,
+  readBody,
+} from './http.ts'
+
+// Evolution API style REST gateway (one instance per connected number)
+export function createEvolutionProvider(
+  config: ProviderConfig,
+): WhatsAppProvider {
+  const baseUrl = (config.endpoint || '').replace(/\/+$/, '')
+  const instance = encodeURIComponent(config.instanceId || '')
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    apikey: config.token || '',
+  }
+
+  async function post(path: string, body: unknown): Promise<SendResult> {
+    try {
+      const response = await fetchWithTimeout(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+      })
+      const data: any = await readBody(response)
+
+      if (!response.ok) {
+        // Evolution answers 400 with `exists: false` for unknown numbers
+        const notOnWhatsapp = JSON.stringify(data ?? '').includes(
+          '"exists":false',
+        )
+        return failure(
+          notOnWhatsapp
+            ? 'invalid_number'
+            : errorCodeFromStatus(response.status),
+          `Evolution error: ${response.status}`,
+          data,
+        )
+      }
+
+      return {
+        success: true,
+        providerMessageId: data?.key?.id ? String(data.key.id) : null,
+        errorCode: null,
+        raw: data,
+      }
+    } catch (error) {
+      return failureFromException(error)
+    }
+  }
+
+  return {
+    type: 'evolution',
+
+    async send(message: OutgoingMessage): Promise<SendResult> {
+      if (!baseUrl || !instance) {
+        return failure(
+          'invalid_request',
+          'Evolution endpoint or instance missing',
+        )
+      }
+
+      const media = message.media
+      if (!media) {
+        return post(`/message/sendText/${instance}`, {
+          number: message.phone,
+          text: message.text,
+        })
+      }
+
+      if (media.type === 'audio') {
+        // Voice notes carry no caption, so the text follows as its own message
+        const result = await post(`/message/sendWhatsAppAudio/${instance}`, {
+          number: message.phone,
+          audio: media.url,
+        })
+        if (result.success && message.text) {
+          const textResult = await post(`/message/sendText/${instance}`, {
+            number: message.phone,
+            text: message.text,
+          })
+          return { ...result, raw: { audio: result.raw, text: textResult.raw } }
+        }
+        return result
+      }
+
+      return post(`/message/sendMedia/${instance}`, {
+        number: message.phone,
+        mediatype: media.type,
+        mimetype: media.mimeType || undefined,
+        media: media.url,
+        fileName: media.filename || undefined,
+        caption: message.text || undefined,
+      })
+    },
+
+    async healthCheck(): Promise<HealthResult> {
+      if (!baseUrl || !instance) {
+        return { ok: false, message: 'Endpoint e instância são obrigatórios' }
+      }
+
+      try {
+        const response = await fetchWithTimeout(
+          `${baseUrl}/instance/connectionState/${instance}`,
+          { method: 'GET', headers },
+        )
+        const data: any = await readBody(response)
+        if (!response.ok) {
+          return {
+            ok: false,
+            message: `Gateway respondeu com status ${response.status}`,
+            raw: data,
+          }
+        }
+
+        const state = data?.instance?.state ?? data?.state
+        return {
+          ok: state === 'open',
+          message: state
+            ? `Estado da instância: ${state}`
+            : 'Estado desconhecido',
+          raw: data,
+        }
+      } catch (error) {
+        return {
+          ok: false,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        }
+      }
+    },
+  }
+}
+
+// Baileys ack levels, reported either by name (v2) or number (v1)
+function deliveryStatusFromAck(ack: unknown): DeliveryStatus | null {
+  switch (ack) {
+    case 'DELIVERY_ACK':
+    case 3:
+      return 'delivered'
+    case 'READ':
+    case 'PLAYED':
+    case 4:
+    case 5:
+      return 'read'
+    case 'ERROR':
+    case 0:
+      return 'failed'
+    default:
+      return null
+  }
+}
+
+// Webhook event `messages.update`; `data` is an object (v2) or a list (v1)
+export function parseEvolutionStatusCallback(payload: any): StatusUpdate[] {
+  const event = String(payload?.event ?? '').toLowerCase()
+  if (event !== 'messages.update' && event !== 'messages_update') return []
+
+  const items = Array.isArray(payload?.data) ? payload.data : [payload?.data]
+  return items
+    .map((item: any) =>
+      statusUpdate(
+        item?.keyId ?? item?.key?.id,
+        deliveryStatusFromAck(item?.status ?? item?.update?.status),
+        item?.dateTime ?? payload?.date_time ?? Date.now(),
+        null,
+      ),
+    )
+    .filter(Boolean) as StatusUpdate[]
+}
+
+// Webhook event `messages.upsert`. It also fires for messages sent from the
+// instance itself (`fromMe`) and for group chats; neither is a reply.
+export function parseEvolutionInboundCallback(payload: any): InboundMessage[] {
+  const event = String(payload?.event ?? '').toLowerCase()
+  if (event !== 'messages.upsert' && event !== 'messages_upsert') return []
+
+  const items = Array.isArray(payload?.data) ? payload.data : [payload?.data]
+  return items
+    .filter((item: any) => {
+      const jid = String(item?.key?.remoteJid ?? '')
+      return item?.key?.fromMe !== true && !jid.endsWith('@g.us')
+    })
+    .map((item: any) => {
+      const message = item?.message ?? {}
+      return inboundMessage(
+        item?.key?.id,
+        item?.key?.remoteJid,
+        message.conversation ??
+          message.extendedTextMessage?.text ??
+          message.buttonsResponseMessage?.selectedDisplayText ??
+          message.listResponseMessage?.title ??
+          message.imageMessage?.caption ??
+          message.videoMessage?.caption ??
+          message.documentMessage?.caption ??
+          '',
+        item?.messageTimestamp ?? payload?.date_time ?? Date.now(),
+        { senderName: item?.pushName, accountRef: payload?.instance },
+      )
+    })
+    .filter(Boolean) as InboundMessage[]
+}
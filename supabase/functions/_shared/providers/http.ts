@@ -0,0 +1,60 @@
+import type { SendErrorCode, SendResult } from './types.ts'
+
+const REQUEST_TIMEOUT_MS = 20000
+
+export async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs = REQUEST_TIMEOUT_MS,
+): Promise<Response> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    return await fetch(url, { ...init, signal: controller.signal })
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// Providers do not always answer with JSON (n8n may return plain text)
+export async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text()
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return { message: text }
+  }
+}
+
+export function errorCodeFromStatus(status: number): SendErrorCode {
+  if (status === 401 || status === 403) return 'auth_error'
+  if (status === 429) return 'rate_limited'
+  if (status === 408 || status === 504) return 'timeout'
+  if (status >= 500) return 'provider_unavailable'
+  return 'invalid_request'
+}
+
+export function failure(
+  errorCode: SendErrorCode,
+  errorMessage: string,
+  raw: unknown = null,
+): SendResult {
+  return {
+    success: false,
+    providerMessageId: null,
+    errorCode,
+    errorMessage,
+    raw,
+  }
+}
+
+export function failureFromException(error: unknown): SendResult {
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return failure('timeout', 'Provider request timed out')
+  }
+  return failure(
+    'network_error',
+    error instanceof Error ? error.message : 'Unknown network error',
+  )
+}
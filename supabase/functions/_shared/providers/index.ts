@@ -0,0 +1,82 @@
+import type {
+  InboundMessage,
+  ProviderConfig,
+  ProviderType,
+  StatusUpdate,
+  WhatsAppProvider,
+} from './types.ts'
+import {
+  createN8nProvider,
+  parseGenericInboundCallback,
+  parseGenericStatusCallback,
+} from './n8n.ts'
+import {
+  createEvolutionProvider,
+  parseEvolutionInboundCallback,
+  parseEvolutionStatusCallback,
+} from './evolution.ts'
+import {
+  createMetaProvider,
+  parseMetaInboundCallback,
+  parseMetaStatusCallback,
+} from './meta.ts'
+import { createMockProvider } from './mock.ts'
+
+export * from './types.ts'
+
+const PROVIDERS: Record<
+  ProviderType,
+  (config: ProviderConfig) => WhatsAppProvider
+> = {
+  n8n: createN8nProvider,
+  evolution: createEvolutionProvider,
+  meta: createMetaProvider,
+  mock: createMockProvider,
+}
+
+export function isProviderType(value: unknown): value is ProviderType {
+  return typeof value === 'string' && value in PROVIDERS
+}
+
+export function createProvider(config: ProviderConfig): WhatsAppProvider {
+  const factory = PROVIDERS[config.provider]
+  if (!factory) throw new Error(`Unknown WhatsApp provider: ${config.provider}`)
+  return factory(config)
+}
+
+// Receipt webhooks don't say who sent them, so the payload shape decides
+export function parseStatusCallback(payload: any): StatusUpdate[] {
+  if (payload?.object === 'whatsapp_business_account') {
+    return parseMetaStatusCallback(payload)
+  }
+  if (payload?.event) {
+    return parseEvolutionStatusCallback(payload)
+  }
+  return parseGenericStatusCallback(payload)
+}
+
+export function parseInboundCallback(payload: any): InboundMessage[] {
+  if (payload?.object === 'whatsapp_business_account') {
+    return parseMetaInboundCallback(payload)
+  }
+  if (payload?.event) {
+    return parseEvolutionInboundCallback(payload)
+  }
+  return parseGenericInboundCallback(payload)
+}
+
+// Global configuration taken from the function secrets. Defaults to the
+// original n8n webhook so existing deployments keep working untouched.
+export function getProviderConfigFromEnv(): ProviderConfig {
+  const provider = Deno.env.get('WHATSAPP_PROVIDER') || 'n8n'
+  if (!isProviderType(provider)) {
+    throw new Error(`Unknown WhatsApp provider: ${provider}`)
+  }
+
+  return {
+    provider,
+    endpoint: Deno.env.get('WHATSAPP_API_URL') || undefined,
+    instanceId: Deno.env.get('WHATSAPP_INSTANCE_ID') || undefined,
+    token: Deno.env.get('WHATSAPP_API_TOKEN') || undefined,
+  }
+}
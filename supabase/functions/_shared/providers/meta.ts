@@ -0,0 +1,227 @@
+import type {
+  HealthResult,
+  InboundMessage,
+  OutgoingMessage,
+  ProviderConfig,
+  SendErrorCode,
+  SendResult,
+  StatusUpdate,
+  WhatsAppProvider,
+} from './types.ts'
+import { inboundMessage, statusUpdate } from './status.ts'
+import {
+  errorCodeFromStatus,
+  failure,
+  failureFromException,
+  fetchWithTimeout,
+  readBody,
+} from './http.ts'
+
+const DEFAULT_GRAPH_URL = 'https://graph.facebook.com/v20.0'
+
+// https://developers.facebook.com/docs/whatsapp/cloud-api/support/error-codes
+function errorCodeFromGraph(code: number | undefined, status: number) {
+  if (code === 190 || code === 10 || code === 200) return 'auth_error'
+  if (code === 4 || code === 80007 || code === 130429 || code === 131056)
+    return 'rate_limited'
+  if (code === 131026 || code === 131021) return 'invalid_number'
+  return errorCodeFromStatus(status) as SendErrorCode
+}
+
+// Meta WhatsApp Cloud API. `instanceId` holds the phone number ID.
+export function createMetaProvider(config: ProviderConfig): WhatsAppProvider {
+  const graphUrl = (config.endpoint || DEFAULT_GRAPH_URL).replace(/\/+$/, '')
+  const phoneNumberId = config.instanceId || ''
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${config.token || ''}`,
+  }
+
+  async function post(payload: Record<string, unknown>): Promise<SendResult> {
+    try {
+      const response = await fetchWithTimeout(
+        `${graphUrl}/${phoneNumberId}/messages`,
+        {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            messaging_product: 'whatsapp',
+            recipient_type: 'individual',
+            ...payload,
+          }),
+        },
+      )
+      const data: any = await readBody(response)
+
+      if (!response.ok || data?.error) {
+        return failure(
+          errorCodeFromGraph(data?.error?.code, response.status),
+          data?.error?.message || `Graph API error: ${response.status}`,
+          data,
+        )
+      }
+
+      const messageId = data?.messages?.[0]?.id
+      return {
+        success: true,
+        providerMessageId: messageId ? String(messageId) : null,
+        errorCode: null,
+        raw: data,
+      }
+    } catch (error) {
+      return failureFromException(error)
+    }
+  }
+
+  return {
+    type: 'meta',
+
+    async send(message: OutgoingMessage): Promise<SendResult> {
+      if (!phoneNumberId || !config.token) {
+        return failure(
+          'invalid_request',
+          'Meta phone number ID or token missing',
+        )
+      }
+
+      const to = message.phone.replace(/\D/g, '')
+      const media = message.media
+      if (!media) {
+        return post({
+          to,
+          type: 'text',
+          text: { preview_url: false, body: message.text },
+        })
+      }
+
+      // Audio is the only media type without a caption field
+      const caption =
+        media.type !== 'audio' && message.text ? message.text : undefined
+      const result = await post({
+        to,
+        type: media.type,
+        [media.type]: {
+          link: media.url,
+          ...(caption && { caption }),
+          ...(media.type === 'document' &&
+            media.filename && { filename: media.filename }),
+        },
+      })
+
+      if (result.success && media.type === 'audio' && message.text) {
+        const textResult = await post({
+          to,
+          type: 'text',
+          text: { preview_url: false, body: message.text },
+        })
+        return { ...result, raw: { audio: result.raw, text: textResult.raw } }
+      }
+      return result
+    },
+
+    async healthCheck(): Promise<HealthResult> {
+      if (!phoneNumberId || !config.token) {
+        return {
+          ok: false,
+          message: 'Phone number ID e token são obrigatórios',
+        }
+      }
+
+      try {
+        const response = await fetchWithTimeout(
+          `${graphUrl}/${phoneNumberId}?fields=display_phone_number,quality_rating`,
+          { method: 'GET', headers },
+        )
+        const data: any = await readBody(response)
+        if (!response.ok || data?.error) {
+          return {
+            ok: false,
+            message: data?.error?.message || `Status ${response.status}`,
+            raw: data,
+          }
+        }
+
+        return {
+          ok: true,
+          message: `Número ${data?.display_phone_number ?? phoneNumberId} conectado (qualidade: ${data?.quality_rating ?? 'N/A'})`,
+          raw: data,
+        }
+      } catch (error) {
+        return {
+          ok: false,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        }
+      }
+    },
+  }
+}
+
+// Webhook payload: entry[].changes[].value.statuses[]
+export function parseMetaStatusCallback(payload: any): StatusUpdate[] {
+  const updates: StatusUpdate[] = []
+
+  for (const entry of payload?.entry ?? []) {
+    for (const change of entry?.changes ?? []) {
+      for (const item of change?.value?.statuses ?? []) {
+        const status =
+          item?.status === 'delivered' ||
+          item?.status === 'read' ||
+          item?.status === 'failed'
+            ? item.status
+            : null
+        const error = item?.errors?.[0]
+        const update = statusUpdate(
+          item?.id,
+          status,
+          item?.timestamp,
+          error ? error.message || error.title || `Error ${error.code}` : null,
+        )
+        if (update) updates.push(update)
+      }
+    }
+  }
+
+  return updates
+}
+
+// Text of a user message; buttons, list picks and media captions count too
+function metaMessageText(item: any): string {
+  return (
+    item?.text?.body ??
+    item?.button?.text ??
+    item?.interactive?.button_reply?.title ??
+    item?.interactive?.list_reply?.title ??
+    item?.[item?.type]?.caption ??
+    ''
+  )
+}
+
+// Same callback as the receipts, under `value.messages`
+export function parseMetaInboundCallback(payload: any): InboundMessage[] {
+  const messages: InboundMessage[] = []
+
+  for (const entry of payload?.entry ?? []) {
+    for (const change of entry?.changes ?? []) {
+      const value = change?.value
+      for (const item of value?.messages ?? []) {
+        const profile = (value?.contacts ?? []).find(
+          (contact: any) => contact?.wa_id === item?.from,
+        )
+        const message = inboundMessage(
+          item?.id,
+          item?.from,
+          metaMessageText(item),
+          item?.timestamp,
+          {
+            senderName: profile?.profile?.name,
+            accountRef: value?.metadata?.phone_number_id,
+          },
+        )
+        if (message) messages.push(message)
+      }
+    }
+  }
+
+  return messages
+}
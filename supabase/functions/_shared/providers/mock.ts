@@ -0,0 +1,40 @@
+import type {
+  HealthResult,
+  OutgoingMessage,
+  ProviderConfig,
+  SendResult,
+  WhatsAppProvider,
+} from './types.ts'
+import { failure } from './http.ts'
+
+// Local provider for development and load tests: never leaves the function.
+// MOCK_FAILURE_RATE (0..1) makes a share of the sends fail on purpose.
+export function createMockProvider(_config: ProviderConfig): WhatsAppProvider {
+  const failureRate = Number(Deno.env.get('MOCK_FAILURE_RATE') ?? '0') || 0
+
+  return {
+    type: 'mock',
+
+    async send(message: OutgoingMessage): Promise<SendResult> {
+      console.log(
+        `[mock] ${message.phone}: ${message.text}${message.media ? ` [${message.media.type}: ${message.media.url}]` : ''}`,
+      )
+
+      if (Math.random() < failureRate) {
+        return failure('provider_error', 'Simulated failure', { mock: true })
+      }
+
+      const providerMessageId = `mock-${crypto.randomUUID()}`
+      return {
+        success: true,
+        providerMessageId,
+        errorCode: null,
+        raw: { mock: true, id: providerMessageId },
+      }
+    },
+
+    async healthCheck(): Promise<HealthResult> {
+      return { ok: true, message: 'Provedor simulado ativo' }
+    },
+  }
+}
@@ -0,0 +1,147 @@
+import type {
+  HealthResult,
+  InboundMessage,
+  OutgoingMessage,
+  ProviderConfig,
+  SendResult,
+  StatusUpdate,
+  WhatsAppProvider,
+} from './types.ts'
+import { inboundMessage, statusUpdate } from './status.ts'
+import {
+  errorCodeFromStatus,
+  failure,
+  failureFromException,
+  fetchWithTimeout,
+  readBody,
+} from './http.ts'
+
+export const DEFAULT_N8N_WEBHOOK_URL =
+  'https://skinnysalmon-n8n.cloudfy.cloud/webhook/disparos'
+
+// The n8n workflow answers with whatever its last node returns, so the
+// message ID is picked from the most common shapes when present
+function extractMessageId(data: any): string | null {
+  const id =
+    data?.messageId ?? data?.message_id ?? data?.key?.id ?? data?.id ?? null
+  return id ? String(id) : null
+}
+
+export function createN8nProvider(config: ProviderConfig): WhatsAppProvider {
+  const webhookUrl = config.endpoint || DEFAULT_N8N_WEBHOOK_URL
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  }
+  if (config.token) headers.Authorization = `Bearer ${config.token}`
+
+  return {
+    type: 'n8n',
+
+    async send(message: OutgoingMessage): Promise<SendResult> {
+      try {
+        const response = await fetchWithTimeout(webhookUrl, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            Nome: message.name,
+            Telefone: message.phone,
+            Texto: message.text,
+            ...(message.media && {
+              MidiaUrl: message.media.url,
+              MidiaTipo: message.media.type,
+              MidiaNome: message.media.filename,
+            }),
+          }),
+        })
+        const data = await readBody(response)
+
+        if (!response.ok) {
+          return failure(
+            errorCodeFromStatus(response.status),
+            `Webhook error: ${response.status}`,
+            data,
+          )
+        }
+
+        return {
+          success: true,
+          providerMessageId: extractMessageId(data),
+          errorCode: null,
+          raw: data,
+        }
+      } catch (error) {
+        return failureFromException(error)
+      }
+    },
+
+    async healthCheck(): Promise<HealthResult> {
+      // n8n webhooks have no status endpoint; any HTTP answer means the
+      // workflow host is reachable
+      try {
+        const response = await fetchWithTimeout(webhookUrl, {
+          method: 'HEAD',
+        })
+        return {
+          ok: response.status < 500,
+          message: `Webhook respondeu com status ${response.status}`,
+        }
+      } catch (error) {
+        return {
+          ok: false,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        }
+      }
+    },
+  }
+}
+
+// Custom workflows post { message_id, status, timestamp?, error? } or a list
+// of those; this is also the format used by the mock provider
+export function parseGenericStatusCallback(payload: any): StatusUpdate[] {
+  const items = Array.isArray(payload)
+    ? payload
+    : Array.isArray(payload?.statuses)
+      ? payload.statuses
+      : [payload]
+
+  return items
+    .map((item: any) => {
+      const status = String(item?.status ?? '').toLowerCase()
+      return statusUpdate(
+        item?.message_id ?? item?.messageId ?? item?.id,
+        status === 'delivered' || status === 'read' || status === 'failed'
+          ? status
+          : null,
+        item?.timestamp ?? Date.now(),
+        item?.error ?? item?.error_message ?? null,
+      )
+    })
+    .filter(Boolean) as StatusUpdate[]
+}
+
+// Flat `{ message_id, phone, text }` objects (or a list of them), for
+// n8n flows and any gateway we don't parse natively
+export function parseGenericInboundCallback(payload: any): InboundMessage[] {
+  const items = Array.isArray(payload)
+    ? payload
+    : Array.isArray(payload?.messages)
+      ? payload.messages
+      : [payload]
+
+  return items
+    .filter((item: any) => !item?.status)
+    .map((item: any) =>
+      inboundMessage(
+        item?.message_id ?? item?.messageId ?? item?.id,
+        item?.phone ?? item?.from,
+        item?.text ?? item?.body ?? item?.message,
+        item?.timestamp ?? Date.now(),
+        {
+          senderName: item?.name ?? null,
+          accountRef: item?.instance ?? item?.instance_id ?? null,
+        },
+      ),
+    )
+    .filter(Boolean) as InboundMessage[]
+}
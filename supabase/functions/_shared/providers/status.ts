@@ -0,0 +1,44 @@
+import type { DeliveryStatus, InboundMessage, StatusUpdate } from './types.ts'
+
+// Providers send seconds, milliseconds or ISO strings
+export function toIsoTimestamp(value: unknown): string {
+  if (typeof value === 'number' || /^\d+$/.test(String(value ?? ''))) {
+    const n = Number(value)
+    return new Date(n < 1e12 ? n * 1000 : n).toISOString()
+  }
+  const date = new Date(String(value ?? ''))
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString()
+}
+
+export function statusUpdate(
+  providerMessageId: unknown,
+  status: DeliveryStatus | null,
+  timestamp: unknown,
+  errorMessage?: string | null,
+): StatusUpdate | null {
+  if (!providerMessageId || !status) return null
+  return {
+    providerMessageId: String(providerMessageId),
+    status,
+    timestamp: toIsoTimestamp(timestamp),
+    errorMessage: errorMessage ?? null,
+  }
+}
+
+export function inboundMessage(
+  providerMessageId: unknown,
+  from: unknown,
+  text: unknown,
+  timestamp: unknown,
+  extra: Pick<InboundMessage, 'senderName' | 'accountRef'> = {},
+): InboundMessage | null {
+  if (!providerMessageId || !from) return null
+  return {
+    providerMessageId: String(providerMessageId),
+    from: String(from),
+    text: typeof text === 'string' ? text : '',
+    timestamp: toIsoTimestamp(timestamp),
+    senderName: extra.senderName ?? null,
+    accountRef: extra.accountRef ?? null,
+  }
+}
@@ -0,0 +1,72 @@
+import type { MediaAttachment } from '../media.ts'
+
+export type ProviderType = 'n8n' | 'evolution' | 'meta' | 'mock'
+
+// Normalized error categories so callers can react to a failure without
+// knowing which backend produced it
+export type SendErrorCode =
+  | 'invalid_number'
+  | 'auth_error'
+  | 'rate_limited'
+  | 'timeout'
+  | 'network_error'
+  | 'provider_unavailable'
+  | 'provider_error'
+  | 'invalid_request'
+
+export interface ProviderConfig {
+  provider: ProviderType
+  endpoint?: string
+  instanceId?: string
+  token?: string
+}
+
+export interface OutgoingMessage {
+  name: string
+  phone: string
+  // Used as the caption when media is attached
+  text: string
+  media?: MediaAttachment | null
+}
+
+export interface SendResult {
+  success: boolean
+  providerMessageId: string | null
+  errorCode: SendErrorCode | null
+  errorMessage?: string
+  raw: unknown
+}
+
+// Receipt statuses a provider can report after the send was accepted
+export type DeliveryStatus = 'delivered' | 'read' | 'failed'
+
+export interface StatusUpdate {
+  providerMessageId: string
+  status: DeliveryStatus
+  timestamp: string
+  errorMessage?: string | null
+}
+
+// Message a contact sent to the connected number
+export interface InboundMessage {
+  providerMessageId: string
+  from: string
+  text: string
+  timestamp: string
+  senderName?: string | null
+  // Number/instance that received it (Meta phone number ID, Evolution
+  // instance name), matched against whatsapp_connections.instance_id
+  accountRef?: string | null
+}
+
+export interface HealthResult {
+  ok: boolean
+  message: string
+  raw?: unknown
+}
+
+export interface WhatsAppProvider {
+  type: ProviderType
+  send(message: OutgoingMessage): Promise<SendResult>
+  healthCheck(): Promise<HealthResult>
+}
@@ -0,0 +1,60 @@
+import { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import type { StatusUpdate } from './providers/index.ts'
+
+// Receipts only move a message forward: a late "delivered" never
+// overwrites "read", a late "failed" never overwrites a message that
+// reached the phone, and nothing leaves "failed"
+const STATUS_RANK: Record<string, number> = {
+  sending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+}
+
+export async function applyStatusUpdate(
+  supabase: SupabaseClient,
+  update: StatusUpdate,
+): Promise<boolean> {
+  const { data: message, error } = await supabase
+    .from('campaign_messages')
+    .select('id, status, delivered_at')
+    .eq('provider_message_id', update.providerMessageId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!message) return false
+
+  const currentRank = STATUS_RANK[message.status]
+  if (currentRank === undefined) return false
+
+  let changes: Record<string, unknown>
+
+  if (update.status === 'failed') {
+    if (currentRank >= STATUS_RANK.delivered) return false
+
+    changes = {
+      status: 'failed',
+      failed_at: update.timestamp,
+      error_message: update.errorMessage || 'Delivery failed',
+    }
+  } else {
+    if (STATUS_RANK[update.status] <= currentRank) return false
+
+    changes = {
+      status: update.status,
+      // A read receipt implies delivery, even if that callback never came
+      delivered_at: message.delivered_at || update.timestamp,
+    }
+    if (update.status === 'read') changes.read_at = update.timestamp
+  }
+
+  // Conditional on the status we read, so concurrent receipts can't regress it
+  const { error: updateError } = await supabase
+    .from('campaign_messages')
+    .update(changes)
+    .eq('id', message.id)
+    .eq('status', message.status)
+
+  if (updateError) throw updateError
+  return true
+}
@@ -0,0 +1,311 @@
+// Recurring campaigns: a rule (daily, weekly on some weekdays, monthly on a
+// day, or a cron expression) says when the template campaign spawns its
+// next run. Times are wall-clock times in the campaign's timezone. The
+// queue worker spawns the runs; the wizard previews the next dates.
+// This module must stay free of Deno/browser specific APIs.
+import { positiveInt } from './numbers.ts'
+import { WEEKDAY_ORDER, WEEKDAY_SHORT_LABELS } from './sending-windows.ts'
+import {
+  calendarDateKey,
+  getZonedParts,
+  parseCalendarDate,
+  parseTimeOfDay,
+  zonedDateKey,
+  zonedTimeToUtc,
+} from './timezone.ts'
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'cron'
+
+export const RECURRENCE_FREQUENCY_LABELS: Record<RecurrenceFrequency, string> =
+  {
+    daily: 'Todo dia',
+    weekly: 'Toda semana',
+    monthly: 'Todo mês',
+    cron: 'Expressão cron',
+  }
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  // 'HH:mm' of each run, except for cron
+  time: string
+  // Weekly: days of the week, 0 = Sunday
+  weekdays: number[]
+  // Monthly: 1-31; months without that day run on their last day
+  monthDay: number
+  // Five fields: minute hour day-of-month month day-of-week
+  cron: string
+  // 'YYYY-MM-DD' of the last day a run may start on, or null
+  endsOn: string | null
+  // Runs to spawn in total, or null for no limit
+  maxOccurrences: number | null
+}
+
+export const DEFAULT_RECURRENCE: RecurrenceRule = {
+  frequency: 'weekly',
+  time: '09:00',
+  weekdays: [1],
+  monthDay: 1,
+  cron: '0 9 * * 1-5',
+  endsOn: null,
+  maxOccurrences: null,
+}
+
+// How far ahead a run is looked for: long enough for a cron that only
+// fires on February 29th
+const SEARCH_DAYS = 366 * 4 + 1
+
+function isFrequency(value: unknown): value is RecurrenceFrequency {
+  return typeof value === 'string' && value in RECURRENCE_FREQUENCY_LABELS
+}
+
+// Reads the stored rule (snake_case) or the form's (camelCase). Null for
+// campaigns that don't repeat.
+export function parseRecurrence(raw: any): RecurrenceRule | null {
+  if (!raw || !isFrequency(raw.frequency)) return null
+
+  const weekdays = Array.isArray(raw.weekdays)
+    ? [
+        ...new Set<number>(
+          raw.weekdays
+            .map(Number)
+            .filter((day: number) => Number.isInteger(day) && day >= 0),
+        ),
+      ]
+        .map((day) => day % 7)
+        .sort()
+    : DEFAULT_RECURRENCE.weekdays
+  const monthDay = positiveInt(raw.month_day ?? raw.monthDay)
+  const endsOn = parseCalendarDate(raw.ends_on ?? raw.endsOn)
+
+  return {
+    frequency: raw.frequency,
+    time:
+      typeof raw.time === 'string' && parseTimeOfDay(raw.time) !== null
+        ? raw.time
+        : DEFAULT_RECURRENCE.time,
+    weekdays,
+    monthDay: Math.min(monthDay ?? DEFAULT_RECURRENCE.monthDay, 31),
+    cron: typeof raw.cron === 'string' ? raw.cron.trim() : '',
+    endsOn: endsOn ? calendarDateKey(endsOn) : null,
+    maxOccurrences: positiveInt(raw.max_occurrences ?? raw.maxOccurrences),
+  }
+}
+
+export function serializeRecurrence(rule: RecurrenceRule) {
+  return {
+    frequency: rule.frequency,
+    time: rule.time,
+    weekdays: rule.weekdays,
+    month_day: rule.monthDay,
+    cron: rule.cron,
+    ends_on: rule.endsOn,
+    max_occurrences: rule.maxOccurrences,
+  }
+}
+
+interface CronSchedule {
+  minutes: number[]
+  hours: number[]
+  days: Set<number>
+  months: Set<number>
+  weekdays: Set<number>
+  // '*' in the day fields, which changes how the two combine
+  anyDay: boolean
+  anyWeekday: boolean
+}
+
+// One cron field: '*', 'n', 'a-b', lists of those and '/step'. Null when
+// anything is out of range.
+function parseCronField(field: string, min: number, max: number) {
+  const values = new Set<number>()
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part)
+    if (!match) return null
+
+    const start = match[1] === '*' ? min : Number(match[2])
+    const end =
+      match[1] === '*'
+        ? max
+        : match[3] !== undefined
+          ? Number(match[3])
+          : match[4] !== undefined
+            ? max
+            : start
+    const step = match[4] !== undefined ? Number(match[4]) : 1
+    if (start < min || end > max || start > end || step < 1) return null
+
+    for (let value = start; value <= end; value += step) values.add(value)
+  }
+  return [...values].sort((a, b) => a - b)
+}
+
+export function parseCron(expression: string): CronSchedule | null {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) return null
+
+  const minutes = parseCronField(fields[0], 0, 59)
+  const hours = parseCronField(fields[1], 0, 23)
+  const days = parseCronField(fields[2], 1, 31)
+  const months = parseCronField(fields[3], 1, 12)
+  // 7 is Sunday too
+  const weekdays = parseCronField(fields[4], 0, 7)
+  if (!minutes || !hours || !days || !months || !weekdays) return null
+
+  return {
+    minutes,
+    hours,
+    days: new Set(days),
+    months: new Set(months),
+    weekdays: new Set(weekdays.map((day) => day % 7)),
+    anyDay: fields[2] === '*',
+    anyWeekday: fields[4] === '*',
+  }
+}
+
+// What is wrong with the rule, in words for the form, or null
+export function validateRecurrence(rule: RecurrenceRule): string | null {
+  if (rule.frequency === 'cron' && !parseCron(rule.cron)) {
+    return 'Expressão cron inválida: use cinco campos (minuto hora dia mês dia-da-semana).'
+  }
+  if (rule.frequency !== 'cron' && parseTimeOfDay(rule.time) === null) {
+    return 'Informe o horário.'
+  }
+  if (rule.frequency === 'weekly' && rule.weekdays.length === 0) {
+    return 'Escolha ao menos um dia da semana.'
+  }
+  if (rule.endsOn !== null && !parseCalendarDate(rule.endsOn)) {
+    return 'Informe a data de término.'
+  }
+  return null
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+// Minutes of the day the rule runs at on the given calendar day
+function runMinutes(
+  rule: RecurrenceRule,
+  cron: CronSchedule | null,
+  day: { year: number; month: number; day: number; weekday: number },
+): number[] {
+  const time = parseTimeOfDay(rule.time) ?? 0
+  switch (rule.frequency) {
+    case 'daily':
+      return [time]
+    case 'weekly':
+      return rule.weekdays.includes(day.weekday) ? [time] : []
+    case 'monthly':
+      return day.day ===
+        Math.min(rule.monthDay, daysInMonth(day.year, day.month))
+        ? [time]
+        : []
+    case 'cron': {
+      if (!cron || !cron.months.has(day.month)) return []
+      const dayMatch = cron.days.has(day.day)
+      const weekdayMatch = cron.weekdays.has(day.weekday)
+      // Like cron: with both day fields restricted either one is enough
+      const matches =
+        cron.anyDay || cron.anyWeekday
+          ? dayMatch && weekdayMatch
+          : dayMatch || weekdayMatch
+      if (!matches) return []
+      return cron.hours.flatMap((hour) =>
+        cron.minutes.map((minute) => hour * 60 + minute),
+      )
+    }
+  }
+}
+
+// The first run strictly after `after`, ignoring how the rule ends. Null
+// when the rule never runs.
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  after: Date,
+  timeZone: string,
+): Date | null {
+  const cron = rule.frequency === 'cron' ? parseCron(rule.cron) : null
+  if (rule.frequency === 'cron' && !cron) return null
+
+  const start = getZonedParts(after, timeZone)
+  for (let offset = 0; offset <= SEARCH_DAYS; offset++) {
+    // Noon never falls in a DST gap, so it pins down the calendar day
+    const day = getZonedParts(
+      zonedTimeToUtc(
+        {
+          year: start.year,
+          month: start.month,
+          day: start.day + offset,
+          hour: 12,
+        },
+        timeZone,
+      ),
+      timeZone,
+    )
+    for (const minutes of runMinutes(rule, cron, day)) {
+      const run = zonedTimeToUtc(
+        {
+          year: day.year,
+          month: day.month,
+          day: day.day,
+          hour: Math.floor(minutes / 60),
+          minute: minutes % 60,
+        },
+        timeZone,
+      )
+      if (run > after) return run
+    }
+  }
+  return null
+}
+
+// The next run to spawn after `after`, given how many already were, or
+// null once the rule has ended
+export function nextRun(
+  rule: RecurrenceRule,
+  after: Date,
+  timeZone: string,
+  occurrences: number,
+): Date | null {
+  if (rule.maxOccurrences !== null && occurrences >= rule.maxOccurrences) {
+    return null
+  }
+  const run = nextOccurrence(rule, after, timeZone)
+  if (!run) return null
+  if (rule.endsOn && zonedDateKey(run, timeZone) > rule.endsOn) return null
+  return run
+}
+
+function formatEndsOn(key: string) {
+  const [year, month, day] = key.split('-')
+  return `${day}/${month}/${year}`
+}
+
+// "Toda semana (Seg, Qua) às 09:00, até 31/12/2026"
+export function describeRecurrence(rule: RecurrenceRule) {
+  let text: string
+  switch (rule.frequency) {
+    case 'daily':
+      text = `Todo dia às ${rule.time}`
+      break
+    case 'weekly': {
+      const days = WEEKDAY_ORDER.filter((day) => rule.weekdays.includes(day))
+        .map((day) => WEEKDAY_SHORT_LABELS[day])
+        .join(', ')
+      text = `Toda semana (${days}) às ${rule.time}`
+      break
+    }
+    case 'monthly':
+      text = `Todo mês no dia ${rule.monthDay} às ${rule.time}`
+      break
+    case 'cron':
+      text = `Cron "${rule.cron}"`
+      break
+  }
+
+  const ends = [
+    rule.endsOn ? `até ${formatEndsOn(rule.endsOn)}` : null,
+    rule.maxOccurrences ? `${rule.maxOccurrences} execuções` : null,
+  ].filter(Boolean)
+  return ends.length > 0 ? `${text}, ${ends.join(', ')}` : text
+}
@@ -0,0 +1,103 @@
+// Automatic retry rules shared by the campaign forms and the queue worker.
+// This module must stay free of Deno/browser specific APIs.
+import type { SendErrorCode } from './providers/types.ts'
+
+export type { SendErrorCode }
+
+export interface RetryPolicy {
+  // Total sends per message, counting the first one (1 = never retry)
+  maxAttempts: number
+  // Wait before the first retry; doubles on every following attempt
+  backoffSeconds: number
+  retryableErrors: SendErrorCode[]
+}
+
+export const SEND_ERROR_LABELS: Record<SendErrorCode, string> = {
+  rate_limited: 'Limite de envio do provedor',
+  timeout: 'Tempo esgotado',
+  network_error: 'Falha de rede',
+  provider_unavailable: 'Provedor indisponível',
+  provider_error: 'Erro do provedor',
+  auth_error: 'Falha de autenticação',
+  invalid_number: 'Número inválido',
+  invalid_request: 'Mensagem inválida',
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  backoffSeconds: 60,
+  retryableErrors: [
+    'rate_limited',
+    'timeout',
+    'network_error',
+    'provider_unavailable',
+  ],
+}
+
+export const MAX_RETRY_ATTEMPTS = 10
+const MAX_BACKOFF_SECONDS = 6 * 60 * 60
+
+function isSendErrorCode(value: unknown): value is SendErrorCode {
+  return typeof value === 'string' && value in SEND_ERROR_LABELS
+}
+
+function clampInt(value: unknown, min: number, max: number, fallback: number) {
+  const n = parseInt(String(value), 10)
+  return isNaN(n) ? fallback : Math.min(max, Math.max(min, n))
+}
+
+// Reads `retry_policy` (stored) or `retryPolicy` (form) from a campaign
+// config. Campaigns created before retries existed get the defaults.
+export function parseRetryPolicy(config: any): RetryPolicy {
+  const raw = config?.retry_policy ?? config?.retryPolicy
+  if (!raw) return DEFAULT_RETRY_POLICY
+
+  const errors = raw.retryable_errors ?? raw.retryableErrors
+  return {
+    maxAttempts: clampInt(
+      raw.max_attempts ?? raw.maxAttempts,
+      1,
+      MAX_RETRY_ATTEMPTS,
+      DEFAULT_RETRY_POLICY.maxAttempts,
+    ),
+    backoffSeconds: clampInt(
+      raw.backoff_seconds ?? raw.backoffSeconds,
+      1,
+      MAX_BACKOFF_SECONDS,
+      DEFAULT_RETRY_POLICY.backoffSeconds,
+    ),
+    retryableErrors: Array.isArray(errors)
+      ? errors.filter(isSendErrorCode)
+      : DEFAULT_RETRY_POLICY.retryableErrors,
+  }
+}
+
+export function serializeRetryPolicy(policy: RetryPolicy) {
+  return {
+    max_attempts: policy.maxAttempts,
+    backoff_seconds: policy.backoffSeconds,
+    retryable_errors: policy.retryableErrors,
+  }
+}
+
+// `attemptCount` includes the attempt that just failed
+export function shouldRetry(
+  policy: RetryPolicy,
+  attemptCount: number,
+  errorCode: SendErrorCode | null,
+): boolean {
+  return (
+    attemptCount < policy.maxAttempts &&
+    !!errorCode &&
+    policy.retryableErrors.includes(errorCode)
+  )
+}
+
+// base, 2x base, 4x base... capped at 6 hours
+export function retryDelaySeconds(
+  policy: RetryPolicy,
+  attemptCount: number,
+): number {
+  const delay = policy.backoffSeconds * 2 ** Math.max(0, attemptCount - 1)
+  return Math.min(delay, MAX_BACKOFF_SECONDS)
+}
@@ -0,0 +1,176 @@
+// Sender number pool: each WhatsApp connection of an account is one number,
+// with its own status, daily limit and spacing. Campaigns pick the number
+// for every message with a rotation strategy; the queue worker takes
+// numbers that keep failing out of rotation.
+// This module must stay free of Deno/browser specific APIs.
+import type { SendErrorCode } from './providers/types.ts'
+
+export type SenderStatus = 'active' | 'paused' | 'failing'
+
+export type RotationStrategy = 'round_robin' | 'least_used' | 'sticky'
+
+export const ROTATION_STRATEGY_LABELS: Record<RotationStrategy, string> = {
+  round_robin: 'Revezamento (um de cada vez)',
+  least_used: 'Menos usado hoje',
+  sticky: 'Mesmo número por contato',
+}
+
+export const SENDER_STATUS_LABELS: Record<SenderStatus, string> = {
+  active: 'Ativo',
+  paused: 'Pausado',
+  failing: 'Com falhas',
+}
+
+export interface SenderRotation {
+  strategy: RotationStrategy
+  // Numbers the campaign may use; empty for every active number
+  senderIds: string[]
+}
+
+export const DEFAULT_SENDER_ROTATION: SenderRotation = {
+  strategy: 'round_robin',
+  senderIds: [],
+}
+
+// Failures in a row that take a number out of rotation
+export const SENDER_FAILURE_THRESHOLD = 3
+
+// Bad numbers or content say nothing about the sender
+const IGNORED_ERRORS: SendErrorCode[] = ['invalid_number', 'invalid_request']
+
+export interface SenderState {
+  id: string
+  status: SenderStatus
+  daily_limit: number | null
+  min_interval_seconds: number
+  last_used_at: string | null
+  // Successful sends today, across every campaign
+  sentToday: number
+  // Set when the account-wide limiter turned the number down, so the next
+  // pick prefers one that is free
+  blocked_until?: string | null
+}
+
+export interface SenderPick<T extends SenderState> {
+  sender: T
+  // How long to wait before the number may send again
+  waitMs: number
+}
+
+function isRotationStrategy(value: unknown): value is RotationStrategy {
+  return typeof value === 'string' && value in ROTATION_STRATEGY_LABELS
+}
+
+// Reads `sender_rotation` (stored) or `senderRotation` (form) from a
+// campaign config. Campaigns created before the pool existed get the
+// defaults.
+export function parseSenderRotation(config: any): SenderRotation {
+  const raw = config?.sender_rotation ?? config?.senderRotation
+  if (!raw) return DEFAULT_SENDER_ROTATION
+
+  const ids = raw.sender_ids ?? raw.senderIds
+  return {
+    strategy: isRotationStrategy(raw.strategy)
+      ? raw.strategy
+      : DEFAULT_SENDER_ROTATION.strategy,
+    senderIds: Array.isArray(ids)
+      ? [...new Set(ids.filter((id: unknown) => typeof id === 'string'))]
+      : [],
+  }
+}
+
+export function serializeSenderRotation(rotation: SenderRotation) {
+  return {
+    strategy: rotation.strategy,
+    sender_ids: rotation.senderIds,
+  }
+}
+
+// Active numbers a campaign spreads its sends across
+export function campaignSenders<T extends { id: string; status: SenderStatus }>(
+  rotation: SenderRotation,
+  senders: T[],
+): T[] {
+  return senders.filter(
+    (sender) =>
+      sender.status === 'active' &&
+      (rotation.senderIds.length === 0 ||
+        rotation.senderIds.includes(sender.id)),
+  )
+}
+
+export function countsAsSenderFailure(errorCode: SendErrorCode | null) {
+  return !!errorCode && !IGNORED_ERRORS.includes(errorCode)
+}
+
+// Milliseconds until the number's spacing allows another send
+function intervalWait(sender: SenderState, now: Date) {
+  const spacedAt =
+    sender.last_used_at && sender.min_interval_seconds > 0
+      ? new Date(sender.last_used_at).getTime() +
+        sender.min_interval_seconds * 1000
+      : 0
+  const blockedUntil = sender.blocked_until
+    ? new Date(sender.blocked_until).getTime()
+    : 0
+  return Math.max(0, spacedAt - now.getTime(), blockedUntil - now.getTime())
+}
+
+function hasCapacity(sender: SenderState) {
+  return sender.daily_limit === null || sender.sentToday < sender.daily_limit
+}
+
+function leastUsed<T extends SenderState>(senders: T[]): T {
+  return [...senders].sort(
+    (a, b) =>
+      a.sentToday - b.sentToday ||
+      (a.last_used_at ?? '').localeCompare(b.last_used_at ?? ''),
+  )[0]
+}
+
+// The number for the next message, or null when none of the campaign's
+// numbers may send again today. `senders` keeps the account's order, which
+// round-robin walks through starting after `lastSenderId`. Sticky reuses
+// the contact's previous number while it is in the pool and under its
+// limit, and otherwise falls back to the least used one.
+export function pickSender<T extends SenderState>(
+  rotation: SenderRotation,
+  senders: T[],
+  now: Date,
+  context: { lastSenderId?: string | null; contactSenderId?: string | null },
+): SenderPick<T> | null {
+  const pool = senders.filter(
+    (sender) =>
+      sender.status === 'active' &&
+      (rotation.senderIds.length === 0 ||
+        rotation.senderIds.includes(sender.id)),
+  )
+  const open = pool.filter(hasCapacity)
+  if (open.length === 0) return null
+
+  if (rotation.strategy === 'sticky') {
+    const previous = open.find((s) => s.id === context.contactSenderId)
+    if (previous) {
+      return { sender: previous, waitMs: intervalWait(previous, now) }
+    }
+  }
+
+  const ready = open.filter((sender) => intervalWait(sender, now) === 0)
+  if (ready.length === 0) {
+    // Everyone is spacing out: take whichever frees up first
+    const soonest = [...open].sort(
+      (a, b) => intervalWait(a, now) - intervalWait(b, now),
+    )[0]
+    return { sender: soonest, waitMs: intervalWait(soonest, now) }
+  }
+
+  if (rotation.strategy === 'round_robin') {
+    const lastIndex = pool.findIndex((s) => s.id === context.lastSenderId)
+    for (let step = 1; step <= pool.length; step++) {
+      const candidate = pool[(lastIndex + step) % pool.length]
+      if (ready.includes(candidate)) return { sender: candidate, waitMs: 0 }
+    }
+  }
+
+  return { sender: leastUsed(ready), waitMs: 0 }
+}
@@ -0,0 +1,189 @@
+// Weekly sending windows: for each weekday, the time ranges in which a
+// campaign may send. Used by the schedule preview and the queue worker so
+// both pause and resume at the same minute.
+// This module must stay free of Deno/browser specific APIs.
+import {
+  getZonedParts,
+  parseTimeOfDay,
+  zonedMinutesOfDay,
+  zonedTimeToUtc,
+} from './timezone.ts'
+
+export interface SendingWindow {
+  // 'HH:mm', start inclusive, end exclusive
+  start: string
+  end: string
+}
+
+// Indexed by weekday, 0 = Sunday
+export type WeeklyWindows = SendingWindow[][]
+
+export const WEEKDAY_LABELS = [
+  'Domingo',
+  'Segunda',
+  'Terça',
+  'Quarta',
+  'Quinta',
+  'Sexta',
+  'Sábado',
+]
+
+export const WEEKDAY_SHORT_LABELS = [
+  'Dom',
+  'Seg',
+  'Ter',
+  'Qua',
+  'Qui',
+  'Sex',
+  'Sáb',
+]
+
+// Monday first, the way the editor lists the days
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0]
+
+export const DEFAULT_WEEKLY_WINDOWS: WeeklyWindows = [
+  [],
+  [{ start: '08:00', end: '18:00' }],
+  [{ start: '08:00', end: '18:00' }],
+  [{ start: '08:00', end: '18:00' }],
+  [{ start: '08:00', end: '18:00' }],
+  [{ start: '08:00', end: '18:00' }],
+  [{ start: '08:00', end: '12:00' }],
+]
+
+// The single pause/resume pair older campaigns used, applied to every day.
+// A pause earlier than the resume means the window runs past midnight.
+export function dailyWindows(resumeAt: string, pauseAt: string): WeeklyWindows {
+  const day =
+    (parseTimeOfDay(pauseAt) ?? 0) > (parseTimeOfDay(resumeAt) ?? 0)
+      ? [{ start: resumeAt, end: pauseAt }]
+      : [
+          { start: '00:00', end: pauseAt },
+          { start: resumeAt, end: '23:59' },
+        ]
+  return Array.from({ length: 7 }, () => day.map((window) => ({ ...window })))
+}
+
+// Sorted, valid (end after start) and with overlapping ranges merged
+export function normalizeDayWindows(windows: SendingWindow[]) {
+  const ranges = windows
+    .map((window) => ({
+      start: parseTimeOfDay(window.start),
+      end: parseTimeOfDay(window.end),
+    }))
+    .filter(
+      (range): range is { start: number; end: number } =>
+        range.start !== null && range.end !== null && range.end > range.start,
+    )
+    .sort((a, b) => a.start - b.start)
+
+  const merged: { start: number; end: number }[] = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end)
+    } else {
+      merged.push({ ...range })
+    }
+  }
+  return merged
+}
+
+export function normalizeWeeklyWindows(value: unknown): WeeklyWindows | null {
+  if (!Array.isArray(value) || value.length !== 7) return null
+  return value.map((day) =>
+    normalizeDayWindows(Array.isArray(day) ? day : []).map((range) => ({
+      start: formatMinutes(range.start),
+      end: formatMinutes(range.end),
+    })),
+  )
+}
+
+function formatMinutes(minutes: number) {
+  return [Math.floor(minutes / 60), minutes % 60]
+    .map((n) => String(n).padStart(2, '0'))
+    .join(':')
+}
+
+export function hasAnyWindow(windows: WeeklyWindows) {
+  return windows.some((day) => normalizeDayWindows(day).length > 0)
+}
+
+export function isWithinSendingWindow(
+  date: Date,
+  windows: WeeklyWindows,
+  timeZone: string,
+) {
+  const { weekday } = getZonedParts(date, timeZone)
+  const minutes = zonedMinutesOfDay(date, timeZone)
+  return normalizeDayWindows(windows[weekday] ?? []).some(
+    (range) => minutes >= range.start && minutes < range.end,
+  )
+}
+
+// `date` itself when it falls inside a window, otherwise the start of the
+// next one. Null when the week has no window at all.
+export function nextSendingTime(
+  date: Date,
+  windows: WeeklyWindows,
+  timeZone: string,
+): Date | null {
+  if (isWithinSendingWindow(date, windows, timeZone)) return date
+
+  const today = getZonedParts(date, timeZone)
+  const minutes = today.hour * 60 + today.minute
+
+  // Today's remaining windows, then up to a full week ahead
+  for (let offset = 0; offset <= 7; offset++) {
+    const weekday = (today.weekday + offset) % 7
+    const next = normalizeDayWindows(windows[weekday] ?? []).find(
+      (range) => offset > 0 || range.start > minutes,
+    )
+    if (next) {
+      return zonedTimeToUtc(
+        {
+          year: today.year,
+          month: today.month,
+          day: today.day + offset,
+          hour: Math.floor(next.start / 60),
+          minute: next.start % 60,
+        },
+        timeZone,
+      )
+    }
+  }
+  return null
+}
+
+// "Seg–Sex 08:00–12:00, 13:30–18:00 · Sáb 09:00–12:00"
+export function summarizeWeeklyWindows(windows: WeeklyWindows) {
+  const groups: { days: number[]; label: string }[] = []
+  for (const weekday of WEEKDAY_ORDER) {
+    const label = normalizeDayWindows(windows[weekday] ?? [])
+      .map(
+        (range) => `${formatMinutes(range.start)}–${formatMinutes(range.end)}`,
+      )
+      .join(', ')
+    if (!label) continue
+
+    const last = groups[groups.length - 1]
+    const previousDay = last?.days[last.days.length - 1]
+    const isNextDay =
+      previousDay !== undefined &&
+      WEEKDAY_ORDER.indexOf(weekday) === WEEKDAY_ORDER.indexOf(previousDay) + 1
+    if (last && last.label === label && isNextDay) {
+      last.days.push(weekday)
+    } else {
+      groups.push({ days: [weekday], label })
+    }
+  }
+
+  if (groups.length === 0) return 'Nenhuma janela'
+  return groups
+    .map(({ days, label }) => {
+      const first = WEEKDAY_SHORT_LABELS[days[0]]
+      const last = WEEKDAY_SHORT_LABELS[days[days.length - 1]]
+      return `${days.length > 1 ? `${first}–${last}` : first} ${label}`
+    })
+    .join(' · ')
+}
@@ -0,0 +1,127 @@
+// Drip sequences: ordered steps sent to each enrolled contact, every step
+// a delay after the previous one and only inside its own sending window.
+// The queue worker advances the enrollments; a reply or an opt-out takes
+// the contact out. This module must stay free of Deno/browser specific
+// APIs.
+import {
+  hasAnyWindow,
+  nextSendingTime,
+  normalizeWeeklyWindows,
+  type WeeklyWindows,
+} from './sending-windows.ts'
+
+export type EnrollmentStatus =
+  | 'active'
+  | 'completed'
+  | 'replied'
+  | 'opted_out'
+  | 'failed'
+  | 'removed'
+
+export const ENROLLMENT_STATUS_LABELS: Record<EnrollmentStatus, string> = {
+  active: 'Em andamento',
+  completed: 'Concluiu',
+  replied: 'Respondeu',
+  opted_out: 'Descadastrou',
+  failed: 'Falhou',
+  removed: 'Removido',
+}
+
+// Sequences have no interval setting of their own: a number waits at least
+// this long between two of their steps, or the account's spacing when that
+// is longer, so a batch of due contacts doesn't go out back to back
+export const SEQUENCE_MIN_SPACING_SECONDS = 30
+
+export interface SequenceStepRule {
+  // 1-based order within the sequence
+  position: number
+  // Wait after the previous step, or after enrolling for the first one
+  delay_minutes: number
+  // Weekly windows the step may go out in; null for any time
+  send_window: unknown
+}
+
+export type DelayUnit = 'minutes' | 'hours' | 'days'
+
+export const DELAY_UNIT_MINUTES: Record<DelayUnit, number> = {
+  minutes: 1,
+  hours: 60,
+  days: 24 * 60,
+}
+
+export const DELAY_UNIT_LABELS: Record<DelayUnit, string> = {
+  minutes: 'minutos',
+  hours: 'horas',
+  days: 'dias',
+}
+
+// Biggest unit the delay is a whole number of, for the form
+export function splitDelay(minutes: number): {
+  amount: number
+  unit: DelayUnit
+} {
+  if (minutes > 0 && minutes % DELAY_UNIT_MINUTES.days === 0) {
+    return { amount: minutes / DELAY_UNIT_MINUTES.days, unit: 'days' }
+  }
+  if (minutes > 0 && minutes % DELAY_UNIT_MINUTES.hours === 0) {
+    return { amount: minutes / DELAY_UNIT_MINUTES.hours, unit: 'hours' }
+  }
+  return { amount: minutes, unit: 'minutes' }
+}
+
+// "3 dias", "imediatamente"
+export function formatDelay(minutes: number) {
+  if (minutes <= 0) return 'imediatamente'
+  const { amount, unit } = splitDelay(minutes)
+  const label = DELAY_UNIT_LABELS[unit]
+  return `${amount} ${amount === 1 ? label.slice(0, -1) : label}`
+}
+
+// The step's window, or null when it may go out at any time
+export function stepSendWindow(step: Pick<SequenceStepRule, 'send_window'>) {
+  const windows = normalizeWeeklyWindows(step.send_window)
+  return windows && hasAnyWindow(windows) ? windows : null
+}
+
+// When the step is due, counting its delay from `after` (the previous
+// send, or the enrollment) and moving into its window. Null when the
+// window has no open hour at all.
+export function stepDueAt(
+  step: SequenceStepRule,
+  after: Date,
+  timeZone: string,
+): Date | null {
+  const due = new Date(after.getTime() + step.delay_minutes * 60_000)
+  const windows: WeeklyWindows | null = stepSendWindow(step)
+  return windows ? nextSendingTime(due, windows, timeZone) : due
+}
+
+export interface FunnelStage {
+  position: number
+  // Contacts the step was sent to
+  sent: number
+  // Contacts still in the sequence waiting for this step
+  waiting: number
+}
+
+// How far the enrolled contacts got: one stage per step, each counting
+// who received it and who is queued for it
+export function buildSequenceFunnel(
+  stepCount: number,
+  enrollments: { status: string; current_step: number }[],
+): FunnelStage[] {
+  return Array.from({ length: stepCount }, (_, index) => {
+    const position = index + 1
+    return {
+      position,
+      sent: enrollments.filter(
+        (enrollment) => enrollment.current_step >= position,
+      ).length,
+      waiting: enrollments.filter(
+        (enrollment) =>
+          enrollment.status === 'active' &&
+          enrollment.current_step === position - 1,
+      ).length,
+    }
+  })
+}
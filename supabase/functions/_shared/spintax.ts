@@ -0,0 +1,128 @@
+// Spintax: {Olá|Oi|E aí} picks one option per recipient. Groups can be
+// nested ({Oi|{Bom dia|Boa tarde}}). Template placeholders ({{nome}}) are
+// left untouched, and a brace group without "|" is kept as literal text.
+// This module must stay free of Deno/browser specific APIs.
+
+type SpinNode = string | SpinNode[][]
+
+interface SequenceResult {
+  nodes: SpinNode[]
+  pos: number
+  terminator: '|' | '}' | null
+}
+
+function parseSequence(
+  source: string,
+  start: number,
+  inGroup: boolean,
+): SequenceResult {
+  const nodes: SpinNode[] = []
+  let literal = ''
+  let pos = start
+
+  const flush = () => {
+    if (literal) nodes.push(literal)
+    literal = ''
+  }
+
+  while (pos < source.length) {
+    const char = source[pos]
+
+    if (source.startsWith('{{', pos)) {
+      const end = source.indexOf('}}', pos + 2)
+      const stop = end === -1 ? source.length : end + 2
+      literal += source.slice(pos, stop)
+      pos = stop
+    } else if (char === '{') {
+      const group = parseGroup(source, pos + 1)
+      if (group) {
+        flush()
+        nodes.push(group.options)
+        pos = group.pos
+      } else {
+        literal += char
+        pos++
+      }
+    } else if (inGroup && (char === '|' || char === '}')) {
+      flush()
+      return { nodes, pos, terminator: char }
+    } else {
+      literal += char
+      pos++
+    }
+  }
+
+  flush()
+  return { nodes, pos, terminator: null }
+}
+
+function parseGroup(
+  source: string,
+  start: number,
+): { options: SpinNode[][]; pos: number } | null {
+  const options: SpinNode[][] = []
+  let result = parseSequence(source, start, true)
+  options.push(result.nodes)
+
+  while (result.terminator === '|') {
+    result = parseSequence(source, result.pos + 1, true)
+    options.push(result.nodes)
+  }
+
+  // Unbalanced brace, or a single option that isn't spintax at all
+  if (result.terminator !== '}' || options.length < 2) return null
+  return { options, pos: result.pos + 1 }
+}
+
+function parse(template: string): SpinNode[] {
+  return parseSequence(template, 0, false).nodes
+}
+
+function resolveNodes(nodes: SpinNode[], random: () => number): string {
+  return nodes
+    .map((node) => {
+      if (typeof node === 'string') return node
+      const option = node[Math.floor(random() * node.length)] || []
+      return resolveNodes(option, random)
+    })
+    .join('')
+}
+
+function countNodes(nodes: SpinNode[]): number {
+  return nodes.reduce<number>((total, node) => {
+    if (typeof node === 'string') return total
+    const groupCount = node.reduce((sum, option) => sum + countNodes(option), 0)
+    return total * groupCount
+  }, 1)
+}
+
+export function hasSpintax(template: string): boolean {
+  return parse(template).some((node) => typeof node !== 'string')
+}
+
+// Number of distinct texts the template can produce (before variables)
+export function countSpintaxVariants(template: string): number {
+  return countNodes(parse(template))
+}
+
+export function resolveSpintax(
+  template: string,
+  random: () => number = Math.random,
+): string {
+  return resolveNodes(parse(template), random)
+}
+
+export function sampleSpintax(
+  template: string,
+  count: number,
+  random: () => number = Math.random,
+): string[] {
+  const samples = new Set<string>()
+  const target = Math.min(count, countSpintaxVariants(template))
+
+  // Bounded attempts so templates with few variants don't loop forever
+  for (let i = 0; i < count * 10 && samples.size < target; i++) {
+    samples.add(resolveSpintax(template, random))
+  }
+  return Array.from(samples)
+}
@@ -0,0 +1,109 @@
+// Message templating shared by the queue worker and the React app.
+// Placeholders look like {{nome}} and accept a fallback: {{nome|cliente}}.
+// This module must stay free of Deno/browser specific APIs.
+
+import { resolveSpintax } from './spintax.ts'
+
+export type TemplateVariables = Record<string, string>
+
+export interface TemplateContact {
+  name?: string | null
+  phone?: string | null
+  variables?: unknown
+}
+
+export interface RenderResult {
+  text: string
+  // Placeholders that had neither a value nor a fallback
+  missing: string[]
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}|]+?)\s*(?:\|([^{}]*))?\}\}/g
+
+export const BUILT_IN_VARIABLES = ['nome', 'primeiro_nome', 'telefone']
+
+// "Primeiro Nome" -> "primeiro_nome", "Cidade/UF" -> "cidade_uf"
+export function normalizeVariableKey(key: string): string {
+  return key
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
+
+export function buildContactVariables(
+  contact: TemplateContact,
+): TemplateVariables {
+  const variables: TemplateVariables = {}
+
+  if (contact.variables && typeof contact.variables === 'object') {
+    for (const [key, value] of Object.entries(
+      contact.variables as Record<string, unknown>,
+    )) {
+      const normalizedKey = normalizeVariableKey(key)
+      if (normalizedKey && value !== null && value !== undefined) {
+        variables[normalizedKey] = String(value).trim()
+      }
+    }
+  }
+
+  // Built-ins always reflect the contact's current name/phone
+  const name = (contact.name || '').trim()
+  variables.nome = name
+  variables.primeiro_nome = name.split(/\s+/)[0] || ''
+  variables.telefone = (contact.phone || '').trim()
+
+  return variables
+}
+
+export function extractTemplateVariables(template: string): string[] {
+  const keys = new Set<string>()
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    keys.add(normalizeVariableKey(match[1]))
+  }
+  return Array.from(keys)
+}
+
+export function hasTemplateVariables(template: string): boolean {
+  return extractTemplateVariables(template).length > 0
+}
+
+export function renderTemplate(
+  template: string,
+  variables: TemplateVariables,
+): RenderResult {
+  const missing = new Set<string>()
+
+  const text = template.replace(
+    PLACEHOLDER_PATTERN,
+    (_match, rawKey: string, fallback?: string) => {
+      const key = normalizeVariableKey(rawKey)
+      const value = variables[key]
+      if (value) return value
+      if (fallback !== undefined) return fallback.trim()
+      missing.add(key)
+      return ''
+    },
+  )
+
+  return { text, missing: Array.from(missing) }
+}
+
+export function renderContactMessage(
+  contact: TemplateContact & { message?: string | null },
+): RenderResult {
+  return renderTemplate(contact.message || '', buildContactVariables(contact))
+}
+
+// What actually goes out: one spintax variant, then the contact's variables
+export function composeContactMessage(
+  contact: TemplateContact & { message?: string | null },
+  random: () => number = Math.random,
+): RenderResult {
+  return renderTemplate(
+    resolveSpintax(contact.message || '', random),
+    buildContactVariables(contact),
+  )
+}
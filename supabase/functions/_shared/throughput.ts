@@ -0,0 +1,79 @@
+// Account-wide pacing per sender number: a minimum spacing between two
+// sends and a ceiling of messages per hour, shared by every campaign of the
+// account. The queue worker reserves each send against these limits in the
+// database, so overlapping campaigns take turns instead of doubling the
+// rate; the schedule preview uses them to slow its estimate down.
+// This module must stay free of Deno/browser specific APIs.
+import { positiveInt } from './numbers.ts'
+
+export interface SenderThroughput {
+  // Seconds between two sends of the same number, 0 for no spacing
+  minSpacingSeconds: number
+  // Sends per rolling hour per number, null for no ceiling
+  hourlyLimit: number | null
+}
+
+export const DEFAULT_SENDER_THROUGHPUT: SenderThroughput = {
+  minSpacingSeconds: 0,
+  hourlyLimit: null,
+}
+
+// Longest spacing a number can be given between two of its sends
+export const MAX_MIN_SPACING_SECONDS = 60 * 60
+
+export const MIN_SPACING_ERROR = `O intervalo mínimo deve ser um número inteiro de 0 a ${MAX_MIN_SPACING_SECONDS} segundos`
+
+// A number's spacing as typed on its form: empty means none (0), anything
+// else must be a whole number of seconds up to an hour. Null when it
+// isn't one, so it can be rejected with MIN_SPACING_ERROR.
+export function parseMinSpacingSeconds(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return 0
+  const n = Number(value)
+  return Number.isInteger(n) && n >= 0 && n <= MAX_MIN_SPACING_SECONDS
+    ? n
+    : null
+}
+
+// The pacing columns of a profile row
+export function parseSenderThroughput(
+  profile: {
+    sender_min_spacing_seconds?: number | null
+    sender_hourly_limit?: number | null
+  } | null,
+): SenderThroughput {
+  if (!profile) return DEFAULT_SENDER_THROUGHPUT
+  return {
+    minSpacingSeconds: positiveInt(profile.sender_min_spacing_seconds) ?? 0,
+    hourlyLimit: positiveInt(profile.sender_hourly_limit),
+  }
+}
+
+// A number's own settings can only tighten the account's: the longer
+// spacing and the lower ceiling win
+export function effectiveThroughput(
+  account: SenderThroughput,
+  sender?: {
+    min_interval_seconds?: number | null
+    hourly_limit?: number | null
+  } | null,
+): SenderThroughput {
+  const hourly = [
+    account.hourlyLimit,
+    positiveInt(sender?.hourly_limit),
+  ].filter((n): n is number => n !== null)
+  return {
+    minSpacingSeconds: Math.max(
+      account.minSpacingSeconds,
+      positiveInt(sender?.min_interval_seconds) ?? 0,
+    ),
+    hourlyLimit: hourly.length > 0 ? Math.min(...hourly) : null,
+  }
+}
+
+// Fastest pace one number can keep up for long, in seconds per message
+export function secondsPerMessage(throughput: SenderThroughput): number {
+  return Math.max(
+    throughput.minSpacingSeconds,
+    throughput.hourlyLimit ? 3600 / throughput.hourlyLimit : 0,
+  )
+}
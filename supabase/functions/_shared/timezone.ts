@@ -0,0 +1,181 @@
+// Wall-clock helpers for campaigns that run in a given IANA timezone.
+// Built on Intl only, so offsets (and DST, where a zone still has it) come
+// from the runtime's tz database instead of a hardcoded UTC-3.
+// This module must stay free of Deno/browser specific APIs.
+
+export const DEFAULT_TIMEZONE = 'America/Sao_Paulo'
+
+export const BRAZIL_TIMEZONES: { value: string; label: string }[] = [
+  { value: 'America/Sao_Paulo', label: 'Brasília (SP, RJ, MG, Sul, GO, DF)' },
+  { value: 'America/Bahia', label: 'Bahia' },
+  { value: 'America/Fortaleza', label: 'Fortaleza (CE, RN, PB, PI, MA)' },
+  { value: 'America/Recife', label: 'Recife (PE)' },
+  { value: 'America/Maceio', label: 'Maceió (AL, SE)' },
+  { value: 'America/Belem', label: 'Belém (PA, AP)' },
+  { value: 'America/Araguaina', label: 'Araguaína (TO)' },
+  { value: 'America/Noronha', label: 'Fernando de Noronha' },
+  { value: 'America/Cuiaba', label: 'Cuiabá (MT)' },
+  { value: 'America/Campo_Grande', label: 'Campo Grande (MS)' },
+  { value: 'America/Manaus', label: 'Manaus (AM)' },
+  { value: 'America/Porto_Velho', label: 'Porto Velho (RO)' },
+  { value: 'America/Boa_Vista', label: 'Boa Vista (RR)' },
+  { value: 'America/Rio_Branco', label: 'Rio Branco (AC)' },
+]
+
+export interface ZonedDateParts {
+  year: number
+  // 1-12
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+  // 0 = Sunday
+  weekday: number
+}
+
+export interface CalendarDate {
+  year: number
+  month: number
+  day: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string) {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false
+  try {
+    getFormatter(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// First valid zone among the candidates (campaign, profile, ...)
+export function resolveTimeZone(...candidates: unknown[]): string {
+  return candidates.find(isValidTimeZone) ?? DEFAULT_TIMEZONE
+}
+
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const values: Record<string, string> = {}
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    values[part.type] = part.value
+  }
+  return {
+    year: Number(values.year),
+    month: Number(values.month),
+    day: Number(values.day),
+    hour: Number(values.hour),
+    minute: Number(values.minute),
+    second: Number(values.second),
+    weekday: WEEKDAYS.indexOf(values.weekday),
+  }
+}
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+function getOffset(date: Date, timeZone: string) {
+  const p = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+// The instant a wall-clock time happens in the zone. Out of range days and
+// hours roll over (day 32 is the 1st of next month). A wall time skipped
+// by a DST jump moves forward by the size of the jump.
+export function zonedTimeToUtc(
+  local: CalendarDate & { hour?: number; minute?: number },
+  timeZone: string,
+): Date {
+  const guess = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour ?? 0,
+    local.minute ?? 0,
+  )
+  const firstOffset = getOffset(new Date(guess), timeZone)
+  const candidate = guess - firstOffset
+  const secondOffset = getOffset(new Date(candidate), timeZone)
+  if (secondOffset === firstOffset) return new Date(candidate)
+
+  // The guess sat on the other side of a transition
+  const adjusted = guess - secondOffset
+  return new Date(
+    getOffset(new Date(adjusted), timeZone) === secondOffset
+      ? adjusted
+      : candidate,
+  )
+}
+
+// 'HH:mm' -> minutes since midnight
+export function parseTimeOfDay(value: string | null | undefined) {
+  const [hours, minutes] = (value || '').split(':').map(Number)
+  if (!Number.isFinite(hours)) return null
+  return hours * 60 + (Number.isFinite(minutes) ? minutes : 0)
+}
+
+export function zonedMinutesOfDay(date: Date, timeZone: string) {
+  const p = getZonedParts(date, timeZone)
+  return p.hour * 60 + p.minute
+}
+
+// 'YYYY-MM-DD', which also sorts and compares as a string
+export function calendarDateKey(day: CalendarDate) {
+  return [
+    day.year,
+    String(day.month).padStart(2, '0'),
+    String(day.day).padStart(2, '0'),
+  ].join('-')
+}
+
+// 'YYYY-MM-DD' of the instant in the zone, handy for same-day comparisons
+export function zonedDateKey(date: Date, timeZone: string) {
+  return calendarDateKey(getZonedParts(date, timeZone))
+}
+
+// Calendar days are saved as 'YYYY-MM-DD'. Older configs hold the ISO
+// timestamp of the browser's midnight, which for zones west of UTC (all of
+// Brazil) still starts with the right date. Date objects come from the date
+// picker and carry the day in local time.
+export function parseCalendarDate(
+  value: string | Date | null | undefined,
+): CalendarDate | null {
+  if (!value) return null
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return null
+    return {
+      year: value.getFullYear(),
+      month: value.getMonth() + 1,
+      day: value.getDate(),
+    }
+  }
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value)
+  if (!match) return null
+  return {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+  }
+}
@@ -0,0 +1,94 @@
+// Helpers for endpoints called by WhatsApp providers instead of the app
+
+export interface WebhookRejection {
+  status: number
+  error: string
+}
+
+const encoder = new TextEncoder()
+
+// Compares every byte whatever the first mismatch, so the time taken
+// doesn't tell how much of a guess was right
+function timingSafeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a)
+  const right = encoder.encode(b)
+  if (left.length !== right.length) return false
+  let diff = 0
+  for (let i = 0; i < left.length; i++) diff |= left[i] ^ right[i]
+  return diff === 0
+}
+
+async function hmacSha256Hex(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body))
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+// Meta signs each callback with the app secret: X-Hub-Signature-256 holds
+// sha256=<hex HMAC of the raw body>. Other providers can't sign, so they
+// send the shared WHATSAPP_WEBHOOK_SECRET in the x-webhook-secret header
+// or in the callback URL (.../whatsapp-status-webhook?token=<secret>).
+// Nothing is accepted when the secret it would be checked against is not
+// configured. Null when the request is authorized.
+export async function authorizeWebhook(
+  req: Request,
+  rawBody: string,
+): Promise<WebhookRejection | null> {
+  const signature = req.headers.get('x-hub-signature-256')
+  if (signature) {
+    const appSecret = Deno.env.get('WHATSAPP_APP_SECRET')
+    if (!appSecret) {
+      console.error(
+        'Webhook rejected: signed request but WHATSAPP_APP_SECRET is not configured',
+      )
+      return { status: 500, error: 'Webhook is not configured' }
+    }
+
+    const expected = `sha256=${await hmacSha256Hex(appSecret, rawBody)}`
+    return timingSafeEqual(signature, expected)
+      ? null
+      : { status: 401, error: 'Invalid signature' }
+  }
+
+  const secret = Deno.env.get('WHATSAPP_WEBHOOK_SECRET')
+  if (!secret) {
+    console.error('Webhook rejected: WHATSAPP_WEBHOOK_SECRET is not configured')
+    return { status: 500, error: 'Webhook is not configured' }
+  }
+
+  const url = new URL(req.url)
+  const provided =
+    req.headers.get('x-webhook-secret') || url.searchParams.get('token')
+  return provided && timingSafeEqual(provided, secret)
+    ? null
+    : { status: 401, error: 'Unauthorized' }
+}
+
+// Meta subscribes a webhook by echoing hub.challenge back on a GET request
+export function metaVerificationResponse(req: Request): Response {
+  const url = new URL(req.url)
+  const mode = url.searchParams.get('hub.mode')
+  const verifyToken = url.searchParams.get('hub.verify_token')
+  const challenge = url.searchParams.get('hub.challenge')
+  const expected =
+    Deno.env.get('WHATSAPP_WEBHOOK_VERIFY_TOKEN') ||
+    Deno.env.get('WHATSAPP_WEBHOOK_SECRET')
+
+  if (
+    mode === 'subscribe' &&
+    expected &&
+    verifyToken &&
+    timingSafeEqual(verifyToken, expected)
+  ) {
+    return new Response(challenge ?? '', { status: 200 })
+  }
+  return new Response('Forbidden', { status: 403 })
+}
@@ -1,6 +1,75 @@
 import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
 import { createClient } from 'jsr:@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import type { SendErrorCode, SendResult } from '../_shared/providers/index.ts'
+import { composeContactMessage } from '../_shared/template.ts'
+import { resolveMessageMedia } from '../_shared/media.ts'
+import { normalizePhone } from '../_shared/phone.ts'
+import {
+  DEFAULT_RETRY_POLICY,
+  parseRetryPolicy,
+  type RetryPolicy,
+  retryDelaySeconds,
+  shouldRetry,
+} from '../_shared/retry.ts'
+import {
+  type CircuitBreakerConfig,
+  evaluateCircuitBreaker,
+  parseCircuitBreaker,
+} from '../_shared/circuit-breaker.ts'
+import {
+  parseCalendarDate,
+  parseTimeOfDay,
+  resolveTimeZone,
+  zonedDateKey,
+  zonedMinutesOfDay,
+  zonedTimeToUtc,
+} from '../_shared/timezone.ts'
+import {
+  type CampaignConfig,
+  parseCampaignConfig,
+} from '../_shared/campaign-config.ts'
+import { isWithinSendingWindow } from '../_shared/sending-windows.ts'
+import {
+  type BlackoutCalendar,
+  getBlackoutReason,
+  skipBlackoutDays,
+} from '../_shared/blackout.ts'
+import {
+  type AccountSendingLimits,
+  parseAccountLimits,
+  senderDailyLimit,
+} from '../_shared/daily-caps.ts'
+import {
+  countsAsSenderFailure,
+  DEFAULT_SENDER_ROTATION,
+  parseSenderRotation,
+  pickSender,
+  SENDER_FAILURE_THRESHOLD,
+  type SenderRotation,
+  type SenderState,
+} from '../_shared/sender-pool.ts'
+import {
+  effectiveThroughput,
+  parseSenderThroughput,
+  type SenderThroughput,
+} from '../_shared/throughput.ts'
+import {
+  byPriority,
+  nextLane,
+  parseCampaignPriority,
+  type QueueLane,
+} from '../_shared/campaign-priority.ts'
+import { nextRun, parseRecurrence } from '../_shared/recurrence.ts'
+import {
+  SEQUENCE_MIN_SPACING_SECONDS,
+  stepDueAt,
+} from '../_shared/sequences.ts'
+import {
+  parseAbTestSlice,
+  pickWinner,
+  statsByVariant,
+} from '../_shared/ab-testing.ts'
 
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
@@ -8,77 +77,762 @@ const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 // Initialize Supabase Client with Service Role Key to bypass RLS
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
 
-interface CampaignConfig {
-  minInterval: number
-  maxInterval: number
-  useBatching: boolean
-  batchSize?: number
-  batchPauseMin?: number
-  batchPauseMax?: number
-  businessHoursStrategy: 'ignore' | 'pause'
-  businessHoursPauseTime?: string
-  businessHoursResumeTime?: string
-  automaticPause?: {
-    enabled: boolean
-    pause_at: string
-    resume_date: string
-    resume_time: string
+async function isSuppressed(userId: string, phone: string) {
+  const { data, error } = await supabase
+    .from('suppression_list')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('normalized_phone', normalizePhone(phone))
+    .maybeSingle()
+
+  if (error) throw error
+  return Boolean(data)
+}
+
+// Account-level rules shared by all of the user's campaigns
+async function loadAccountRules(userId: string): Promise<{
+  blackout: BlackoutCalendar
+  limits: AccountSendingLimits
+  throughput: SenderThroughput
+}> {
+  const [profileResult, rangesResult] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select(
+        'skip_national_holidays, daily_send_limit, warmup_enabled, warmup_schedule, sender_min_spacing_seconds, sender_hourly_limit',
+      )
+      .eq('id', userId)
+      .maybeSingle(),
+    supabase
+      .from('blackout_dates')
+      .select('name, start_date, end_date')
+      .eq('user_id', userId),
+  ])
+
+  if (profileResult.error) throw profileResult.error
+  if (rangesResult.error) throw rangesResult.error
+  return {
+    blackout: {
+      nationalHolidays: profileResult.data?.skip_national_holidays ?? true,
+      ranges: rangesResult.data || [],
+    },
+    limits: parseAccountLimits(profileResult.data),
+    throughput: parseSenderThroughput(profileResult.data),
   }
 }
 
-function getSafeNumber(val: any, defaultVal: number): number {
-  const n = parseInt(String(val), 10)
-  return isNaN(n) ? defaultVal : n
+// Successful sends since the given instant, for one campaign, for one
+// sender number or for every campaign of an account. Sequence steps count
+// towards the number and the account too.
+async function countSentSince(
+  scope: { campaignId: string } | { senderId: string } | { userId: string },
+  since: Date,
+) {
+  let query =
+    'campaignId' in scope
+      ? supabase
+          .from('campaign_message_attempts')
+          .select('id', { count: 'exact', head: true })
+          .eq('campaign_id', scope.campaignId)
+      : 'senderId' in scope
+        ? supabase
+            .from('campaign_message_attempts')
+            .select('id', { count: 'exact', head: true })
+            .eq('sender_id', scope.senderId)
+        : supabase
+            .from('campaign_message_attempts')
+            .select('id, campaigns!inner(user_id)', {
+              count: 'exact',
+              head: true,
+            })
+            .eq('campaigns.user_id', scope.userId)
+  query = query.eq('status', 'sent').gte('attempted_at', since.toISOString())
+
+  const { count, error } = await query
+  if (error) throw error
+  if ('campaignId' in scope) return count || 0
+
+  const steps =
+    'senderId' in scope
+      ? supabase
+          .from('sequence_messages')
+          .select('id', { count: 'exact', head: true })
+          .eq('sender_id', scope.senderId)
+      : supabase
+          .from('sequence_messages')
+          .select('id, sequence_enrollments!inner(sequences!inner(user_id))', {
+            count: 'exact',
+            head: true,
+          })
+          .eq('sequence_enrollments.sequences.user_id', scope.userId)
+  const { count: stepCount, error: stepsError } = await steps
+    .eq('status', 'sent')
+    .gte('sent_at', since.toISOString())
+
+  if (stepsError) throw stepsError
+  return (count || 0) + (stepCount || 0)
 }
 
-function parseConfig(config: any): CampaignConfig {
-  // Handle both snake_case (DB default) and camelCase (Frontend form)
-  // Safely extract nested properties
-
-  const autoPauseEnabled =
-    config?.automaticPause?.enabled ?? config?.automatic_pause?.enabled ?? false
-  const autoPauseAt =
-    config?.automaticPause?.pauseTime ??
-    config?.automatic_pause?.pause_at ??
-    config?.automaticPause?.pause_at
-  const autoResumeDate =
-    config?.automaticPause?.resumeDate ?? config?.automatic_pause?.resume_date
-  const autoResumeTime =
-    config?.automaticPause?.resumeTime ?? config?.automatic_pause?.resume_time
+interface SenderRow extends SenderState {
+  hourly_limit: number | null
+  consecutive_failures: number
+  warmup_started_on: string | null
+  // 'YYYY-MM-DD' that sentToday counts
+  today: string
+}
 
-  return {
-    minInterval: getSafeNumber(config?.minInterval ?? config?.min_interval, 30),
-    maxInterval: getSafeNumber(config?.maxInterval ?? config?.max_interval, 40),
-    useBatching: Boolean(
-      config?.useBatching ?? config?.batch_config?.enabled ?? false,
-    ),
-    batchSize: getSafeNumber(
-      config?.batchSize ?? config?.batch_config?.size,
-      20,
-    ),
-    batchPauseMin: getSafeNumber(
-      config?.batchPauseMin ?? config?.batch_config?.pause_min,
-      60,
-    ),
-    batchPauseMax: getSafeNumber(
-      config?.batchPauseMax ?? config?.batch_config?.pause_max,
-      120,
+// The account's sender numbers with what each one sent on `today`, which
+// starts at `since`. Empty for accounts without their own connection, which
+// send through the platform's default provider. The spacing is already the
+// stricter of the number's and the account's, and the daily limit includes
+// the number's warm-up step.
+async function loadSenderPool(
+  userId: string,
+  since: Date,
+  today: string,
+  rules: { limits: AccountSendingLimits; throughput: SenderThroughput },
+) {
+  const { data, error } = await supabase
+    .from('whatsapp_connections')
+    .select(
+      'id, status, daily_limit, min_interval_seconds, hourly_limit, last_used_at, consecutive_failures, warmup_started_on',
+    )
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return Promise.all(
+    (data || []).map(
+      async (row): Promise<SenderRow> => ({
+        ...row,
+        daily_limit: senderDailyLimit(row, rules.limits.warmup, today),
+        min_interval_seconds: effectiveThroughput(rules.throughput, row)
+          .minSpacingSeconds,
+        sentToday: await countSentSince({ senderId: row.id }, since),
+        today,
+      }),
     ),
-    businessHoursStrategy:
-      config?.businessHoursStrategy ??
-      config?.business_hours?.strategy ??
-      'ignore',
-    businessHoursPauseTime:
-      config?.businessHoursPauseTime ?? config?.business_hours?.pause_at,
-    businessHoursResumeTime:
-      config?.businessHoursResumeTime ?? config?.business_hours?.resume_at,
-    automaticPause: {
-      enabled: Boolean(autoPauseEnabled),
-      pause_at: String(autoPauseAt || ''),
-      resume_date: String(autoResumeDate || ''),
-      resume_time: String(autoResumeTime || ''),
-    },
+  )
+}
+
+// Claims the next send of the number (or of the account's default sender)
+// under the account-wide spacing and hourly ceiling. 0 when the send may go
+// out now, otherwise the milliseconds to wait.
+async function reserveSendSlot(
+  userId: string,
+  sender: SenderRow | null,
+  throughput: SenderThroughput,
+): Promise<number> {
+  const limits = effectiveThroughput(throughput, sender)
+  if (limits.minSpacingSeconds === 0 && limits.hourlyLimit === null) return 0
+
+  const { data, error } = await supabase.rpc('reserve_send_slot', {
+    p_user_id: userId,
+    p_sender_id: sender?.id ?? null,
+    p_min_spacing_seconds: limits.minSpacingSeconds,
+    p_hourly_limit: limits.hourlyLimit,
+  })
+
+  // The campaign's own interval still applies, so a failed reservation
+  // doesn't hold the message back
+  if (error) {
+    console.error(`Failed to reserve a send slot for ${userId}`, error)
+    return 0
+  }
+  return Math.ceil(Number(data || 0) * 1000)
+}
+
+// The number that last messaged this contact, in any campaign of the account
+async function lastSenderForContact(userId: string, phone: string) {
+  const { data, error } = await supabase
+    .from('campaign_messages')
+    .select(
+      'sender_id, contacts!inner(normalized_phone), campaigns!inner(user_id)',
+    )
+    .eq('contacts.normalized_phone', normalizePhone(phone))
+    .eq('campaigns.user_id', userId)
+    .not('sender_id', 'is', null)
+    .in('status', ['sent', 'delivered', 'read'])
+    .order('sent_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return (data?.sender_id as string | undefined) ?? null
+}
+
+// Keeps the number's usage and failure streak up to date. After
+// SENDER_FAILURE_THRESHOLD failures in a row the number leaves rotation
+// until the user reactivates it.
+async function recordSenderOutcome(
+  sender: SenderRow,
+  outcome:
+    | { ok: true }
+    | { ok: false; errorCode: SendErrorCode; error: string },
+) {
+  const nowIso = new Date().toISOString()
+  const updates: Record<string, unknown> = { last_used_at: nowIso }
+  sender.last_used_at = nowIso
+
+  if (outcome.ok) {
+    sender.sentToday++
+    // The first send is day 1 of the number's warm-up
+    if (!sender.warmup_started_on) {
+      sender.warmup_started_on = sender.today
+      updates.warmup_started_on = sender.today
+    }
+    if (sender.consecutive_failures > 0) {
+      sender.consecutive_failures = 0
+      updates.consecutive_failures = 0
+    }
+  } else if (countsAsSenderFailure(outcome.errorCode)) {
+    sender.consecutive_failures++
+    updates.consecutive_failures = sender.consecutive_failures
+    if (sender.consecutive_failures >= SENDER_FAILURE_THRESHOLD) {
+      sender.status = 'failing'
+      updates.status = 'failing'
+      updates.status_reason = `${sender.consecutive_failures} falhas consecutivas. Último erro: ${outcome.error}`
+      console.log(`Sender ${sender.id} taken out of rotation`)
+    }
+  }
+
+  const { error } = await supabase
+    .from('whatsapp_connections')
+    .update(updates)
+    .eq('id', sender.id)
+  if (error) console.error(`Failed to update sender ${sender.id}`, error)
+}
+
+// A campaign that passed its checks and has messages to send, as the
+// scheduler in the handler sees it
+interface Lane extends QueueLane {
+  campaign: any
+  result: { id: string; messagesSent: number; status: string }
+  config: CampaignConfig
+  retryPolicy: RetryPolicy
+  circuitBreaker: CircuitBreakerConfig
+  rotation: SenderRotation
+  throughput: SenderThroughput
+  senders: SenderRow[]
+  // Interval before the next message, and what the last one was
+  requiredDelay: number
+  hasSent: boolean
+  lastSenderId: string | null
+  dailyCapReason: () => string | null
+  // Counts a successful send against the daily caps
+  recordSend: () => void
+  finalize: () => Promise<void>
+}
+
+// Pauses the campaign when recent attempts look like an outage, and puts
+// the failures of that streak back in the queue. Returns the pause reason.
+async function tripCircuitBreaker(
+  campaignId: string,
+  config: CircuitBreakerConfig,
+  resumedAt: string | null,
+): Promise<string | null> {
+  if (!config.enabled) return null
+
+  const { data: recent, error } = await supabase
+    .from('campaign_message_attempts')
+    .select(
+      'campaign_message_id, status, error_code, error_message, attempted_at',
+    )
+    .eq('campaign_id', campaignId)
+    .order('attempted_at', { ascending: false })
+    .limit(Math.max(config.windowSize, config.maxConsecutiveFailures) * 2)
+
+  if (error) throw error
+
+  const result = evaluateCircuitBreaker(config, recent || [], resumedAt)
+  if (!result.tripped) return null
+
+  const { error: pauseError } = await supabase
+    .from('campaigns')
+    .update({
+      status: 'paused',
+      pause_reason: result.reason,
+      paused_at: new Date().toISOString(),
+    })
+    .eq('id', campaignId)
+
+  if (pauseError) throw pauseError
+
+  await supabase
+    .from('campaign_messages')
+    .update({ status: 'aguardando', next_attempt_at: null, sent_at: null })
+    .in('id', [...new Set(result.failedMessageIds)])
+    .eq('status', 'failed')
+
+  // The plan is void until the user resumes the campaign, which plans the
+  // remaining messages again
+  await supabase.rpc('apply_message_schedule', {
+    p_campaign_id: campaignId,
+    p_times: [],
+  })
+
+  return result.reason
+}
+
+// Once the sample of an A/B test is sent, waits out the evaluation window,
+// then queues the held recipients with the winning variant. True while
+// recipients are still held, so the campaign isn't finished meanwhile; on
+// an error too, so the next run tries again.
+async function holdForAbTest(campaign: any): Promise<boolean> {
+  const slice = parseAbTestSlice(campaign.ab_test)
+  if (!slice) return false
+
+  const { count: held, error: heldError } = await supabase
+    .from('campaign_messages')
+    .select('*', { count: 'exact', head: true })
+    .eq('campaign_id', campaign.id)
+    .eq('status', 'ab_holdout')
+
+  if (heldError) {
+    console.error(`Failed to count held messages for ${campaign.id}`, heldError)
+    return true
+  }
+  if (!held) return false
+
+  const now = new Date()
+  if (!campaign.ab_decide_at) {
+    const decideAt = new Date(now.getTime() + slice.evaluationMinutes * 60_000)
+    await supabase
+      .from('campaigns')
+      .update({ ab_decide_at: decideAt.toISOString() })
+      .eq('id', campaign.id)
+    console.log(
+      `Campaign ${campaign.id}: A/B sample sent, winner picked at ${decideAt.toISOString()}`,
+    )
+    return true
+  }
+  if (new Date(campaign.ab_decide_at) > now) return true
+
+  const [{ data: variants, error: variantsError }, { data: messages }] =
+    await Promise.all([
+      supabase
+        .from('campaign_variants')
+        .select('id')
+        .eq('campaign_id', campaign.id)
+        .order('label', { ascending: true }),
+      supabase
+        .from('campaign_messages')
+        .select('variant_id, ab_rollout, status, replied_at')
+        .eq('campaign_id', campaign.id)
+        .not('variant_id', 'is', null),
+    ])
+
+  if (variantsError) {
+    console.error(`Failed to load variants for ${campaign.id}`, variantsError)
+    return true
+  }
+  const variantIds = (variants || []).map((variant: any) => variant.id)
+  if (variantIds.length === 0) return false
+
+  // Without a single send to compare, the first variant goes out
+  const winner =
+    pickWinner(
+      variantIds,
+      statsByVariant(variantIds, messages || []),
+      slice.metric,
+    ) ?? variantIds[0]
+
+  const { data: released, error } = await supabase.rpc('release_ab_winner', {
+    p_campaign_id: campaign.id,
+    p_variant_id: winner,
+  })
+
+  if (error) {
+    console.error(`Failed to release A/B winner for ${campaign.id}`, error)
+    return true
+  }
+  console.log(
+    `Campaign ${campaign.id}: A/B winner ${winner} queued for ${released} recipients`,
+  )
+  return true
+}
+
+// Spawns a run of each recurring campaign that is due, before the queue is
+// read so the runs start sending in this same invocation. An occurrence
+// missed while the worker was down is sent once, not once per miss.
+async function spawnRecurringRuns() {
+  const now = new Date()
+  const { data: parents, error } = await supabase
+    .from('campaigns')
+    .select('id, recurrence, timezone, occurrence_count')
+    .eq('status', 'recurring')
+    .lte('next_run_at', now.toISOString())
+
+  if (error) throw error
+
+  for (const parent of parents || []) {
+    try {
+      const rule = parseRecurrence(parent.recurrence)
+      // Counting the run about to be spawned
+      const next = rule
+        ? nextRun(
+            rule,
+            now,
+            resolveTimeZone(parent.timezone),
+            (parent.occurrence_count || 0) + 1,
+          )
+        : null
+
+      const { data: runId, error: spawnError } = await supabase.rpc(
+        'spawn_recurring_run',
+        { p_parent_id: parent.id, p_next_run_at: next?.toISOString() ?? null },
+      )
+      if (spawnError) throw spawnError
+      if (runId) {
+        console.log(`Spawned run ${runId} of recurring campaign ${parent.id}`)
+      }
+    } catch (err) {
+      console.error(`Failed to spawn run of ${parent.id}:`, err)
+    }
+  }
+}
+
+// Enrollments advanced per invocation, so sequences never crowd out the
+// campaigns that share the worker
+const SEQUENCE_BATCH_SIZE = 25
+
+// What sequence sends share with the account's campaigns, loaded once per
+// run: the calendar, caps and pacing, and per day (in the sequence's zone)
+// the sends so far and the sender numbers
+interface SequenceAccounts {
+  rules: Map<string, Awaited<ReturnType<typeof loadAccountRules>>>
+  usage: Map<string, { sentToday: number; senders: SenderRow[] }>
+}
+
+// Moves the enrollment's next step to `at`, unless it already left
+async function postponeEnrollment(enrollmentId: string, at: Date) {
+  const { error } = await supabase
+    .from('sequence_enrollments')
+    .update({ next_step_at: at.toISOString() })
+    .eq('id', enrollmentId)
+    .eq('status', 'active')
+
+  if (error) throw error
+}
+
+// Takes the enrollment out of its sequence, unless the inbound webhook
+// already did because the contact replied or opted out
+async function exitEnrollment(
+  enrollmentId: string,
+  status: 'completed' | 'opted_out' | 'failed',
+  errorMessage: string | null = null,
+) {
+  const { error } = await supabase
+    .from('sequence_enrollments')
+    .update({
+      status,
+      next_step_at: null,
+      exited_at: new Date().toISOString(),
+      error_message: errorMessage,
+    })
+    .eq('id', enrollmentId)
+    .eq('status', 'active')
+
+  if (error) throw error
+}
+
+// Sends the step the enrollment is due for, or reschedules or exits it.
+// True when a step went out.
+async function advanceEnrollment(
+  enrollment: any,
+  stepsBySequence: Map<string, any[]>,
+  accounts: SequenceAccounts,
+): Promise<boolean> {
+  const sequence = enrollment.sequences as any
+  const contact = enrollment.contacts as any
+
+  if (!stepsBySequence.has(sequence.id)) {
+    const { data: steps, error: stepsError } = await supabase
+      .from('sequence_steps')
+      .select('id, position, message, delay_minutes, send_window')
+      .eq('sequence_id', sequence.id)
+      .order('position', { ascending: true })
+
+    if (stepsError) throw stepsError
+    stepsBySequence.set(sequence.id, steps || [])
+  }
+  const steps = stepsBySequence.get(sequence.id)!
+  const step = steps[enrollment.current_step]
+
+  // Steps removed after the contact enrolled
+  if (!step) {
+    await exitEnrollment(enrollment.id, 'completed')
+    return false
+  }
+  if (!contact) {
+    await exitEnrollment(enrollment.id, 'failed', 'Contato não encontrado')
+    return false
   }
+  if (await isSuppressed(sequence.user_id, contact.phone)) {
+    await exitEnrollment(enrollment.id, 'opted_out')
+    return false
+  }
+
+  let rules = accounts.rules.get(sequence.user_id)
+  if (!rules) {
+    rules = await loadAccountRules(sequence.user_id)
+    accounts.rules.set(sequence.user_id, rules)
+  }
+
+  const timeZone = resolveTimeZone(sequence.timezone)
+  const now = new Date()
+  // The window may have changed since the step was scheduled. Blackout
+  // days are skipped like in campaigns, then the window applies again
+  const dueAt = stepDueAt(
+    { ...step, delay_minutes: 0 },
+    skipBlackoutDays(now, rules.blackout, timeZone),
+    timeZone,
+  )
+  if (!dueAt) {
+    await exitEnrollment(
+      enrollment.id,
+      'failed',
+      `O passo ${step.position} não tem nenhum horário de envio`,
+    )
+    return false
+  }
+
+  if (dueAt > now) {
+    await postponeEnrollment(enrollment.id, dueAt)
+    return false
+  }
+
+  // The account's daily cap and the numbers' limits and warm-up count
+  // sequence steps and campaign messages alike, from midnight in the
+  // sequence's zone
+  const today = parseCalendarDate(zonedDateKey(now, timeZone))!
+  const dayStart = zonedTimeToUtc(today, timeZone)
+  const tomorrow = zonedTimeToUtc({ ...today, day: today.day + 1 }, timeZone)
+  const usageKey = `${sequence.user_id}|${dayStart.toISOString()}`
+  let usage = accounts.usage.get(usageKey)
+  if (!usage) {
+    usage = {
+      sentToday: await countSentSince({ userId: sequence.user_id }, dayStart),
+      senders: await loadSenderPool(
+        sequence.user_id,
+        dayStart,
+        zonedDateKey(now, timeZone),
+        rules,
+      ),
+    }
+    accounts.usage.set(usageKey, usage)
+  }
+
+  const accountLimit = rules.limits.dailyLimit
+  if (accountLimit !== null && usage.sentToday >= accountLimit) {
+    await postponeEnrollment(enrollment.id, tomorrow)
+    return false
+  }
+
+  // Any active number under its own limit, spaced like the campaigns'
+  // sends; without one the step waits for tomorrow
+  let sender: SenderRow | null = null
+  let waitMs = 0
+  if (usage.senders.length > 0) {
+    const pick = pickSender(DEFAULT_SENDER_ROTATION, usage.senders, now, {})
+    if (!pick) {
+      await postponeEnrollment(enrollment.id, tomorrow)
+      return false
+    }
+    sender = pick.sender
+    waitMs = pick.waitMs
+  }
+  if (waitMs === 0) {
+    waitMs = await reserveSendSlot(sequence.user_id, sender, {
+      ...rules.throughput,
+      minSpacingSeconds: Math.max(
+        rules.throughput.minSpacingSeconds,
+        SEQUENCE_MIN_SPACING_SECONDS,
+      ),
+    })
+  }
+  if (waitMs > 0) {
+    await postponeEnrollment(enrollment.id, new Date(now.getTime() + waitMs))
+    return false
+  }
+
+  // Claim the step, so an overlapping invocation doesn't send it twice
+  const { data: claimed, error: claimError } = await supabase
+    .from('sequence_enrollments')
+    .update({ next_step_at: null })
+    .eq('id', enrollment.id)
+    .eq('status', 'active')
+    .eq('current_step', enrollment.current_step)
+    .eq('next_step_at', enrollment.next_step_at)
+    .select('id')
+
+  if (claimError) throw claimError
+  if (!claimed?.length) return false
+
+  let renderedMessage: string | null = null
+  let errorCode: SendErrorCode = 'invalid_request'
+  let providerMessageId: string | null = null
+  try {
+    const rendered = composeContactMessage({
+      ...contact,
+      message: step.message,
+    })
+    renderedMessage = rendered.text
+    if (!rendered.text.trim()) {
+      throw new Error('Message is empty after applying template variables')
+    }
+
+    errorCode = 'network_error'
+    const response = await fetch(
+      `${SUPABASE_URL}/functions/v1/send-whatsapp-message`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+        },
+        body: JSON.stringify({
+          name: contact.name,
+          phone: contact.phone,
+          message: rendered.text,
+          // Sends from the account that owns the contact
+          contact_id: enrollment.contact_id,
+          sender_id: sender?.id ?? null,
+        }),
+      },
+    )
+    const result: SendResult = await response.json()
+    if (!result.success) {
+      errorCode = result.errorCode || 'provider_error'
+      throw new Error(
+        result.errorMessage ||
+          `Failed to send (${result.errorCode || response.status})`,
+      )
+    }
+    providerMessageId = result.providerMessageId ?? null
+  } catch (err: any) {
+    console.error(`Failed to send sequence step to ${enrollment.id}:`, err)
+    const errorMessage = err.message || 'Unknown error'
+
+    await supabase.from('sequence_messages').insert({
+      enrollment_id: enrollment.id,
+      step_id: step.id,
+      position: step.position,
+      status: 'failed',
+      rendered_message: renderedMessage,
+      error_code: errorCode,
+      error_message: errorMessage,
+      sender_id: sender?.id ?? null,
+    })
+    if (sender) {
+      await recordSenderOutcome(sender, {
+        ok: false,
+        errorCode,
+        error: errorMessage,
+      })
+    }
+
+    // Sequences have no retry settings of their own; a transient failure
+    // is tried again later like a campaign message with the defaults
+    const attemptNumber = (enrollment.attempt_count || 0) + 1
+    if (shouldRetry(DEFAULT_RETRY_POLICY, attemptNumber, errorCode)) {
+      const { error: retryError } = await supabase
+        .from('sequence_enrollments')
+        .update({
+          attempt_count: attemptNumber,
+          next_step_at: new Date(
+            Date.now() +
+              retryDelaySeconds(DEFAULT_RETRY_POLICY, attemptNumber) * 1000,
+          ).toISOString(),
+          error_message: errorMessage,
+        })
+        .eq('id', enrollment.id)
+        .eq('status', 'active')
+
+      if (retryError) throw retryError
+      return false
+    }
+
+    await exitEnrollment(enrollment.id, 'failed', errorMessage)
+    return false
+  }
+
+  // The step went out; errors from here on are not send failures
+  await supabase.from('sequence_messages').insert({
+    enrollment_id: enrollment.id,
+    step_id: step.id,
+    position: step.position,
+    status: 'sent',
+    rendered_message: renderedMessage,
+    provider_message_id: providerMessageId,
+    sender_id: sender?.id ?? null,
+  })
+  usage.sentToday++
+  if (sender) await recordSenderOutcome(sender, { ok: true })
+
+  // A reply that arrived during the send has taken the contact out, and
+  // must not be scheduled past
+  const nextStep = steps[enrollment.current_step + 1]
+  const nextAt = nextStep ? stepDueAt(nextStep, new Date(), timeZone) : null
+  const { error: advanceError } = await supabase
+    .from('sequence_enrollments')
+    .update({
+      current_step: enrollment.current_step + 1,
+      last_sent_at: new Date().toISOString(),
+      next_step_at: nextAt?.toISOString() ?? null,
+      attempt_count: 0,
+      error_message: null,
+    })
+    .eq('id', enrollment.id)
+    .eq('status', 'active')
+
+  if (advanceError) throw advanceError
+
+  if (!nextStep) {
+    await exitEnrollment(enrollment.id, 'completed')
+  } else if (!nextAt) {
+    await exitEnrollment(
+      enrollment.id,
+      'failed',
+      `O passo ${nextStep.position} não tem nenhum horário de envio`,
+    )
+  }
+  return true
+}
+
+// Sends the step each due enrollment is waiting for and schedules the one
+// after it. Replies are handled by the inbound webhook as they arrive; a
+// number that opted out in the meantime is caught here, before sending.
+async function advanceSequences() {
+  const { data: due, error } = await supabase
+    .from('sequence_enrollments')
+    .select(
+      'id, contact_id, current_step, next_step_at, attempt_count, contacts(name, phone, variables), sequences!inner(id, user_id, status, timezone)',
+    )
+    .eq('status', 'active')
+    .eq('sequences.status', 'active')
+    .lte('next_step_at', new Date().toISOString())
+    .order('next_step_at', { ascending: true })
+    .limit(SEQUENCE_BATCH_SIZE)
+
+  if (error) throw error
+
+  const stepsBySequence = new Map<string, any[]>()
+  const accounts: SequenceAccounts = { rules: new Map(), usage: new Map() }
+  let sent = 0
+
+  for (const enrollment of due || []) {
+    // One broken enrollment must not hold back the rest
+    try {
+      if (await advanceEnrollment(enrollment, stepsBySequence, accounts)) {
+        sent++
+      }
+    } catch (err) {
+      console.error(`Failed to advance enrollment ${enrollment.id}:`, err)
+    }
+  }
+
+  if (sent > 0) console.log(`Sent ${sent} sequence steps`)
 }
 
 Deno.serve(async (req: Request) => {
@@ -100,6 +854,18 @@ Deno.serve(async (req: Request) => {
     }
     const { campaign_id } = body
 
+    // Neither may keep the campaigns below from sending
+    try {
+      await spawnRecurringRuns()
+    } catch (err) {
+      console.error('Failed to spawn recurring runs:', err)
+    }
+    try {
+      await advanceSequences()
+    } catch (err) {
+      console.error('Failed to advance sequences:', err)
+    }
+
     // 1. Fetch active or scheduled campaigns (Explicitly excluding paused)
     let query = supabase
       .from('campaigns')
@@ -121,8 +887,20 @@ Deno.serve(async (req: Request) => {
     console.log(`Processing ${campaigns.length} campaigns`)
 
     const results = []
-
-    for (const campaign of campaigns) {
+    // Campaigns of the same account share one calendar and one daily cap
+    const accountRules = new Map<
+      string,
+      Awaited<ReturnType<typeof loadAccountRules>>
+    >()
+    // Sends today per account, keyed by user and start of the day
+    const accountSentToday = new Map<string, number>()
+    // Each account's sender numbers, with the same key
+    const senderPools = new Map<string, SenderRow[]>()
+    // Campaigns with messages to send, served together further down
+    const lanes: Lane[] = []
+
+    // Urgent campaigns get their checks done first
+    for (const campaign of [...campaigns].sort(byPriority)) {
       // Check execution time limit before starting campaign processing
       if (Date.now() - startTime > MAX_EXECUTION_TIME) break
 
@@ -155,52 +933,52 @@ Deno.serve(async (req: Request) => {
         campaign.status = 'processing'
       }
 
-      const config = parseConfig(campaign.config)
+      const config = parseCampaignConfig(campaign.config)
+      const retryPolicy = parseRetryPolicy(config)
+      const circuitBreaker = parseCircuitBreaker(config)
+      const rotation = parseSenderRotation(config)
 
       // -- PAUSE CHECK LOGIC --
       let shouldPause = false
       let pauseReason = ''
 
+      // Hours below are wall-clock times in the campaign's timezone
+      const timeZone = resolveTimeZone(campaign.timezone)
       const now = new Date()
-      const utcHours = now.getUTCHours()
-      // Brazil Time: UTC-3
-      const brtHours = (utcHours - 3 + 24) % 24
+      const nowMinutes = zonedMinutesOfDay(now, timeZone)
 
       // 1. Automatic Scheduled Pause
+      const automaticPause = config.automatic_pause
       if (
-        config.automaticPause?.enabled &&
-        config.automaticPause.pause_at &&
-        config.automaticPause.resume_date &&
-        config.automaticPause.resume_time
+        automaticPause.enabled &&
+        automaticPause.pause_at &&
+        automaticPause.resume_date &&
+        automaticPause.resume_time
       ) {
         try {
-          const resumeDateStr = config.automaticPause.resume_date // ISO string
-          const [resumeH, resumeM] = config.automaticPause.resume_time
+          const resumeDay = parseCalendarDate(automaticPause.resume_date)
+          const [resumeH, resumeM] = automaticPause.resume_time
             .split(':')
             .map(Number)
+          if (!resumeDay) throw new Error('Invalid resume date')
 
-          const resumeDateTime = new Date(resumeDateStr)
-          resumeDateTime.setHours(resumeH, resumeM, 0, 0)
+          const resumeDateTime = zonedTimeToUtc(
+            { ...resumeDay, hour: resumeH, minute: resumeM },
+            timeZone,
+          )
 
           // Only check pause if we are BEFORE the resume time
           if (now < resumeDateTime) {
-            const [pauseH, pauseM] = config.automaticPause.pause_at
-              .split(':')
-              .map(Number)
-
-            // Check if we hit the pause time today (BRT)
-            const nowMinutes = brtHours * 60 + now.getUTCMinutes()
-            const pauseMinutes = pauseH * 60 + pauseM
+            const pauseMinutes = parseTimeOfDay(automaticPause.pause_at) ?? 0
 
             // Check if we are past the start date
             const startDateTime = new Date(
               campaign.started_at || campaign.created_at,
             )
 
-            const todayStr = now.toISOString().split('T')[0]
-            const startStr = startDateTime.toISOString().split('T')[0]
-
-            const isAfterStartDay = todayStr > startStr
+            const isAfterStartDay =
+              zonedDateKey(now, timeZone) >
+              zonedDateKey(startDateTime, timeZone)
             const isPastPauseTime = nowMinutes >= pauseMinutes
 
             if (isPastPauseTime || isAfterStartDay) {
@@ -213,21 +991,105 @@ Deno.serve(async (req: Request) => {
         }
       }
 
-      // 2. Business Hours Check (Recurring)
-      if (!shouldPause && config.businessHoursStrategy === 'pause') {
-        const pauseHour = config.businessHoursPauseTime
-          ? parseInt(config.businessHoursPauseTime.split(':')[0])
-          : 18
-        const resumeHour = config.businessHoursResumeTime
-          ? parseInt(config.businessHoursResumeTime.split(':')[0])
-          : 8
-
-        const isBusinessHours = brtHours >= resumeHour && brtHours < pauseHour
+      // 2. Sending Windows Check (Recurring)
+      if (!shouldPause && config.business_hours.strategy === 'pause') {
+        const isBusinessHours = isWithinSendingWindow(
+          now,
+          config.business_hours.windows,
+          timeZone,
+        )
 
         if (!isBusinessHours) {
           shouldPause = true
-          pauseReason = `Business Hours (Current BRT: ${brtHours})`
+          pauseReason = `Business Hours (${timeZone} ${Math.floor(nowMinutes / 60)}:${String(nowMinutes % 60).padStart(2, '0')})`
+        }
+      }
+
+      let rules = accountRules.get(campaign.user_id)
+      if (!rules) {
+        rules = await loadAccountRules(campaign.user_id)
+        accountRules.set(campaign.user_id, rules)
+      }
+      const todayKey = zonedDateKey(now, timeZone)
+
+      // 3. Holidays and Blackout Dates (whole days in the campaign's zone)
+      if (!shouldPause) {
+        const blackoutReason = getBlackoutReason(todayKey, rules.blackout)
+        if (blackoutReason) {
+          shouldPause = true
+          pauseReason = `Blackout day (${blackoutReason})`
+        }
+      }
+
+      // 4. Daily Caps (campaign and account; the numbers' limits and
+      // warm-up come with them below). Counted from the campaign's
+      // midnight; the next day starts from zero again
+      const campaignDailyLimit = config.daily_limit
+      const accountLimit = rules.limits.dailyLimit
+      const dayStart = zonedTimeToUtc(parseCalendarDate(todayKey)!, timeZone)
+      const usageKey = `${campaign.user_id}|${dayStart.toISOString()}`
+      let campaignSentToday = 0
+
+      const dailyCapReason = () => {
+        if (
+          campaignDailyLimit !== null &&
+          campaignSentToday >= campaignDailyLimit
+        ) {
+          return `Campaign daily limit reached (${campaignDailyLimit})`
+        }
+        if (
+          accountLimit !== null &&
+          (accountSentToday.get(usageKey) ?? 0) >= accountLimit
+        ) {
+          return `Account daily limit reached (${accountLimit})`
         }
+        return null
+      }
+
+      if (
+        !shouldPause &&
+        (campaignDailyLimit !== null || accountLimit !== null)
+      ) {
+        if (campaignDailyLimit !== null) {
+          campaignSentToday = await countSentSince(
+            { campaignId: campaign.id },
+            dayStart,
+          )
+        }
+        if (accountLimit !== null && !accountSentToday.has(usageKey)) {
+          accountSentToday.set(
+            usageKey,
+            await countSentSince({ userId: campaign.user_id }, dayStart),
+          )
+        }
+
+        const capReason = dailyCapReason()
+        if (capReason) {
+          shouldPause = true
+          pauseReason = capReason
+        }
+      }
+
+      // 5. Sender Numbers: at least one of the campaign's numbers must be
+      // active and under its own daily limit and warm-up step
+      let senders = senderPools.get(usageKey)
+      if (!senders) {
+        senders = await loadSenderPool(
+          campaign.user_id,
+          dayStart,
+          todayKey,
+          rules,
+        )
+        senderPools.set(usageKey, senders)
+      }
+
+      if (
+        !shouldPause &&
+        senders.length > 0 &&
+        !pickSender(rotation, senders, now, {})
+      ) {
+        shouldPause = true
+        pauseReason = 'No sender number available'
       }
 
       if (shouldPause) {
@@ -238,6 +1100,12 @@ Deno.serve(async (req: Request) => {
 
       // Helper to finalize campaign
       const finalizeCampaign = async () => {
+        // The rest of an A/B test still goes out with the winner
+        if (await holdForAbTest(campaign)) {
+          campaignResult.status = 'ab_testing'
+          return
+        }
+
         const now = new Date()
         const startedAt = campaign.started_at
           ? new Date(campaign.started_at)
@@ -252,7 +1120,7 @@ Deno.serve(async (req: Request) => {
           .from('campaign_messages')
           .select('*', { count: 'exact', head: true })
           .eq('campaign_id', campaign.id)
-          .eq('status', 'sent')
+          .in('status', ['sent', 'delivered', 'read'])
 
         const updatePayload: any = {
           status: 'finished',
@@ -264,10 +1132,13 @@ Deno.serve(async (req: Request) => {
           updatePayload.sent_messages = realSentCount
         }
 
+        // A campaign canceled meanwhile also runs out of messages, but
+        // stays canceled
         await supabase
           .from('campaigns')
           .update(updatePayload)
           .eq('id', campaign.id)
+          .neq('status', 'canceled')
 
         campaignResult.status = 'finished'
       }
@@ -302,192 +1173,471 @@ Deno.serve(async (req: Request) => {
         }
       }
 
-      // Process Messages loop
-      let campaignLoopActive = true
-      let messagesProcessedInThisLoop = 0
+      lanes.push({
+        campaign,
+        result: campaignResult,
+        priority: parseCampaignPriority(campaign.priority),
+        readyAt: Date.now(),
+        config,
+        retryPolicy,
+        circuitBreaker,
+        rotation,
+        throughput: rules.throughput,
+        senders,
+        requiredDelay: 0,
+        hasSent: false,
+        lastSenderId: null,
+        dailyCapReason,
+        recordSend: () => {
+          campaignSentToday++
+          accountSentToday.set(
+            usageKey,
+            (accountSentToday.get(usageKey) ?? 0) + 1,
+          )
+        },
+        finalize: finalizeCampaign,
+      })
+    }
+
+    // Re-reads the campaign and works out when its next message may go
+    // out. False once it was paused or canceled meanwhile.
+    const planLane = async (lane: Lane) => {
+      const { campaign, config } = lane
+      const { data: current } = await supabase
+        .from('campaigns')
+        .select('status, priority')
+        .eq('id', campaign.id)
+        .single()
+
+      if (current?.status === 'paused' || current?.status === 'canceled') {
+        console.log(`Campaign ${campaign.id} was paused/canceled`)
+        return false
+      }
+      // Priority changes made while the campaign runs apply right away
+      lane.priority = parseCampaignPriority(current?.priority)
+
+      // Fetch last sent message to determine delays
+      const { data: lastMessages } = await supabase
+        .from('campaign_messages')
+        .select('sent_at, sender_id')
+        .eq('campaign_id', campaign.id)
+        .neq('sent_at', null)
+        .order('sent_at', { ascending: false })
+        .limit(1)
+
+      const lastSentAt = lastMessages?.[0]?.sent_at
+        ? new Date(lastMessages[0].sent_at).getTime()
+        : 0
+      const sentMessagesCount = campaign.sent_messages || 0
+      lane.hasSent = !!lastMessages && lastMessages.length > 0
+      lane.lastSenderId = lastMessages?.[0]?.sender_id ?? null
+
+      // Campaigns launched with a plan send each message at its planned
+      // time; the minimum interval only keeps a late run from bursting
+      const { data: nextPlanned } = await supabase
+        .from('campaign_messages')
+        .select('scheduled_for')
+        .eq('campaign_id', campaign.id)
+        .in('status', ['aguardando', 'pending'])
+        .order('scheduled_for', { ascending: true, nullsFirst: true })
+        .limit(1)
+
+      if (nextPlanned?.[0]?.scheduled_for) {
+        lane.requiredDelay = lane.hasSent ? config.min_interval * 1000 : 0
+        lane.readyAt = Math.max(
+          lastSentAt + lane.requiredDelay,
+          new Date(nextPlanned[0].scheduled_for).getTime(),
+          startTime,
+        )
+        return true
+      }
+
+      // Calculate Delay
+      let requiredDelay = 0
+      const minInterval = config.min_interval * 1000
+      const maxInterval = config.max_interval * 1000
 
-      while (
-        campaignLoopActive &&
-        Date.now() - startTime < MAX_EXECUTION_TIME
+      // Ensure proper random range logic
+      const intervalDelay = Math.floor(
+        Math.random() * (maxInterval - minInterval + 1) + minInterval,
+      )
+      requiredDelay = intervalDelay
+
+      // Batch Pause Logic
+      const batch = config.batch_config
+      if (
+        batch.enabled &&
+        sentMessagesCount > 0 &&
+        sentMessagesCount % batch.size === 0
       ) {
-        // 1. Check status again
-        const { data: currentStatus } = await supabase
-          .from('campaigns')
-          .select('status')
-          .eq('id', campaign.id)
-          .single()
+        const batchPauseMin = batch.pause_min * 1000
+        const batchPauseMax = batch.pause_max * 1000
+        const batchPause = Math.floor(
+          Math.random() * (batchPauseMax - batchPauseMin + 1) + batchPauseMin,
+        )
+        requiredDelay += batchPause
+        console.log(`Batch pause active: +${batchPause / 1000}s`)
+      }
 
-        if (
-          currentStatus?.status === 'paused' ||
-          currentStatus?.status === 'canceled'
-        ) {
-          console.log(`Campaign ${campaign.id} was paused/canceled`)
-          campaignLoopActive = false
+      // If no messages sent yet, no delay needed for the very first one
+      if (!lane.hasSent) {
+        requiredDelay = 0
+      }
+
+      lane.requiredDelay = requiredDelay
+      // Waiting only counts from the start of this run, so a campaign that
+      // sat paused for hours doesn't jump ahead of everyone else
+      lane.readyAt = Math.max(lastSentAt + requiredDelay, startTime)
+      return true
+    }
+
+    // Sends the campaign's next due message. 'again' when it may go on
+    // after its interval, 'deferred' when its sender number is busy (the
+    // lane's readyAt says until when) and 'done' when it has nothing more
+    // to send in this run.
+    const sendNext = async (
+      lane: Lane,
+    ): Promise<'again' | 'deferred' | 'done'> => {
+      const {
+        campaign,
+        result: campaignResult,
+        retryPolicy,
+        circuitBreaker,
+        rotation,
+        senders,
+      } = lane
+
+      // Stop for the day once a cap is hit; sending resumes tomorrow
+      const capReason = lane.dailyCapReason()
+      if (capReason) {
+        console.log(`Campaign ${campaign.id} stopped for today: ${capReason}`)
+        campaignResult.status = 'paused_temporarily'
+        return 'done'
+      }
+
+      // Claim ONE due message atomically. Retries wait in 'aguardando'
+      // until their backoff is over. The RPC also refuses to claim while
+      // another invocation sent for this campaign within the interval, so
+      // overlapping runs can't double-send or squeeze the pacing.
+      const { data: claimed, error: claimError } = await supabase.rpc(
+        'claim_next_campaign_message',
+        {
+          p_campaign_id: campaign.id,
+          p_min_gap_seconds: lane.hasSent ? lane.requiredDelay / 1000 : 0,
+        },
+      )
+
+      if (claimError) {
+        console.error(
+          `Failed to claim message for campaign ${campaign.id}:`,
+          claimError,
+        )
+        return 'done'
+      }
+
+      const lockedMessage = claimed?.[0]
+
+      if (!lockedMessage) {
+        // Nothing due, or another invocation is sending for this campaign.
+        // Check for remaining processing ones before finalizing.
+        const { count: remaining } = await supabase
+          .from('campaign_messages')
+          .select('*', { count: 'exact', head: true })
+          .eq('campaign_id', campaign.id)
+          .in('status', ['aguardando', 'sending', 'pending'])
+
+        if (remaining === 0) {
+          await lane.finalize()
+        }
+        return 'done'
+      }
+
+      // Opted-out numbers are skipped without consuming the interval
+      if (
+        lockedMessage.contacts &&
+        (await isSuppressed(campaign.user_id, lockedMessage.contacts.phone))
+      ) {
+        await supabase
+          .from('campaign_messages')
+          .update({ status: 'suppressed', sent_at: null })
+          .eq('id', lockedMessage.id)
+        return 'again'
+      }
+
+      // Pick the sender number and reserve its next slot under the
+      // account-wide pacing, which every running campaign shares. Without a
+      // usable number, or while the number is spacing out, the message goes
+      // back to the queue untouched and the other campaigns send meanwhile
+      const contactSenderId =
+        senders.length > 0 &&
+        rotation.strategy === 'sticky' &&
+        lockedMessage.contacts
+          ? await lastSenderForContact(
+              campaign.user_id,
+              lockedMessage.contacts.phone,
+            )
+          : null
+      let sender: SenderRow | null = null
+      let reserved = false
+      let noSender = false
+      let waitMs = 0
+
+      for (let attempt = 0; attempt < 3 && !reserved; attempt++) {
+        let candidate: SenderRow | null = null
+        if (senders.length > 0) {
+          const pick = pickSender(rotation, senders, new Date(), {
+            lastSenderId: lane.lastSenderId,
+            contactSenderId,
+          })
+          if (!pick) {
+            noSender = true
+            break
+          }
+          candidate = pick.sender
+          waitMs = pick.waitMs
+          if (waitMs > 0) break
+        }
+
+        waitMs = await reserveSendSlot(
+          campaign.user_id,
+          candidate,
+          lane.throughput,
+        )
+        if (waitMs === 0) {
+          sender = candidate
+          reserved = true
+        } else if (candidate) {
+          // Taken by another campaign: the next pick may prefer a free number
+          candidate.blocked_until = new Date(Date.now() + waitMs).toISOString()
+        } else {
+          // The account's default sender has no alternative
           break
         }
+      }
 
-        // Fetch last sent message to determine delays
-        const { data: lastMessages } = await supabase
+      if (!reserved) {
+        await supabase
           .from('campaign_messages')
-          .select('sent_at')
-          .eq('campaign_id', campaign.id)
-          .neq('sent_at', null)
-          .order('sent_at', { ascending: false })
-          .limit(1)
-
-        const lastSentAt = lastMessages?.[0]?.sent_at
-          ? new Date(lastMessages[0].sent_at).getTime()
-          : 0
-        const sentMessagesCount = campaign.sent_messages || 0
-        const hasMessagesSentReally = lastMessages && lastMessages.length > 0
-
-        // Calculate Delay
-        let requiredDelay = 0
-        const minInterval = (config.minInterval || 30) * 1000
-        const maxInterval = (config.maxInterval || 40) * 1000
-
-        // Ensure proper random range logic
-        const intervalDelay = Math.floor(
-          Math.random() * (maxInterval - minInterval + 1) + minInterval,
+          .update({ status: 'aguardando', sent_at: null })
+          .eq('id', lockedMessage.id)
+
+        if (noSender) {
+          console.log(
+            `Campaign ${campaign.id} stopped: no sender number available`,
+          )
+          campaignResult.status = 'paused_temporarily'
+          return 'done'
+        }
+        console.log(
+          `Campaign ${campaign.id}: sender free again in ${Math.round(waitMs / 1000)}s`,
         )
-        requiredDelay = intervalDelay
+        lane.readyAt = Date.now() + waitMs
+        return 'deferred'
+      }
 
-        // Batch Pause Logic
-        if (
-          config.useBatching &&
-          config.batchSize &&
-          sentMessagesCount > 0 &&
-          sentMessagesCount % config.batchSize === 0
-        ) {
-          const batchPauseMin = (config.batchPauseMin || 60) * 1000
-          const batchPauseMax = (config.batchPauseMax || 120) * 1000
-          const batchPause = Math.floor(
-            Math.random() * (batchPauseMax - batchPauseMin + 1) + batchPauseMin,
+      // Send Message
+      let renderedMessage: string | null = null
+      // Failures before the request count as bad content, not worth a retry
+      let errorCode: SendErrorCode = 'invalid_request'
+      const attemptNumber = (lockedMessage.attempt_count || 0) + 1
+      try {
+        const contact = lockedMessage.contacts
+        if (!contact) throw new Error('Contact not found')
+
+        // Pick a spintax variant for this recipient, then fill the
+        // {{placeholders}} with the contact's data right before sending
+        const rendered = composeContactMessage(contact)
+        renderedMessage = rendered.text
+        if (rendered.missing.length > 0) {
+          console.warn(
+            `Message ${lockedMessage.id} has no value for: ${rendered.missing.join(', ')}`,
           )
-          requiredDelay += batchPause
-          console.log(`Batch pause active: +${batchPause / 1000}s`)
         }
+        // Attachment from the contact's row, or the campaign-wide one
+        const media = resolveMessageMedia(contact.media_url, campaign)
 
-        // If no messages sent yet, no delay needed for the very first one
-        if (!hasMessagesSentReally) {
-          requiredDelay = 0
+        if (!rendered.text.trim() && !media) {
+          throw new Error('Message is empty after applying template variables')
         }
 
-        const timeSinceLast = Date.now() - lastSentAt
+        // Until the sender function answers, a failure is a network one
+        errorCode = 'network_error'
+        const response = await fetch(
+          `${SUPABASE_URL}/functions/v1/send-whatsapp-message`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              // Lets the sender function use the campaign owner's credentials
+              Authorization: `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+            },
+            body: JSON.stringify({
+              name: contact.name,
+              phone: contact.phone,
+              message: rendered.text,
+              media,
+              campaign_id: campaign.id,
+              contact_id: lockedMessage.contact_id,
+              sender_id: sender?.id,
+            }),
+          },
+        )
 
-        // STRICT DELAY ENFORCEMENT
-        if (timeSinceLast < requiredDelay) {
-          const waitTime = requiredDelay - timeSinceLast
+        // Normalized result, independent of the provider behind the function
+        const result: SendResult = await response.json()
 
-          // Log wait plan
-          console.log(
-            `Msg #${sentMessagesCount + 1}: Waiting ${Math.round(waitTime / 1000)}s (Delay: ${requiredDelay / 1000}s, SinceLast: ${timeSinceLast / 1000}s)`,
+        if (!result.success) {
+          errorCode = result.errorCode || 'provider_error'
+          throw new Error(
+            result.errorMessage ||
+              `Failed to send (${result.errorCode || response.status})`,
           )
-
-          // If the wait time is too long for this execution window, break and wait for next cron
-          if (Date.now() + waitTime > startTime + MAX_EXECUTION_TIME) {
-            console.log(
-              `Wait time ${waitTime}ms exceeds execution window. Stopping to wait for next cron.`,
-            )
-            campaignLoopActive = false
-            break
-          }
-          await new Promise((resolve) => setTimeout(resolve, waitTime))
         }
 
-        // Fetch ONE message to send (Locking strategy)
-        const { data: messageToLock } = await supabase
+        // Success - Update message status
+        await supabase
           .from('campaign_messages')
-          .select('id')
-          .eq('campaign_id', campaign.id)
-          .in('status', ['aguardando', 'pending'])
-          .limit(1)
-          .maybeSingle()
-
-        if (!messageToLock) {
-          // No more messages in 'aguardando'. Check for remaining processing ones
-          const { count: remaining } = await supabase
-            .from('campaign_messages')
-            .select('*', { count: 'exact', head: true })
-            .eq('campaign_id', campaign.id)
-            .in('status', ['aguardando', 'sending', 'pending'])
-
-          if (remaining === 0) {
-            await finalizeCampaign()
-          }
-          campaignLoopActive = false
-          break
+          .update({
+            status: 'sent',
+            sent_at: new Date().toISOString(), // Update to exact sent time
+            error_message: null,
+            rendered_message: renderedMessage,
+            // Lets the status webhook find this row later
+            provider_message_id: result.providerMessageId,
+            attempt_count: attemptNumber,
+            next_attempt_at: null,
+            last_error_code: null,
+            sender_id: sender?.id ?? null,
+          })
+          .eq('id', lockedMessage.id)
+
+        await supabase.from('campaign_message_attempts').insert({
+          campaign_message_id: lockedMessage.id,
+          campaign_id: campaign.id,
+          attempt_number: attemptNumber,
+          status: 'sent',
+          provider_message_id: result.providerMessageId,
+          sender_id: sender?.id ?? null,
+        })
+
+        if (sender) await recordSenderOutcome(sender, { ok: true })
+
+        // Increment campaign counter via RPC
+        await supabase.rpc('increment_campaign_sent', { row_id: campaign.id })
+
+        campaign.sent_messages = (campaign.sent_messages || 0) + 1
+        lane.recordSend()
+        campaignResult.messagesSent++
+      } catch (err: any) {
+        console.error(`Failed to send message ${lockedMessage.id}:`, err)
+
+        const errorMessage = err.message || 'Unknown error'
+        let retry = shouldRetry(retryPolicy, attemptNumber, errorCode)
+        // A cancel that came while the send was in flight cleared the
+        // queue; the message must not go back into it
+        let canceled = false
+        if (retry) {
+          const { data: current } = await supabase
+            .from('campaigns')
+            .select('status')
+            .eq('id', campaign.id)
+            .single()
+          canceled = current?.status === 'canceled'
+          retry = !canceled
         }
+        const nextAttemptAt = retry
+          ? new Date(
+              Date.now() + retryDelaySeconds(retryPolicy, attemptNumber) * 1000,
+            ).toISOString()
+          : null
 
-        // Lock it
-        const sentAtTimestamp = new Date().toISOString()
-        const { data: lockedMessage, error: lockError } = await supabase
+        await supabase
           .from('campaign_messages')
-          .update({ status: 'sending', sent_at: sentAtTimestamp })
-          .eq('id', messageToLock.id)
-          .in('status', ['aguardando', 'pending'])
-          .select('*, contacts(name, phone, message)')
-          .single()
-
-        if (lockError || !lockedMessage) {
-          continue
+          .update({
+            // Back in the queue, due again after the backoff
+            status: retry ? 'aguardando' : canceled ? 'canceled' : 'failed',
+            sent_at: retry || canceled ? null : lockedMessage.sent_at,
+            error_message: errorMessage,
+            rendered_message: renderedMessage,
+            attempt_count: attemptNumber,
+            next_attempt_at: nextAttemptAt,
+            last_error_code: errorCode,
+            sender_id: sender?.id ?? null,
+          })
+          .eq('id', lockedMessage.id)
+
+        await supabase.from('campaign_message_attempts').insert({
+          campaign_message_id: lockedMessage.id,
+          campaign_id: campaign.id,
+          attempt_number: attemptNumber,
+          status: 'failed',
+          error_code: errorCode,
+          error_message: errorMessage,
+          next_attempt_at: nextAttemptAt,
+          sender_id: sender?.id ?? null,
+        })
+
+        if (sender) {
+          await recordSenderOutcome(sender, {
+            ok: false,
+            errorCode,
+            error: errorMessage,
+          })
         }
 
-        // Send Message
-        try {
-          const contact = lockedMessage.contacts
-          if (!contact) throw new Error('Contact not found')
-
-          const response = await fetch(
-            `${SUPABASE_URL}/functions/v1/send-whatsapp-message`,
-            {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                name: contact.name,
-                phone: contact.phone,
-                message: contact.message,
-              }),
-            },
-          )
+        const breakerReason = await tripCircuitBreaker(
+          campaign.id,
+          circuitBreaker,
+          campaign.resumed_at,
+        )
+        if (breakerReason) {
+          console.log(`Campaign ${campaign.id} auto-paused: ${breakerReason}`)
+          campaignResult.status = 'paused'
+          return 'done'
+        }
+      }
+      return 'again'
+    }
 
-          const result = await response.json()
+    // Process Messages loop: one message at a time across every campaign.
+    // The most deserving due campaign (see nextLane) sends next, and the
+    // worker only sleeps when none of them is due yet
+    const live: Lane[] = []
+    for (const lane of lanes) {
+      if (await planLane(lane)) live.push(lane)
+    }
 
-          if (!response.ok || !result.success) {
-            throw new Error(result.error || 'Failed to send')
-          }
+    while (live.length > 0 && Date.now() - startTime < MAX_EXECUTION_TIME) {
+      const lane = nextLane(live, Date.now())!
+      const waitTime = lane.readyAt - Date.now()
 
-          // Success - Update message status
-          await supabase
-            .from('campaign_messages')
-            .update({
-              status: 'sent',
-              sent_at: new Date().toISOString(), // Update to exact sent time
-              error_message: null,
-            })
-            .eq('id', lockedMessage.id)
-
-          // Increment campaign counter via RPC
-          await supabase.rpc('increment_campaign_sent', { row_id: campaign.id })
-
-          campaign.sent_messages = (campaign.sent_messages || 0) + 1
-          campaignResult.messagesSent++
-          messagesProcessedInThisLoop++
-        } catch (err: any) {
-          console.error(`Failed to send message ${lockedMessage.id}:`, err)
-
-          await supabase
-            .from('campaign_messages')
-            .update({
-              status: 'failed',
-              error_message: err.message || 'Unknown error',
-            })
-            .eq('id', lockedMessage.id)
+      // STRICT DELAY ENFORCEMENT
+      if (waitTime > 0) {
+        // If the wait time is too long for this execution window, stop and wait for next cron
+        if (Date.now() + waitTime > startTime + MAX_EXECUTION_TIME) {
+          console.log(
+            `Wait time ${waitTime}ms exceeds execution window. Stopping to wait for next cron.`,
+          )
+          break
         }
+
+        // Log wait plan
+        console.log(
+          `Campaign ${lane.campaign.id} msg #${(lane.campaign.sent_messages || 0) + 1}: Waiting ${Math.round(waitTime / 1000)}s (Delay: ${lane.requiredDelay / 1000}s)`,
+        )
+        await new Promise((resolve) => setTimeout(resolve, waitTime))
+      }
+
+      const outcome = await sendNext(lane)
+      if (
+        outcome === 'done' ||
+        (outcome === 'again' && !(await planLane(lane)))
+      ) {
+        live.splice(live.indexOf(lane), 1)
       }
+    }
 
+    for (const { campaign, result: campaignResult } of lanes) {
       // Update execution time
       if (campaignResult.status !== 'finished') {
         const startedAt = campaign.started_at
@@ -1,5 +1,57 @@
 import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
+import { createClient } from 'jsr:@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { getRequestCaller } from '../_shared/auth.ts'
+import { getProviderConfigForUser } from '../_shared/connections.ts'
+import {
+  createProvider,
+  getProviderConfigFromEnv,
+  type SendResult,
+} from '../_shared/providers/index.ts'
+import { isMediaType, type MediaAttachment } from '../_shared/media.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+// The sender is always the owner of the campaign (or of the contact when a
+// single message is sent from the review screen). `sender_id` picks one
+// number of the owner's pool, otherwise the default one is used.
+async function resolveOwnerId(
+  campaignId?: string,
+  contactId?: string,
+): Promise<string | null> {
+  if (campaignId) {
+    const { data } = await supabase
+      .from('campaigns')
+      .select('user_id')
+      .eq('id', campaignId)
+      .maybeSingle()
+    if (data?.user_id) return data.user_id
+  }
+
+  if (contactId) {
+    const { data } = await supabase
+      .from('contacts')
+      .select('user_id')
+      .eq('id', contactId)
+      .maybeSingle()
+    if (data?.user_id) return data.user_id
+  }
+
+  return null
+}
+
+function jsonResponse(result: SendResult, status: number) {
+  return new Response(JSON.stringify(result), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...corsHeaders,
+    },
+  })
+}
 
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
@@ -7,61 +59,69 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { name, phone, message } = await req.json()
+    const { name, phone, message, media, campaign_id, contact_id, sender_id } =
+      await req.json()
 
-    if (!name || !phone || !message) {
+    // With an attachment the text is an optional caption
+    if (!name || !phone || (!message && !media)) {
       throw new Error('Missing required fields: name, phone, message')
     }
 
-    const webhookUrl = 'https://skinnysalmon-n8n.cloudfy.cloud/webhook/disparos'
-
-    const payload = {
-      Nome: name,
-      Telefone: phone,
-      Texto: message,
+    if (media && (!media.url || !isMediaType(media.type))) {
+      throw new Error('Invalid media: url and a supported type are required')
     }
 
-    const response = await fetch(webhookUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload),
-    })
+    const caller = await getRequestCaller(req, supabase)
+    let ownerId = await resolveOwnerId(campaign_id, contact_id)
 
-    if (!response.ok) {
-      const text = await response.text()
-      throw new Error(`Webhook error: ${response.status} ${text}`)
+    if (caller.kind === 'user') {
+      if (ownerId && ownerId !== caller.userId) {
+        return jsonResponse(
+          {
+            success: false,
+            providerMessageId: null,
+            errorCode: 'auth_error',
+            errorMessage: 'Not allowed to send on behalf of this account',
+            raw: null,
+          },
+          403,
+        )
+      }
+      ownerId = caller.userId
+    } else if (caller.kind === 'anonymous') {
+      // Never hand out an account's credentials to an unauthenticated caller
+      ownerId = null
     }
 
-    // Attempt to parse response, but handle non-JSON responses gracefully
-    let data
-    const text = await response.text()
-    try {
-      data = text ? JSON.parse(text) : { success: true }
-    } catch {
-      data = { message: text }
-    }
+    const providerConfig = ownerId
+      ? await getProviderConfigForUser(supabase, ownerId, sender_id)
+      : getProviderConfigFromEnv()
 
-    return new Response(JSON.stringify({ success: true, data }), {
-      headers: {
-        'Content-Type': 'application/json',
-        ...corsHeaders,
-      },
+    const provider = createProvider(providerConfig)
+    const result: SendResult = await provider.send({
+      name,
+      phone,
+      text: message || '',
+      media: (media as MediaAttachment) || null,
     })
+
+    if (!result.success) {
+      console.error(
+        `[${provider.type}] send failed (${result.errorCode}): ${result.errorMessage}`,
+      )
+    }
+
+    return jsonResponse(result, result.success ? 200 : 400)
   } catch (error) {
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      }),
+    return jsonResponse(
       {
-        status: 400,
-        headers: {
-          'Content-Type': 'application/json',
-          ...corsHeaders,
-        },
+        success: false,
+        providerMessageId: null,
+        errorCode: 'invalid_request',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        raw: null,
       },
+      400,
     )
   }
 })
@@ -0,0 +1,191 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import { getRequestCaller } from '../_shared/auth.ts'
+import { encryptSecret, secretHint } from '../_shared/crypto.ts'
+import { parseDailyLimit } from '../_shared/daily-caps.ts'
+import { positiveInt } from '../_shared/numbers.ts'
+import {
+  MIN_SPACING_ERROR,
+  parseMinSpacingSeconds,
+} from '../_shared/throughput.ts'
+import {
+  connectionToProviderConfig,
+  getConnectionById,
+} from '../_shared/connections.ts'
+import {
+  createProvider,
+  isProviderType,
+  type ProviderConfig,
+} from '../_shared/providers/index.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...corsHeaders,
+    },
+  })
+}
+
+function cleanString(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : null
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const caller = await getRequestCaller(req, supabase)
+    if (caller.kind !== 'user') {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
+    const userId = caller.userId
+
+    const body = await req.json()
+    const action = body?.action
+
+    // Without an id `save` adds a new number to the pool
+    const connectionId = cleanString(body?.id)
+    const existing = connectionId
+      ? await getConnectionById(supabase, userId, connectionId)
+      : null
+    if (connectionId && !existing) {
+      throw new Error('Connection not found')
+    }
+
+    if (action === 'status') {
+      const status = body?.status
+      if (!existing || !['active', 'paused'].includes(status)) {
+        throw new Error('Invalid status')
+      }
+
+      // Reactivating gives a failing number a clean slate
+      const { error } = await supabase
+        .from('whatsapp_connections')
+        .update({
+          status,
+          status_reason: null,
+          consecutive_failures: 0,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', existing.id)
+
+      if (error) throw error
+      return jsonResponse({ success: true })
+    }
+
+    const provider = body?.provider
+    const endpoint = cleanString(body?.endpoint)
+    const instanceId = cleanString(body?.instance_id)
+    const token = cleanString(body?.token)
+
+    if (!isProviderType(provider)) {
+      throw new Error('Invalid provider')
+    }
+
+    if (action === 'save') {
+      const minInterval = parseMinSpacingSeconds(body?.min_interval_seconds)
+      if (minInterval === null) throw new Error(MIN_SPACING_ERROR)
+
+      const updates: Record<string, unknown> = {
+        user_id: userId,
+        provider,
+        endpoint,
+        instance_id: instanceId,
+        label: cleanString(body?.label),
+        phone: cleanString(body?.phone),
+        daily_limit: parseDailyLimit(body?.daily_limit),
+        min_interval_seconds: minInterval,
+        hourly_limit: positiveInt(body?.hourly_limit),
+        updated_at: new Date().toISOString(),
+      }
+
+      // An empty token keeps the stored one
+      if (token) {
+        updates.token_encrypted = await encryptSecret(token)
+        updates.token_hint = secretHint(token)
+      }
+
+      const { data, error } = existing
+        ? await supabase
+            .from('whatsapp_connections')
+            .update(updates)
+            .eq('id', existing.id)
+            .select('id')
+            .single()
+        : await supabase
+            .from('whatsapp_connections')
+            .insert(updates)
+            .select('id')
+            .single()
+
+      if (error) throw error
+      return jsonResponse({ success: true, id: data.id })
+    }
+
+    if (action === 'test') {
+      // Test what is on the form, falling back to the stored token. The
+      // stored token is only sent where it is saved to go, or anyone able
+      // to call this could point it at a host of their own.
+      const stored = existing
+        ? await connectionToProviderConfig(existing)
+        : null
+      if (
+        !token &&
+        stored?.token &&
+        (stored.provider !== provider || (stored.endpoint ?? null) !== endpoint)
+      ) {
+        throw new Error(
+          'Informe o token novamente para testar um endereço diferente do salvo',
+        )
+      }
+
+      const config: ProviderConfig = {
+        provider,
+        endpoint: endpoint || undefined,
+        instanceId: instanceId || undefined,
+        token: token || stored?.token,
+      }
+
+      const health = await createProvider(config).healthCheck()
+
+      if (existing) {
+        await supabase
+          .from('whatsapp_connections')
+          .update({
+            last_tested_at: new Date().toISOString(),
+            last_test_ok: health.ok,
+            last_test_message: health.message,
+          })
+          .eq('id', existing.id)
+      }
+
+      return jsonResponse({
+        success: true,
+        ok: health.ok,
+        message: health.message,
+      })
+    }
+
+    throw new Error(`Unknown action: ${action}`)
+  } catch (error) {
+    return jsonResponse(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      400,
+    )
+  }
+})
@@ -0,0 +1,280 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import {
+  authorizeWebhook,
+  metaVerificationResponse,
+} from '../_shared/webhooks.ts'
+import {
+  type InboundMessage,
+  parseInboundCallback,
+  parseStatusCallback,
+} from '../_shared/providers/index.ts'
+import { normalizePhone } from '../_shared/phone.ts'
+import { matchOptOutKeyword } from '../_shared/opt-out.ts'
+import { applyStatusUpdate } from '../_shared/receipts.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+const SENT_MESSAGE_STATUSES = ['sent', 'delivered', 'read']
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...corsHeaders,
+    },
+  })
+}
+
+// The account whose number received the message. Replies are only matched
+// within that account, so without one (or with an instance several
+// accounts point at) there is nothing safe to match against.
+async function findOwnerByAccount(accountRef: string | null | undefined) {
+  if (!accountRef) return null
+
+  const { data, error } = await supabase
+    .from('whatsapp_connections')
+    .select('user_id')
+    .eq('instance_id', accountRef)
+
+  if (error) throw error
+  const owners = new Set<string>(
+    (data || []).map((connection) => connection.user_id),
+  )
+  return owners.size === 1 ? [...owners][0] : null
+}
+
+// Most recent campaign message that actually went out to this number
+async function findLastCampaignMessage(
+  normalizedPhone: string,
+  ownerId: string,
+) {
+  const { data, error } = await supabase
+    .from('campaign_messages')
+    .select(
+      'id, campaign_id, contact_id, replied_at, contacts!inner(normalized_phone), campaigns!inner(user_id)',
+    )
+    .eq('contacts.normalized_phone', normalizedPhone)
+    .eq('campaigns.user_id', ownerId)
+    .in('status', SENT_MESSAGE_STATUSES)
+    .order('sent_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+async function findContact(normalizedPhone: string, ownerId: string) {
+  const { data, error } = await supabase
+    .from('contacts')
+    .select('id')
+    .eq('normalized_phone', normalizedPhone)
+    .eq('user_id', ownerId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+interface StoredReply {
+  id: string
+  userId: string
+  normalizedPhone: string
+}
+
+async function storeReply(
+  inbound: InboundMessage,
+): Promise<StoredReply | null> {
+  const normalizedPhone = normalizePhone(inbound.from)
+  if (!normalizedPhone) return null
+
+  const userId = await findOwnerByAccount(inbound.accountRef)
+  if (!userId) {
+    console.log(
+      `Inbound webhook: no single account for instance ${inbound.accountRef ?? '(none)'}`,
+    )
+    return null
+  }
+
+  const lastMessage = await findLastCampaignMessage(normalizedPhone, userId)
+  const contact = lastMessage
+    ? { id: lastMessage.contact_id }
+    : await findContact(normalizedPhone, userId)
+
+  const { data: inserted, error } = await supabase
+    .from('message_replies')
+    .upsert(
+      {
+        user_id: userId,
+        contact_id: contact?.id ?? null,
+        campaign_id: lastMessage?.campaign_id ?? null,
+        campaign_message_id: lastMessage?.id ?? null,
+        phone: inbound.from.split('@')[0],
+        normalized_phone: normalizedPhone,
+        sender_name: inbound.senderName ?? null,
+        body: inbound.text,
+        provider_message_id: inbound.providerMessageId,
+        received_at: inbound.timestamp,
+      },
+      { onConflict: 'provider_message_id', ignoreDuplicates: true },
+    )
+    .select('id')
+
+  if (error) throw error
+  // Provider retried a callback we already stored
+  if (!inserted?.length) return null
+
+  if (lastMessage && !lastMessage.replied_at) {
+    const { error: updateError } = await supabase
+      .from('campaign_messages')
+      .update({ replied_at: inbound.timestamp })
+      .eq('id', lastMessage.id)
+      .is('replied_at', null)
+
+    if (updateError) throw updateError
+  }
+
+  return { id: inserted[0].id, userId, normalizedPhone }
+}
+
+async function suppressIfOptOut(
+  inbound: InboundMessage,
+  reply: StoredReply,
+): Promise<boolean> {
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('opt_out_keywords')
+    .eq('id', reply.userId)
+    .maybeSingle()
+
+  if (error) throw error
+
+  const keyword = matchOptOutKeyword(inbound.text, profile?.opt_out_keywords)
+  if (!keyword) return false
+
+  // normalized_phone is filled by the table trigger
+  const { error: insertError } = await supabase.from('suppression_list').upsert(
+    {
+      user_id: reply.userId,
+      phone: inbound.from.split('@')[0],
+      reason: 'opt_out',
+      keyword,
+      reply_id: reply.id,
+    },
+    { onConflict: 'user_id,normalized_phone', ignoreDuplicates: true },
+  )
+
+  if (insertError) throw insertError
+  return true
+}
+
+// Answering takes the contact out of every drip sequence of the account,
+// recorded as an opt-out when the reply was one. Returns how many left.
+async function exitSequences(
+  reply: StoredReply,
+  reason: 'replied' | 'opted_out',
+) {
+  const { data: enrollments, error } = await supabase
+    .from('sequence_enrollments')
+    .select('id, contacts!inner(normalized_phone), sequences!inner(user_id)')
+    .eq('contacts.normalized_phone', reply.normalizedPhone)
+    .eq('sequences.user_id', reply.userId)
+    .eq('status', 'active')
+
+  if (error) throw error
+  if (!enrollments?.length) return 0
+
+  const { error: updateError } = await supabase
+    .from('sequence_enrollments')
+    .update({
+      status: reason,
+      next_step_at: null,
+      exited_at: new Date().toISOString(),
+    })
+    .in(
+      'id',
+      enrollments.map((enrollment) => enrollment.id),
+    )
+    .eq('status', 'active')
+
+  if (updateError) throw updateError
+  return enrollments.length
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method === 'GET') {
+    return metaVerificationResponse(req)
+  }
+
+  // Forged replies would opt numbers out and end sequences, so the body is
+  // only trusted once it is signed or carries the secret
+  const rawBody = await req.text()
+  const rejection = await authorizeWebhook(req, rawBody)
+  if (rejection) {
+    return jsonResponse(
+      { success: false, error: rejection.error },
+      rejection.status,
+    )
+  }
+
+  try {
+    const payload = JSON.parse(rawBody)
+    const messages = parseInboundCallback(payload)
+
+    let stored = 0
+    let optedOut = 0
+    let exited = 0
+    for (const message of messages) {
+      const reply = await storeReply(message)
+      if (!reply) continue
+      stored++
+      const isOptOut = await suppressIfOptOut(message, reply)
+      if (isOptOut) optedOut++
+      exited += await exitSequences(reply, isOptOut ? 'opted_out' : 'replied')
+    }
+
+    // Meta and Evolution deliver receipts on the same callback URL, so a
+    // single webhook can be configured for both
+    const updates = parseStatusCallback(payload)
+    let applied = 0
+    for (const update of updates) {
+      if (await applyStatusUpdate(supabase, update)) applied++
+    }
+
+    if (messages.length > stored) {
+      console.log(
+        `Inbound webhook: ${messages.length - stored} of ${messages.length} messages ignored (duplicate, unknown number or unknown account)`,
+      )
+    }
+
+    return jsonResponse({
+      success: true,
+      received: messages.length,
+      stored,
+      opted_out: optedOut,
+      sequence_exits: exited,
+      receipts: applied,
+    })
+  } catch (error) {
+    console.error('Inbound webhook error:', error)
+    return jsonResponse(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      400,
+    )
+  }
+})
@@ -0,0 +1,71 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { corsHeaders } from '../_shared/cors.ts'
+import {
+  authorizeWebhook,
+  metaVerificationResponse,
+} from '../_shared/webhooks.ts'
+import { parseStatusCallback } from '../_shared/providers/index.ts'
+import { applyStatusUpdate } from '../_shared/receipts.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...corsHeaders,
+    },
+  })
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method === 'GET') {
+    return metaVerificationResponse(req)
+  }
+
+  // The signature covers the exact bytes, so read them before parsing
+  const rawBody = await req.text()
+  const rejection = await authorizeWebhook(req, rawBody)
+  if (rejection) {
+    return jsonResponse(
+      { success: false, error: rejection.error },
+      rejection.status,
+    )
+  }
+
+  try {
+    const payload = JSON.parse(rawBody)
+    const updates = parseStatusCallback(payload)
+
+    let applied = 0
+    for (const update of updates) {
+      if (await applyStatusUpdate(supabase, update)) applied++
+    }
+
+    if (updates.length > applied) {
+      console.log(
+        `Status webhook: ${updates.length - applied} of ${updates.length} updates ignored (unknown ID or stale status)`,
+      )
+    }
+
+    return jsonResponse({ success: true, received: updates.length, applied })
+  } catch (error) {
+    console.error('Status webhook error:', error)
+    return jsonResponse(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      400,
+    )
+  }
+})
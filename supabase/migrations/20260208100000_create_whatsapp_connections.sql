@@ -0,0 +1,38 @@
+-- Per-user WhatsApp provider connection. The token is encrypted by the
+-- whatsapp-connection edge function before it reaches the database.
+CREATE TABLE IF NOT EXISTS public.whatsapp_connections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL DEFAULT 'n8n' CHECK (provider IN ('n8n', 'evolution', 'meta', 'mock')),
+    endpoint TEXT,
+    instance_id TEXT,
+    token_encrypted TEXT,
+    token_hint TEXT,
+    last_tested_at TIMESTAMP WITH TIME ZONE,
+    last_test_ok BOOLEAN,
+    last_test_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.whatsapp_connections ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own connection; writes go through the edge function
+-- (service role) so the token never travels in plain text to the table
+CREATE POLICY "Users can view their own whatsapp connection"
+    ON public.whatsapp_connections
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own whatsapp connection"
+    ON public.whatsapp_connections
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- The ciphertext is only needed by the edge functions: expose every other
+-- column to the client
+REVOKE SELECT ON public.whatsapp_connections FROM anon, authenticated;
+GRANT SELECT (
+    id, user_id, provider, endpoint, instance_id, token_hint,
+    last_tested_at, last_test_ok, last_test_message, created_at, updated_at
+) ON public.whatsapp_connections TO authenticated;
@@ -0,0 +1,3 @@
+-- Extra CSV columns used as message template variables ({{cidade}}, {{plano}}...)
+ALTER TABLE public.contacts
+  ADD COLUMN IF NOT EXISTS variables JSONB NOT NULL DEFAULT '{}'::jsonb;
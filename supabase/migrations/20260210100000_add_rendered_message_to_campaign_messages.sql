@@ -0,0 +1,3 @@
+-- Exact text sent to each recipient (spintax variant + variables), for auditing
+ALTER TABLE public.campaign_messages
+  ADD COLUMN IF NOT EXISTS rendered_message TEXT;
@@ -0,0 +1,61 @@
+-- Campaign-wide attachment (the contact message becomes its caption)
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS media_url TEXT;
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS media_type TEXT;
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS media_filename TEXT;
+
+ALTER TABLE public.campaigns DROP CONSTRAINT IF EXISTS campaigns_media_type_check;
+ALTER TABLE public.campaigns ADD CONSTRAINT campaigns_media_type_check
+  CHECK (media_type IS NULL OR media_type IN ('image', 'video', 'audio', 'document'));
+
+-- Per-contact attachment imported from the spreadsheet
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS media_url TEXT;
+
+-- Public bucket so WhatsApp providers can download the files.
+-- Files live under <user_id>/ so spreadsheets can reference them by name.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('campaign-media', 'campaign-media', true, 104857600)
+ON CONFLICT (id) DO NOTHING;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname = 'Campaign media is publicly accessible.'
+    ) THEN
+        CREATE POLICY "Campaign media is publicly accessible."
+        ON storage.objects FOR SELECT
+        USING ( bucket_id = 'campaign-media' );
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname = 'Users can upload their own campaign media.'
+    ) THEN
+        CREATE POLICY "Users can upload their own campaign media."
+        ON storage.objects FOR INSERT
+        WITH CHECK ( bucket_id = 'campaign-media' AND (storage.foldername(name))[1] = auth.uid()::text );
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname = 'Users can update their own campaign media.'
+    ) THEN
+        CREATE POLICY "Users can update their own campaign media."
+        ON storage.objects FOR UPDATE
+        USING ( bucket_id = 'campaign-media' AND (storage.foldername(name))[1] = auth.uid()::text );
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies WHERE schemaname = 'storage' AND tablename = 'objects' AND policyname = 'Users can delete their own campaign media.'
+    ) THEN
+        CREATE POLICY "Users can delete their own campaign media."
+        ON storage.objects FOR DELETE
+        USING ( bucket_id = 'campaign-media' AND (storage.foldername(name))[1] = auth.uid()::text );
+    END IF;
+END $$;
@@ -0,0 +1,19 @@
+-- Delivery receipts: the provider's message ID links status callbacks back
+-- to the row, which then advances sent -> delivered -> read (or failed)
+ALTER TABLE public.campaign_messages ADD COLUMN IF NOT EXISTS provider_message_id TEXT;
+ALTER TABLE public.campaign_messages ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ;
+ALTER TABLE public.campaign_messages ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ;
+ALTER TABLE public.campaign_messages ADD COLUMN IF NOT EXISTS failed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS campaign_messages_provider_message_id_idx
+  ON public.campaign_messages (provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+-- Delivered and read messages were sent too
+UPDATE campaigns c
+SET sent_messages = (
+  SELECT count(*)
+  FROM campaign_messages cm
+  WHERE cm.campaign_id = c.id
+  AND cm.status IN ('sent', 'delivered', 'read')
+);
@@ -0,0 +1,93 @@
+-- Matching key for phone numbers. Mirrors normalizePhone() in
+-- supabase/functions/_shared/phone.ts: country code + area code + last
+-- 8 digits, so "(11) 98765-4321" and the 8-digit WhatsApp ID both match.
+CREATE OR REPLACE FUNCTION public.normalize_phone(phone TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    digits TEXT;
+BEGIN
+    digits := regexp_replace(split_part(coalesce(phone, ''), '@', 1), '\D', '', 'g');
+    digits := regexp_replace(digits, '^0+', '');
+
+    IF length(digits) IN (10, 11) THEN
+        digits := '55' || digits;
+    END IF;
+
+    IF length(digits) = 13 AND left(digits, 2) = '55' AND substr(digits, 5, 1) = '9' THEN
+        digits := left(digits, 4) || substr(digits, 6);
+    END IF;
+
+    RETURN digits;
+END;
+$$;
+
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS normalized_phone TEXT;
+
+CREATE OR REPLACE FUNCTION public.set_contact_normalized_phone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    NEW.normalized_phone := public.normalize_phone(NEW.phone);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS contacts_normalized_phone ON public.contacts;
+CREATE TRIGGER contacts_normalized_phone
+    BEFORE INSERT OR UPDATE OF phone ON public.contacts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_contact_normalized_phone();
+
+UPDATE public.contacts SET normalized_phone = public.normalize_phone(phone);
+
+CREATE INDEX IF NOT EXISTS contacts_user_normalized_phone_idx
+    ON public.contacts (user_id, normalized_phone);
+
+-- First reply per message, for the row indicator and the reply rate
+ALTER TABLE public.campaign_messages ADD COLUMN IF NOT EXISTS replied_at TIMESTAMPTZ;
+
+-- Messages contacts send back. Linked to the most recent campaign message
+-- delivered to the same number when the webhook receives them.
+CREATE TABLE IF NOT EXISTS public.message_replies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+    campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL,
+    campaign_message_id UUID REFERENCES public.campaign_messages(id) ON DELETE SET NULL,
+    phone TEXT NOT NULL,
+    normalized_phone TEXT NOT NULL,
+    sender_name TEXT,
+    body TEXT NOT NULL DEFAULT '',
+    provider_message_id TEXT NOT NULL UNIQUE,
+    received_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS message_replies_campaign_id_idx
+    ON public.message_replies (campaign_id, received_at DESC);
+
+ALTER TABLE public.message_replies ENABLE ROW LEVEL SECURITY;
+
+-- Inserted by the webhook (service role); users only read them
+CREATE POLICY "Users can view their own message replies"
+    ON public.message_replies
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own message replies"
+    ON public.message_replies
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'message_replies'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.message_replies;
+    END IF;
+END $$;
@@ -0,0 +1,50 @@
+-- Replies that consist of one of these words add the sender to the
+-- suppression list (see supabase/functions/_shared/opt-out.ts)
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS opt_out_keywords TEXT[] NOT NULL DEFAULT ARRAY['SAIR', 'PARAR', 'STOP'];
+
+-- Numbers that must never receive campaign messages again, per account.
+-- Filled by opt-out replies or manually from the settings screen.
+CREATE TABLE IF NOT EXISTS public.suppression_list (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    phone TEXT NOT NULL,
+    normalized_phone TEXT NOT NULL,
+    reason TEXT NOT NULL DEFAULT 'manual' CHECK (reason IN ('opt_out', 'manual')),
+    keyword TEXT,
+    reply_id UUID REFERENCES public.message_replies(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (user_id, normalized_phone)
+);
+
+CREATE OR REPLACE FUNCTION public.set_suppression_normalized_phone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    NEW.normalized_phone := public.normalize_phone(NEW.phone);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS suppression_list_normalized_phone ON public.suppression_list;
+CREATE TRIGGER suppression_list_normalized_phone
+    BEFORE INSERT OR UPDATE OF phone ON public.suppression_list
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_suppression_normalized_phone();
+
+ALTER TABLE public.suppression_list ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own suppression list"
+    ON public.suppression_list
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add to their own suppression list"
+    ON public.suppression_list
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove from their own suppression list"
+    ON public.suppression_list
+    FOR DELETE
+    USING (auth.uid() = user_id);
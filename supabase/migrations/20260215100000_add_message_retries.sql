@@ -0,0 +1,46 @@
+-- Automatic retries: failed sends with a retryable error go back to
+-- 'aguardando' and become due again at next_attempt_at
+ALTER TABLE public.campaign_messages ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.campaign_messages ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ;
+ALTER TABLE public.campaign_messages ADD COLUMN IF NOT EXISTS last_error_code TEXT;
+
+-- Messages sent before this migration went out once
+UPDATE public.campaign_messages
+SET attempt_count = 1
+WHERE attempt_count = 0
+AND status IN ('sent', 'delivered', 'read', 'failed');
+
+CREATE INDEX IF NOT EXISTS campaign_messages_due_idx
+    ON public.campaign_messages (campaign_id, next_attempt_at)
+    WHERE status IN ('aguardando', 'pending');
+
+-- One row per send attempt, for the history shown on the detail page
+CREATE TABLE IF NOT EXISTS public.campaign_message_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    campaign_message_id UUID NOT NULL REFERENCES public.campaign_messages(id) ON DELETE CASCADE,
+    campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+    attempt_number INTEGER NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+    error_code TEXT,
+    error_message TEXT,
+    provider_message_id TEXT,
+    next_attempt_at TIMESTAMPTZ,
+    attempted_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS campaign_message_attempts_message_idx
+    ON public.campaign_message_attempts (campaign_message_id, attempt_number);
+
+ALTER TABLE public.campaign_message_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Written by the queue worker (service role); readable by the campaign owner
+CREATE POLICY "Users can view attempts of their own campaigns"
+    ON public.campaign_message_attempts
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.campaigns c
+            WHERE c.id = campaign_message_attempts.campaign_id
+            AND c.user_id = auth.uid()
+        )
+    );
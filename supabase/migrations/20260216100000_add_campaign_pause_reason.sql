@@ -0,0 +1,17 @@
+-- The breaker pauses campaigns itself, but the last rewrite of the status
+-- check dropped the statuses added before it (paused, failed, canceled),
+-- so it is restored in full here.
+ALTER TABLE public.campaigns DROP CONSTRAINT IF EXISTS campaigns_status_check;
+ALTER TABLE public.campaigns ADD CONSTRAINT campaigns_status_check
+    CHECK (status IN ('scheduled', 'pending', 'active', 'processing', 'paused', 'finished', 'failed', 'canceled'));
+
+-- Why and when a campaign was paused. Set by the queue worker when the
+-- circuit breaker trips; a manual pause leaves the reason empty.
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS pause_reason TEXT;
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ;
+-- Set when the user resumes the campaign. The breaker only counts attempts
+-- made after it, so the failures that paused it don't trip it again.
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS resumed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS campaign_message_attempts_campaign_idx
+    ON public.campaign_message_attempts (campaign_id, attempted_at DESC);
@@ -0,0 +1,84 @@
+-- Atomically claims the next due message of a campaign for sending.
+-- The campaign row is locked first, so overlapping worker invocations
+-- (cron plus a manual trigger) take turns instead of racing: whoever gets
+-- the lock claims, the other one gets no row back. When p_min_gap_seconds
+-- is set, nothing is claimed while a message of the campaign was sent
+-- more recently than that, which keeps the pacing intact across workers.
+CREATE OR REPLACE FUNCTION public.claim_next_campaign_message(
+    p_campaign_id UUID,
+    p_min_gap_seconds NUMERIC DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    campaign_id UUID,
+    contact_id UUID,
+    status TEXT,
+    sent_at TIMESTAMPTZ,
+    attempt_count INTEGER,
+    contacts JSONB
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    claimed_id UUID;
+BEGIN
+    PERFORM 1
+    FROM public.campaigns c
+    WHERE c.id = p_campaign_id
+    FOR UPDATE SKIP LOCKED;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    IF p_min_gap_seconds > 0 AND EXISTS (
+        SELECT 1
+        FROM public.campaign_messages cm
+        WHERE cm.campaign_id = p_campaign_id
+          AND cm.sent_at > now() - make_interval(secs => p_min_gap_seconds::DOUBLE PRECISION)
+    ) THEN
+        RETURN;
+    END IF;
+
+    SELECT cm.id INTO claimed_id
+    FROM public.campaign_messages cm
+    WHERE cm.campaign_id = p_campaign_id
+      AND cm.status IN ('aguardando', 'pending')
+      AND (cm.next_attempt_at IS NULL OR cm.next_attempt_at <= now())
+    ORDER BY cm.next_attempt_at ASC NULLS FIRST
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF claimed_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    UPDATE public.campaign_messages cm
+    SET status = 'sending', sent_at = now()
+    WHERE cm.id = claimed_id;
+
+    RETURN QUERY
+    SELECT
+        cm.id,
+        cm.campaign_id,
+        cm.contact_id,
+        cm.status,
+        cm.sent_at,
+        cm.attempt_count,
+        CASE WHEN ct.id IS NULL THEN NULL ELSE jsonb_build_object(
+            'name', ct.name,
+            'phone', ct.phone,
+            'message', ct.message,
+            'variables', ct.variables,
+            'media_url', ct.media_url
+        ) END
+    FROM public.campaign_messages cm
+    LEFT JOIN public.contacts ct ON ct.id = cm.contact_id
+    WHERE cm.id = claimed_id;
+END;
+$$;
+
+-- Only the queue worker (service role) claims messages
+REVOKE EXECUTE ON FUNCTION public.claim_next_campaign_message(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_next_campaign_message(UUID, NUMERIC) TO service_role;
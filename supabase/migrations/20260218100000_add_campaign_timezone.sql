@@ -0,0 +1,33 @@
+-- Campaigns evaluate business hours, automatic pauses and their scheduled
+-- start in an IANA timezone instead of a fixed UTC-3. Each account picks a
+-- default on its profile; campaigns created without one inherit it.
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'America/Sao_Paulo';
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+UPDATE public.campaigns c
+SET timezone = COALESCE(p.timezone, 'America/Sao_Paulo')
+FROM public.profiles p
+WHERE c.timezone IS NULL AND p.id = c.user_id;
+
+UPDATE public.campaigns SET timezone = 'America/Sao_Paulo' WHERE timezone IS NULL;
+
+CREATE OR REPLACE FUNCTION public.set_campaign_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.timezone IS NULL THEN
+        SELECT p.timezone INTO NEW.timezone
+        FROM public.profiles p
+        WHERE p.id = NEW.user_id;
+
+        NEW.timezone := COALESCE(NEW.timezone, 'America/Sao_Paulo');
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS campaigns_set_timezone ON public.campaigns;
+CREATE TRIGGER campaigns_set_timezone
+    BEFORE INSERT ON public.campaigns
+    FOR EACH ROW EXECUTE FUNCTION public.set_campaign_timezone();
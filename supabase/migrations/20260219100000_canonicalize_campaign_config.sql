@@ -0,0 +1,110 @@
+-- Rewrites every campaign config to the versioned shape defined in
+-- supabase/functions/_shared/campaign-config.ts (version 1). Older rows mix
+-- camelCase and snake_case keys and sometimes store `pause_time` where
+-- `pause_at` is read. The app still upgrades unversioned configs on read,
+-- so this only has to get the data right once.
+
+CREATE FUNCTION pg_temp.config_int(value TEXT, fallback INTEGER, min_value INTEGER, max_value INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT LEAST(max_value, GREATEST(min_value,
+        CASE
+            WHEN value ~ '^\s*\d+(\.\d+)?\s*$' THEN round(value::NUMERIC)::INTEGER
+            ELSE fallback
+        END))
+$$;
+
+CREATE FUNCTION pg_temp.config_time(value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN value ~ '^([01]\d|2[0-3]):[0-5]\d' THEN left(value, 5)
+        WHEN value ~ '^\d:[0-5]\d' THEN '0' || left(value, 4)
+        ELSE NULL
+    END
+$$;
+
+CREATE FUNCTION pg_temp.canonical_campaign_config(cfg JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    batch JSONB := COALESCE(cfg->'batch_config', '{}'::JSONB);
+    business JSONB := COALESCE(cfg->'business_hours', '{}'::JSONB);
+    pause JSONB;
+    min_interval INTEGER;
+    pause_min INTEGER;
+    pause_at TEXT;
+    resume_date TEXT;
+    resume_time TEXT;
+BEGIN
+    IF jsonb_typeof(cfg->'automatic_pause') = 'object' THEN
+        pause := cfg->'automatic_pause';
+    ELSIF jsonb_typeof(cfg->'automaticPause') = 'object' THEN
+        pause := cfg->'automaticPause';
+    ELSE
+        pause := jsonb_build_object(
+            'enabled', cfg->'automaticPause',
+            'pauseTime', cfg->'pauseTime',
+            'resumeDate', cfg->'resumeDate',
+            'resumeTime', cfg->'resumeTime'
+        );
+    END IF;
+
+    min_interval := pg_temp.config_int(COALESCE(cfg->>'min_interval', cfg->>'minInterval'), 30, 1, 3600);
+    pause_min := pg_temp.config_int(COALESCE(batch->>'pause_min', cfg->>'batchPauseMin'), 60, 1, 86400);
+
+    pause_at := pg_temp.config_time(COALESCE(pause->>'pause_at', pause->>'pauseTime', pause->>'pause_time'));
+    resume_date := substring(COALESCE(pause->>'resume_date', pause->>'resumeDate') FROM '^\d{4}-\d{2}-\d{2}');
+    resume_time := pg_temp.config_time(COALESCE(pause->>'resume_time', pause->>'resumeTime'));
+
+    RETURN jsonb_build_object(
+        'version', 1,
+        'min_interval', min_interval,
+        'max_interval', GREATEST(min_interval,
+            pg_temp.config_int(COALESCE(cfg->>'max_interval', cfg->>'maxInterval'), 60, 1, 3600)),
+        'batch_config', jsonb_build_object(
+            'enabled', COALESCE(
+                (batch->>'enabled')::BOOLEAN,
+                CASE WHEN jsonb_typeof(cfg->'useBatching') = 'boolean' THEN (cfg->>'useBatching')::BOOLEAN END,
+                false
+            ),
+            'size', pg_temp.config_int(COALESCE(batch->>'size', cfg->>'batchSize'), 20, 1, 100000),
+            'pause_min', pause_min,
+            'pause_max', GREATEST(pause_min,
+                pg_temp.config_int(COALESCE(batch->>'pause_max', cfg->>'batchPauseMax'), 120, 1, 86400))
+        ),
+        'business_hours', jsonb_build_object(
+            'strategy', CASE
+                WHEN COALESCE(cfg->>'businessHoursStrategy', business->>'strategy') = 'pause' THEN 'pause'
+                ELSE 'ignore'
+            END,
+            'pause_at', COALESCE(pg_temp.config_time(COALESCE(business->>'pause_at', cfg->>'businessHoursPauseTime')), '18:00'),
+            'resume_at', COALESCE(pg_temp.config_time(COALESCE(business->>'resume_at', cfg->>'businessHoursResumeTime')), '08:00')
+        ),
+        'automatic_pause', jsonb_build_object(
+            'enabled', COALESCE((pause->>'enabled')::BOOLEAN, false)
+                AND pause_at IS NOT NULL AND resume_date IS NOT NULL AND resume_time IS NOT NULL,
+            'pause_at', pause_at,
+            'resume_date', resume_date,
+            'resume_time', resume_time
+        ),
+        'retry_policy', COALESCE(
+            cfg->'retry_policy',
+            '{"max_attempts": 3, "backoff_seconds": 60, "retryable_errors": ["rate_limited", "timeout", "network_error", "provider_unavailable"]}'::JSONB
+        ),
+        'circuit_breaker', COALESCE(
+            cfg->'circuit_breaker',
+            '{"enabled": true, "max_consecutive_failures": 5, "failure_rate_threshold": 0.3, "window_size": 20}'::JSONB
+        )
+    );
+END;
+$$;
+
+UPDATE public.campaigns
+SET config = pg_temp.canonical_campaign_config(COALESCE(config, '{}'::JSONB))
+WHERE config IS NULL OR NOT (config ? 'version');
@@ -0,0 +1,39 @@
+-- Campaign config version 2: `business_hours` holds weekly sending windows
+-- (one list of {start, end} per weekday, Sunday first) instead of a single
+-- pause_at/resume_at pair. Version 1 rows get that pair on all seven days;
+-- a pause before the resume means the window crossed midnight.
+
+CREATE FUNCTION pg_temp.legacy_day_windows(resume_at TEXT, pause_at TEXT)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN pause_at > resume_at THEN
+            jsonb_build_array(jsonb_build_object('start', resume_at, 'end', pause_at))
+        ELSE jsonb_build_array(
+            jsonb_build_object('start', '00:00', 'end', pause_at),
+            jsonb_build_object('start', resume_at, 'end', '23:59')
+        )
+    END
+$$;
+
+UPDATE public.campaigns
+SET config = jsonb_set(
+    config || '{"version": 2}'::JSONB,
+    '{business_hours}',
+    jsonb_build_object(
+        'strategy', COALESCE(config->'business_hours'->>'strategy', 'ignore'),
+        'windows', (
+            SELECT jsonb_agg(day_windows)
+            FROM (
+                SELECT pg_temp.legacy_day_windows(
+                    COALESCE(config->'business_hours'->>'resume_at', '08:00'),
+                    COALESCE(config->'business_hours'->>'pause_at', '18:00')
+                ) AS day_windows
+                FROM generate_series(0, 6)
+            ) AS days
+        )
+    )
+)
+WHERE config->>'version' = '1';
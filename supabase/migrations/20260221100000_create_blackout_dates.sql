@@ -0,0 +1,35 @@
+-- Brazilian national holidays are computed in code
+-- (supabase/functions/_shared/blackout.ts); this only stores whether the
+-- account observes them
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS skip_national_holidays BOOLEAN NOT NULL DEFAULT true;
+
+-- Dates or ranges on which an account's campaigns must not send, both ends
+-- inclusive and read in the campaign's timezone
+CREATE TABLE IF NOT EXISTS public.blackout_dates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS blackout_dates_user_id_idx ON public.blackout_dates (user_id, start_date);
+
+ALTER TABLE public.blackout_dates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own blackout dates"
+    ON public.blackout_dates
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own blackout dates"
+    ON public.blackout_dates
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own blackout dates"
+    ON public.blackout_dates
+    FOR DELETE
+    USING (auth.uid() = user_id);
@@ -0,0 +1,29 @@
+-- Account-wide daily cap and the warm-up ramp of the sender numbers (see
+-- supabase/functions/_shared/daily-caps.ts). The per-campaign cap lives in
+-- campaigns.config.daily_limit.
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS daily_send_limit INTEGER CHECK (daily_send_limit > 0);
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS warmup_enabled BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS warmup_schedule INTEGER[] NOT NULL DEFAULT ARRAY[50, 100, 200, 400, 800];
+
+-- Day 1 of each number's ramp, set by the queue worker on its first send
+ALTER TABLE public.whatsapp_connections ADD COLUMN IF NOT EXISTS warmup_started_on DATE;
+GRANT SELECT (warmup_started_on) ON public.whatsapp_connections TO authenticated;
+
+-- Each account has a single number so far: the ones that already sent are
+-- as old as the account's first send
+UPDATE public.whatsapp_connections c
+SET warmup_started_on = first_send.sent_on
+FROM (
+    SELECT campaigns.user_id, min(a.attempted_at)::date AS sent_on
+    FROM public.campaign_message_attempts a
+    JOIN public.campaigns ON campaigns.id = a.campaign_id
+    WHERE a.status = 'sent'
+    GROUP BY campaigns.user_id
+) first_send
+WHERE c.user_id = first_send.user_id
+  AND c.warmup_started_on IS NULL;
+
+-- The worker counts today's successful sends per campaign and per account
+CREATE INDEX IF NOT EXISTS campaign_message_attempts_sent_idx
+    ON public.campaign_message_attempts (campaign_id, attempted_at)
+    WHERE status = 'sent';
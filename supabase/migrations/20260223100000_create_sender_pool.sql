@@ -0,0 +1,38 @@
+-- Sender number pool: an account can connect several WhatsApp instances and
+-- campaigns rotate their sends across them (see
+-- supabase/functions/_shared/sender-pool.ts). Each whatsapp_connections row
+-- is now one sender number, so the one-per-user constraint goes away.
+ALTER TABLE public.whatsapp_connections DROP CONSTRAINT IF EXISTS whatsapp_connections_user_id_key;
+CREATE INDEX IF NOT EXISTS whatsapp_connections_user_id_idx
+    ON public.whatsapp_connections (user_id, created_at);
+
+ALTER TABLE public.whatsapp_connections ADD COLUMN IF NOT EXISTS label TEXT;
+ALTER TABLE public.whatsapp_connections ADD COLUMN IF NOT EXISTS phone TEXT;
+-- 'failing' is set by the queue worker when the number keeps failing; it
+-- stays out of rotation until the user reactivates it
+ALTER TABLE public.whatsapp_connections ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'paused', 'failing'));
+ALTER TABLE public.whatsapp_connections ADD COLUMN IF NOT EXISTS status_reason TEXT;
+ALTER TABLE public.whatsapp_connections ADD COLUMN IF NOT EXISTS daily_limit INTEGER CHECK (daily_limit > 0);
+-- Minimum seconds between two sends from this number, whatever the campaign
+ALTER TABLE public.whatsapp_connections ADD COLUMN IF NOT EXISTS min_interval_seconds INTEGER NOT NULL DEFAULT 0
+    CHECK (min_interval_seconds >= 0);
+ALTER TABLE public.whatsapp_connections ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.whatsapp_connections ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMP WITH TIME ZONE;
+
+GRANT SELECT (
+    label, phone, status, status_reason, daily_limit, min_interval_seconds,
+    consecutive_failures, last_used_at
+) ON public.whatsapp_connections TO authenticated;
+
+-- Which number sent each message and each attempt
+ALTER TABLE public.campaign_messages ADD COLUMN IF NOT EXISTS sender_id UUID
+    REFERENCES public.whatsapp_connections(id) ON DELETE SET NULL;
+ALTER TABLE public.campaign_message_attempts ADD COLUMN IF NOT EXISTS sender_id UUID
+    REFERENCES public.whatsapp_connections(id) ON DELETE SET NULL;
+
+-- The worker counts today's successful sends per number
+CREATE INDEX IF NOT EXISTS campaign_message_attempts_sender_sent_idx
+    ON public.campaign_message_attempts (sender_id, attempted_at)
+    WHERE status = 'sent' AND sender_id IS NOT NULL;
+
@@ -0,0 +1,116 @@
+-- Account-wide pacing per sender number, shared by all of the account's
+-- campaigns (see supabase/functions/_shared/throughput.ts)
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS sender_min_spacing_seconds INTEGER NOT NULL DEFAULT 0
+    CHECK (sender_min_spacing_seconds >= 0);
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS sender_hourly_limit INTEGER CHECK (sender_hourly_limit > 0);
+-- Last slot reserved by accounts that send through the platform's default
+-- provider; pool numbers keep theirs in whatsapp_connections.last_used_at
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS last_send_at TIMESTAMP WITH TIME ZONE;
+
+-- A number's own ceiling, on top of the account's
+ALTER TABLE public.whatsapp_connections ADD COLUMN IF NOT EXISTS hourly_limit INTEGER CHECK (hourly_limit > 0);
+GRANT SELECT (hourly_limit) ON public.whatsapp_connections TO authenticated;
+
+-- Slots handed out by reserve_send_slot in the last hour, one per send of
+-- a number (sender_id) or of the account's default sender (NULL). The
+-- hourly ceiling counts these rather than the recorded sends, which only
+-- show up once the send finished.
+CREATE TABLE IF NOT EXISTS public.send_slot_reservations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    sender_id UUID REFERENCES public.whatsapp_connections(id) ON DELETE CASCADE,
+    reserved_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS send_slot_reservations_sender_idx
+    ON public.send_slot_reservations (user_id, sender_id, reserved_at);
+
+-- Only the queue worker (service role) reads or writes them
+ALTER TABLE public.send_slot_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Reserves the next send of a sender number (p_sender_id) or of the
+-- account's default sender (NULL). The sender row is locked first, so
+-- workers of different campaigns take turns, and the hourly ceiling
+-- counts the slots reserved under that lock. Returns 0, stamps the sender
+-- and records the slot when the send may go out now, otherwise the
+-- seconds to wait for the spacing or for the hourly ceiling to free one.
+CREATE OR REPLACE FUNCTION public.reserve_send_slot(
+    p_user_id UUID,
+    p_sender_id UUID DEFAULT NULL,
+    p_min_spacing_seconds NUMERIC DEFAULT 0,
+    p_hourly_limit INTEGER DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    last_send TIMESTAMPTZ;
+    oldest_in_hour TIMESTAMPTZ;
+    wait_seconds NUMERIC := 0;
+BEGIN
+    IF p_sender_id IS NOT NULL THEN
+        SELECT w.last_used_at INTO last_send
+        FROM public.whatsapp_connections w
+        WHERE w.id = p_sender_id AND w.user_id = p_user_id
+        FOR UPDATE;
+    ELSE
+        SELECT p.last_send_at INTO last_send
+        FROM public.profiles p
+        WHERE p.id = p_user_id
+        FOR UPDATE;
+    END IF;
+
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    IF p_min_spacing_seconds > 0 AND last_send IS NOT NULL THEN
+        wait_seconds := GREATEST(wait_seconds, EXTRACT(EPOCH FROM (
+            last_send
+            + make_interval(secs => p_min_spacing_seconds::DOUBLE PRECISION)
+            - now()
+        )));
+    END IF;
+
+    -- Older slots no longer count towards any ceiling
+    DELETE FROM public.send_slot_reservations r
+    WHERE r.user_id = p_user_id
+      AND r.sender_id IS NOT DISTINCT FROM p_sender_id
+      AND r.reserved_at <= now() - INTERVAL '1 hour';
+
+    -- A slot frees up when the oldest of the last p_hourly_limit slots
+    -- turns an hour old
+    IF p_hourly_limit IS NOT NULL THEN
+        SELECT r.reserved_at INTO oldest_in_hour
+        FROM public.send_slot_reservations r
+        WHERE r.user_id = p_user_id
+          AND r.sender_id IS NOT DISTINCT FROM p_sender_id
+        ORDER BY r.reserved_at DESC
+        OFFSET p_hourly_limit - 1
+        LIMIT 1;
+
+        IF oldest_in_hour IS NOT NULL THEN
+            wait_seconds := GREATEST(wait_seconds, EXTRACT(EPOCH FROM (
+                oldest_in_hour + INTERVAL '1 hour' - now()
+            )));
+        END IF;
+    END IF;
+
+    IF wait_seconds > 0 THEN
+        RETURN wait_seconds;
+    END IF;
+
+    IF p_sender_id IS NOT NULL THEN
+        UPDATE public.whatsapp_connections SET last_used_at = now() WHERE id = p_sender_id;
+    ELSE
+        UPDATE public.profiles SET last_send_at = now() WHERE id = p_user_id;
+    END IF;
+    INSERT INTO public.send_slot_reservations (user_id, sender_id)
+    VALUES (p_user_id, p_sender_id);
+    RETURN 0;
+END;
+$$;
+
+-- Only the queue worker (service role) reserves slots
+REVOKE EXECUTE ON FUNCTION public.reserve_send_slot(UUID, UUID, NUMERIC, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_send_slot(UUID, UUID, NUMERIC, INTEGER) TO service_role;
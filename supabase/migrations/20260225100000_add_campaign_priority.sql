@@ -0,0 +1,5 @@
+-- How the queue worker orders running campaigns against each other (see
+-- supabase/functions/_shared/campaign-priority.ts). It can be changed
+-- while the campaign runs; the worker picks it up before the next message.
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'normal'
+    CHECK (priority IN ('urgent', 'normal', 'low'));
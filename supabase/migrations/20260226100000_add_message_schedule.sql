@@ -0,0 +1,123 @@
+-- Planned send time of every message, stored when the campaign is launched
+-- from the same schedule the confirmation step shows. The queue worker
+-- sends a message once it is due; rows planned before this column existed
+-- keep the worker's own pacing.
+ALTER TABLE public.campaign_messages ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS campaign_messages_campaign_scheduled_idx
+    ON public.campaign_messages (campaign_id, scheduled_for)
+    WHERE status IN ('aguardando', 'pending');
+
+-- Replaces the remaining plan of a campaign: the messages still waiting get
+-- p_times in the order they were planned (unplanned ones last). Rows past
+-- the end of the array, or every row for an empty array, lose their time,
+-- which is how a paused campaign drops its ETAs. Runs with the caller's
+-- rights, so users can only reschedule their own campaigns.
+CREATE OR REPLACE FUNCTION public.apply_message_schedule(
+    p_campaign_id UUID,
+    p_times TIMESTAMPTZ[]
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    updated INTEGER;
+BEGIN
+    WITH remaining AS (
+        SELECT
+            cm.id,
+            row_number() OVER (ORDER BY cm.scheduled_for ASC NULLS LAST, cm.id) AS position
+        FROM public.campaign_messages cm
+        WHERE cm.campaign_id = p_campaign_id
+          AND cm.status IN ('aguardando', 'pending')
+    )
+    UPDATE public.campaign_messages cm
+    SET scheduled_for = p_times[remaining.position]
+    FROM remaining
+    WHERE cm.id = remaining.id;
+
+    GET DIAGNOSTICS updated = ROW_COUNT;
+    RETURN updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_message_schedule(UUID, TIMESTAMPTZ[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.apply_message_schedule(UUID, TIMESTAMPTZ[]) TO authenticated, service_role;
+
+-- Same claim as before, but planned messages wait for their time and go
+-- out in the planned order
+CREATE OR REPLACE FUNCTION public.claim_next_campaign_message(
+    p_campaign_id UUID,
+    p_min_gap_seconds NUMERIC DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    campaign_id UUID,
+    contact_id UUID,
+    status TEXT,
+    sent_at TIMESTAMPTZ,
+    attempt_count INTEGER,
+    contacts JSONB
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    claimed_id UUID;
+BEGIN
+    PERFORM 1
+    FROM public.campaigns c
+    WHERE c.id = p_campaign_id
+    FOR UPDATE SKIP LOCKED;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    IF p_min_gap_seconds > 0 AND EXISTS (
+        SELECT 1
+        FROM public.campaign_messages cm
+        WHERE cm.campaign_id = p_campaign_id
+          AND cm.sent_at > now() - make_interval(secs => p_min_gap_seconds::DOUBLE PRECISION)
+    ) THEN
+        RETURN;
+    END IF;
+
+    SELECT cm.id INTO claimed_id
+    FROM public.campaign_messages cm
+    WHERE cm.campaign_id = p_campaign_id
+      AND cm.status IN ('aguardando', 'pending')
+      AND (cm.next_attempt_at IS NULL OR cm.next_attempt_at <= now())
+      AND (cm.scheduled_for IS NULL OR cm.scheduled_for <= now())
+    ORDER BY cm.scheduled_for ASC NULLS FIRST, cm.next_attempt_at ASC NULLS FIRST
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF claimed_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    UPDATE public.campaign_messages cm
+    SET status = 'sending', sent_at = now()
+    WHERE cm.id = claimed_id;
+
+    RETURN QUERY
+    SELECT
+        cm.id,
+        cm.campaign_id,
+        cm.contact_id,
+        cm.status,
+        cm.sent_at,
+        cm.attempt_count,
+        CASE WHEN ct.id IS NULL THEN NULL ELSE jsonb_build_object(
+            'name', ct.name,
+            'phone', ct.phone,
+            'message', ct.message,
+            'variables', ct.variables,
+            'media_url', ct.media_url
+        ) END
+    FROM public.campaign_messages cm
+    LEFT JOIN public.contacts ct ON ct.id = cm.contact_id
+    WHERE cm.id = claimed_id;
+END;
+$$;
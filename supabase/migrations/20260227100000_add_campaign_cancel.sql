@@ -0,0 +1,39 @@
+-- Canceling stops a campaign for good while keeping what it already sent.
+-- The status check allows 'canceled' since the circuit breaker migration.
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS canceled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS canceled_by UUID
+    REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Cancels the campaign and every message still waiting in its queue, in
+-- one go so the worker can't claim one in between. A message the worker
+-- is sending at that moment still finishes. Runs with the caller's rights
+-- and records them as the one who canceled. Returns how many messages
+-- were canceled.
+CREATE OR REPLACE FUNCTION public.cancel_campaign(p_campaign_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    canceled_count INTEGER;
+BEGIN
+    UPDATE public.campaigns
+    SET status = 'canceled', canceled_at = now(), canceled_by = auth.uid()
+    WHERE id = p_campaign_id
+      AND status NOT IN ('finished', 'failed', 'canceled');
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Campaign % not found or already over', p_campaign_id;
+    END IF;
+
+    UPDATE public.campaign_messages
+    SET status = 'canceled', scheduled_for = NULL, next_attempt_at = NULL
+    WHERE campaign_id = p_campaign_id
+      AND status IN ('aguardando', 'pending');
+
+    GET DIAGNOSTICS canceled_count = ROW_COUNT;
+    RETURN canceled_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_campaign(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_campaign(UUID) TO authenticated;
@@ -0,0 +1,87 @@
+-- Recurring campaigns. The recurring campaign itself never sends: it keeps
+-- the configuration, the recipients (as 'template' messages) and the rule
+-- (see supabase/functions/_shared/recurrence.ts). At each occurrence the
+-- queue worker spawns a run, an ordinary campaign pointing back to it.
+ALTER TABLE public.campaigns DROP CONSTRAINT IF EXISTS campaigns_status_check;
+ALTER TABLE public.campaigns ADD CONSTRAINT campaigns_status_check
+    CHECK (status IN ('scheduled', 'pending', 'active', 'processing', 'paused', 'finished', 'failed', 'canceled', 'recurring'));
+
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS recurrence JSONB;
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS next_run_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS occurrence_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS parent_campaign_id UUID
+    REFERENCES public.campaigns(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS campaigns_parent_campaign_id_idx
+    ON public.campaigns (parent_campaign_id);
+CREATE INDEX IF NOT EXISTS campaigns_next_run_at_idx
+    ON public.campaigns (next_run_at)
+    WHERE status = 'recurring';
+
+-- Spawns the run that is due for a recurring campaign: a copy of its
+-- configuration with one message per template recipient, ready for the
+-- worker. p_next_run_at is the occurrence after this one, worked out by
+-- the caller from the rule; NULL ends the recurrence. The row lock keeps
+-- two workers from spawning the same occurrence. Returns the run's id, or
+-- NULL when nothing was due.
+CREATE OR REPLACE FUNCTION public.spawn_recurring_run(
+    p_parent_id UUID,
+    p_next_run_at TIMESTAMPTZ
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    parent public.campaigns%ROWTYPE;
+    run_id UUID;
+    recipients INTEGER;
+BEGIN
+    SELECT * INTO parent
+    FROM public.campaigns
+    WHERE id = p_parent_id
+      AND status = 'recurring'
+      AND next_run_at <= now()
+    FOR UPDATE SKIP LOCKED;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.campaigns (
+        name, user_id, status, scheduled_at, config, media_url, media_type,
+        media_filename, timezone, priority, total_messages, sent_messages,
+        parent_campaign_id
+    )
+    VALUES (
+        parent.name || ' — ' || to_char(
+            parent.next_run_at AT TIME ZONE COALESCE(parent.timezone, 'America/Sao_Paulo'),
+            'DD/MM/YYYY HH24:MI'
+        ),
+        parent.user_id, 'active', parent.next_run_at, parent.config,
+        parent.media_url, parent.media_type, parent.media_filename,
+        parent.timezone, parent.priority, 0, 0, parent.id
+    )
+    RETURNING id INTO run_id;
+
+    INSERT INTO public.campaign_messages (campaign_id, contact_id, status)
+    SELECT run_id, cm.contact_id, 'aguardando'
+    FROM public.campaign_messages cm
+    WHERE cm.campaign_id = parent.id
+      AND cm.status = 'template';
+
+    GET DIAGNOSTICS recipients = ROW_COUNT;
+    UPDATE public.campaigns SET total_messages = recipients WHERE id = run_id;
+
+    UPDATE public.campaigns
+    SET occurrence_count = occurrence_count + 1,
+        next_run_at = p_next_run_at,
+        status = CASE WHEN p_next_run_at IS NULL THEN 'finished' ELSE status END,
+        finished_at = CASE WHEN p_next_run_at IS NULL THEN now() ELSE finished_at END
+    WHERE id = parent.id;
+
+    RETURN run_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.spawn_recurring_run(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.spawn_recurring_run(UUID, TIMESTAMPTZ) TO service_role;
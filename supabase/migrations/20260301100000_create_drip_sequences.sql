@@ -0,0 +1,140 @@
+-- Drip sequences: follow-ups sent to each enrolled contact one step at a
+-- time (see supabase/functions/_shared/sequences.ts). The queue worker
+-- sends the step an enrollment is due for and schedules the next one; the
+-- inbound webhook takes contacts that reply or opt out of the sequence.
+CREATE TABLE IF NOT EXISTS public.sequences (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    -- A paused sequence keeps its enrollments where they are
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused')),
+    -- IANA zone the step windows are read in
+    timezone TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS sequences_user_id_idx ON public.sequences (user_id, created_at);
+
+CREATE TABLE IF NOT EXISTS public.sequence_steps (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sequence_id UUID NOT NULL REFERENCES public.sequences(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL CHECK (position > 0),
+    -- Template with {{placeholders}} and spintax, like campaign messages
+    message TEXT NOT NULL,
+    -- Wait after the previous step, or after enrolling for the first one
+    delay_minutes INTEGER NOT NULL DEFAULT 0 CHECK (delay_minutes >= 0),
+    -- Weekly windows in the campaign config format; NULL for any time
+    send_window JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (sequence_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS public.sequence_enrollments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    sequence_id UUID NOT NULL REFERENCES public.sequences(id) ON DELETE CASCADE,
+    contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'active'
+        CHECK (status IN ('active', 'completed', 'replied', 'opted_out', 'failed', 'removed')),
+    -- How many steps were sent; the next one is current_step + 1
+    current_step INTEGER NOT NULL DEFAULT 0,
+    -- When the next step is due; NULL while it is being sent or once out
+    next_step_at TIMESTAMP WITH TIME ZONE,
+    -- Failed sends of the next step, for the retry backoff
+    attempt_count INTEGER NOT NULL DEFAULT 0,
+    last_sent_at TIMESTAMP WITH TIME ZONE,
+    error_message TEXT,
+    enrolled_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    exited_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (sequence_id, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS sequence_enrollments_due_idx
+    ON public.sequence_enrollments (next_step_at)
+    WHERE status = 'active';
+
+-- Every step sent, or that failed to send, to an enrolled contact
+CREATE TABLE IF NOT EXISTS public.sequence_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    enrollment_id UUID NOT NULL REFERENCES public.sequence_enrollments(id) ON DELETE CASCADE,
+    step_id UUID REFERENCES public.sequence_steps(id) ON DELETE SET NULL,
+    position INTEGER NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+    rendered_message TEXT,
+    provider_message_id TEXT,
+    error_code TEXT,
+    error_message TEXT,
+    -- The number it went out from, counted in that number's daily limit
+    sender_id UUID REFERENCES public.whatsapp_connections(id) ON DELETE SET NULL,
+    sent_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS sequence_messages_enrollment_id_idx
+    ON public.sequence_messages (enrollment_id, sent_at);
+
+CREATE INDEX IF NOT EXISTS sequence_messages_sender_id_idx
+    ON public.sequence_messages (sender_id, sent_at);
+
+-- Whether the sequence belongs to the caller, for the policies below
+CREATE OR REPLACE FUNCTION public.owns_sequence(p_sequence_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.sequences
+        WHERE id = p_sequence_id AND user_id = auth.uid()
+    );
+$$;
+
+ALTER TABLE public.sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sequence_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sequence_enrollments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sequence_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own sequences"
+    ON public.sequences
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage the steps of their own sequences"
+    ON public.sequence_steps
+    FOR ALL
+    USING (public.owns_sequence(sequence_id))
+    WITH CHECK (public.owns_sequence(sequence_id));
+
+-- Only the user's own contacts can be enrolled, or a sequence could be
+-- used to message another account's contacts
+CREATE POLICY "Users can manage the enrollments of their own sequences"
+    ON public.sequence_enrollments
+    FOR ALL
+    USING (public.owns_sequence(sequence_id))
+    WITH CHECK (
+        public.owns_sequence(sequence_id)
+        AND EXISTS (
+            SELECT 1 FROM public.contacts c
+            WHERE c.id = sequence_enrollments.contact_id
+            AND c.user_id = auth.uid()
+        )
+    );
+
+-- Written by the queue worker (service role); users only read them
+CREATE POLICY "Users can view the messages of their own sequences"
+    ON public.sequence_messages
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.sequence_enrollments e
+            WHERE e.id = sequence_messages.enrollment_id
+            AND public.owns_sequence(e.sequence_id)
+        )
+    );
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'sequence_enrollments'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.sequence_enrollments;
+    END IF;
+END $$;
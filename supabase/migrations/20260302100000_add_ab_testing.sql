@@ -0,0 +1,193 @@
+-- A/B tests: a campaign may carry two to five variants of its message (see
+-- supabase/functions/_shared/ab-testing.ts). Each recipient is given a
+-- variant at launch. With a test slice (`ab_test`), the recipients outside
+-- the sample wait as 'ab_holdout' until the queue worker picks the winner.
+CREATE TABLE IF NOT EXISTS public.campaign_variants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    campaign_id UUID NOT NULL REFERENCES public.campaigns(id) ON DELETE CASCADE,
+    -- 'A' to 'E'
+    label TEXT NOT NULL,
+    -- Template with {{placeholders}} and spintax; replaces the contact's
+    -- own message
+    message TEXT NOT NULL,
+    split_percent INTEGER NOT NULL CHECK (split_percent BETWEEN 1 AND 100),
+    is_winner BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (campaign_id, label)
+);
+
+ALTER TABLE public.campaign_messages ADD COLUMN IF NOT EXISTS variant_id UUID
+    REFERENCES public.campaign_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS campaign_messages_variant_id_idx
+    ON public.campaign_messages (variant_id);
+
+-- Held recipients sent the winner, kept apart from the sample the winner
+-- was picked on
+ALTER TABLE public.campaign_messages ADD COLUMN IF NOT EXISTS ab_rollout BOOLEAN NOT NULL DEFAULT false;
+
+-- Sample size, evaluation window and winner metric; NULL sends the
+-- variants to every recipient right away
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS ab_test JSONB;
+-- When the winner is picked, set once the sample has been sent
+ALTER TABLE public.campaigns ADD COLUMN IF NOT EXISTS ab_decide_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.campaign_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage the variants of their own campaigns"
+    ON public.campaign_variants
+    FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.campaigns c
+            WHERE c.id = campaign_variants.campaign_id
+            AND c.user_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.campaigns c
+            WHERE c.id = campaign_variants.campaign_id
+            AND c.user_id = auth.uid()
+        )
+    );
+
+-- Same claim as before, but a message with a variant goes out with the
+-- variant's text instead of the contact's
+CREATE OR REPLACE FUNCTION public.claim_next_campaign_message(
+    p_campaign_id UUID,
+    p_min_gap_seconds NUMERIC DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    campaign_id UUID,
+    contact_id UUID,
+    status TEXT,
+    sent_at TIMESTAMPTZ,
+    attempt_count INTEGER,
+    contacts JSONB
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    claimed_id UUID;
+BEGIN
+    PERFORM 1
+    FROM public.campaigns c
+    WHERE c.id = p_campaign_id
+    FOR UPDATE SKIP LOCKED;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    IF p_min_gap_seconds > 0 AND EXISTS (
+        SELECT 1
+        FROM public.campaign_messages cm
+        WHERE cm.campaign_id = p_campaign_id
+          AND cm.sent_at > now() - make_interval(secs => p_min_gap_seconds::DOUBLE PRECISION)
+    ) THEN
+        RETURN;
+    END IF;
+
+    SELECT cm.id INTO claimed_id
+    FROM public.campaign_messages cm
+    WHERE cm.campaign_id = p_campaign_id
+      AND cm.status IN ('aguardando', 'pending')
+      AND (cm.next_attempt_at IS NULL OR cm.next_attempt_at <= now())
+      AND (cm.scheduled_for IS NULL OR cm.scheduled_for <= now())
+    ORDER BY cm.scheduled_for ASC NULLS FIRST, cm.next_attempt_at ASC NULLS FIRST
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF claimed_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    UPDATE public.campaign_messages cm
+    SET status = 'sending', sent_at = now()
+    WHERE cm.id = claimed_id;
+
+    RETURN QUERY
+    SELECT
+        cm.id,
+        cm.campaign_id,
+        cm.contact_id,
+        cm.status,
+        cm.sent_at,
+        cm.attempt_count,
+        CASE WHEN ct.id IS NULL THEN NULL ELSE jsonb_build_object(
+            'name', ct.name,
+            'phone', ct.phone,
+            'message', COALESCE(v.message, ct.message),
+            'variables', ct.variables,
+            'media_url', ct.media_url
+        ) END
+    FROM public.campaign_messages cm
+    LEFT JOIN public.contacts ct ON ct.id = cm.contact_id
+    LEFT JOIN public.campaign_variants v ON v.id = cm.variant_id
+    WHERE cm.id = claimed_id;
+END;
+$$;
+
+-- Held recipients are part of the queue a cancel clears
+CREATE OR REPLACE FUNCTION public.cancel_campaign(p_campaign_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    canceled_count INTEGER;
+BEGIN
+    UPDATE public.campaigns
+    SET status = 'canceled', canceled_at = now(), canceled_by = auth.uid()
+    WHERE id = p_campaign_id
+      AND status NOT IN ('finished', 'failed', 'canceled');
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Campaign % not found or already over', p_campaign_id;
+    END IF;
+
+    UPDATE public.campaign_messages
+    SET status = 'canceled', scheduled_for = NULL, next_attempt_at = NULL
+    WHERE campaign_id = p_campaign_id
+      AND status IN ('aguardando', 'pending', 'ab_holdout');
+
+    GET DIAGNOSTICS canceled_count = ROW_COUNT;
+    RETURN canceled_count;
+END;
+$$;
+
+-- Marks the winning variant and queues the held recipients with it, in
+-- one go so a second worker finds nothing left to release. Returns how
+-- many recipients were queued.
+CREATE OR REPLACE FUNCTION public.release_ab_winner(
+    p_campaign_id UUID,
+    p_variant_id UUID
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    released INTEGER;
+BEGIN
+    UPDATE public.campaign_messages
+    SET status = 'aguardando', variant_id = p_variant_id, ab_rollout = true,
+        scheduled_for = NULL
+    WHERE campaign_id = p_campaign_id
+      AND status = 'ab_holdout';
+
+    GET DIAGNOSTICS released = ROW_COUNT;
+
+    IF released > 0 THEN
+        UPDATE public.campaign_variants
+        SET is_winner = (id = p_variant_id)
+        WHERE campaign_id = p_campaign_id;
+    END IF;
+
+    RETURN released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_ab_winner(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_ab_winner(UUID, UUID) TO service_role;